@@ -6,20 +6,38 @@
 // Main command-line interface for Taylored
 // See printUsageAndExit() for detailed usage information.
 
-import * as fs from 'fs/promises'; // Using fs/promises for async file operations
 import * as path from 'path';
-import { TAYLORED_DIR_NAME } from './lib/constants';
-import { handleApplyOperation } from './lib/apply-logic';
-import { handleSaveOperation } from './lib/handlers/save-handler';
-import { handleListOperation } from './lib/handlers/list-handler';
-import { handleOffsetCommand } from './lib/handlers/offset-handler';
-import { handleAutomaticOperation } from './lib/handlers/automatic-handler';
 import {
-  resolveTayloredFileName,
-  printUsageAndExit,
-  findPatchesInDirectory,
-  sortPatchesNumerically,
-} from './lib/utils';
+  TAYLORED_CONFIG_FILE_NAME,
+  TAYLORED_TRUSTED_KEYS_DIR_NAME,
+  TAYLORED_SKIP_GIT_HOOKS_ENV,
+} from './lib/constants';
+import {
+  loadProjectConfig,
+  getTayloredDirName,
+  TayloredConfig,
+} from './lib/config';
+import * as api from './lib/api';
+import { PatchEngine, PATCH_ENGINES } from './lib/patch-engine';
+import {
+  CommandRegistry,
+  CommandInvocation,
+  ParsedCommandLine,
+  ArgumentSpec,
+  OptionSpec,
+} from './lib/command-registry';
+import {
+  enableJsonOutput,
+  isJsonOutput,
+  writeJsonResult,
+  writeJsonError,
+} from './lib/output';
+import { findRepositoryRoot, printUsageAndExit } from './lib/utils';
+import {
+  GIT_HOOK_NAMES,
+  isGitHookName,
+} from './lib/handlers/git-hooks-handler';
+import { SAVE_SPLIT_MODES, SaveSplitMode } from './lib/handlers/save-handler';
 
 // <taylored number="9001">
 // Import new Taysell handlers
@@ -28,574 +46,851 @@ import { handleCreateTaysell } from './lib/handlers/create-taysell-handler';
 import { handleBuyCommand } from './lib/handlers/buy-handler';
 // </taylored>
 
-// Add import for PatchAnalyzer
-import { PatchAnalyzer } from './lib/PatchAnalyzer';
+// Arguments and options shared by the patch commands.
+const PATCH_ARGUMENT: ArgumentSpec = {
+  name: 'taylored_file_name_or_path',
+  description:
+    'A patch in the patch directory (the extension may be omitted), or a directory of patches applied as a group.',
+};
+const ENGINE_OPTION: OptionSpec = {
+  flag: '--engine',
+  type: 'string',
+  choices: PATCH_ENGINES,
+  description:
+    "The patch engine: 'git' (default) or 'native', which needs no repository.",
+};
+const REQUIRE_SIGNATURE_OPTION: OptionSpec = {
+  flag: '--require-signature',
+  type: 'boolean',
+  description: `Refuse patches without a valid signature by a trusted key (default: 'signing.required' from ${TAYLORED_CONFIG_FILE_NAME}).`,
+};
 
 /**
- * Main command-line interface for the Taylored application.
- *
- * This function serves as the entry point for the Taylored CLI. It parses command-line
- * arguments provided via `process.argv`, determines the requested operation (mode),
- * and then dispatches to the appropriate handler function.
- *
- * Operations include saving changes as patches, applying or removing patches,
- * listing available patches, managing patch offsets, automatically generating patches
- * from marked code blocks, and Taysell commercial patch operations like setting up
- * a backend, creating sellable patches, and buying patches.
- *
- * For detailed information on each command, its arguments, and usage, please refer
- * to DOCUMENTATION.md.
- *
- * The function performs an initial check for the presence of a `.git` directory
- * in the current working directory for commands that operate on Git history or
- * require a Git repository context (e.g., --save, --add, --list, --offset, --automatic).
- *
- * It handles argument validation for each command and calls utility functions
- * like `printUsageAndExit` for errors or help requests.
+ * Runs `--add`, `--remove`, `--verify-add` or `--verify-remove`.
  *
- * @async
- * @returns {Promise<void>} A promise that resolves when the command processing is complete,
- * or rejects if an unhandled error occurs.
- * @throws {Error} Throws an error if critical issues prevent command execution,
- * though most specific errors are handled by calling `printUsageAndExit`
- * and exiting the process.
+ * @param {CommandInvocation} invocation - The parsed command line.
+ * @param {boolean} reverse - True for `--remove` and `--verify-remove`.
+ * @param {boolean} verifyOnly - True for `--verify-add` and `--verify-remove`.
+ * @returns {Promise<unknown>} The outcome of each patch, or the preview.
  */
-async function main(): Promise<void> {
-  const rawArgs: string[] = process.argv.slice(2);
-  const CWD = process.cwd();
-
-  if (rawArgs.length === 0) {
-    printUsageAndExit(undefined, true); // Consider updating usage for new commands
-    return;
+async function runPatchCommand(
+  invocation: CommandInvocation,
+  reverse: boolean,
+  verifyOnly: boolean,
+): Promise<unknown> {
+  const { CWD, options } = invocation;
+  const userInputFileName = invocation.args.taylored_file_name_or_path!;
+  const engine = (options['--engine'] as PatchEngine | undefined) || 'git';
+  const threeWay = options['--3way'] === true;
+  // Unset unless given, so that 'signing.required' applies.
+  const requireSignature = options['--require-signature'] ? true : undefined;
+  if (threeWay && engine === 'native') {
+    printUsageAndExit(
+      'CRITICAL ERROR: --3way merges with Git and cannot be combined with --engine native.',
+    );
+  }
+  if (options['--preview']) {
+    if (threeWay) {
+      printUsageAndExit(
+        'CRITICAL ERROR: --preview cannot be combined with --3way.',
+      );
+    }
+    // Computes the result in memory; nothing is written.
+    return api.preview(userInputFileName, { cwd: CWD, reverse, engine });
   }
 
-  const mode = rawArgs[0];
-  let argument: string | undefined;
-  let branchName: string | undefined; // Re-used for some commands, ensure clarity
+  // A single patch or a directory of patches (a group). The result is filled
+  // in as patches are processed, so it is complete on failure too.
+  const patchResult: api.PatchCommandResult = {
+    target: userInputFileName,
+    group: false,
+    patches: [],
+  };
+  invocation.result = patchResult;
+  if (verifyOnly) {
+    return api.verify(userInputFileName, {
+      cwd: CWD,
+      reverse,
+      engine,
+      requireSignature,
+      result: patchResult,
+    });
+  }
+  const patchOptions: api.PatchOptions = {
+    cwd: CWD,
+    engine,
+    threeWay,
+    rollback: options['--no-rollback'] !== true,
+    requireSignature,
+    result: patchResult,
+  };
+  return reverse
+    ? api.remove(userInputFileName, patchOptions)
+    : api.add(userInputFileName, patchOptions);
+}
 
-  // List of modes that require a .git directory check (original list)
-  // Add '--upgrade' here
-  const relevantModesForGitCheck = [
-    '--add',
-    '--remove',
-    '--verify-add',
-    '--verify-remove',
-    '--save',
-    '--list',
-    '--offset',
-    '--automatic',
-    '--upgrade',
-  ];
+/**
+ * Reads all of standard input, e.g. the refs git passes to a pre-push hook.
+ *
+ * @returns {Promise<string>} The input; empty on a terminal.
+ */
+async function readStandardInput(): Promise<string> {
+  if (process.stdin.isTTY) {
+    return '';
+  }
+  let input = '';
+  for await (const chunk of process.stdin) {
+    input += chunk.toString();
+  }
+  return input;
+}
 
-  // Only run .git check if it's one of the original commands
-  if (relevantModesForGitCheck.includes(mode)) {
-    const gitDirPath = path.join(CWD, '.git');
-    try {
-      const gitDirStats = await fs.stat(gitDirPath);
-      if (!gitDirStats.isDirectory()) {
-        printUsageAndExit(
-          `CRITICAL ERROR: A '.git' entity exists at '${gitDirPath}', but it is not a directory. This script must be run from the root of a Git repository for the command '${mode}'.`,
-        );
-      }
-    } catch (error: any) {
-      if (error.code === 'ENOENT') {
-        printUsageAndExit(
-          `CRITICAL ERROR: No '.git' directory found in '${CWD}'. The command '${mode}' must be run from the root of a Git repository.`,
+/**
+ * Prints the report of `--upgrade`.
+ *
+ * @param {api.VerificationResult[]} results - The outcome for each file.
+ */
+function printUpgradeReport(results: api.VerificationResult[]): void {
+  console.log(`\n=== Report for --upgrade command ===`);
+  results.forEach((result) => {
+    console.log(`File: ${result.file}`);
+    console.log(`Status: ${result.status.toUpperCase()}`);
+    console.log(`Message: ${result.message}`);
+    if (result.updated) {
+      console.log(`Patch updated: YES`);
+    } else {
+      console.log(`Patch updated: NO`);
+    }
+    if (result.blocks && result.blocks.length > 0) {
+      console.log(`  Modification blocks checked: ${result.blocks.length}`);
+      result.blocks.forEach((blockCheck, index) => {
+        console.log(`    Block ${index + 1} (${blockCheck.blockType}):`);
+        console.log(
+          `      Top Frame: ${blockCheck.topFrame.intact ? 'INTACT' : 'MODIFIED/MISSING'}`,
         );
-      } else {
-        printUsageAndExit(
-          `CRITICAL ERROR: Could not verify '.git' directory presence for '${mode}' in '${CWD}'. Details: ${error.message}`,
+        if (!blockCheck.topFrame.intact) {
+          console.log(`        Expected: "${blockCheck.topFrame.expected}"`);
+          console.log(`        Actual:    "${blockCheck.topFrame.actual}"`);
+        }
+        console.log(
+          `      Bottom Frame: ${blockCheck.bottomFrame.intact ? 'INTACT' : 'MODIFIED/MISSING'}`,
         );
-      }
+        if (!blockCheck.bottomFrame.intact) {
+          console.log(`        Expected: "${blockCheck.bottomFrame.expected}"`);
+          console.log(`        Actual:    "${blockCheck.bottomFrame.actual}"`);
+        }
+      });
     }
-  }
+    console.log('-----------------------------------');
+  });
+  console.log(`\n--upgrade command completed.`);
+}
 
-  try {
-    if (mode === '--save') {
-      // ... (existing --save logic)
-      if (rawArgs.length !== 2) {
-        printUsageAndExit(
-          'CRITICAL ERROR: --save option requires exactly one <branch_name> argument.',
-        );
-      }
-      argument = rawArgs[1];
-      if (argument.startsWith('--')) {
-        printUsageAndExit(
-          `CRITICAL ERROR: Invalid branch name '${argument}' after --save. It cannot start with '--'.`,
-        );
-      }
-      await handleSaveOperation(argument, CWD);
-    } else if (mode === '--list') {
-      // ... (existing --list logic)
-      if (rawArgs.length !== 1) {
-        printUsageAndExit(
-          'CRITICAL ERROR: --list option does not take any arguments.',
-        );
-      }
-      await handleListOperation(CWD);
-    } else if (mode === '--offset') {
-      // ... (existing --offset logic)
-      if (rawArgs.length < 2) {
-        printUsageAndExit(
-          'CRITICAL ERROR: --offset option requires at least one <taylored_file_name> argument.',
-        );
-      }
-      argument = rawArgs[1];
-      if (argument.startsWith('--')) {
-        printUsageAndExit(
-          `CRITICAL ERROR: Invalid taylored file name '${argument}' after --offset. It cannot start with '--'.`,
-        );
-      }
-      if (
-        argument.includes(path.sep) ||
-        argument.includes('/') ||
-        argument.includes('\\')
-      ) {
-        printUsageAndExit(
-          `CRITICAL ERROR: <taylored_file_name> ('${argument}') must be a simple filename without path separators. It is assumed to be in the '${TAYLORED_DIR_NAME}/' directory.`,
-        );
-      }
-      branchName = undefined;
-      let currentArgIndex = 2;
-      if (
-        rawArgs.length > currentArgIndex &&
-        !rawArgs[currentArgIndex].startsWith('--')
-      ) {
-        branchName = rawArgs[currentArgIndex];
-        if (branchName.startsWith('--')) {
+/**
+ * Declares every command of the CLI: its arguments, options and
+ * implementation. Parsing, validation and `taylored <command> --help` are
+ * derived from these declarations (see lib/command-registry.ts).
+ *
+ * @returns {CommandRegistry} The commands.
+ */
+function createCommandRegistry(): CommandRegistry {
+  const registry = new CommandRegistry();
+  const notNative = ({ options }: ParsedCommandLine) =>
+    options['--engine'] !== 'native';
+  const applyOptions: OptionSpec[] = [
+    ENGINE_OPTION,
+    REQUIRE_SIGNATURE_OPTION,
+    {
+      flag: '--no-rollback',
+      type: 'boolean',
+      description:
+        'On a directory, keep the patches applied before a failure instead of rolling them back.',
+    },
+    {
+      flag: '--3way',
+      type: 'boolean',
+      description:
+        'Merge files the patch no longer applies to, leaving conflict markers.',
+    },
+    {
+      flag: '--preview',
+      type: 'boolean',
+      description: 'Print the resulting diff without changing any file.',
+    },
+  ];
+
+  registry
+    .register({
+      name: '--add',
+      summary: 'Applies a patch, or every patch of a directory.',
+      details: [
+        'Patches of a directory are applied in numeric order, all-or-nothing.',
+      ],
+      arguments: [PATCH_ARGUMENT],
+      options: applyOptions,
+      requiresGitRepository: notNative,
+      run: (invocation) => runPatchCommand(invocation, false, false),
+    })
+    .register({
+      name: '--remove',
+      summary: 'Reverses a patch, or every patch of a directory.',
+      details: [
+        'Patches of a directory are reversed in reverse numeric order, all-or-nothing.',
+      ],
+      arguments: [PATCH_ARGUMENT],
+      options: applyOptions,
+      requiresGitRepository: notNative,
+      run: (invocation) => runPatchCommand(invocation, true, false),
+    })
+    .register({
+      name: '--verify-add',
+      summary: 'Checks that a patch can be applied, without applying it.',
+      arguments: [PATCH_ARGUMENT],
+      options: [ENGINE_OPTION, REQUIRE_SIGNATURE_OPTION],
+      requiresGitRepository: notNative,
+      run: (invocation) => runPatchCommand(invocation, false, true),
+    })
+    .register({
+      name: '--verify-remove',
+      summary: 'Checks that a patch can be reversed, without reversing it.',
+      arguments: [PATCH_ARGUMENT],
+      options: [ENGINE_OPTION, REQUIRE_SIGNATURE_OPTION],
+      requiresGitRepository: notNative,
+      run: (invocation) => runPatchCommand(invocation, true, true),
+    })
+    .register({
+      name: '--verify-all',
+      summary:
+        'Checks every patch: its state, the opposite operation and its frames.',
+      details: [
+        'Applied patches must be removable and the others applicable, and the context lines',
+        'around each change must be at the lines the patch records. Nothing is modified.',
+        'Exits with status 1 if any patch fails.',
+      ],
+      options: [
+        {
+          flag: '--junit',
+          type: 'string',
+          valueName: 'FILE',
+          description: 'Also write the results as JUnit XML to FILE.',
+        },
+        {
+          flag: '--sarif',
+          type: 'string',
+          valueName: 'FILE',
+          description: 'Also write the failures as SARIF 2.1.0 to FILE.',
+        },
+      ],
+      requiresGitRepository: true,
+      run: (invocation) => {
+        const { options, CWD } = invocation;
+        // Complete on failure too.
+        const verifyAllResult: api.VerifyAllResult = {
+          patches: [],
+          passed: 0,
+          failed: 0,
+          skipped: 0,
+          reports: [],
+        };
+        invocation.result = verifyAllResult;
+        return api.verifyAll({
+          cwd: CWD,
+          junit: options['--junit'] as string | undefined,
+          sarif: options['--sarif'] as string | undefined,
+          result: verifyAllResult,
+        });
+      },
+    })
+    .register({
+      name: '--save',
+      summary:
+        'Creates a patch from the changes between HEAD and a branch, or of commits, a stash entry or the index.',
+      details: [
+        'The diff must contain only additions or only deletions, unless --split-mixed is given.',
+        "<source> is a branch (diffed against HEAD), a commit as 'rev^!', a range 'A..B' or 'A...B',",
+        "or a stash entry 'stash@{n}'. Commit messages become the patch metadata.",
+        'The patch is named after the source, unless --name is given.',
+        '--include and --exclude take Git pathspecs relative to the current directory.',
+      ],
+      arguments: [
+        {
+          name: 'source',
+          description:
+            'The branch, commit, range or stash entry to save; omitted with --staged.',
+          optional: true,
+        },
+      ],
+      options: [
+        {
+          flag: '--staged',
+          type: 'boolean',
+          description: 'Save the changes staged in the index.',
+        },
+        {
+          flag: '--name',
+          type: 'string',
+          valueName: 'name',
+          description: 'The name of the patch, instead of the derived one.',
+        },
+        {
+          flag: '--include',
+          type: 'list',
+          valueName: 'PATHSPEC_LIST',
+          description: 'Comma-separated pathspecs of the changes to save.',
+        },
+        {
+          flag: '--exclude',
+          type: 'list',
+          valueName: 'PATHSPEC_LIST',
+          description: 'Comma-separated pathspecs of the changes to leave out.',
+        },
+        {
+          flag: '--split',
+          type: 'string',
+          choices: SAVE_SPLIT_MODES,
+          valueName: 'file|directory',
+          description:
+            'Save a group of one patch per changed file or per top-level directory.',
+        },
+        {
+          flag: '--split-mixed',
+          type: 'boolean',
+          description:
+            'Save a diff with both additions and deletions as a group: 1-remove, then 2-add.',
+        },
+      ],
+      requiresGitRepository: true,
+      run: ({ args, options, CWD }) => {
+        const staged = options['--staged'] === true;
+        if ((args.source === undefined) === !staged) {
           printUsageAndExit(
-            `CRITICAL ERROR: Invalid branch name '${branchName}' provided for --offset. It cannot start with '--'.`,
+            'CRITICAL ERROR: --save requires either a <source> argument or --staged.',
           );
         }
-        currentArgIndex++;
-      }
-      if (rawArgs.length > currentArgIndex) {
-        printUsageAndExit(
-          `CRITICAL ERROR: Unknown or unexpected argument '${rawArgs[currentArgIndex]}' for --offset. Expected optional [BRANCH_NAME] only.`,
-        );
-      }
-      await handleOffsetCommand(argument, CWD, branchName);
-    } else if (mode === '--automatic') {
-      // ... (existing --automatic logic)
-      let extensionsInput: string;
-      let branchNameArgument: string;
-      let excludeDirs: string[] | undefined;
-      if (rawArgs.length === 3) {
-        extensionsInput = rawArgs[1];
-        branchNameArgument = rawArgs[2];
-      } else if (rawArgs.length === 5) {
-        extensionsInput = rawArgs[1];
-        branchNameArgument = rawArgs[2];
-        if (rawArgs[3] !== '--exclude') {
+        return api.save(args.source, {
+          cwd: CWD,
+          staged,
+          name: options['--name'] as string | undefined,
+          include: options['--include'] as string[] | undefined,
+          exclude: options['--exclude'] as string[] | undefined,
+          split: options['--split'] as SaveSplitMode | undefined,
+          splitMixed: options['--split-mixed'] === true,
+        });
+      },
+    })
+    .register({
+      name: '--sign',
+      summary:
+        'Signs a patch with an Ed25519 private key (detached signature).',
+      details: [
+        'The signature is written next to the patch as <patch>.taylored.sig.',
+        'Signatures are accepted if the public key is in the trust store',
+        `('signing.trustedKeys' in ${TAYLORED_CONFIG_FILE_NAME}, default: ${TAYLORED_TRUSTED_KEYS_DIR_NAME}/).`,
+      ],
+      arguments: [
+        {
+          name: 'taylored_file_name',
+          description: 'A patch in the patch directory.',
+        },
+      ],
+      options: [
+        {
+          flag: '--key',
+          type: 'string',
+          valueName: 'private_key',
+          description: 'The Ed25519 private key file, in PEM format.',
+        },
+      ],
+      requiresGitRepository: true,
+      run: ({ args, options, CWD }) => {
+        const key = options['--key'] as string | undefined;
+        if (key === undefined) {
           printUsageAndExit(
-            "CRITICAL ERROR: Expected '--exclude' as the fourth argument for --automatic with 5 arguments.",
+            'CRITICAL ERROR: --sign requires --key <private_key>.',
           );
         }
-        const excludeArgument = rawArgs[4];
-        if (excludeArgument.startsWith('--')) {
+        return api.sign(args.taylored_file_name!, { cwd: CWD, key: key! });
+      },
+    })
+    .register({
+      name: '--list',
+      summary: 'Lists the patches in the patch directory.',
+      requiresGitRepository: true,
+      run: async ({ CWD }) => {
+        const patches = await api.list({ cwd: CWD });
+        // The metadata of the patches that have any.
+        const metadata: { [patch: string]: api.PatchMetadata } = {};
+        for (const patch of patches) {
+          const patchMetadata = await api.metadata(patch, { cwd: CWD });
+          if (Object.keys(patchMetadata).length > 0) {
+            metadata[patch] = patchMetadata;
+          }
+        }
+        return { patches, metadata };
+      },
+    })
+    .register({
+      name: '--status',
+      summary:
+        'Reports which patches are applied, not applied, drifted or unknown.',
+      requiresGitRepository: true,
+      run: async ({ CWD }) => ({ patches: await api.status({ cwd: CWD }) }),
+    })
+    .register({
+      name: '--overlaps',
+      summary:
+        'Shows which patches touch the same files and lines, and whether they can be applied together.',
+      details: [
+        'Every pair of patches is applied in memory in both orders; nothing is modified.',
+      ],
+      requiresGitRepository: true,
+      run: ({ CWD }) => api.overlaps({ cwd: CWD }),
+    })
+    .register({
+      name: '--offset',
+      summary: 'Updates the line offsets of a patch against the current code.',
+      arguments: [
+        {
+          name: 'taylored_file_name',
+          description: 'A patch in the patch directory.',
+        },
+        {
+          name: 'BRANCH_NAME',
+          description: `The branch to compare with; defaults to 'baseBranch' from ${TAYLORED_CONFIG_FILE_NAME}, then 'main'.`,
+          optional: true,
+        },
+      ],
+      requiresGitRepository: true,
+      run: ({ args, config, CWD }) => {
+        const fileName = args.taylored_file_name!;
+        if (
+          fileName.includes(path.sep) ||
+          fileName.includes('/') ||
+          fileName.includes('\\')
+        ) {
           printUsageAndExit(
-            `CRITICAL ERROR: Invalid exclude argument '${excludeArgument}'. It cannot start with '--'.`,
+            `CRITICAL ERROR: <taylored_file_name> ('${fileName}') must be a simple filename without path separators. It is assumed to be in the '${getTayloredDirName(config)}/' directory.`,
           );
         }
-        excludeDirs = excludeArgument
-          .split(',')
-          .map((dir) => dir.trim())
-          .filter((dir) => dir.length > 0);
-        if (excludeDirs.length === 0 && excludeArgument.length > 0) {
+        return api.offset(fileName, { cwd: CWD, branchName: args.BRANCH_NAME });
+      },
+    })
+    .register({
+      name: '--automatic',
+      summary:
+        'Creates a patch for every <taylored> block in files with the given extensions.',
+      details: [
+        `<EXTENSIONS> and <branch_name> may be omitted when ${TAYLORED_CONFIG_FILE_NAME} sets`,
+        `'automatic.extensions' and 'baseBranch'; --exclude overrides 'automatic.exclude'.`,
+      ],
+      arguments: [
+        {
+          name: 'EXTENSIONS',
+          description: "Comma-separated extensions, e.g. 'ts,js'.",
+          optional: true,
+        },
+        {
+          name: 'branch_name',
+          description: 'The branch patches are computed against.',
+          optional: true,
+        },
+      ],
+      options: [
+        {
+          flag: '--exclude',
+          type: 'list',
+          valueName: 'DIR_LIST',
+          description: 'Comma-separated directories to skip.',
+        },
+        {
+          flag: '--watch',
+          type: 'boolean',
+          description:
+            'Keep running and regenerate the patches of the blocks you edit (Ctrl+C to stop).',
+        },
+      ],
+      requiresGitRepository: true,
+      run: ({ args, options, config, CWD }) => {
+        const automaticConfig = config.automatic || {};
+        const extensionsInput =
+          args.EXTENSIONS ?? automaticConfig.extensions?.join(',');
+        const branchNameArgument = args.branch_name ?? config.baseBranch;
+        if (extensionsInput === undefined || branchNameArgument === undefined) {
           printUsageAndExit(
-            `CRITICAL ERROR: Exclude argument '${excludeArgument}' resulted in an empty list of directories.`,
+            `CRITICAL ERROR: --automatic requires <EXTENSIONS> and <branch_name> arguments, unless '${TAYLORED_CONFIG_FILE_NAME}' sets 'automatic.extensions' and 'baseBranch'.`,
           );
-        } else if (excludeDirs.length === 0 && excludeArgument.length === 0) {
-          excludeDirs = undefined;
+          return Promise.resolve(null);
         }
-      } else {
-        printUsageAndExit(
-          'CRITICAL ERROR: --automatic option requires either 2 arguments (<EXTENSIONS> <branch_name>) or 4 arguments (<EXTENSIONS> <branch_name> --exclude <DIR_LIST>).',
-        );
-        return;
-      }
-      if (extensionsInput.startsWith('--')) {
-        printUsageAndExit(
-          `CRITICAL ERROR: Invalid extensions input '${extensionsInput}' after --automatic. It cannot start with '--'.`,
-        );
-      }
-      if (
-        extensionsInput.includes(path.sep) ||
-        extensionsInput.includes('/') ||
-        extensionsInput.includes('\\')
-      ) {
-        printUsageAndExit(
-          `CRITICAL ERROR: <EXTENSIONS> ('${extensionsInput}') must be a simple extension string (e.g., 'ts,js,py') without path separators.`,
-        );
-      }
-      if (branchNameArgument.startsWith('--')) {
-        printUsageAndExit(
-          `CRITICAL ERROR: Invalid branch name '${branchNameArgument}' after --automatic <EXTENSIONS>. It cannot start with '--'.`,
-        );
-      }
-      await handleAutomaticOperation(
-        extensionsInput,
-        branchNameArgument,
-        CWD,
-        excludeDirs,
-      );
-    } else if (mode === '--upgrade') {
-      // Add block for the --upgrade command
-      if (rawArgs.length < 2 || rawArgs.length > 3) {
-        printUsageAndExit(
-          'CRITICAL ERROR: --upgrade option requires a <patch_file> argument and optionally a [target_file_path].',
-        );
-      }
-      const patchFile = rawArgs[1];
-      if (patchFile.startsWith('--')) {
-        printUsageAndExit(
-          `CRITICAL ERROR: Invalid patch file argument '${patchFile}'. It cannot start with '--'.`,
-        );
-      }
-      // Verify that the patch file is in the .taylored/ directory or is a valid path.
-      // For simplicity, we expect a relative path from CWD.
-      const resolvedPatchFileName = resolveTayloredFileName(patchFile);
-      const fullPatchPath = path.join(
-        CWD,
-        TAYLORED_DIR_NAME,
-        resolvedPatchFileName,
-      );
-
-      let targetFilePath: string | undefined;
-      if (rawArgs.length === 3) {
-        targetFilePath = path.resolve(CWD, rawArgs[2]);
-      }
-
-      try {
-        const analyzer = new PatchAnalyzer();
-        const results = await analyzer.verifyIntegrityAndUpgrade(
-          fullPatchPath,
-          targetFilePath,
-        );
-
-        console.log(`\n=== Report for --upgrade command ===`);
-        results.forEach((result) => {
-          console.log(`File: ${result.file}`);
-          console.log(`Status: ${result.status.toUpperCase()}`);
-          console.log(`Message: ${result.message}`);
-          if (result.updated) {
-            console.log(`Patch updated: YES`);
-          } else {
-            console.log(`Patch updated: NO`);
-          }
-          if (result.blocks && result.blocks.length > 0) {
-            console.log(
-              `  Modification blocks checked: ${result.blocks.length}`,
-            );
-            result.blocks.forEach((blockCheck, index) => {
-              console.log(`    Block ${index + 1} (${blockCheck.blockType}):`);
-              console.log(
-                `      Top Frame: ${blockCheck.topFrame.intact ? 'INTACT' : 'MODIFIED/MISSING'}`,
-              );
-              if (!blockCheck.topFrame.intact) {
-                console.log(
-                  `        Expected: "${blockCheck.topFrame.expected}"`,
-                );
-                console.log(
-                  `        Actual:    "${blockCheck.topFrame.actual}"`,
-                );
-              }
-              console.log(
-                `      Bottom Frame: ${blockCheck.bottomFrame.intact ? 'INTACT' : 'MODIFIED/MISSING'}`,
-              );
-              if (!blockCheck.bottomFrame.intact) {
-                console.log(
-                  `        Expected: "${blockCheck.bottomFrame.expected}"`,
-                );
-                console.log(
-                  `        Actual:    "${blockCheck.bottomFrame.actual}"`,
-                );
-              }
-            });
-          }
-          console.log('-----------------------------------');
-        });
-        console.log(`\n--upgrade command completed.`);
-      } catch (error: any) {
-        console.error(
-          `CRITICAL ERROR: Failed to execute --upgrade command. Details: ${error.message}`,
-        );
-        throw error;
-      }
-    }
-    // <taylored number="9002">
-    // === New Taysell Commands Start Here ===
-    else if (mode === 'setup-backend') {
-      // Changed from --setup-backend to setup-backend
-      if (rawArgs.length !== 1) {
-        printUsageAndExit(
-          'CRITICAL ERROR: setup-backend command does not take any arguments.',
-        );
-      }
-      await handleSetupBackend(CWD);
-    } else if (mode === 'create-taysell') {
-      // Changed from --create-taysell to create-taysell
-      if (rawArgs.length < 2) {
-        printUsageAndExit(
-          'CRITICAL ERROR: create-taysell command requires at least one <file.taylored> argument.',
-        );
-      }
-      const tayloredFile = rawArgs[1];
-      if (tayloredFile.startsWith('--')) {
-        printUsageAndExit(
-          `CRITICAL ERROR: Invalid <file.taylored> argument '${tayloredFile}'. It cannot start with '--'.`,
-        );
-      }
-
-      let price: string | undefined;
-      let description: string | undefined;
-
-      // Parse optional arguments: --price and --desc
-      for (let i = 2; i < rawArgs.length; i++) {
-        if (rawArgs[i] === '--price') {
-          if (i + 1 < rawArgs.length && !rawArgs[i + 1].startsWith('--')) {
-            price = rawArgs[i + 1];
-            i++; // consume value
-          } else {
-            printUsageAndExit(
-              'CRITICAL ERROR: --price option requires a value.',
-            );
-          }
-        } else if (rawArgs[i] === '--desc') {
-          if (i + 1 < rawArgs.length && !rawArgs[i + 1].startsWith('--')) {
-            description = rawArgs[i + 1];
-            i++; // consume value
-          } else {
-            printUsageAndExit(
-              'CRITICAL ERROR: --desc option requires a value.',
-            );
-          }
-        } else {
+        if (
+          extensionsInput.includes(path.sep) ||
+          extensionsInput.includes('/') ||
+          extensionsInput.includes('\\')
+        ) {
           printUsageAndExit(
-            `CRITICAL ERROR: Unknown option '${rawArgs[i]}' for create-taysell.`,
+            `CRITICAL ERROR: <EXTENSIONS> ('${extensionsInput}') must be a simple extension string (e.g., 'ts,js,py') without path separators.`,
           );
         }
-      }
-      await handleCreateTaysell(tayloredFile, price, description, CWD);
-    } else if (mode === '--buy') {
-      if (rawArgs.length < 2) {
-        printUsageAndExit(
-          'CRITICAL ERROR: --buy option requires a <file.taysell> argument.',
-        );
-      }
-      const taysellFile = rawArgs[1];
-      if (taysellFile.startsWith('--') && taysellFile !== '--dry-run') {
-        printUsageAndExit(
-          `CRITICAL ERROR: Invalid <file.taysell> argument '${taysellFile}'. It cannot start with '--' unless it's --dry-run.`,
-        );
-      }
-
-      let isDryRun = false;
-      let taysellFileArgIndex = 1;
-
-      if (rawArgs[1] === '--dry-run') {
-        isDryRun = true;
-        if (rawArgs.length < 3 || rawArgs[2].startsWith('--')) {
-          printUsageAndExit(
-            'CRITICAL ERROR: --buy --dry-run requires a <file.taysell> argument after --dry-run.',
+        // `--exclude ""` clears 'automatic.exclude'.
+        const excludeDirs = options['--exclude'] as string[] | undefined;
+        const watch = options['--watch'] === true;
+        const stopWatching = new AbortController();
+        if (watch) {
+          process.once('SIGINT', () => stopWatching.abort());
+          process.once('SIGTERM', () => stopWatching.abort());
+        }
+        return api.automatic(extensionsInput, branchNameArgument, {
+          cwd: CWD,
+          exclude:
+            excludeDirs && excludeDirs.length === 0 ? undefined : excludeDirs,
+          watch,
+          signal: stopWatching.signal,
+        });
+      },
+    })
+    .register({
+      name: '--upgrade',
+      summary:
+        'Refreshes a patch from the current code if its context frames are intact.',
+      arguments: [
+        {
+          name: 'patch_file',
+          description: 'A patch in the patch directory.',
+        },
+        {
+          name: 'target_file_path',
+          description:
+            'The file to compare with, relative to the current directory; inferred from the patch by default.',
+          optional: true,
+        },
+      ],
+      requiresGitRepository: true,
+      run: async ({ args, CWD }) => {
+        try {
+          // The patch is looked up in .taylored/; the optional target file is
+          // relative to CWD.
+          const results = await api.upgrade(args.patch_file!, {
+            cwd: CWD,
+            targetFile: args.target_file_path,
+          });
+          printUpgradeReport(results);
+          return { files: results };
+        } catch (error: any) {
+          console.error(
+            `CRITICAL ERROR: Failed to execute --upgrade command. Details: ${error.message}`,
           );
+          throw error;
         }
-        taysellFileArgIndex = 2;
-      } else if (rawArgs.length > 2) {
-        if (rawArgs[2] === '--dry-run') {
-          isDryRun = true;
-          if (rawArgs.length > 3) {
+      },
+    });
+
+  registry
+    .register({
+      name: '--undo',
+      summary:
+        'Restores the files changed by the last add, remove, offset, automatic or upgrade.',
+      details: [
+        'Given an entry of --history, every operation back to it is undone, newest first.',
+        'Nothing is restored if a file changed since, unless --force is given.',
+      ],
+      arguments: [
+        {
+          name: 'ENTRY',
+          description: 'The oldest entry of --history to undo.',
+          optional: true,
+        },
+      ],
+      options: [
+        {
+          flag: '--force',
+          type: 'boolean',
+          description: 'Restore the files even if they changed since.',
+        },
+      ],
+      requiresGitRepository: true,
+      run: ({ args, options, CWD }) => {
+        let entry: number | undefined;
+        if (args.ENTRY !== undefined) {
+          entry = Number(args.ENTRY.replace(/^#/, ''));
+          if (!Number.isInteger(entry) || entry < 1) {
             printUsageAndExit(
-              'CRITICAL ERROR: Unknown argument after --buy <file.taysell> --dry-run.',
+              `CRITICAL ERROR: <ENTRY> ('${args.ENTRY}') must be the number of an entry of --history.`,
             );
           }
-        } else {
+        }
+        return api.undo({
+          cwd: CWD,
+          entry,
+          force: options['--force'] === true,
+        });
+      },
+    })
+    .register({
+      name: '--history',
+      summary: 'Lists the operations --undo can undo, newest first.',
+      requiresGitRepository: true,
+      run: async ({ CWD }) => ({ entries: await api.history({ cwd: CWD }) }),
+    });
+
+  registry.register({
+    name: 'hooks',
+    summary:
+      'Installs Git hooks that stop commits and pushes that would break a patch.',
+    details: [
+      "'install' writes the hooks, 'uninstall' removes them, and 'run <hook>' is what they run:",
+      'it checks that every patch can still be applied or removed in the commit being made or pushed.',
+      `Set ${TAYLORED_SKIP_GIT_HOOKS_ENV}=1 to skip the check.`,
+    ],
+    arguments: [
+      {
+        name: 'action',
+        description: "'install', 'uninstall' or 'run'.",
+      },
+      {
+        name: 'hook',
+        description: `For 'run': ${GIT_HOOK_NAMES.join(' or ')}.`,
+        optional: true,
+      },
+    ],
+    options: [
+      ...GIT_HOOK_NAMES.map(
+        (hookName): OptionSpec => ({
+          flag: `--${hookName}`,
+          type: 'boolean',
+          description: `Only install or uninstall the ${hookName} hook (default: all of them).`,
+        }),
+      ),
+      {
+        flag: '--force',
+        type: 'boolean',
+        description:
+          'Replace existing hooks that were not installed by taylored.',
+      },
+    ],
+    requiresGitRepository: true,
+    run: async ({ args, options, CWD }) => {
+      const { action, hook } = args;
+      if (action === 'run') {
+        if (!isGitHookName(hook)) {
           printUsageAndExit(
-            `CRITICAL ERROR: Unknown argument '${rawArgs[2]}' for --buy.`,
+            `CRITICAL ERROR: 'hooks run' requires the hook to run: ${GIT_HOOK_NAMES.join(' or ')}.`,
           );
+          return null;
         }
+        // git passes the pushed refs to a pre-push hook on standard input.
+        const pushInput = hook === 'pre-push' ? await readStandardInput() : '';
+        return api.runGitHook(hook, { cwd: CWD, pushInput });
       }
-      const finalTaysellFile = rawArgs[taysellFileArgIndex];
-      if (finalTaysellFile.startsWith('--')) {
+      if (action !== 'install' && action !== 'uninstall') {
         printUsageAndExit(
-          `CRITICAL ERROR: Invalid <file.taysell> argument '${finalTaysellFile}' for --buy. It cannot start with '--'.`,
+          `CRITICAL ERROR: Unknown hooks action '${action}'. Expected 'install', 'uninstall' or 'run'.`,
         );
       }
-
-      await handleBuyCommand(finalTaysellFile, isDryRun, CWD);
-    }
-    // === End New Taysell Commands ===
-    // </taylored>
-    else {
-      // Original logic for --add, --remove, etc.
-      const applyModes = [
-        '--add',
-        '--remove',
-        '--verify-add',
-        '--verify-remove',
-      ];
-      if (applyModes.includes(mode)) {
-        if (rawArgs.length !== 2) {
-          printUsageAndExit(
-            // Corrected this call
-            `CRITICAL ERROR: ${mode} requires a <taylored_file_name_or_path> argument.`,
-          );
-        }
-        const userInputFileName = rawArgs[1];
-
-        if (userInputFileName.startsWith('--')) {
-          printUsageAndExit(
-            `CRITICAL ERROR: Invalid taylored file name '${userInputFileName}' after ${mode}. It cannot start with '--'.`,
-          );
-        }
-
-        // Determine if the input is a directory or a file
-        const userInputAbsolutePath = path.join(
-          CWD,
-          TAYLORED_DIR_NAME,
-          userInputFileName,
+      if (hook !== undefined) {
+        printUsageAndExit(
+          `CRITICAL ERROR: 'hooks ${action}' takes no hook argument. Use --${hook} instead.`,
         );
-        let stats;
-        try {
-          stats = await fs.stat(userInputAbsolutePath);
-        } catch (e: any) {
-          // If stat fails, it might be a filename without extension or truly non-existent
-          // For directory operations, we expect the directory to exist.
-          // For file operations, resolveTayloredFileName might find it.
-          if (e.code !== 'ENOENT') {
-            // If it's not "file not found", it's a more serious error
-            printUsageAndExit(
-              `CRITICAL ERROR: Could not access '${userInputAbsolutePath}'. Details: ${e.message}`,
-            );
-            return; // Keep typescript happy
-          }
-        }
+      }
+      const selected = GIT_HOOK_NAMES.filter(
+        (hookName) => options[`--${hookName}`] === true,
+      );
+      const hooksOptions: api.GitHooksOptions = {
+        cwd: CWD,
+        hooks: selected.length > 0 ? selected : undefined,
+        force: options['--force'] === true,
+      };
+      return action === 'install'
+        ? api.installGitHooks(hooksOptions)
+        : api.uninstallGitHooks(hooksOptions);
+    },
+  });
 
-        let isVerify = false;
-        let isReverse = false;
-        switch (mode) {
-          case '--add':
-            break;
-          case '--remove':
-            isReverse = true;
-            break;
-          case '--verify-add':
-            isVerify = true;
-            break;
-          case '--verify-remove':
-            isVerify = true;
-            isReverse = true;
-            break;
-        }
+  // <taylored number="9002">
+  // === Taysell Commands ===
+  registry
+    .register({
+      name: 'setup-backend',
+      summary: "Sets up the Taysell 'Backend-in-a-Box'.",
+      run: ({ CWD }) => handleSetupBackend(CWD),
+    })
+    .register({
+      name: 'create-taysell',
+      summary: 'Creates a .taysell package for selling a patch.',
+      arguments: [{ name: 'file.taylored', description: 'The patch to sell.' }],
+      options: [
+        {
+          flag: '--price',
+          type: 'string',
+          valueName: 'price',
+          description: 'The price of the patch.',
+        },
+        {
+          flag: '--desc',
+          type: 'string',
+          valueName: 'description',
+          description: 'The description shown to buyers.',
+        },
+      ],
+      run: ({ args, options, CWD }) =>
+        handleCreateTaysell(
+          args['file.taylored']!,
+          options['--price'] as string | undefined,
+          options['--desc'] as string | undefined,
+          CWD,
+        ),
+    })
+    .register({
+      name: '--buy',
+      summary: 'Initiates the purchase and application of a patch.',
+      arguments: [{ name: 'file.taysell', description: 'The package to buy.' }],
+      options: [
+        {
+          flag: '--dry-run',
+          type: 'boolean',
+          description: 'Show what would happen without buying anything.',
+        },
+      ],
+      run: ({ args, options, CWD }) =>
+        handleBuyCommand(
+          args['file.taysell']!,
+          options['--dry-run'] === true,
+          CWD,
+        ),
+    });
+  // === End Taysell Commands ===
+  // </taylored>
 
-        if (stats && stats.isDirectory()) {
-          // Input is a directory
-          console.log(
-            `INFO: Processing patch group in directory: ${userInputFileName}`,
-          );
-          const patches = await findPatchesInDirectory(userInputAbsolutePath);
-          if (patches.length === 0) {
-            console.log(
-              `INFO: No .taylored files found in directory '${userInputAbsolutePath}'. Nothing to do.`,
-            );
-            return;
-          }
-          let patchesToProcess = sortPatchesNumerically(patches);
+  return registry;
+}
 
-          if (isReverse) {
-            // For --remove and --verify-remove
-            patchesToProcess = patchesToProcess.reverse();
-            console.log(
-              `INFO: Found ${patchesToProcess.length} patch(es) to process in REVERSE order (for removal):`,
-            );
-          } else {
-            console.log(
-              `INFO: Found ${patchesToProcess.length} patch(es) to process in order:`,
-            );
-          }
-          patchesToProcess.forEach((p) =>
-            console.log(
-              `  - ${path.relative(path.join(CWD, TAYLORED_DIR_NAME), p)}`,
-            ),
-          );
+/**
+ * Main command-line interface for the Taylored application.
+ *
+ * This function serves as the entry point for the Taylored CLI. It parses the
+ * command line in `process.argv` against the commands declared by
+ * `createCommandRegistry`, and runs the requested one.
+ *
+ * Operations include saving changes as patches, applying or removing patches,
+ * listing available patches, managing patch offsets, automatically generating patches
+ * from marked code blocks, and Taysell commercial patch operations like setting up
+ * a backend, creating sellable patches, and buying patches.
+ *
+ * For detailed information on each command, its arguments, and usage, please refer
+ * to DOCUMENTATION.md, or run `taylored <command> --help`.
+ *
+ * Commands that operate on Git history (e.g., --save, --add, --list, --offset,
+ * --automatic) must be run inside a Git repository, from its root or any of
+ * its subdirectories (including in linked worktrees and submodules); this is
+ * checked before they run. They operate on the root of the repository.
+ *
+ * Invalid command lines (unknown commands or options, missing arguments,
+ * invalid option values) are reported with the command's help and exit with
+ * status 1.
+ *
+ * @async
+ * @returns {Promise<void>} A promise that resolves when the command processing is complete,
+ * or rejects if an unhandled error occurs.
+ * @throws {Error} Throws an error if critical issues prevent command execution,
+ * though most specific errors are handled by calling `printUsageAndExit`
+ * and exiting the process.
+ */
+async function main(): Promise<void> {
+  // --json may appear anywhere. Human-readable output then goes to stderr and
+  // a single result document is written to stdout (see lib/output.ts).
+  const rawArgs: string[] = process.argv
+    .slice(2)
+    .filter((arg) => arg !== '--json');
+  if (rawArgs.length !== process.argv.length - 2) {
+    enableJsonOutput(rawArgs[0] || '');
+  }
+  // The directory taylored runs from. Commands operate on the root of the
+  // repository that contains it; paths given on the command line are relative
+  // to it.
+  const CWD = process.cwd();
+  const repositoryRoot = findRepositoryRoot(CWD);
 
-          for (const patchPath of patchesToProcess) {
-            // handleApplyOperation expects filename relative to .taylored dir, not absolute.
-            // And also not the full path from within .taylored, but just the name if it's at top level,
-            // or subfolder/name.taylored if it's nested.
-            // path.relative will give us that.
-            const patchFileNameForApply = path.relative(
-              path.join(CWD, TAYLORED_DIR_NAME),
-              patchPath,
-            );
+  if (rawArgs.length === 0 || rawArgs[0] === '--help' || rawArgs[0] === '-h') {
+    printUsageAndExit(undefined, true);
+    return;
+  }
 
-            console.log(`\nINFO: ==> ${mode} patch: ${patchFileNameForApply}`);
-            try {
-              await handleApplyOperation(
-                patchFileNameForApply,
-                isVerify,
-                isReverse,
-                mode,
-                CWD,
-              );
-              console.log(
-                `INFO: <== Successfully processed: ${patchFileNameForApply}`,
-              );
-            } catch (error: any) {
-              console.error(
-                `CRITICAL ERROR: Failed to process patch ${patchFileNameForApply} in group ${userInputFileName}. Halting group operation.`,
-              );
-              // The error from handleApplyOperation should have already been printed.
-              // We exit here because a failure in a sequence is critical.
-              process.exit(1);
-            }
-          }
-          console.log(
-            `\nINFO: Finished processing patch group: ${userInputFileName}`,
-          );
-        } else {
-          // Input is a single file (or presumed to be, resolveTayloredFileName will handle extension)
-          // The original check for path separators is removed to allow direct file paths like 'group1/1-first.taylored'
-          // However, handleApplyOperation expects the name relative to .taylored/, so userInputFileName is fine as is.
-          // If userInputFileName was "1-first", resolveTayloredFileName makes it "1-first.taylored"
-          // If userInputFileName was "group1/1-first", resolveTayloredFileName makes it "group1/1-first.taylored"
-          // This seems consistent with how handleApplyOperation constructs the full path.
+  // Project defaults from .tayloredrc; command-line arguments override them.
+  let config: TayloredConfig;
+  try {
+    config = await loadProjectConfig(repositoryRoot || CWD);
+  } catch (error: any) {
+    writeJsonError(error);
+    process.exit(1);
+  }
+  if (config.output?.json && !isJsonOutput()) {
+    enableJsonOutput(rawArgs[0]);
+  }
 
-          const resolvedTayloredFileName =
-            resolveTayloredFileName(userInputFileName);
-          await handleApplyOperation(
-            resolvedTayloredFileName,
-            isVerify,
-            isReverse,
-            mode,
-            CWD,
-          );
-        }
-      } else {
-        printUsageAndExit(
-          `CRITICAL ERROR: Unknown option or command '${mode}'.`,
-          true,
-        ); // Update usage
-      }
+  const registry = createCommandRegistry();
+  let commandLine: ParsedCommandLine;
+  try {
+    commandLine = registry.parse(rawArgs);
+  } catch (error: any) {
+    const command = registry.get(rawArgs[0]);
+    if (!command) {
+      printUsageAndExit(error.message, true);
+      return;
     }
+    console.error(error.message);
+    writeJsonError(error);
+    console.log(`\n${registry.formatHelp(command)}`);
+    process.exit(1);
+  }
+  const { command } = commandLine;
+  if (commandLine.help) {
+    console.log(registry.formatHelp(command));
+    return;
+  }
+
+  const requiresGit =
+    typeof command.requiresGitRepository === 'function'
+      ? command.requiresGitRepository(commandLine)
+      : command.requiresGitRepository === true;
+  if (requiresGit && repositoryRoot === null) {
+    printUsageAndExit(
+      `CRITICAL ERROR: '${CWD}' is not inside a Git repository. The command '${command.name}' must be run inside a Git repository.`,
+      false,
+      'NOT_A_GIT_REPOSITORY',
+    );
+  }
+
+  const invocation: CommandInvocation = {
+    command,
+    args: commandLine.args,
+    options: commandLine.options,
+    CWD,
+    config,
+    result: null,
+  };
+  try {
+    writeJsonResult(await command.run(invocation));
   } catch (error: any) {
-    // console.error(`Error caught in main: ${error.message}`); // Keep for debugging if needed
-    // Ensure specific error messages from handlers are preserved if they printUsageAndExit themselves.
-    // If error is thrown and not caught by a printUsageAndExit, it will be caught by the final catch block.
+    // Handlers print their own "CRITICAL ERROR" messages; avoid double printing.
     if (!error.message.includes('CRITICAL ERROR')) {
-      // Avoid double printing
       console.error(`An unexpected error occurred: ${error.message}`);
     }
+    writeJsonError(error, invocation.result);
     process.exit(1); // Exit for errors not handled by printUsageAndExit
   }
 }
 
-main().catch((err) => {
-  const errorMessage =
-    err && err.message ? err.message : 'Unknown error in main().catch';
-  if (!errorMessage.includes('CRITICAL ERROR')) {
-    // Avoid double printing
-    console.error(`Error in main().catch: ${errorMessage}`);
-  }
-  process.exit(1);
-});
+// The package's programmatic API (`require('taylored')`).
+export * from './lib/api';
+
+// Only run as a CLI when executed directly, not when imported as a library.
+if (require.main === module) {
+  main().catch((err) => {
+    const errorMessage =
+      err && err.message ? err.message : 'Unknown error in main().catch';
+    if (!errorMessage.includes('CRITICAL ERROR')) {
+      // Avoid double printing
+      console.error(`Error in main().catch: ${errorMessage}`);
+    }
+    writeJsonError(err);
+    process.exit(1);
+  });
+}
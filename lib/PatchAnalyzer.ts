@@ -1,24 +1,103 @@
 import * as fs from 'fs';
+import * as path from 'path';
+import { splitPatchPreamble } from './patch-metadata';
 
-interface Change {
+export interface Change {
   type: string;
   content: string;
   lineNumber: number; // This was in the original JS, though calculateLineNumber was not fully implemented
+  /** True if the line is followed by a "\ No newline at end of file" marker. */
+  noNewline?: boolean;
 }
 
-interface Hunk {
+export interface Hunk {
   oldStart: number;
   oldCount: number;
   newStart: number;
   newCount: number;
   changes: Change[];
   context: any[]; // Original JS had this, seems unused, keeping for now
+  /** The "@@" line as it appears in the patch, including any section heading after the second "@@". */
+  header?: string;
 }
 
-interface Patch {
+/**
+ * An extended header line of a `diff --git` section (see `git diff`
+ * documentation, "Generating patches with -p"), e.g. "similarity index 90%".
+ */
+export interface ExtendedHeader {
+  /**
+   * The keyword: "old mode", "new mode", "deleted file mode", "new file mode",
+   * "copy from", "copy to", "rename from", "rename to", "similarity index",
+   * "dissimilarity index", "index" or "Binary files". The whole line for a
+   * line that is not recognised.
+   */
+  name: string;
+  /** The rest of the line after the keyword and a space; empty if there is none. */
+  value: string;
+}
+
+/**
+ * The lines that introduce one file section, as they appear in the patch.
+ * `reconstructPatch` writes them back unchanged.
+ */
+export interface PatchHeader {
+  /** The "diff --git" line; absent in plain unified diffs. */
+  diffGit?: string;
+  /** The extended header lines, in order. "GIT binary patch" is not one of them. */
+  extended: ExtendedHeader[];
+  /** The "---" and "+++" lines; absent for sections without hunks, e.g. a pure rename or a binary file. */
+  oldFileLine?: string;
+  newFileLine?: string;
+}
+
+/**
+ * A "literal" or "delta" hunk of a "GIT binary patch" section, still encoded.
+ * See `lib/binary-patch.ts` for decoding and applying it.
+ */
+export interface BinaryHunk {
+  type: 'literal' | 'delta';
+  /** Size of the inflated data: the new file for a literal, the delta for a delta. */
+  size: number;
+  /** The base85 lines of the deflated data, as they appear in the patch. */
+  lines: string[];
+}
+
+export interface Patch {
   oldFile: string;
   newFile: string | null;
   hunks: Hunk[];
+  /** Set from the extended `diff --git` headers, when present. */
+  isNewFile?: boolean;
+  isDeletedFile?: boolean;
+  isBinary?: boolean;
+  /** File mode of a new file, or the new mode of a mode change (e.g. "100755"). */
+  newMode?: string;
+  /** File mode of a deleted file, or the old mode of a mode change. */
+  oldMode?: string;
+  /** Abbreviated blob IDs from the "index <old>..<new>" header. */
+  oldBlob?: string;
+  newBlob?: string;
+  /** Source and target of a rename, without the a/ and b/ prefixes. */
+  renameFrom?: string;
+  renameTo?: string;
+  /** Source and target of a copy, without the a/ and b/ prefixes. */
+  copyFrom?: string;
+  copyTo?: string;
+  /** The "similarity index" of a rename or copy, in percent. */
+  similarityIndex?: number;
+  /** The "dissimilarity index" of a rewritten file, in percent. */
+  dissimilarityIndex?: number;
+  /** The header lines of the section, as parsed. */
+  header?: PatchHeader;
+  /** Lines after the hunks that belong to no hunk (e.g. a "-- " signature), kept verbatim. */
+  trailingLines?: string[];
+  /**
+   * The hunks of a "GIT binary patch" section: the forward hunk, followed by
+   * the reverse hunk when the patch has one. Absent for "Binary files ...
+   * differ" stubs, which carry no data.
+   */
+  binaryHunks?: BinaryHunk[];
 }
 
 interface Frame {
@@ -50,7 +129,7 @@ interface BlockCheck {
   bottomFrame: FrameCheckResult;
 }
 
-interface VerificationResult {
+export interface VerificationResult {
   file: string;
   status: 'intact' | 'corrupted' | 'error';
   message: string;
@@ -58,6 +137,23 @@ interface VerificationResult {
   updated?: boolean;
 }
 
+// The keywords of the extended header lines, longest first where one is a
+// prefix of another.
+const EXTENDED_HEADER_NAMES = [
+  'old mode',
+  'new mode',
+  'deleted file mode',
+  'new file mode',
+  'copy from',
+  'copy to',
+  'rename from',
+  'rename to',
+  'dissimilarity index',
+  'similarity index',
+  'index',
+  'Binary files',
+];
+
 export class PatchAnalyzer {
   /**
    * Constructs a new PatchAnalyzer instance.
@@ -81,29 +177,120 @@ export class PatchAnalyzer {
   }
 
   /**
-   * Parses the content of a patch
+   * Parses the content of a patch.
+   *
+   * Hunk bodies are read according to the line counts in their headers, so a
+   * removed line that itself starts with "--" is not mistaken for a file header.
+   * Text before the first file header (e.g. a commit message) is ignored.
+   * The data of a "GIT binary patch" section is collected in `binaryHunks`.
+   *
+   * Every other line is kept, in the structured fields and in `header`,
+   * `Hunk.header` and `trailingLines`, so that `reconstructPatch` gives back
+   * the same text.
    */
-  private parsePatch(patchContent: string): Patch[] {
+  public parsePatch(patchContent: string): Patch[] {
     const lines = patchContent.split('\n'); // Corrected line split
     const patches: Patch[] = [];
     let currentPatch: Patch | null = null;
     let currentHunk: Hunk | null = null;
+    // Lines of the old and new file still expected in the current hunk.
+    let oldRemaining = 0;
+    let newRemaining = 0;
+    // True while the current patch was started by "diff --git" and has not seen "---" yet.
+    let awaitingFileHeaders = false;
+    // The binary hunk being read, and whether "GIT binary patch" data may follow.
+    let binaryHunk: BinaryHunk | null = null;
+    let inBinaryData = false;
 
     for (let i = 0; i < lines.length; i++) {
       const line = lines[i];
 
-      if (line.startsWith('---')) {
+      if (inBinaryData && currentPatch) {
+        const header = line.match(/^(literal|delta) (\d+)$/);
+        if (header) {
+          binaryHunk = {
+            type: header[1] as 'literal' | 'delta',
+            size: parseInt(header[2], 10),
+            lines: [],
+          };
+          currentPatch.binaryHunks!.push(binaryHunk);
+          continue;
+        }
+        if (line === '') {
+          // An empty line ends a hunk; the reverse hunk may follow.
+          binaryHunk = null;
+          continue;
+        }
+        if (binaryHunk) {
+          binaryHunk.lines.push(line);
+          continue;
+        }
+        inBinaryData = false;
+      }
+
+      if (currentHunk && (oldRemaining > 0 || newRemaining > 0)) {
+        // An empty line is an empty context line (some tools strip the leading space).
+        const changeType = line === '' ? ' ' : line.charAt(0);
+        if (changeType === '\\') {
+          this.markNoNewline(currentHunk);
+          continue;
+        }
+        if (changeType === ' ' || changeType === '-' || changeType === '+') {
+          if (changeType !== '+') oldRemaining--;
+          if (changeType !== '-') newRemaining--;
+          currentHunk.changes.push({
+            type: changeType,
+            content: line.substring(1),
+            // lineNumber calculation was placeholder in original, will be handled by actual line calculation
+            lineNumber: 0,
+          });
+          continue;
+        }
+        // The hunk is shorter than its header says; treat the line as a header.
+        oldRemaining = newRemaining = 0;
+      }
+
+      if (line === '' && i === lines.length - 1) {
+        // The empty string after the final newline is not a line.
+        break;
+      }
+
+      if (line.startsWith('\\') && currentHunk) {
+        this.markNoNewline(currentHunk);
+      } else if (line.startsWith('diff --git ')) {
         if (currentPatch) {
           patches.push(currentPatch);
         }
+        const paths = this.parseDiffGitPaths(line);
         currentPatch = {
-          oldFile: line.substring(4).trim(),
-          newFile: null,
+          oldFile: paths.oldFile,
+          newFile: paths.newFile,
           hunks: [],
+          header: { diffGit: line, extended: [] },
         };
+        currentHunk = null;
+        awaitingFileHeaders = true;
+      } else if (line.startsWith('---')) {
+        if (currentPatch && awaitingFileHeaders) {
+          currentPatch.oldFile = line.substring(4).trim();
+          currentPatch.header!.oldFileLine = line;
+        } else {
+          if (currentPatch) {
+            patches.push(currentPatch);
+          }
+          currentPatch = {
+            oldFile: line.substring(4).trim(),
+            newFile: null,
+            hunks: [],
+            header: { extended: [], oldFileLine: line },
+          };
+        }
+        currentHunk = null;
+        awaitingFileHeaders = false;
       } else if (line.startsWith('+++')) {
         if (currentPatch) {
           currentPatch.newFile = line.substring(4).trim();
+          currentPatch.header!.newFileLine = line;
         }
       } else if (line.startsWith('@@')) {
         const hunkInfo = this.parseHunkHeader(line);
@@ -114,23 +301,23 @@ export class PatchAnalyzer {
           newCount: hunkInfo.newCount,
           changes: [],
           context: [], // context remains unused from original JS
+          header: line,
         };
+        oldRemaining = hunkInfo.oldCount;
+        newRemaining = hunkInfo.newCount;
+        awaitingFileHeaders = false;
         if (currentPatch) {
           currentPatch.hunks.push(currentHunk);
         }
-      } else if (
-        currentHunk &&
-        (line.startsWith(' ') || line.startsWith('+') || line.startsWith('-'))
-      ) {
-        const changeType = line.charAt(0);
-        const content = line.substring(1);
-
-        currentHunk.changes.push({
-          type: changeType,
-          content: content,
-          // lineNumber calculation was placeholder in original, will be handled by actual line calculation
-          lineNumber: 0,
-        });
+      } else if (currentPatch && awaitingFileHeaders) {
+        if (line === 'GIT binary patch') {
+          currentPatch.binaryHunks = [];
+          inBinaryData = true;
+          binaryHunk = null;
+        }
+        this.parseExtendedHeader(currentPatch, line);
+      } else if (currentPatch) {
+        (currentPatch.trailingLines ||= []).push(line);
       }
     }
 
@@ -140,6 +327,101 @@ export class PatchAnalyzer {
     return patches;
   }
 
+  /**
+   * Records a "\ No newline at end of file" marker on the last change of a hunk.
+   */
+  private markNoNewline(hunk: Hunk): void {
+    const lastChange = hunk.changes[hunk.changes.length - 1];
+    if (lastChange) {
+      lastChange.noNewline = true;
+    }
+  }
+
+  /**
+   * Extracts the two paths of a "diff --git a/<old> b/<new>" line, keeping their prefixes.
+   */
+  private parseDiffGitPaths(line: string): {
+    oldFile: string;
+    newFile: string;
+  } {
+    const rest = line.substring('diff --git '.length);
+    // Without quoting, the paths are ambiguous if they contain " b/"; the two
+    // halves of an unchanged path are identical, which lets us split reliably.
+    const half = (rest.length - 1) / 2;
+    if (Number.isInteger(half) && rest.charAt(half) === ' ') {
+      const oldFile = rest.substring(0, half);
+      const newFile = rest.substring(half + 1);
+      if (oldFile.substring(2) === newFile.substring(2)) {
+        return { oldFile, newFile };
+      }
+    }
+    const separator = rest.indexOf(' b/');
+    return separator === -1
+      ? { oldFile: rest, newFile: rest }
+      : {
+          oldFile: rest.substring(0, separator),
+          newFile: rest.substring(separator + 1),
+        };
+  }
+
+  /**
+   * Parses one of the extended header lines that follow "diff --git".
+   */
+  private parseExtendedHeader(patch: Patch, line: string): void {
+    if (line !== 'GIT binary patch') {
+      const name = EXTENDED_HEADER_NAMES.find(
+        (candidate) => line === candidate || line.startsWith(`${candidate} `),
+      );
+      patch.header!.extended.push(
+        name === undefined
+          ? { name: line, value: '' }
+          : { name, value: line.substring(name.length + 1) },
+      );
+    }
+    if (line.startsWith('new file mode ')) {
+      patch.isNewFile = true;
+      patch.oldFile = '/dev/null';
+      patch.newMode = line.substring('new file mode '.length).trim();
+    } else if (line.startsWith('deleted file mode ')) {
+      patch.isDeletedFile = true;
+      patch.newFile = '/dev/null';
+      patch.oldMode = line.substring('deleted file mode '.length).trim();
+    } else if (line.startsWith('old mode ')) {
+      patch.oldMode = line.substring('old mode '.length).trim();
+    } else if (line.startsWith('new mode ')) {
+      patch.newMode = line.substring('new mode '.length).trim();
+    } else if (line.startsWith('index ')) {
+      const match = line.match(/^index ([0-9a-f]+)\.\.([0-9a-f]+)/);
+      if (match) {
+        patch.oldBlob = match[1];
+        patch.newBlob = match[2];
+      }
+    } else if (line.startsWith('rename from ')) {
+      patch.renameFrom = line.substring('rename from '.length);
+    } else if (line.startsWith('rename to ')) {
+      patch.renameTo = line.substring('rename to '.length);
+    } else if (line.startsWith('copy from ')) {
+      patch.copyFrom = line.substring('copy from '.length);
+    } else if (line.startsWith('copy to ')) {
+      patch.copyTo = line.substring('copy to '.length);
+    } else if (line.startsWith('similarity index ')) {
+      patch.similarityIndex = parseInt(
+        line.substring('similarity index '.length),
+        10,
+      );
+    } else if (line.startsWith('dissimilarity index ')) {
+      patch.dissimilarityIndex = parseInt(
+        line.substring('dissimilarity index '.length),
+        10,
+      );
+    } else if (
+      line.startsWith('Binary files ') ||
+      line === 'GIT binary patch'
+    ) {
+      patch.isBinary = true;
+    }
+  }
+
   /**
    * Parses the hunk header (e.g., @@ -1,4 +1,4 @@)
    */
@@ -458,23 +740,99 @@ export class PatchAnalyzer {
 
   /**
    * Reconstructs the patch content from parsed data.
+   *
+   * The header lines recorded by `parsePatch` are written back as they were
+   * read, so a patch that was not modified comes out byte for byte the same.
+   * The "---"/"+++" lines and hunk headers are regenerated only if the file
+   * names or line ranges were changed; hunk headers follow Git and omit a
+   * line count of 1.
    */
   public reconstructPatch(patches: Patch[]): string {
     let patchContent = '';
     for (const patch of patches) {
-      patchContent += `--- ${patch.oldFile}\n`;
-      patchContent += `+++ ${patch.newFile}\n`;
+      const header = patch.header || { extended: [] };
+      if (header.diffGit !== undefined) {
+        patchContent += `${header.diffGit}\n`;
+      }
+      for (const extended of header.extended) {
+        patchContent +=
+          extended.value === ''
+            ? `${extended.name}\n`
+            : `${extended.name} ${extended.value}\n`;
+      }
+      if (patch.binaryHunks) {
+        patchContent += 'GIT binary patch\n';
+        for (const binaryHunk of patch.binaryHunks) {
+          patchContent += `${binaryHunk.type} ${binaryHunk.size}\n`;
+          patchContent += binaryHunk.lines.map((line) => `${line}\n`).join('');
+          patchContent += '\n';
+        }
+      }
+      if (
+        !patch.header ||
+        header.oldFileLine !== undefined ||
+        patch.hunks.length > 0
+      ) {
+        patchContent += `${this.formatFileLine('---', header.oldFileLine, patch.oldFile)}\n`;
+        patchContent += `${this.formatFileLine('+++', header.newFileLine, patch.newFile)}\n`;
+      }
 
       for (const hunk of patch.hunks) {
-        patchContent += `@@ -${hunk.oldStart},${hunk.oldCount} +${hunk.newStart},${hunk.newCount} @@\n`;
+        patchContent += `${this.formatHunkHeader(hunk)}\n`;
         for (const change of hunk.changes) {
           patchContent += `${change.type}${change.content}\n`;
+          if (change.noNewline) {
+            patchContent += '\\ No newline at end of file\n';
+          }
         }
       }
+      for (const line of patch.trailingLines || []) {
+        patchContent += `${line}\n`;
+      }
     }
     return patchContent;
   }
 
+  /**
+   * Returns the recorded "---" or "+++" line if it still names `file`, or a
+   * new one.
+   */
+  private formatFileLine(
+    marker: '---' | '+++',
+    recordedLine: string | undefined,
+    file: string | null,
+  ): string {
+    if (
+      recordedLine !== undefined &&
+      recordedLine.substring(4).trim() === file
+    ) {
+      return recordedLine;
+    }
+    return `${marker} ${file}`;
+  }
+
+  /**
+   * Returns the recorded "@@" line of a hunk if its line ranges are unchanged,
+   * or a new one that keeps the section heading.
+   */
+  private formatHunkHeader(hunk: Hunk): string {
+    if (hunk.header !== undefined) {
+      const recorded = this.parseHunkHeader(hunk.header);
+      if (
+        recorded.oldStart === hunk.oldStart &&
+        recorded.oldCount === hunk.oldCount &&
+        recorded.newStart === hunk.newStart &&
+        recorded.newCount === hunk.newCount
+      ) {
+        return hunk.header;
+      }
+    }
+    const range = (start: number, count: number) =>
+      count === 1 ? `${start}` : `${start},${count}`;
+    const heading = hunk.header ? hunk.header.replace(/^@@[^@]*@@/, '') : '';
+    return `@@ -${range(hunk.oldStart, hunk.oldCount)} +${range(hunk.newStart, hunk.newCount)} @@${heading}`;
+  }
+
   /**
    * Saves the updated patch, creating a backup of the original.
    */
@@ -492,31 +850,127 @@ export class PatchAnalyzer {
     }
   }
 
+  /**
+   * The file a single-file patch applies to, without the a/ or b/ prefix: the
+   * old file, or the new one for a new file. Null if the patch names neither.
+   */
+  private getTargetFilePath(patch: Patch): string | null {
+    let filePath = patch.oldFile.startsWith('a/')
+      ? patch.oldFile.substring(2)
+      : patch.oldFile;
+    if ((!filePath || filePath === '/dev/null') && patch.newFile) {
+      filePath = patch.newFile.startsWith('b/')
+        ? patch.newFile.substring(2)
+        : patch.newFile;
+    }
+    return !filePath || filePath === '/dev/null' ? null : filePath;
+  }
+
+  /**
+   * Checks the frames of every modification block of a patch, without
+   * updating anything. Addition blocks are checked against the file with the
+   * patch applied (`patched`) and deletion blocks against the file without it
+   * (`original`), so the result does not depend on which of the two is in the
+   * working tree. A frame is intact if it is found at the exact line recorded
+   * in the patch: a patch that only applies at an offset has modified frames.
+   *
+   * @param {string} patchContent - The content of a .taylored file.
+   * @param {Function} readFileLines - Returns the lines of a file (as named in
+   *        the patch) in the given version, or null if it does not exist.
+   * @returns {VerificationResult[]} One result per file in the patch.
+   */
+  public verifyFrames(
+    patchContent: string,
+    readFileLines: (
+      filePath: string,
+      version: 'original' | 'patched',
+    ) => string[] | null,
+  ): VerificationResult[] {
+    const results: VerificationResult[] = [];
+    for (const singlePatch of this.parsePatch(patchContent)) {
+      const filePath = this.getTargetFilePath(singlePatch);
+      if (!filePath) {
+        results.push({
+          file: singlePatch.oldFile || 'Unknown file (from patch)',
+          status: 'error',
+          message:
+            'Could not determine target file path from patch for verification.',
+        });
+        continue;
+      }
+      const blockChecks: BlockCheck[] = [];
+      let missingVersion: string | null = null;
+      for (const block of this.identifyModificationBlocks(singlePatch)) {
+        if (!block.topFrame && !block.bottomFrame) {
+          continue;
+        }
+        const version = block.type === 'addition' ? 'patched' : 'original';
+        const fileLines = readFileLines(filePath, version);
+        if (fileLines === null) {
+          missingVersion = version;
+          break;
+        }
+        blockChecks.push({
+          blockType: block.type,
+          topFrame: this.checkFrame(
+            fileLines,
+            block.topFrame,
+            'top',
+            block,
+            false,
+          ),
+          bottomFrame: this.checkFrame(
+            fileLines,
+            block.bottomFrame,
+            'bottom',
+            block,
+            false,
+          ),
+        });
+      }
+      if (missingVersion) {
+        results.push({
+          file: filePath,
+          status: 'error',
+          message: `Target file not found (${missingVersion} version): ${filePath}`,
+        });
+        continue;
+      }
+      const allFramesIntact = blockChecks.every(
+        (check) => check.topFrame.intact && check.bottomFrame.intact,
+      );
+      results.push({
+        file: filePath,
+        status: allFramesIntact ? 'intact' : 'corrupted',
+        message: allFramesIntact
+          ? 'All frames are intact.'
+          : 'Some frames are modified or not found.',
+        blocks: blockChecks,
+        updated: false,
+      });
+    }
+    return results;
+  }
+
   /**
    * Verifies frame integrity and optionally updates the patch.
    * This is the main public method to be called by the CLI.
+   * The files named in the patch are read relative to `repositoryRoot`
+   * (by default, the current directory).
    */
   public async verifyIntegrityAndUpgrade(
     patchPath: string,
     targetFilePathOverride?: string,
+    repositoryRoot: string = process.cwd(),
   ): Promise<VerificationResult[]> {
     const parsedPatches = this.readPatch(patchPath);
     const results: VerificationResult[] = [];
 
     for (const singlePatch of parsedPatches) {
-      let filePath = targetFilePathOverride;
-      if (!filePath) {
-        filePath = singlePatch.oldFile.startsWith('a/')
-          ? singlePatch.oldFile.substring(2)
-          : singlePatch.oldFile;
-        if ((!filePath || filePath === '/dev/null') && singlePatch.newFile) {
-          filePath = singlePatch.newFile.startsWith('b/')
-            ? singlePatch.newFile.substring(2)
-            : singlePatch.newFile;
-        }
-      }
+      const filePath =
+        targetFilePathOverride || this.getTargetFilePath(singlePatch);
 
-      if (!filePath || filePath === '/dev/null') {
+      if (!filePath) {
         results.push({
           file:
             singlePatch.oldFile ||
@@ -528,6 +982,7 @@ export class PatchAnalyzer {
         });
         continue;
       }
+      const diskPath = path.resolve(repositoryRoot, filePath);
 
       // Heuristic to determine if the patch covers the entire file.
       let isEntireFilePatch = false;
@@ -555,7 +1010,7 @@ export class PatchAnalyzer {
           console.log(
             `Patch for '${filePath}' is a full file addition. Updating content from target file...`,
           );
-          const newFileLines = fs.readFileSync(filePath, 'utf8').split('\n');
+          const newFileLines = fs.readFileSync(diskPath, 'utf8').split('\n');
           hunk.changes = newFileLines.map((line) => ({
             type: '+' as const,
             content: line,
@@ -577,7 +1032,7 @@ export class PatchAnalyzer {
           console.log(
             `Patch for '${filePath}' is a full file deletion. Checking if file exists...`,
           );
-          if (!fs.existsSync(filePath)) {
+          if (!fs.existsSync(diskPath)) {
             results.push({
               file: filePath,
               status: 'intact',
@@ -598,11 +1053,11 @@ export class PatchAnalyzer {
         }
 
         // Case 3: Full file replacement (no context lines)
-        if (fs.existsSync(filePath)) {
+        if (fs.existsSync(diskPath)) {
           console.log(
             `Patch for '${filePath}' is a full file replacement. Updating content from target file...`,
           );
-          const fileContent = fs.readFileSync(filePath, 'utf8');
+          const fileContent = fs.readFileSync(diskPath, 'utf8');
           const fileLines = fileContent.split('\n');
           const originalLinesCount = hunk.changes.filter(
             (c) => c.type === '-',
@@ -637,7 +1092,7 @@ export class PatchAnalyzer {
         continue;
       }
 
-      if (!fs.existsSync(filePath)) {
+      if (!fs.existsSync(diskPath)) {
         results.push({
           file: filePath,
           status: 'error',
@@ -646,7 +1101,7 @@ export class PatchAnalyzer {
         continue;
       }
 
-      const fileContent = fs.readFileSync(filePath, 'utf8');
+      const fileContent = fs.readFileSync(diskPath, 'utf8');
       const fileLines = fileContent.split('\n');
       const modificationBlocks = this.identifyModificationBlocks(singlePatch);
 
@@ -717,7 +1172,10 @@ export class PatchAnalyzer {
 
     const anyUpdates = results.some((result) => result.updated);
     if (anyUpdates) {
-      const updatedPatchContent = this.reconstructPatch(parsedPatches);
+      // reconstructPatch only writes the diff: keep the preamble as it is.
+      const updatedPatchContent =
+        splitPatchPreamble(fs.readFileSync(patchPath, 'utf8')).preamble +
+        this.reconstructPatch(parsedPatches);
       this.savePatch(patchPath, updatedPatchContent);
       console.log('Patch file has been successfully updated with new content.');
     }
@@ -0,0 +1,1272 @@
+// lib/api.ts
+// Copyright (c) 2025 tailot@gmail.com
+// SPDX-License-Identifier: MIT
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import {
+  handleApplyOperation,
+  handleGroupApplyOperation,
+  describePatchOperation,
+  PatchOperationResult,
+} from './apply-logic';
+import {
+  handleSaveOperation,
+  getSaveOutputFileName,
+  getSavePathspecs,
+  SaveSplitMode,
+} from './handlers/save-handler';
+import { handleListOperation } from './handlers/list-handler';
+import { handleStatusOperation } from './handlers/status-handler';
+import { handleOverlapsOperation } from './handlers/overlaps-handler';
+import {
+  handleVerifyAllOperation,
+  VerifyAllResult,
+} from './handlers/verify-all-handler';
+import { handleOffsetCommand } from './handlers/offset-handler';
+import { handleSignOperation, SignResult } from './handlers/sign-handler';
+import {
+  handleGitHooksInstall,
+  handleGitHooksUninstall,
+  handleGitHookRun,
+  GitHookName,
+  GitHooksResult,
+  GitHookRunResult,
+  GIT_HOOK_NAMES,
+} from './handlers/git-hooks-handler';
+import {
+  handleAutomaticOperation,
+  AutomaticOperationResult,
+} from './handlers/automatic-handler';
+import {
+  handlePreviewOperation,
+  PreviewFileResult,
+} from './handlers/preview-handler';
+import { tryRecordPatchOperation, getStateLedgerPath } from './state-ledger';
+import { getPatchTargetPaths } from './file-snapshot';
+import {
+  journalOperation,
+  listFilesRecursively,
+  JournalEntry,
+  UndoResult,
+} from './undo-journal';
+import {
+  handleUndoOperation,
+  handleHistoryOperation,
+} from './handlers/undo-handler';
+import { planPatchOperation } from './patch-dependencies';
+import {
+  PatchEngine,
+  PatchFileSummary,
+  describePatchFiles,
+} from './patch-engine';
+import { PatchStatus } from './patch-state';
+import { OverlapMatrix } from './patch-overlaps';
+import { PatchMetadata, parsePatchMetadata } from './patch-metadata';
+import { SimplifiedUpdatePatchOffsetsResult } from './git-patch-offset-updater';
+import { PatchAnalyzer, VerificationResult } from './PatchAnalyzer';
+import {
+  findPatchesInDirectory,
+  findRepositoryRoot,
+  resolveTayloredFileName,
+  sortPatchesNumerically,
+} from './utils';
+import { TayloredError } from './errors';
+import { HookContext, runHooks } from './hooks';
+import { resolveSaveSource } from './save-source';
+import { withTemporaryObjects } from './temporary-objects';
+import {
+  loadProjectConfig,
+  getTayloredDirName,
+  getTrustedKeysDirName,
+  TayloredConfig,
+} from './config';
+
+/**
+ * Options shared by every API function.
+ */
+export interface ApiOptions {
+  /**
+   * A directory inside the Git repository to operate on; the root of the
+   * repository is found from it, as with `git rev-parse --show-toplevel`.
+   * Relative paths given in the other options (e.g. `UpgradeOptions.targetFile`)
+   * are relative to this directory. Defaults to `process.cwd()`.
+   */
+  cwd?: string;
+}
+
+/**
+ * Options for `add` and `remove`.
+ */
+export interface PatchOptions extends ApiOptions {
+  /** The backend used to apply patches. Defaults to `git`. */
+  engine?: PatchEngine;
+  /**
+   * Three-way merge files that no longer apply (`--3way`). Needs Git: it
+   * cannot be combined with the `native` engine.
+   */
+  threeWay?: boolean;
+  /**
+   * For groups: undo the whole group if one patch fails (the default). See
+   * `handleGroupApplyOperation`.
+   */
+  rollback?: boolean;
+  /**
+   * Refuse patches without a valid signature by a trusted key. Defaults to
+   * `signing.required` from `.tayloredrc`.
+   */
+  requireSignature?: boolean;
+  /**
+   * If given, filled in as the operation progresses and returned, so that the
+   * outcome of the patches processed so far is known even when the operation
+   * throws.
+   */
+  result?: PatchCommandResult;
+}
+
+/**
+ * Options for `verify`.
+ */
+export interface VerifyOptions extends ApiOptions {
+  /** Check that the patch can be removed rather than added. */
+  reverse?: boolean;
+  /** The backend used to check patches. Defaults to `git`. */
+  engine?: PatchEngine;
+  /** See `PatchOptions.requireSignature`. */
+  requireSignature?: boolean;
+  /** See `PatchOptions.result`. */
+  result?: PatchCommandResult;
+}
+
+/**
+ * Options for `preview`.
+ */
+export interface PreviewOptions extends ApiOptions {
+  /** Preview removing the patch rather than adding it. */
+  reverse?: boolean;
+  /** The backend used to compute the result. Defaults to `git`. */
+  engine?: PatchEngine;
+}
+
+/**
+ * Options for `sign`.
+ */
+export interface SignOptions extends ApiOptions {
+  /** The Ed25519 private key file (PEM), relative to `cwd`. */
+  key: string;
+}
+
+/**
+ * Part of the result of the operations that run hooks: `add`, `remove`,
+ * `save`, `offset` and `automatic`.
+ */
+export interface HookReport {
+  /**
+   * The `post` hooks that failed, as `runHooks` reports them. Absent if none
+   * did. The operation itself succeeded and was not undone.
+   */
+  hookFailures?: string[];
+}
+
+/**
+ * The result of `add`, `remove` and `verify`.
+ */
+export interface PatchCommandResult extends HookReport {
+  /** The patch or group, as given. */
+  target: string;
+  /** True if `target` is a directory of patches. */
+  group: boolean;
+  /** One entry per patch, in processing order. */
+  patches: PatchOperationResult[];
+}
+
+/**
+ * The result of `save`.
+ */
+export interface SaveResult extends HookReport {
+  /**
+   * The created patch or, if a mixed diff was split, the created group
+   * directory, relative to `.taylored/`.
+   */
+  patch: string;
+  /**
+   * If a mixed diff was split: the patches of the group, relative to
+   * `.taylored/`, in the order they apply.
+   */
+  patches?: string[];
+  /** The files of the patch, or of each patch of the group in turn. */
+  files: PatchFileSummary[];
+}
+
+// The directory relative paths given by the caller are resolved against.
+function resolveInvocationDirectory(options: ApiOptions): string {
+  return path.resolve(options.cwd || process.cwd());
+}
+
+// The invocation directory relative to the root of its repository, as
+// `git rev-parse --show-prefix` prints it ('' at the root).
+function resolveInvocationPrefix(options: ApiOptions): string {
+  return execFileSync('git', ['rev-parse', '--show-prefix'], {
+    cwd: resolveInvocationDirectory(options),
+    encoding: 'utf8',
+    stdio: 'pipe',
+  }).trim();
+}
+
+/**
+ * The root of the repository that contains `options.cwd`; `options.cwd`
+ * itself if it is not in a repository (only the native engine works there).
+ */
+function resolveCwd(options: ApiOptions): string {
+  const directory = resolveInvocationDirectory(options);
+  return findRepositoryRoot(directory) || directory;
+}
+
+/**
+ * Throws unless `CWD`, as returned by `resolveCwd`, is the root of a Git
+ * repository. Its `.git` is a directory, or a file in linked worktrees and
+ * submodules.
+ */
+async function assertGitRepository(CWD: string): Promise<void> {
+  try {
+    await fs.stat(path.join(CWD, '.git'));
+    return;
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') {
+      throw error;
+    }
+  }
+  throw new TayloredError(
+    'NOT_A_GIT_REPOSITORY',
+    `CRITICAL ERROR: '${CWD}' is not inside a Git repository. Taylored must be run inside a Git repository.`,
+  );
+}
+
+/**
+ * Checks that `CWD` is the root of a Git repository (unless `requireGit` is
+ * false) and loads its `.tayloredrc`.
+ */
+async function openRepository(
+  CWD: string,
+  requireGit: boolean = true,
+): Promise<TayloredConfig> {
+  if (requireGit) {
+    await assertGitRepository(CWD);
+  }
+  return loadProjectConfig(CWD);
+}
+
+/**
+ * The files changed by patches, for hooks.
+ *
+ * @returns {Promise<string[] | null>} The paths, relative to the repository
+ *          root; null if a patch does not exist (the operation then fails
+ *          before any hook runs).
+ */
+async function getPatchFiles(
+  patches: string[],
+  isReverse: boolean,
+  CWD: string,
+  tayloredDirName: string,
+): Promise<string[] | null> {
+  const files = new Set<string>();
+  for (const patch of patches) {
+    let content: Buffer;
+    try {
+      content = await fs.readFile(path.join(CWD, tayloredDirName, patch));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+    describePatchFiles(content, isReverse).forEach((file) =>
+      files.add(file.path),
+    );
+  }
+  return Array.from(files);
+}
+
+// Records the post hooks that failed, if any, in the result of an operation.
+function addHookFailures<T extends HookReport>(
+  result: T,
+  hookFailures: string[],
+): T {
+  if (hookFailures.length > 0) {
+    result.hookFailures = hookFailures;
+  }
+  return result;
+}
+
+function toPosixPath(name: string): string {
+  return name.split(path.sep).join('/');
+}
+
+function assertValidName(value: string, what: string): void {
+  if (!value || value.startsWith('--')) {
+    throw new TayloredError(
+      'USAGE_ERROR',
+      `CRITICAL ERROR: Invalid ${what} '${value}'. It cannot be empty or start with '--'.`,
+    );
+  }
+}
+
+/**
+ * The files `--add` or `--remove` of the patches may change, relative to
+ * `CWD`, for the undo journal: their targets, the `.rej` files of the targets
+ * and the state ledger.
+ */
+async function listPatchOperationFiles(
+  patches: string[],
+  CWD: string,
+  tayloredDirName: string,
+): Promise<string[]> {
+  const files = [path.relative(CWD, getStateLedgerPath(CWD, tayloredDirName))];
+  for (const patch of patches) {
+    let content: string;
+    try {
+      content = await fs.readFile(
+        path.join(CWD, tayloredDirName, patch),
+        'utf8',
+      );
+    } catch (error: any) {
+      // A missing patch is reported by the operation itself.
+      continue;
+    }
+    const targets = getPatchTargetPaths(content);
+    files.push(...targets, ...targets.map((target) => `${target}.rej`));
+  }
+  return files;
+}
+
+async function runPatchOperation(
+  target: string,
+  isVerify: boolean,
+  isReverse: boolean,
+  options: PatchOptions,
+): Promise<PatchCommandResult> {
+  const CWD = resolveCwd(options);
+  const engine = options.engine || 'git';
+  const result = options.result || { target, group: false, patches: [] };
+  result.target = target;
+  const modeName = isVerify
+    ? isReverse
+      ? '--verify-remove'
+      : '--verify-add'
+    : isReverse
+      ? '--remove'
+      : '--add';
+  assertValidName(target, 'taylored file name');
+  if (options.threeWay && engine === 'native') {
+    throw new TayloredError(
+      'USAGE_ERROR',
+      'CRITICAL ERROR: --3way merges with Git and cannot be combined with --engine native.',
+    );
+  }
+  const config = await openRepository(CWD, engine !== 'native');
+  const tayloredDirName = getTayloredDirName(config);
+  const requireSignature =
+    options.requireSignature ?? config.signing?.required === true;
+  const trustedKeysDirName = getTrustedKeysDirName(config);
+
+  let stats;
+  try {
+    stats = await fs.stat(path.join(CWD, tayloredDirName, target));
+  } catch (error: any) {
+    // Possibly a file name without extension; resolved below.
+    if (error.code !== 'ENOENT') {
+      throw error;
+    }
+  }
+
+  const isGroup = !!stats && stats.isDirectory();
+  let hookContext: HookContext | null = null;
+  let patches: string[] = [];
+  if (!isVerify) {
+    const tayloredDir = path.join(CWD, tayloredDirName);
+    const patchName = isGroup ? target : resolveTayloredFileName(target);
+    patches = isGroup
+      ? sortPatchesNumerically(
+          await findPatchesInDirectory(path.join(tayloredDir, patchName)),
+        ).map((patch) => path.relative(tayloredDir, patch))
+      : [patchName];
+    const files = await getPatchFiles(patches, isReverse, CWD, tayloredDirName);
+    if (files !== null) {
+      hookContext = {
+        operation: isReverse ? 'remove' : 'add',
+        mode: modeName,
+        patch: toPosixPath(patchName),
+        patches: patches.map(toPosixPath),
+        files,
+      };
+      await runHooks('pre', hookContext, config, CWD, isGroup);
+    }
+  }
+
+  const applyPatches = async (): Promise<void> => {
+    if (isGroup) {
+      result.group = true;
+      await handleGroupApplyOperation(
+        target,
+        isVerify,
+        isReverse,
+        modeName,
+        CWD,
+        tayloredDirName,
+        {
+          engine,
+          threeWay: options.threeWay,
+          rollback: options.rollback,
+          requireSignature,
+          trustedKeysDirName,
+          report: result.patches,
+        },
+      );
+      return;
+    }
+    const patchName = resolveTayloredFileName(target);
+    try {
+      // Refuses to continue if declared requirements or conflicts are not satisfied.
+      await planPatchOperation(
+        [patchName],
+        isReverse,
+        CWD,
+        tayloredDirName,
+        engine,
+      );
+      await handleApplyOperation(
+        patchName,
+        isVerify,
+        isReverse,
+        modeName,
+        CWD,
+        tayloredDirName,
+        {
+          engine,
+          threeWay: options.threeWay,
+          requireSignature,
+          trustedKeysDirName,
+        },
+      );
+      if (!isVerify) {
+        await tryRecordPatchOperation(
+          patchName,
+          isReverse,
+          CWD,
+          tayloredDirName,
+        );
+      }
+    } catch (error) {
+      result.patches.push(
+        await describePatchOperation(
+          patchName,
+          isVerify,
+          isReverse,
+          CWD,
+          tayloredDirName,
+          error,
+        ),
+      );
+      throw error;
+    }
+    result.patches.push(
+      await describePatchOperation(
+        patchName,
+        isVerify,
+        isReverse,
+        CWD,
+        tayloredDirName,
+      ),
+    );
+  };
+
+  if (isVerify) {
+    await applyPatches();
+  } else {
+    await journalOperation(
+      CWD,
+      modeName,
+      toPosixPath(target),
+      () => listPatchOperationFiles(patches, CWD, tayloredDirName),
+      applyPatches,
+    );
+  }
+  if (hookContext) {
+    addHookFailures(
+      result,
+      await runHooks('post', hookContext, config, CWD, isGroup),
+    );
+  }
+  return result;
+}
+
+/**
+ * Adds a patch, or a group of patches, to the working tree (`taylored --add`).
+ *
+ * @param {string} target - A patch or a directory of patches, relative to `.taylored/`.
+ * @param {PatchOptions} [options={}] - Repository, engine, three-way merge and rollback.
+ * @returns {Promise<PatchCommandResult>} The outcome of each patch.
+ * @throws {Error} If a patch does not apply; see `getErrorInfo` for the error codes.
+ */
+export function add(
+  target: string,
+  options: PatchOptions = {},
+): Promise<PatchCommandResult> {
+  return runPatchOperation(target, false, false, options);
+}
+
+/**
+ * Removes a patch, or a group of patches, from the working tree
+ * (`taylored --remove`).
+ *
+ * @param {string} target - A patch or a directory of patches, relative to `.taylored/`.
+ * @param {PatchOptions} [options={}] - Repository, engine, three-way merge and rollback.
+ * @returns {Promise<PatchCommandResult>} The outcome of each patch.
+ * @throws {Error} If a patch cannot be removed.
+ */
+export function remove(
+  target: string,
+  options: PatchOptions = {},
+): Promise<PatchCommandResult> {
+  return runPatchOperation(target, false, true, options);
+}
+
+/**
+ * Checks that a patch, or a group of patches, could be added (or, with
+ * `options.reverse`, removed) without changing any file
+ * (`taylored --verify-add` / `--verify-remove`).
+ *
+ * @param {string} target - A patch or a directory of patches, relative to `.taylored/`.
+ * @param {VerifyOptions} [options={}] - Repository, direction and engine.
+ * @returns {Promise<PatchCommandResult>} The outcome of each patch.
+ * @throws {Error} If a patch would not apply.
+ */
+export function verify(
+  target: string,
+  options: VerifyOptions = {},
+): Promise<PatchCommandResult> {
+  return runPatchOperation(target, true, !!options.reverse, options);
+}
+
+/**
+ * Computes the result of adding (or removing) a patch or group without
+ * changing any file (`--preview`).
+ *
+ * @param {string} target - A patch or a directory of patches, relative to `.taylored/`.
+ * @param {PreviewOptions} [options={}] - Repository, direction and engine.
+ * @returns {Promise<PreviewFileResult[]>} The change to each file.
+ * @throws {Error} If a patch would not apply.
+ */
+export async function preview(
+  target: string,
+  options: PreviewOptions = {},
+): Promise<PreviewFileResult[]> {
+  const CWD = resolveCwd(options);
+  const engine = options.engine || 'git';
+  assertValidName(target, 'taylored file name');
+  const config = await openRepository(CWD, engine !== 'native');
+  return handlePreviewOperation(
+    target,
+    !!options.reverse,
+    options.reverse ? '--remove' : '--add',
+    CWD,
+    getTayloredDirName(config),
+    engine,
+    config.output?.color,
+  );
+}
+
+/**
+ * Options for `save`.
+ */
+export interface SaveOptions extends ApiOptions {
+  /**
+   * Saves a diff that contains both additions and deletions as a group of
+   * two patches, one deleting lines and one adding them, instead of failing
+   * (`--split-mixed`).
+   */
+  splitMixed?: boolean;
+  /** Saves the changes staged in the index instead of a source (`--staged`). */
+  staged?: boolean;
+  /**
+   * The name of the patch (or group), instead of the one derived from the
+   * source (`--name`).
+   */
+  name?: string;
+  /**
+   * Git pathspecs, relative to `cwd` as in Git, of the changes to save
+   * (`--include`); all of them by default.
+   */
+  include?: string[];
+  /** Git pathspecs, relative to `cwd`, of the changes to leave out (`--exclude`). */
+  exclude?: string[];
+  /**
+   * Saves a group of one patch per changed file or per top-level directory
+   * (`--split`).
+   */
+  split?: SaveSplitMode;
+}
+
+/**
+ * Creates a patch from the differences between HEAD and a branch, or from
+ * the changes of a commit (`rev^!`), a range (`A..B`, `A...B`), a stash
+ * entry or, with `options.staged`, the index (`taylored --save`).
+ *
+ * @param {string | undefined} source - The branch, commit, range or stash
+ *        entry; undefined with `options.staged`.
+ * @param {SaveOptions} [options={}] - The repository, name, paths and split modes.
+ * @returns {Promise<SaveResult>} The created patch (or group) and its files.
+ * @throws {Error} If the diff cannot be computed or contains both additions
+ *                 and deletions (unless `options.splitMixed` is set);
+ *                 `USAGE_ERROR` if both or neither of `source` and
+ *                 `options.staged` are given.
+ */
+export async function save(
+  source: string | undefined,
+  options: SaveOptions = {},
+): Promise<SaveResult> {
+  const CWD = resolveCwd(options);
+  if ((source === undefined) === !options.staged) {
+    throw new TayloredError(
+      'USAGE_ERROR',
+      'CRITICAL ERROR: Pass either a branch, commit, range or stash entry to save, or --staged.',
+    );
+  }
+  if (source !== undefined) {
+    assertValidName(source, 'branch name');
+  }
+  if (options.name !== undefined) {
+    assertValidName(options.name, 'patch name');
+    if (/[/\\]/.test(options.name)) {
+      throw new TayloredError(
+        'USAGE_ERROR',
+        `CRITICAL ERROR: Invalid patch name '${options.name}'. It cannot contain path separators.`,
+      );
+    }
+  }
+  const config = await openRepository(CWD);
+  const tayloredDirName = getTayloredDirName(config);
+  // Nothing is written to the object store of the repository: the tree of
+  // the index (--staged) only exists until the patch is saved.
+  const { patch, hookContext } = await withTemporaryObjects(
+    CWD,
+    async (env) => {
+      const saveSource = resolveSaveSource(source, !!options.staged, CWD, env);
+      const patchName = getSaveOutputFileName(saveSource, options.name);
+      const pathspecs =
+        options.include?.length || options.exclude?.length
+          ? getSavePathspecs(
+              options.include,
+              options.exclude,
+              resolveInvocationPrefix(options),
+            )
+          : [];
+      let changedFiles: string[] = [];
+      try {
+        changedFiles = execFileSync(
+          'git',
+          [
+            'diff',
+            '--name-only',
+            saveSource.from,
+            saveSource.to,
+            '--',
+            ...pathspecs,
+          ],
+          { cwd: CWD, env, encoding: 'utf8', stdio: 'pipe' },
+        )
+          .split('\n')
+          .filter((file) => file !== '');
+      } catch (error: any) {
+        // An invalid branch is reported by handleSaveOperation.
+      }
+      const hookContext: HookContext = {
+        operation: 'save',
+        mode: '--save',
+        patch: patchName,
+        patches: [patchName],
+        files: changedFiles,
+      };
+      await runHooks('pre', hookContext, config, CWD);
+      const patch = await handleSaveOperation(
+        saveSource,
+        CWD,
+        tayloredDirName,
+        {
+          name: options.name,
+          splitMixed: !!options.splitMixed,
+          pathspecs,
+          split: options.split,
+        },
+      );
+      return { patch, hookContext };
+    },
+  );
+  const tayloredDir = path.join(CWD, tayloredDirName);
+  const isGroup = (await fs.stat(path.join(tayloredDir, patch))).isDirectory();
+  const patches = isGroup
+    ? sortPatchesNumerically(
+        await findPatchesInDirectory(path.join(tayloredDir, patch)),
+      ).map((patchPath) => path.relative(tayloredDir, patchPath))
+    : [patch];
+  const files: PatchFileSummary[] = [];
+  for (const patchName of patches) {
+    files.push(
+      ...describePatchFiles(
+        await fs.readFile(path.join(tayloredDir, patchName)),
+      ),
+    );
+  }
+  const hookFailures = await runHooks(
+    'post',
+    {
+      ...hookContext,
+      patch: toPosixPath(patch),
+      patches: patches.map(toPosixPath),
+      files: [...new Set(files.map((file) => file.path))],
+    },
+    config,
+    CWD,
+    isGroup,
+  );
+  return addHookFailures<SaveResult>(
+    isGroup
+      ? { patch, patches: patches.map(toPosixPath), files }
+      : { patch, files },
+    hookFailures,
+  );
+}
+
+/**
+ * Lists the patches in `.taylored/` (`taylored --list`).
+ *
+ * @param {ApiOptions} [options={}] - The repository.
+ * @returns {Promise<string[]>} The patch names, relative to `.taylored/`.
+ */
+export async function list(options: ApiOptions = {}): Promise<string[]> {
+  const CWD = resolveCwd(options);
+  const config = await openRepository(CWD);
+  return handleListOperation(CWD, getTayloredDirName(config));
+}
+
+/**
+ * Signs a patch with an Ed25519 private key, writing its detached signature
+ * next to it (`taylored --sign`).
+ *
+ * @param {string} patchName - The patch, relative to `.taylored/`.
+ * @param {SignOptions} options - The repository and the private key file.
+ * @returns {Promise<SignResult>} The signature file and the signing key.
+ * @throws {Error} If the patch or key cannot be read, or the key is not an
+ *                 Ed25519 private key.
+ */
+export async function sign(
+  patchName: string,
+  options: SignOptions,
+): Promise<SignResult> {
+  const CWD = resolveCwd(options);
+  assertValidName(patchName, 'taylored file name');
+  assertValidName(options.key, 'key file');
+  const config = await openRepository(CWD);
+  return handleSignOperation(
+    patchName,
+    path.resolve(resolveInvocationDirectory(options), options.key),
+    CWD,
+    getTayloredDirName(config),
+    getTrustedKeysDirName(config),
+  );
+}
+
+/**
+ * Reads the metadata preamble of a patch (title, description, author, version,
+ * tags, target version and dependencies). Nothing is modified.
+ *
+ * @param {string} patchName - The patch, relative to `.taylored/`.
+ * @param {ApiOptions} [options={}] - The repository.
+ * @returns {Promise<PatchMetadata>} The fields present in the patch.
+ */
+export async function metadata(
+  patchName: string,
+  options: ApiOptions = {},
+): Promise<PatchMetadata> {
+  const CWD = resolveCwd(options);
+  assertValidName(patchName, 'taylored file name');
+  const config = await openRepository(CWD);
+  const patchPath = path.join(
+    CWD,
+    getTayloredDirName(config),
+    resolveTayloredFileName(patchName),
+  );
+  let content: string;
+  try {
+    content = await fs.readFile(patchPath, 'utf8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      throw new TayloredError(
+        'FILE_NOT_FOUND',
+        `CRITICAL ERROR: Patch file '${patchPath}' not found.`,
+      );
+    }
+    throw error;
+  }
+  return parsePatchMetadata(content);
+}
+
+/**
+ * Reports which patches are applied (`taylored --status`).
+ *
+ * @param {ApiOptions} [options={}] - The repository.
+ * @returns {Promise<PatchStatus[]>} The status of each patch.
+ */
+export async function status(options: ApiOptions = {}): Promise<PatchStatus[]> {
+  const CWD = resolveCwd(options);
+  const config = await openRepository(CWD);
+  return handleStatusOperation(CWD, getTayloredDirName(config));
+}
+
+/**
+ * Analyzes which patches overlap and whether they can be applied together
+ * (`taylored --overlaps`). Nothing is modified.
+ *
+ * @param {ApiOptions} [options={}] - The repository.
+ * @returns {Promise<OverlapMatrix>} The analysis of every pair of patches.
+ */
+export async function overlaps(
+  options: ApiOptions = {},
+): Promise<OverlapMatrix> {
+  const CWD = resolveCwd(options);
+  const config = await openRepository(CWD);
+  return handleOverlapsOperation(CWD, getTayloredDirName(config));
+}
+
+/**
+ * Options for `verifyAll`.
+ */
+export interface VerifyAllOptions extends ApiOptions {
+  /** Write a JUnit XML report to this file, relative to `cwd`. */
+  junit?: string;
+  /** Write a SARIF report to this file, relative to `cwd`. */
+  sarif?: string;
+  /**
+   * An object to fill in as patches are checked, so that the results are
+   * available when the function throws.
+   */
+  result?: VerifyAllResult;
+}
+
+/**
+ * Checks the health of every patch (`taylored --verify-all`): whether it is
+ * applied, whether the opposite operation would succeed and whether its
+ * frames are intact. Nothing is modified.
+ *
+ * @param {VerifyAllOptions} [options={}] - The repository and reports.
+ * @returns {Promise<VerifyAllResult>} The health of every patch.
+ * @throws {TayloredError} `PATCH_APPLY_FAILED` if any patch fails.
+ */
+export async function verifyAll(
+  options: VerifyAllOptions = {},
+): Promise<VerifyAllResult> {
+  const CWD = resolveCwd(options);
+  const config = await openRepository(CWD);
+  return handleVerifyAllOperation(CWD, getTayloredDirName(config), {
+    junit:
+      options.junit &&
+      path.resolve(resolveInvocationDirectory(options), options.junit),
+    sarif:
+      options.sarif &&
+      path.resolve(resolveInvocationDirectory(options), options.sarif),
+    result: options.result,
+  });
+}
+
+/**
+ * Options for `installGitHooks` and `uninstallGitHooks`.
+ */
+export interface GitHooksOptions extends ApiOptions {
+  /** The hooks to install or remove. Defaults to all of them. */
+  hooks?: GitHookName[];
+  /** Replace hooks that were not written by taylored. */
+  force?: boolean;
+}
+
+/**
+ * Installs Git hooks that stop commits and pushes that would break a patch
+ * (`taylored hooks install`).
+ *
+ * @param {GitHooksOptions} [options={}] - The repository and hooks.
+ * @returns {Promise<GitHooksResult>} The hooks written.
+ */
+export async function installGitHooks(
+  options: GitHooksOptions = {},
+): Promise<GitHooksResult> {
+  const CWD = resolveCwd(options);
+  const config = await openRepository(CWD);
+  return handleGitHooksInstall(
+    options.hooks || [...GIT_HOOK_NAMES],
+    options.force === true,
+    CWD,
+    getTayloredDirName(config),
+  );
+}
+
+/**
+ * Removes the Git hooks written by `installGitHooks`
+ * (`taylored hooks uninstall`).
+ *
+ * @param {GitHooksOptions} [options={}] - The repository and hooks.
+ * @returns {Promise<GitHooksResult>} The hooks deleted.
+ */
+export async function uninstallGitHooks(
+  options: GitHooksOptions = {},
+): Promise<GitHooksResult> {
+  const CWD = resolveCwd(options);
+  await openRepository(CWD);
+  return handleGitHooksUninstall(options.hooks || [...GIT_HOOK_NAMES], CWD);
+}
+
+/**
+ * Options for `runGitHook`.
+ */
+export interface RunGitHookOptions extends ApiOptions {
+  /** The standard input git passes to a pre-push hook. */
+  pushInput?: string;
+}
+
+/**
+ * Checks that every patch can still be applied or removed in the commit being
+ * made or pushed (`taylored hooks run <hook>`).
+ *
+ * @param {GitHookName} hookName - `pre-commit` or `pre-push`.
+ * @param {RunGitHookOptions} [options={}] - The repository and pushed refs.
+ * @returns {Promise<GitHookRunResult>} The state of every patch.
+ * @throws {TayloredError} `PATCH_APPLY_FAILED` if a patch no longer applies.
+ */
+export async function runGitHook(
+  hookName: GitHookName,
+  options: RunGitHookOptions = {},
+): Promise<GitHookRunResult> {
+  const CWD = resolveCwd(options);
+  if (!GIT_HOOK_NAMES.includes(hookName)) {
+    throw new TayloredError(
+      'USAGE_ERROR',
+      `CRITICAL ERROR: Unknown Git hook '${hookName}'. Expected ${GIT_HOOK_NAMES.join(' or ')}.`,
+    );
+  }
+  const config = await openRepository(CWD);
+  return handleGitHookRun(
+    hookName,
+    options.pushInput || '',
+    CWD,
+    getTayloredDirName(config),
+  );
+}
+
+/**
+ * Options for `offset`.
+ */
+export interface OffsetOptions extends ApiOptions {
+  /**
+   * The branch to compute the new offsets against. Defaults to `baseBranch`
+   * from `.tayloredrc`, then `main`.
+   */
+  branchName?: string;
+}
+
+/**
+ * Updates the line offsets of a patch (`taylored --offset`).
+ *
+ * @param {string} patchName - The patch, relative to `.taylored/`.
+ * @param {OffsetOptions} [options={}] - The repository and branch.
+ * @returns {Promise<SimplifiedUpdatePatchOffsetsResult & HookReport>} The
+ *          updated patch, and the post hooks that failed.
+ * @throws {Error} If the offsets cannot be updated (e.g. the patch no longer applies).
+ */
+export async function offset(
+  patchName: string,
+  options: OffsetOptions = {},
+): Promise<SimplifiedUpdatePatchOffsetsResult & HookReport> {
+  const CWD = resolveCwd(options);
+  assertValidName(patchName, 'taylored file name');
+  const config = await openRepository(CWD);
+  const tayloredDirName = getTayloredDirName(config);
+  const resolvedName = resolveTayloredFileName(patchName);
+  const files = await getPatchFiles(
+    [resolvedName],
+    false,
+    CWD,
+    tayloredDirName,
+  );
+  const hookContext: HookContext | null =
+    files === null
+      ? null
+      : {
+          operation: 'offset',
+          mode: '--offset',
+          patch: toPosixPath(resolvedName),
+          patches: [toPosixPath(resolvedName)],
+          files,
+        };
+  if (hookContext) {
+    await runHooks('pre', hookContext, config, CWD);
+  }
+  const patchFile = path.join(tayloredDirName, resolvedName);
+  const result: SimplifiedUpdatePatchOffsetsResult & HookReport =
+    await journalOperation(
+      CWD,
+      '--offset',
+      toPosixPath(resolvedName),
+      async () => [patchFile],
+      () =>
+        handleOffsetCommand(
+          patchName,
+          CWD,
+          tayloredDirName,
+          options.branchName || config.baseBranch,
+        ),
+    );
+  if (hookContext) {
+    addHookFailures(
+      result,
+      await runHooks(
+        'post',
+        {
+          ...hookContext,
+          files:
+            (await getPatchFiles(
+              [resolvedName],
+              false,
+              CWD,
+              tayloredDirName,
+            )) || [],
+        },
+        config,
+        CWD,
+      ),
+    );
+  }
+  return result;
+}
+
+/**
+ * Options for `automatic`.
+ */
+export interface AutomaticOptions extends ApiOptions {
+  /** Directories, relative to the repository, that are not scanned. */
+  exclude?: string[];
+  /**
+   * Keeps watching the files and regenerates the patches of the blocks that
+   * change, until `signal` is aborted (`--watch`), from the current content
+   * of the files rather than from the last commit.
+   */
+  watch?: boolean;
+  /** Ends watch mode when aborted. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Creates patches from the taylored blocks found in the source files
+ * (`taylored --automatic`).
+ *
+ * @param {string | string[] | undefined} extensions - The extensions of the files to scan;
+ *        if undefined, `automatic.extensions` from `.tayloredrc`.
+ * @param {string | undefined} branchName - The branch the blocks are diffed against;
+ *        if undefined, `baseBranch` from `.tayloredrc`.
+ * @param {AutomaticOptions} [options={}] - The repository, excluded directories
+ *        (`automatic.exclude` from `.tayloredrc` by default) and watch mode.
+ * @returns {Promise<AutomaticOperationResult & HookReport>} The files scanned and
+ *          patches written (in watch mode, once `options.signal` is aborted), and
+ *          the post hooks that failed.
+ * @throws {Error} If the temporary worktree cannot be created or a Git
+ *         operation fails.
+ */
+export async function automatic(
+  extensions: string | string[] | undefined,
+  branchName: string | undefined,
+  options: AutomaticOptions = {},
+): Promise<AutomaticOperationResult & HookReport> {
+  const CWD = resolveCwd(options);
+  const config = await openRepository(CWD);
+  const tayloredDirName = getTayloredDirName(config);
+  const automaticConfig = config.automatic || {};
+  extensions = extensions || automaticConfig.extensions;
+  branchName = branchName || config.baseBranch;
+  if (!extensions || extensions.length === 0) {
+    throw new TayloredError(
+      'USAGE_ERROR',
+      "CRITICAL ERROR: No extensions to scan. Pass them or set 'automatic.extensions' in .tayloredrc.",
+    );
+  }
+  if (!branchName) {
+    throw new TayloredError(
+      'USAGE_ERROR',
+      "CRITICAL ERROR: No branch to diff against. Pass one or set 'baseBranch' in .tayloredrc.",
+    );
+  }
+  assertValidName(branchName, 'branch name');
+  const hookContext: HookContext = {
+    operation: 'automatic',
+    mode: '--automatic',
+    patch: null,
+    patches: [],
+    files: [],
+  };
+  await runHooks('pre', hookContext, config, CWD);
+  const runAutomatic = () =>
+    handleAutomaticOperation(
+      Array.isArray(extensions) ? extensions.join(',') : extensions,
+      branchName!,
+      CWD,
+      tayloredDirName,
+      options.exclude || automaticConfig.exclude,
+      { watch: options.watch, signal: options.signal },
+    );
+  // Watch mode writes patches until it is stopped: it is not journaled.
+  const result: AutomaticOperationResult & HookReport = options.watch
+    ? await runAutomatic()
+    : await journalOperation(
+        CWD,
+        '--automatic',
+        null,
+        () => listFilesRecursively(tayloredDirName, CWD),
+        runAutomatic,
+      );
+  return addHookFailures(
+    result,
+    await runHooks(
+      'post',
+      {
+        ...hookContext,
+        patches: result.patches,
+        files:
+          (await getPatchFiles(result.patches, false, CWD, tayloredDirName)) ||
+          [],
+      },
+      config,
+      CWD,
+    ),
+  );
+}
+
+/**
+ * Options for `upgrade`.
+ */
+export interface UpgradeOptions extends ApiOptions {
+  /**
+   * The file to check the patch against, relative to `cwd`, instead of the
+   * one it names.
+   */
+  targetFile?: string;
+}
+
+/**
+ * Checks the frames of a patch against the current files and, where they are
+ * intact, updates the patch content (`taylored --upgrade`).
+ *
+ * @param {string} patchName - The patch, relative to `.taylored/`.
+ * @param {UpgradeOptions} [options={}] - The repository and target file.
+ * @returns {Promise<VerificationResult[]>} The result for each file of the patch.
+ */
+export async function upgrade(
+  patchName: string,
+  options: UpgradeOptions = {},
+): Promise<VerificationResult[]> {
+  const CWD = resolveCwd(options);
+  assertValidName(patchName, 'patch file');
+  const config = await openRepository(CWD);
+  const resolvedName = resolveTayloredFileName(patchName);
+  const patchFile = path.join(getTayloredDirName(config), resolvedName);
+  return journalOperation(
+    CWD,
+    '--upgrade',
+    toPosixPath(resolvedName),
+    async () => [patchFile],
+    async () =>
+      new PatchAnalyzer().verifyIntegrityAndUpgrade(
+        path.join(CWD, patchFile),
+        options.targetFile
+          ? path.resolve(
+              resolveInvocationDirectory(options),
+              options.targetFile,
+            )
+          : undefined,
+        CWD,
+      ),
+  );
+}
+
+/**
+ * Options for `undo`.
+ */
+export interface UndoOptions extends ApiOptions {
+  /**
+   * The oldest journal entry to undo (see `history`); every later operation
+   * is undone too. Defaults to the last operation.
+   */
+  entry?: number;
+  /** Restores the files even if they changed since the operations. */
+  force?: boolean;
+}
+
+/**
+ * Undoes the last mutating command (`--add`, `--remove`, `--offset`,
+ * `--automatic`, `--upgrade`), or every command back to `options.entry`,
+ * restoring the files they changed (`taylored --undo`).
+ *
+ * @param {UndoOptions} [options={}] - The repository, entry and force flag.
+ * @returns {Promise<UndoResult>} The operations undone and the files restored.
+ * @throws {Error} `UNDO_CONFLICT` if files changed since the operations;
+ *         `USAGE_ERROR` if there is nothing to undo.
+ */
+export async function undo(options: UndoOptions = {}): Promise<UndoResult> {
+  const CWD = resolveCwd(options);
+  await openRepository(CWD);
+  return handleUndoOperation(CWD, options.entry, !!options.force);
+}
+
+/**
+ * Lists the operations recorded in the undo journal (`taylored --history`).
+ *
+ * @param {ApiOptions} [options={}] - The repository.
+ * @returns {Promise<JournalEntry[]>} The entries, newest first.
+ */
+export async function history(
+  options: ApiOptions = {},
+): Promise<JournalEntry[]> {
+  const CWD = resolveCwd(options);
+  await openRepository(CWD);
+  return handleHistoryOperation(CWD);
+}
+
+export { TayloredError, getErrorInfo } from './errors';
+export type { TayloredErrorCode, ErrorInfo } from './errors';
+export type { PatchOperationResult, PatchOutcome } from './apply-logic';
+export type { PatchEngine, PatchFileSummary } from './patch-engine';
+export type { PatchStatus, PatchState } from './patch-state';
+export type {
+  OverlapMatrix,
+  PatchPairAnalysis,
+  PairVerdict,
+  HunkOverlap,
+  LineRange,
+} from './patch-overlaps';
+export type { PreviewFileResult } from './handlers/preview-handler';
+export type { AutomaticOperationResult } from './handlers/automatic-handler';
+export type { JournalEntry, UndoResult } from './undo-journal';
+export type { SimplifiedUpdatePatchOffsetsResult } from './git-patch-offset-updater';
+export type { VerificationResult } from './PatchAnalyzer';
+export type { TayloredConfig } from './config';
+export type { PatchMetadata } from './patch-metadata';
+export type { SignResult } from './handlers/sign-handler';
+export type { SaveSplitMode } from './handlers/save-handler';
+export type {
+  VerifyAllResult,
+  PatchHealth,
+} from './handlers/verify-all-handler';
+export type {
+  GitHookName,
+  GitHooksResult,
+  GitHookRunResult,
+  GitHookCheck,
+  GitHookPatchState,
+} from './handlers/git-hooks-handler';
+export { parsePatchMetadata, formatPatchMetadata } from './patch-metadata';
@@ -5,7 +5,63 @@
 import * as fs from 'fs/promises'; // Using fs/promises for async file operations
 import * as path from 'path';
 import { execSync } from 'child_process';
-import { TAYLORED_DIR_NAME } from './constants';
+import { TAYLORED_TRUSTED_KEYS_DIR_NAME } from './constants';
+import { findPatchesInDirectory, sortPatchesNumerically } from './utils';
+import {
+  getPatchTargetPaths,
+  takeFileSnapshot,
+  restoreFileSnapshot,
+  FileSnapshot,
+} from './file-snapshot';
+import { getStateLedgerPath, tryRecordPatchOperation } from './state-ledger';
+import { planPatchOperation } from './patch-dependencies';
+import { assertPatchesSigned } from './patch-signing';
+import {
+  PatchEngine,
+  applyPatchNatively,
+  PatchApplyError,
+  describePatchFiles,
+  PatchFileSummary,
+} from './patch-engine';
+import {
+  applyPatchWithThreeWayMerge,
+  reportThreeWayResults,
+  ThreeWayConflictError,
+} from './three-way-merge';
+import { TayloredError, getErrorInfo, ErrorInfo } from './errors';
+import { childProcessStdio } from './output';
+
+/**
+ * Options for `handleApplyOperation`.
+ */
+export interface ApplyOptions {
+  /** The backend used to apply the patch. Defaults to `git`. */
+  engine?: PatchEngine;
+  /**
+   * When true (`--3way`), files whose hunks no longer apply are three-way
+   * merged instead of failing, leaving conflict markers where the merge
+   * cannot be resolved. Only for add/remove, not for verification. The files
+   * are patched in memory and merged with `git merge-file`, whatever
+   * `engine` is; callers refuse `--3way` with the `native` engine.
+   */
+  threeWay?: boolean;
+  /**
+   * When true, the patch must have a detached signature by a key of the trust
+   * store that matches its content (see `lib/patch-signing.ts`); otherwise
+   * nothing is applied.
+   */
+  requireSignature?: boolean;
+  /**
+   * The trust store `requireSignature` checks against, relative to `CWD`
+   * (`signing.trustedKeys` in `.tayloredrc`). Defaults to `.taylored-keys`.
+   */
+  trustedKeysDirName?: string;
+  /**
+   * The directory holding the patch, when it is not the .taylored directory
+   * of `CWD` (e.g. when `CWD` is a scratch worktree of `--offset`).
+   */
+  tayloredDir?: string;
+}
 
 /**
  * Handles core Taylored operations for applying, removing, and verifying patches
@@ -22,6 +78,18 @@ import { TAYLORED_DIR_NAME } from './constants';
  *
  * The function first checks for the existence and accessibility of the specified
  * .taylored patch file before proceeding with the `git apply` command.
+ *
+ * With `engine` set to `native`, the patch is applied by the built-in engine in
+ * `lib/patch-engine.ts` instead, which needs neither Git nor a repository. It
+ * follows the same rules as `git apply --whitespace=fix`, except that a patch
+ * that does not apply leaves every file untouched instead of writing `.rej` files.
+ *
+ * With `threeWay` set, the patch is applied through `lib/three-way-merge.ts`:
+ * files that no longer apply cleanly are merged with `git merge-file` against
+ * the patch's pre-image, and unresolved conflicts are left as conflict markers
+ * in the files. A `ThreeWayConflictError` is thrown in that case.
+ * With `requireSignature` set, the patch is refused unless its signature is
+ * valid and made by a trusted key (see `assertPatchesSigned`).
  * For more details on the user-facing commands utilizing this logic, see DOCUMENTATION.md.
  *
  * @async
@@ -35,11 +103,15 @@ import { TAYLORED_DIR_NAME } from './constants';
  *                            Used for logging and error messages.
  * @param {string} CWD - The current working directory, which must be the root of a
  *                       Git repository for `git apply` to function correctly.
+ * @param {string} tayloredDirName - The .taylored directory, relative to `CWD`
+ *                                   (`patchDirectory` in `.tayloredrc`).
+ * @param {ApplyOptions} [options={}] - Patch engine, three-way merge fallback, signature policy
+ *   and patch directory.
  * @returns {Promise<void>} A promise that resolves if the operation is successful.
  * @throws {Error} Throws an error if the specified .taylored file is not found or
- *                 is inaccessible (due to `fs.access` failure). Also re-throws errors
- *                 from `execSync` if the `git apply` command itself fails (e.g., patch
- *                 does not apply cleanly, non-zero exit code).
+ *                 is inaccessible (due to `fs.access` failure). Throws a `TayloredError`
+ *                 with code `PATCH_APPLY_FAILED` if the `git apply` command itself fails
+ *                 (e.g., patch does not apply cleanly, non-zero exit code).
  */
 export async function handleApplyOperation(
   tayloredFileNameWithExt: string,
@@ -47,8 +119,11 @@ export async function handleApplyOperation(
   isReverse: boolean,
   modeName: string,
   CWD: string,
+  tayloredDirName: string,
+  options: ApplyOptions = {},
 ): Promise<void> {
-  const tayloredDir = path.join(CWD, TAYLORED_DIR_NAME);
+  const engine = options.engine || 'git';
+  const tayloredDir = options.tayloredDir || path.join(CWD, tayloredDirName);
   const actualTayloredFilePath = path.join(
     tayloredDir,
     tayloredFileNameWithExt,
@@ -65,11 +140,42 @@ export async function handleApplyOperation(
   } catch (e: any) {
     // Provide a specific error message if the file access fails.
     console.error(
-      `CRITICAL ERROR: Taylored file '${actualTayloredFilePath}' not found or not accessible in '${TAYLORED_DIR_NAME}/' directory.`,
+      `CRITICAL ERROR: Taylored file '${actualTayloredFilePath}' not found or not accessible in '${tayloredDirName}/' directory.`,
     );
     throw e; // Re-throw the error to be handled by the caller.
   }
 
+  if (options.requireSignature) {
+    await assertPatchesSigned(
+      [tayloredFileNameWithExt],
+      tayloredDir,
+      CWD,
+      options.trustedKeysDirName || TAYLORED_TRUSTED_KEYS_DIR_NAME,
+    );
+  }
+
+  if (options.threeWay && !isVerify) {
+    await applyWithThreeWayMerge(
+      actualTayloredFilePath,
+      tayloredDir,
+      isReverse,
+      modeName,
+      CWD,
+    );
+    return;
+  }
+
+  if (engine === 'native') {
+    await applyWithNativeEngine(
+      actualTayloredFilePath,
+      isVerify,
+      isReverse,
+      modeName,
+      CWD,
+    );
+    return;
+  }
+
   // Construct the git apply command with appropriate flags.
   // --verbose: Provides more detailed output from git apply.
   // --whitespace=fix: Attempts to fix whitespace errors automatically.
@@ -95,7 +201,8 @@ export async function handleApplyOperation(
     // Execute the git apply command.
     // stdio: 'inherit' allows git's output (stdout, stderr) to be displayed directly in the console,
     // providing real-time feedback to the user.
-    execSync(gitApplyCommand, { cwd: CWD, stdio: 'inherit' });
+    // With --json, git's output goes to stderr instead (see lib/output.ts).
+    execSync(gitApplyCommand, { cwd: CWD, stdio: childProcessStdio() });
 
     // Log success message based on whether it was a verification or an execution.
     // Success messages can be added here if more detailed positive feedback is needed.
@@ -118,6 +225,409 @@ export async function handleApplyOperation(
         '  Please check git status and any .rej files created for conflict details.',
       );
     }
-    throw error; // Re-throw the error to be handled by the caller.
+    throw new TayloredError(
+      'PATCH_APPLY_FAILED',
+      `CRITICAL ERROR: 'git apply' failed during ${modeName} operation.`,
+    );
+  }
+}
+
+/**
+ * The `native` branch of `handleApplyOperation`. Prints a summary in the style
+ * of `git apply --verbose` and reports failures with the same messages as the
+ * git backend.
+ */
+async function applyWithNativeEngine(
+  patchFilePath: string,
+  isVerify: boolean,
+  isReverse: boolean,
+  modeName: string,
+  CWD: string,
+): Promise<void> {
+  console.log(`Checking patch ${path.relative(CWD, patchFilePath)}...`);
+  try {
+    const files = await applyPatchNatively(
+      patchFilePath,
+      CWD,
+      isVerify,
+      isReverse,
+    );
+    if (!isVerify) {
+      files.forEach((file) =>
+        console.log(
+          `${file.content === null ? 'Removed' : 'Patched'} ${file.path}`,
+        ),
+      );
+    }
+  } catch (error: any) {
+    console.error(
+      `\nCRITICAL ERROR: The native patch engine failed during ${modeName} operation.`,
+    );
+    if (error instanceof PatchApplyError) {
+      error.failures.forEach((failure) => console.error(`  error: ${failure}`));
+    } else {
+      console.error(`  Details: ${error.message}`);
+    }
+    if (isVerify) {
+      console.error(
+        '  Verification failed. The patch may not apply/revert cleanly (atomicity check failed).',
+      );
+    } else {
+      console.error('  No files were modified.');
+    }
+    throw error;
+  }
+}
+
+/**
+ * The `threeWay` branch of `handleApplyOperation`. Failures other than merge
+ * conflicts leave every file untouched, as with the native engine.
+ */
+async function applyWithThreeWayMerge(
+  patchFilePath: string,
+  tayloredDir: string,
+  isReverse: boolean,
+  modeName: string,
+  CWD: string,
+): Promise<void> {
+  const patchName = path.relative(tayloredDir, patchFilePath);
+  let results;
+  try {
+    results = await applyPatchWithThreeWayMerge(patchFilePath, CWD, isReverse);
+  } catch (error: any) {
+    console.error(
+      `\nCRITICAL ERROR: Three-way merge failed during ${modeName} operation.`,
+    );
+    console.error(`  Details: ${error.message}`);
+    console.error('  No files were modified.');
+    throw error;
+  }
+  reportThreeWayResults(patchName, results);
+}
+
+/**
+ * What happened to a patch during an apply command.
+ * - `applied`, `removed`, `verified`: the operation succeeded.
+ * - `failed`: the patch did not apply (or revert).
+ * - `conflicted`: a `--3way` merge left conflict markers.
+ * - `rolled-back`: the patch had succeeded, but was reverted by a group rollback.
+ * - `skipped`: not processed, because an earlier patch of the group failed.
+ */
+export type PatchOutcome =
+  | 'applied'
+  | 'removed'
+  | 'verified'
+  | 'failed'
+  | 'conflicted'
+  | 'rolled-back'
+  | 'skipped';
+
+/**
+ * The outcome of one patch, as reported by `--json`.
+ */
+export interface PatchOperationResult {
+  /** The patch, relative to `.taylored/`. */
+  patch: string;
+  outcome: PatchOutcome;
+  /** The files the patch changes in the direction of the operation. */
+  files: PatchFileSummary[];
+  error?: ErrorInfo;
+}
+
+/**
+ * Builds the `PatchOperationResult` of a patch.
+ *
+ * @param {string} patchName - The patch, relative to `.taylored/`.
+ * @param {boolean} isVerify - Whether the operation was a verification.
+ * @param {boolean} isReverse - Whether the operation removed the patch.
+ * @param {string} CWD - The root of the repository.
+ * @param {string} tayloredDirName - The .taylored directory, relative to `CWD`.
+ * @param {unknown} [error] - The error the operation failed with, if any.
+ * @returns {Promise<PatchOperationResult>} The result; `files` is empty if the
+ *                                          patch cannot be read.
+ */
+export async function describePatchOperation(
+  patchName: string,
+  isVerify: boolean,
+  isReverse: boolean,
+  CWD: string,
+  tayloredDirName: string,
+  error?: unknown,
+): Promise<PatchOperationResult> {
+  let files: PatchFileSummary[] = [];
+  try {
+    files = describePatchFiles(
+      await fs.readFile(path.join(CWD, tayloredDirName, patchName)),
+      isReverse,
+    );
+  } catch (readError: any) {
+    // Reported through `error` (e.g. the patch does not exist).
+  }
+  const result: PatchOperationResult = {
+    patch: patchName.split(path.sep).join('/'),
+    outcome: isVerify ? 'verified' : isReverse ? 'removed' : 'applied',
+    files,
+  };
+  if (error !== undefined) {
+    result.outcome =
+      error instanceof ThreeWayConflictError ? 'conflicted' : 'failed';
+    result.error = getErrorInfo(error);
+  }
+  return result;
+}
+
+/**
+ * Options for `handleGroupApplyOperation`.
+ */
+export interface GroupApplyOptions extends ApplyOptions {
+  /**
+   * When true (the default), a failure while adding or removing a patch group
+   * restores every file touched during the run, so the group is applied
+   * all-or-nothing. When false, patches processed before the failure are left
+   * in place, together with any `.rej` files, for debugging.
+   */
+  rollback?: boolean;
+  /**
+   * If given, filled with one `PatchOperationResult` per patch of the group,
+   * in processing order, including after a failure (used by `--json`).
+   */
+  report?: PatchOperationResult[];
+}
+
+/**
+ * Handles `--add`, `--remove`, `--verify-add` and `--verify-remove` on a
+ * directory of patches inside `.taylored/` (a "patch group").
+ *
+ * Patches are found recursively and sorted numerically, then reordered so that
+ * every patch follows the patches it declares as `Requires:` (see
+ * `planPatchOperation`); for removal the order is reversed. Each patch is then
+ * processed through `handleApplyOperation`. Dependency cycles and unsatisfied
+ * requirements or conflicts abort the command before any file is touched, as
+ * do missing or invalid signatures when `options.requireSignature` is set.
+ *
+ * Add and remove runs are transactional. Before each patch is processed, the
+ * files it touches (and the `.rej` files `git apply --reject` may create next to
+ * them) are snapshotted. If patch N fails, its own partial changes are undone
+ * first, then patches N-1..1 are reverted in reverse order by restoring their
+ * snapshots, and finally the state ledger is restored. The working tree ends up
+ * exactly as it was before the command. Set `options.rollback` to false to
+ * keep the partial state instead.
+ *
+ * With `options.threeWay`, a patch that merges with conflicts halts the group
+ * without rolling back, so that its conflict markers can be resolved; the
+ * patches processed before it stay applied.
+ *
+ * @async
+ * @param {string} groupName - The group directory, relative to `.taylored/`.
+ * @param {boolean} isVerify - If true, each patch is only checked (`git apply --check`).
+ * @param {boolean} isReverse - If true, patches are removed, in reverse order.
+ * @param {string} modeName - The calling command (e.g. "--add"), used for logging.
+ * @param {string} CWD - The root of the Git repository.
+ * @param {string} tayloredDirName - The .taylored directory, relative to `CWD`.
+ * @param {GroupApplyOptions} [options={}] - Rollback behaviour, patch engine and three-way merge.
+ * @returns {Promise<void>} Resolves when every patch in the group was processed.
+ * @throws {Error} If any patch fails; the error from `handleApplyOperation` is re-thrown
+ *                 after the rollback (if enabled) has completed.
+ */
+export async function handleGroupApplyOperation(
+  groupName: string,
+  isVerify: boolean,
+  isReverse: boolean,
+  modeName: string,
+  CWD: string,
+  tayloredDirName: string,
+  options: GroupApplyOptions = {},
+): Promise<void> {
+  const rollback = options.rollback !== false;
+  const engine = options.engine || 'git';
+  const applyOptions: ApplyOptions = {
+    engine,
+    threeWay: options.threeWay,
+    requireSignature: options.requireSignature,
+    trustedKeysDirName: options.trustedKeysDirName,
+  };
+  const tayloredDir = path.join(CWD, tayloredDirName);
+  const groupPath = path.join(tayloredDir, groupName);
+
+  console.log(`INFO: Processing patch group in directory: ${groupName}`);
+  const patches = await findPatchesInDirectory(groupPath);
+  if (patches.length === 0) {
+    console.log(
+      `INFO: No .taylored files found in directory '${groupPath}'. Nothing to do.`,
+    );
+    return;
+  }
+  // Numeric order, rearranged so that declared requirements come first (or,
+  // when removing, so that dependents are removed before what they require).
+  // Cycles and unsatisfied declarations are reported here, before any change.
+  const patchesToProcess = await planPatchOperation(
+    sortPatchesNumerically(patches).map((p) => path.relative(tayloredDir, p)),
+    isReverse,
+    CWD,
+    tayloredDirName,
+    engine,
+  );
+
+  if (isReverse) {
+    // For --remove and --verify-remove
+    console.log(
+      `INFO: Found ${patchesToProcess.length} patch(es) to process in REVERSE order (for removal):`,
+    );
+  } else {
+    console.log(
+      `INFO: Found ${patchesToProcess.length} patch(es) to process in order:`,
+    );
+  }
+  patchesToProcess.forEach((p) => console.log(`  - ${p}`));
+  if (options.requireSignature) {
+    // Every signature is checked before the first patch is processed.
+    await assertPatchesSigned(
+      patchesToProcess,
+      tayloredDir,
+      CWD,
+      options.trustedKeysDirName || TAYLORED_TRUSTED_KEYS_DIR_NAME,
+    );
+  }
+
+  const ledgerPath = path.relative(
+    CWD,
+    getStateLedgerPath(CWD, tayloredDirName),
+  );
+  const ledgerSnapshot = isVerify
+    ? null
+    : await takeFileSnapshot([ledgerPath], CWD);
+  // One snapshot per processed patch, in processing order.
+  const patchSnapshots: { patch: string; snapshot: FileSnapshot }[] = [];
+
+  for (const patchFileNameForApply of patchesToProcess) {
+    // Names are relative to the .taylored dir (e.g. "group/1-first.taylored"),
+    // as handleApplyOperation expects.
+    const patchPath = path.join(tayloredDir, patchFileNameForApply);
+
+    console.log(`\nINFO: ==> ${modeName} patch: ${patchFileNameForApply}`);
+    if (!isVerify) {
+      const targets = getPatchTargetPaths(await fs.readFile(patchPath, 'utf8'));
+      patchSnapshots.push({
+        patch: patchFileNameForApply,
+        snapshot: await takeFileSnapshot(
+          [...targets, ...targets.map((t) => `${t}.rej`)],
+          CWD,
+        ),
+      });
+    }
+    try {
+      await handleApplyOperation(
+        patchFileNameForApply,
+        isVerify,
+        isReverse,
+        modeName,
+        CWD,
+        tayloredDirName,
+        applyOptions,
+      );
+      if (!isVerify) {
+        await tryRecordPatchOperation(
+          patchFileNameForApply,
+          isReverse,
+          CWD,
+          tayloredDirName,
+        );
+      }
+      console.log(`INFO: <== Successfully processed: ${patchFileNameForApply}`);
+      if (options.report) {
+        options.report.push(
+          await describePatchOperation(
+            patchFileNameForApply,
+            isVerify,
+            isReverse,
+            CWD,
+            tayloredDirName,
+          ),
+        );
+      }
+    } catch (error: any) {
+      console.error(
+        `CRITICAL ERROR: Failed to process patch ${patchFileNameForApply} in group ${groupName}. Halting group operation.`,
+      );
+      if (error instanceof ThreeWayConflictError) {
+        console.error(
+          `  Not rolling back (--3way): ${patchSnapshots.length - 1} patch(es) processed before ${patchFileNameForApply} were left in place, and its conflict markers are kept for resolution.`,
+        );
+      } else if (!isVerify) {
+        if (rollback) {
+          await rollbackGroupOperation(patchSnapshots, ledgerSnapshot);
+          options.report?.forEach((entry) => (entry.outcome = 'rolled-back'));
+        } else {
+          console.error(
+            `  Rollback disabled (--no-rollback): ${patchSnapshots.length - 1} patch(es) processed before the failure were left in place.`,
+          );
+        }
+      }
+      if (options.report) {
+        options.report.push(
+          await describePatchOperation(
+            patchFileNameForApply,
+            isVerify,
+            isReverse,
+            CWD,
+            tayloredDirName,
+            error,
+          ),
+        );
+        for (const skipped of patchesToProcess.slice(
+          patchesToProcess.indexOf(patchFileNameForApply) + 1,
+        )) {
+          const entry = await describePatchOperation(
+            skipped,
+            isVerify,
+            isReverse,
+            CWD,
+            tayloredDirName,
+          );
+          options.report.push({ ...entry, outcome: 'skipped' });
+        }
+      }
+      throw error;
+    }
+  }
+  console.log(`\nINFO: Finished processing patch group: ${groupName}`);
+}
+
+/**
+ * Restores the snapshots taken during a failed group run, newest first, so that
+ * the partially processed failing patch is undone before the patches that
+ * preceded it are reverted.
+ */
+async function rollbackGroupOperation(
+  patchSnapshots: { patch: string; snapshot: FileSnapshot }[],
+  ledgerSnapshot: FileSnapshot | null,
+): Promise<void> {
+  console.error(
+    `INFO: Rolling back the group operation to restore the pre-command state...`,
+  );
+  for (let i = patchSnapshots.length - 1; i >= 0; i--) {
+    const { patch, snapshot } = patchSnapshots[i];
+    try {
+      await restoreFileSnapshot(snapshot);
+      console.error(
+        i === patchSnapshots.length - 1
+          ? `  Undid partial changes of: ${patch}`
+          : `  Reverted: ${patch}`,
+      );
+    } catch (restoreError: any) {
+      console.error(
+        `  CRITICAL ERROR: Failed to revert '${patch}' during rollback. Details: ${restoreError.message}`,
+      );
+    }
+  }
+  if (ledgerSnapshot) {
+    try {
+      await restoreFileSnapshot(ledgerSnapshot);
+    } catch (restoreError: any) {
+      console.error(
+        `  Warning: Failed to restore the state ledger during rollback. Details: ${restoreError.message}`,
+      );
+    }
   }
+  console.error('INFO: Rollback complete. The working tree is unchanged.');
 }
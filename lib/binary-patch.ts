@@ -0,0 +1,189 @@
+// lib/binary-patch.ts
+// Copyright (c) 2025 tailot@gmail.com
+// SPDX-License-Identifier: MIT
+
+import * as crypto from 'crypto';
+import * as zlib from 'zlib';
+import { BinaryHunk } from './PatchAnalyzer';
+
+// The alphabet of Git's base85 encoding (see base85.c in Git).
+const BASE85_ALPHABET =
+  '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz!#$%&()*+-;<=>?@^_`{|}~';
+
+const BASE85_VALUES = new Map<string, number>(
+  [...BASE85_ALPHABET].map((char, index) => [char, index]),
+);
+
+/**
+ * Decodes one line of a binary hunk. The first character gives the number of
+ * bytes on the line ('A'-'Z' for 1-26, 'a'-'z' for 27-52); the rest encodes
+ * them in groups of five base85 characters per four bytes.
+ */
+function decodeBase85Line(line: string): Buffer {
+  const lengthChar = line.charAt(0);
+  let length: number;
+  if (lengthChar >= 'A' && lengthChar <= 'Z') {
+    length = lengthChar.charCodeAt(0) - 'A'.charCodeAt(0) + 1;
+  } else if (lengthChar >= 'a' && lengthChar <= 'z') {
+    length = lengthChar.charCodeAt(0) - 'a'.charCodeAt(0) + 27;
+  } else {
+    throw new Error(`invalid line length character '${lengthChar}'`);
+  }
+  const encoded = line.substring(1);
+  if (encoded.length !== Math.ceil(length / 4) * 5) {
+    throw new Error(`line of ${length} bytes has a wrong length`);
+  }
+  const bytes = Buffer.alloc(Math.ceil(length / 4) * 4);
+  for (let group = 0; group < encoded.length / 5; group++) {
+    let value = 0;
+    for (const char of encoded.substring(group * 5, group * 5 + 5)) {
+      const digit = BASE85_VALUES.get(char);
+      if (digit === undefined) {
+        throw new Error(`invalid base85 character '${char}'`);
+      }
+      value = value * 85 + digit;
+    }
+    if (value > 0xffffffff) {
+      throw new Error('base85 group out of range');
+    }
+    bytes.writeUInt32BE(value, group * 4);
+  }
+  return bytes.subarray(0, length);
+}
+
+/**
+ * Decodes and inflates the data of a binary hunk.
+ *
+ * @param {BinaryHunk} hunk - A hunk parsed by `PatchAnalyzer.parsePatch`.
+ * @returns {Buffer} The new file (literal) or the delta (delta).
+ * @throws {Error} If the data is corrupt or does not have the declared size.
+ */
+export function decodeBinaryHunk(hunk: BinaryHunk): Buffer {
+  const deflated = Buffer.concat(hunk.lines.map(decodeBase85Line));
+  const data = zlib.inflateSync(deflated);
+  if (data.length !== hunk.size) {
+    throw new Error(
+      `${hunk.type} data has ${data.length} bytes instead of ${hunk.size}`,
+    );
+  }
+  return data;
+}
+
+/**
+ * Reads a size from the header of a delta: little-endian groups of seven
+ * bits, each byte but the last having its high bit set.
+ */
+function readDeltaSize(
+  delta: Buffer,
+  offset: number,
+): { size: number; offset: number } {
+  let size = 0;
+  let shift = 0;
+  let byte: number;
+  do {
+    if (offset >= delta.length) {
+      throw new Error('truncated delta header');
+    }
+    byte = delta[offset++];
+    size += (byte & 0x7f) * 2 ** shift;
+    shift += 7;
+  } while (byte & 0x80);
+  return { size, offset };
+}
+
+/**
+ * Applies a delta in the format of Git's packs (see patch-delta.c in Git): a
+ * header with the sizes of the source and the result, then instructions that
+ * either copy a range of the source or insert bytes from the delta.
+ */
+function applyDelta(source: Buffer, delta: Buffer): Buffer {
+  const sourceSize = readDeltaSize(delta, 0);
+  if (sourceSize.size !== source.length) {
+    throw new Error(
+      `delta expects ${sourceSize.size} bytes of original content, found ${source.length}`,
+    );
+  }
+  const resultSize = readDeltaSize(delta, sourceSize.offset);
+  const result = Buffer.alloc(resultSize.size);
+  let written = 0;
+  let offset = resultSize.offset;
+  while (offset < delta.length) {
+    const command = delta[offset++];
+    if (command & 0x80) {
+      let copyOffset = 0;
+      let copySize = 0;
+      for (let bit = 0; bit < 4; bit++) {
+        if (command & (1 << bit)) {
+          copyOffset += delta[offset++] * 2 ** (8 * bit);
+        }
+      }
+      for (let bit = 0; bit < 3; bit++) {
+        if (command & (0x10 << bit)) {
+          copySize += delta[offset++] * 2 ** (8 * bit);
+        }
+      }
+      if (copySize === 0) {
+        copySize = 0x10000;
+      }
+      if (
+        offset > delta.length ||
+        copyOffset + copySize > source.length ||
+        written + copySize > result.length
+      ) {
+        throw new Error('delta copies outside of the file');
+      }
+      source.copy(result, written, copyOffset, copyOffset + copySize);
+      written += copySize;
+    } else if (command !== 0) {
+      if (
+        offset + command > delta.length ||
+        written + command > result.length
+      ) {
+        throw new Error('truncated delta');
+      }
+      delta.copy(result, written, offset, offset + command);
+      written += command;
+      offset += command;
+    } else {
+      throw new Error('unexpected delta opcode 0');
+    }
+  }
+  if (written !== result.length) {
+    throw new Error(
+      `delta produces ${written} bytes instead of ${result.length}`,
+    );
+  }
+  return result;
+}
+
+/**
+ * Applies a binary hunk to the current content of a file.
+ *
+ * @param {BinaryHunk} hunk - A hunk parsed by `PatchAnalyzer.parsePatch`.
+ * @param {Buffer} original - The content of the file before the patch.
+ * @returns {Buffer} The content of the file after the patch.
+ * @throws {Error} If the hunk is corrupt or its delta does not fit `original`.
+ */
+export function applyBinaryHunk(hunk: BinaryHunk, original: Buffer): Buffer {
+  const data = decodeBinaryHunk(hunk);
+  return hunk.type === 'literal' ? data : applyDelta(original, data);
+}
+
+/**
+ * Computes the ID Git gives to a blob with this content: the SHA-1 (or, for
+ * IDs of 64 hex digits, SHA-256) of a "blob <size>" header and the content.
+ *
+ * @param {Buffer} content - The content of the file.
+ * @param {number} [idLength=40] - The length of the ID, 40 or 64 hex digits.
+ * @returns {string} The blob ID, in hex.
+ */
+export function computeGitBlobId(
+  content: Buffer,
+  idLength: number = 40,
+): string {
+  return crypto
+    .createHash(idLength === 64 ? 'sha256' : 'sha1')
+    .update(`blob ${content.length}\0`)
+    .update(content)
+    .digest('hex');
+}
@@ -0,0 +1,343 @@
+// lib/command-registry.ts
+// Copyright (c) 2025 tailot@gmail.com
+// SPDX-License-Identifier: MIT
+
+import { TayloredConfig } from './config';
+import { TayloredError } from './errors';
+import { suggestClosest } from './utils';
+
+/**
+ * How an option is given on the command line:
+ * - `boolean`: a flag without a value, e.g. `--3way`.
+ * - `string`: a flag followed by a value, e.g. `--engine native` or `--engine=native`.
+ * - `list`: like `string`, with a comma-separated value, e.g. `--exclude a,b`.
+ */
+export type OptionType = 'boolean' | 'string' | 'list';
+
+/**
+ * An option accepted by a command.
+ */
+export interface OptionSpec {
+  /** The flag, with its leading dashes, e.g. "--engine". */
+  flag: string;
+  type: OptionType;
+  description: string;
+  /** The name of the value in help texts, e.g. "DIR_LIST". */
+  valueName?: string;
+  /** The only values accepted, if the value is an enumeration. */
+  choices?: readonly string[];
+}
+
+/**
+ * A positional argument of a command. Optional arguments must follow the
+ * required ones.
+ */
+export interface ArgumentSpec {
+  /** The name used in help texts and as key of `CommandInvocation.args`. */
+  name: string;
+  description: string;
+  optional?: boolean;
+}
+
+/**
+ * The parsed command line passed to `CommandSpec.run`.
+ */
+export interface CommandInvocation {
+  command: CommandSpec;
+  /** Positional arguments by name; missing optional arguments are undefined. */
+  args: { [name: string]: string | undefined };
+  /**
+   * Options by flag: `true` for boolean flags, the value for `string`
+   * options and the items for `list` options. Options not given are absent.
+   */
+  options: { [flag: string]: boolean | string | string[] | undefined };
+  /**
+   * The directory taylored was run from: a directory inside the repository
+   * (the API finds its root), and the base of relative paths on the command line.
+   */
+  CWD: string;
+  /** The project configuration (`.tayloredrc`). */
+  config: TayloredConfig;
+  /**
+   * The data reported by `--json` if the command fails. Commands that report
+   * partial results on failure set it before starting; on success, the value
+   * returned by `run` is reported instead.
+   */
+  result: unknown;
+}
+
+/**
+ * The declaration of a command: its arguments, options and implementation.
+ */
+export interface CommandSpec {
+  /** The command as typed, e.g. "--add" or "setup-backend". */
+  name: string;
+  /** One line, used in error messages and help. */
+  summary: string;
+  /** Additional lines for `--help`. */
+  details?: string[];
+  arguments?: ArgumentSpec[];
+  options?: OptionSpec[];
+  /**
+   * Whether the command must be run from the root of a Git repository.
+   * Evaluated on the parsed command line when a function.
+   */
+  requiresGitRepository?:
+    | boolean
+    | ((commandLine: ParsedCommandLine) => boolean);
+  /**
+   * Runs the command.
+   * @returns The command's result, written by `--json`.
+   */
+  run(invocation: CommandInvocation): Promise<unknown>;
+}
+
+/**
+ * The result of `CommandRegistry.parse`: a command line without its context.
+ */
+export type ParsedCommandLine = Omit<
+  CommandInvocation,
+  'CWD' | 'config' | 'result'
+> & {
+  /** True if `--help` (or `-h`) was given: the command must not run. */
+  help: boolean;
+};
+
+/**
+ * Options every command accepts. They are handled before parsing (`--json`)
+ * or by the caller (`--help`), but listed in every help text.
+ */
+const GLOBAL_OPTIONS: OptionSpec[] = [
+  {
+    flag: '--json',
+    type: 'boolean',
+    description:
+      'Print one JSON result document to stdout (messages go to stderr).',
+  },
+  { flag: '--help', type: 'boolean', description: 'Show this help.' },
+];
+
+// "a", "a or b", "a, b or c".
+function formatAlternatives(names: string[]): string {
+  return names.length === 1
+    ? names[0]
+    : `${names.slice(0, -1).join(', ')} or ${names[names.length - 1]}`;
+}
+
+function usageError(message: string): TayloredError {
+  return new TayloredError('USAGE_ERROR', `CRITICAL ERROR: ${message}`);
+}
+
+/**
+ * The set of commands of the CLI. Commands declare their arguments and
+ * options; the registry parses command lines against those declarations and
+ * generates the `--help` text of every command.
+ */
+export class CommandRegistry {
+  private commands = new Map<string, CommandSpec>();
+
+  /**
+   * Adds a command.
+   * @param {CommandSpec} spec - The command.
+   * @returns {this} The registry, for chaining.
+   */
+  register(spec: CommandSpec): this {
+    this.commands.set(spec.name, spec);
+    return this;
+  }
+
+  /**
+   * @param {string} name - The command as typed.
+   * @returns {CommandSpec | undefined} The command, if it is registered.
+   */
+  get(name: string): CommandSpec | undefined {
+    return this.commands.get(name);
+  }
+
+  /**
+   * @returns {CommandSpec[]} Every command, in registration order.
+   */
+  list(): CommandSpec[] {
+    return [...this.commands.values()];
+  }
+
+  /**
+   * Parses a command line (without `--json`, which applies to the whole
+   * process).
+   *
+   * Options may appear anywhere after the command and in any order, as
+   * `--flag value` or `--flag=value`. A `--` ends the options: everything
+   * after it is positional.
+   *
+   * @param {string[]} argv - The arguments, starting with the command.
+   * @returns {ParsedCommandLine} The command, arguments and options.
+   * @throws {TayloredError} `USAGE_ERROR` for unknown commands or options
+   *         (with a suggestion for likely typos), missing or extra arguments,
+   *         and invalid option values.
+   */
+  parse(argv: string[]): ParsedCommandLine {
+    const [name, ...rest] = argv;
+    const command = this.commands.get(name);
+    if (!command) {
+      const suggestion =
+        suggestClosest(name, [...this.commands.keys()]) ||
+        (this.commands.has(`--${name}`) ? `--${name}` : undefined);
+      throw usageError(
+        `Unknown option or command '${name}'.` +
+          (suggestion ? ` Did you mean '${suggestion}'?` : ''),
+      );
+    }
+
+    const specs = command.options || [];
+    const argumentSpecs = command.arguments || [];
+    const options: ParsedCommandLine['options'] = {};
+    const positional: string[] = [];
+    let help = false;
+    for (let i = 0; i < rest.length; i++) {
+      const token = rest[i];
+      if (token === '--') {
+        positional.push(...rest.slice(i + 1));
+        break;
+      }
+      if (token === '--help' || token === '-h') {
+        help = true;
+        continue;
+      }
+      if (!token.startsWith('--')) {
+        positional.push(token);
+        continue;
+      }
+
+      const equals = token.indexOf('=');
+      const flag = equals === -1 ? token : token.slice(0, equals);
+      const spec = specs.find((s) => s.flag === flag);
+      if (!spec) {
+        const usedBy = this.list()
+          .filter((other) => (other.options || []).some((o) => o.flag === flag))
+          .map((other) => other.name);
+        if (usedBy.length > 0) {
+          throw usageError(
+            `${flag} can only be used with ${formatAlternatives(usedBy)}, not with ${command.name}.`,
+          );
+        }
+        const suggestion = suggestClosest(
+          flag,
+          specs.map((s) => s.flag),
+        );
+        throw usageError(
+          `Unknown option '${flag}' for ${command.name}.` +
+            (suggestion ? ` Did you mean '${suggestion}'?` : ''),
+        );
+      }
+      if (spec.type === 'boolean') {
+        if (equals !== -1) {
+          throw usageError(`${flag} does not take a value.`);
+        }
+        options[flag] = true;
+        continue;
+      }
+
+      let value: string | undefined;
+      if (equals !== -1) {
+        value = token.slice(equals + 1);
+      } else if (i + 1 < rest.length && !rest[i + 1].startsWith('--')) {
+        value = rest[++i];
+      }
+      if (spec.choices && !spec.choices.includes(value as string)) {
+        throw usageError(
+          `${flag} requires one of: ${spec.choices.join(', ')}.`,
+        );
+      }
+      // An empty list ("") is allowed: it clears the default.
+      if (value === undefined || (value === '' && spec.type !== 'list')) {
+        throw usageError(
+          `${flag} requires a <${spec.valueName || 'value'}> argument.`,
+        );
+      }
+      if (spec.type === 'list') {
+        const items = value
+          .split(',')
+          .map((item) => item.trim())
+          .filter((item) => item.length > 0);
+        if (items.length === 0 && value.length > 0) {
+          throw usageError(
+            `${flag} value '${value}' resulted in an empty list.`,
+          );
+        }
+        options[flag] = items;
+      } else {
+        options[flag] = value;
+      }
+    }
+
+    const args: ParsedCommandLine['args'] = {};
+    if (!help) {
+      argumentSpecs.forEach((spec, index) => {
+        if (index >= positional.length && !spec.optional) {
+          throw usageError(
+            `${command.name} requires a <${spec.name}> argument.`,
+          );
+        }
+        args[spec.name] = positional[index];
+      });
+      if (positional.length > argumentSpecs.length) {
+        throw usageError(
+          argumentSpecs.length === 0
+            ? `${command.name} does not take any arguments.`
+            : `Unexpected argument '${positional[argumentSpecs.length]}' for ${command.name}.`,
+        );
+      }
+    }
+    return { command, args, options, help };
+  }
+
+  /**
+   * Generates the `taylored <command> --help` text of a command.
+   *
+   * @param {CommandSpec} command - The command.
+   * @returns {string} The help text, without a trailing newline.
+   */
+  formatHelp(command: CommandSpec): string {
+    const argumentSpecs = command.arguments || [];
+    const synopsis = [
+      'taylored',
+      command.name,
+      ...argumentSpecs.map((a) => (a.optional ? `[${a.name}]` : `<${a.name}>`)),
+      '[options]',
+    ].join(' ');
+    const rows = (entries: [string, string][]) => {
+      const width = Math.max(...entries.map(([left]) => left.length)) + 2;
+      return entries.map(([left, right]) => `  ${left.padEnd(width)}${right}`);
+    };
+
+    const lines = [`Usage: ${synopsis}`, '', command.summary];
+    if (command.details && command.details.length > 0) {
+      lines.push('', ...command.details);
+    }
+    if (argumentSpecs.length > 0) {
+      lines.push(
+        '',
+        'Arguments:',
+        ...rows(
+          argumentSpecs.map((a) => [
+            a.optional ? `[${a.name}]` : `<${a.name}>`,
+            a.description + (a.optional ? ' (optional)' : ''),
+          ]),
+        ),
+      );
+    }
+    lines.push(
+      '',
+      'Options:',
+      ...rows(
+        [...(command.options || []), ...GLOBAL_OPTIONS].map((o) => [
+          o.type === 'boolean'
+            ? o.flag
+            : `${o.flag} <${o.choices ? o.choices.join('|') : o.valueName || 'value'}>`,
+          o.description,
+        ]),
+      ),
+    );
+    return lines.join('\n');
+  }
+}
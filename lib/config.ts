@@ -0,0 +1,238 @@
+// lib/config.ts
+// Copyright (c) 2025 tailot@gmail.com
+// SPDX-License-Identifier: MIT
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  TAYLORED_CONFIG_FILE_NAME,
+  TAYLORED_DIR_NAME,
+  TAYLORED_TRUSTED_KEYS_DIR_NAME,
+} from './constants';
+import { TayloredError } from './errors';
+import { suggestClosest } from './utils';
+
+/**
+ * The project configuration read from `.tayloredrc` at the repository root.
+ * Every setting is optional; command-line arguments take precedence.
+ */
+export interface TayloredConfig {
+  /**
+   * The branch used by `--offset` when no branch is given, and by `--automatic`
+   * when its branch argument is omitted.
+   */
+  baseBranch?: string;
+  /** Where patches are stored, relative to the repository root. */
+  patchDirectory?: string;
+  automatic?: {
+    /** The extensions `--automatic` scans when none are given. */
+    extensions?: string[];
+    /** Directories `--automatic` skips when `--exclude` is not given. */
+    exclude?: string[];
+  };
+  output?: {
+    /** Always produce `--json` output. */
+    json?: boolean;
+    /** Color `--preview` diffs: `true`/`false`, or terminals only when unset. */
+    color?: boolean;
+  };
+  signing?: {
+    /** Refuse to add, remove or verify patches without a trusted signature. */
+    required?: boolean;
+    /** The trust store directory, relative to the repository root. */
+    trustedKeys?: string;
+  };
+  /** Commands run before and after operations (see `lib/hooks.ts`). */
+  hooks?: HooksConfig;
+}
+
+/**
+ * The hooks that can be configured: one before (`pre`) and one after (`post`)
+ * each of `--add`, `--remove`, `--save`, `--offset` and `--automatic`.
+ */
+export const HOOK_NAMES = [
+  'preAdd',
+  'postAdd',
+  'preRemove',
+  'postRemove',
+  'preSave',
+  'postSave',
+  'preOffset',
+  'postOffset',
+  'preAutomatic',
+  'postAutomatic',
+] as const;
+
+export type HookName = (typeof HOOK_NAMES)[number];
+
+/**
+ * The hooks of the project (`hooks` in `.tayloredrc`) or of a patch group
+ * (`hooks` in its `taylored.json`): a shell command, or several run in order.
+ */
+export type HooksConfig = { [name in HookName]?: string | string[] };
+
+// The schema of TayloredConfig: the type of each key, or its nested keys.
+// 'commands' is a string or an array of strings.
+type ConfigSchema = {
+  [key: string]: 'string' | 'string[]' | 'commands' | 'boolean' | ConfigSchema;
+};
+const HOOKS_SCHEMA: ConfigSchema = Object.fromEntries(
+  HOOK_NAMES.map((name) => [name, 'commands']),
+);
+const CONFIG_SCHEMA: ConfigSchema = {
+  baseBranch: 'string',
+  patchDirectory: 'string',
+  automatic: { extensions: 'string[]', exclude: 'string[]' },
+  output: { json: 'boolean', color: 'boolean' },
+  signing: { required: 'boolean', trustedKeys: 'string' },
+  hooks: HOOKS_SCHEMA,
+};
+
+/**
+ * The directory patches are stored in, relative to the repository root.
+ * Resolved once per command from the configuration it loaded and passed to
+ * the functions that read or write patches.
+ *
+ * @param {TayloredConfig} config - The configuration of the repository.
+ * @returns {string} `patchDirectory` from `.tayloredrc`, or `.taylored`.
+ */
+export function getTayloredDirName(config: TayloredConfig): string {
+  return config.patchDirectory ?? TAYLORED_DIR_NAME;
+}
+
+/**
+ * The directory of trusted public keys, relative to the repository root.
+ *
+ * @param {TayloredConfig} config - The configuration of the repository.
+ * @returns {string} `signing.trustedKeys` from `.tayloredrc`, or
+ *                   `.taylored-keys`.
+ */
+export function getTrustedKeysDirName(config: TayloredConfig): string {
+  return config.signing?.trustedKeys ?? TAYLORED_TRUSTED_KEYS_DIR_NAME;
+}
+
+function validate(
+  value: any,
+  schema: ConfigSchema,
+  prefix: string,
+  problems: string[],
+): void {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    problems.push(`'${prefix || '(root)'}' must be an object.`);
+    return;
+  }
+  for (const [key, entry] of Object.entries<any>(value)) {
+    const name = prefix ? `${prefix}.${key}` : key;
+    const expected = schema[key];
+    if (expected === undefined) {
+      const suggestion = suggestClosest(key, Object.keys(schema));
+      problems.push(
+        `Unknown key '${name}'.` +
+          (suggestion ? ` Did you mean '${suggestion}'?` : '') +
+          ` Valid keys: ${Object.keys(schema).join(', ')}.`,
+      );
+    } else if (typeof expected === 'object') {
+      validate(entry, expected, name, problems);
+    } else if (expected === 'string[]') {
+      if (
+        !Array.isArray(entry) ||
+        entry.some((item) => typeof item !== 'string' || item.trim() === '')
+      ) {
+        problems.push(`'${name}' must be an array of non-empty strings.`);
+      }
+    } else if (expected === 'commands') {
+      if (
+        (typeof entry !== 'string' || entry.trim() === '') &&
+        (!Array.isArray(entry) ||
+          entry.some((item) => typeof item !== 'string' || item.trim() === ''))
+      ) {
+        problems.push(
+          `'${name}' must be a command or an array of commands (non-empty strings).`,
+        );
+      }
+    } else if (expected === 'string') {
+      if (typeof entry !== 'string' || entry.trim() === '') {
+        problems.push(`'${name}' must be a non-empty string.`);
+      }
+    } else if (typeof entry !== expected) {
+      problems.push(`'${name}' must be a ${expected}.`);
+    }
+  }
+}
+
+/**
+ * Validates the `hooks` object of a group manifest, with the same rules as
+ * `hooks` in `.tayloredrc`.
+ *
+ * @param {unknown} hooks - The value to check.
+ * @param {string} prefix - The name of the value in messages (e.g. 'hooks').
+ * @returns {string[]} The problems found; empty if the hooks are valid.
+ */
+export function validateHooksConfig(hooks: unknown, prefix: string): string[] {
+  const problems: string[] = [];
+  validate(hooks, HOOKS_SCHEMA, prefix, problems);
+  return problems;
+}
+
+/**
+ * Reads and validates `.tayloredrc` in the repository root. Its patch
+ * directory and trust store are resolved with `getTayloredDirName` and
+ * `getTrustedKeysDirName`.
+ *
+ * The file contains a JSON object, for example:
+ *
+ *   { "baseBranch": "develop", "automatic": { "extensions": ["ts", "js"] } }
+ *
+ * @async
+ * @param {string} CWD - The root of the repository.
+ * @returns {Promise<TayloredConfig>} The configuration; empty if there is no
+ *                                    `.tayloredrc`.
+ * @throws {TayloredError} `CONFIG_ERROR` if the file is not valid JSON, has
+ *                         unknown keys or values of the wrong type.
+ */
+export async function loadProjectConfig(CWD: string): Promise<TayloredConfig> {
+  const configPath = path.join(CWD, TAYLORED_CONFIG_FILE_NAME);
+  let raw: string;
+  try {
+    raw = await fs.readFile(configPath, 'utf8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return {};
+    }
+    throw error;
+  }
+
+  const problems: string[] = [];
+  let config: any;
+  try {
+    config = JSON.parse(raw);
+  } catch (error: any) {
+    problems.push(`Not valid JSON: ${error.message}`);
+  }
+  if (problems.length === 0) {
+    validate(config, CONFIG_SCHEMA, '', problems);
+  }
+  if (problems.length === 0 && config.patchDirectory !== undefined) {
+    config.patchDirectory = path
+      .normalize(config.patchDirectory)
+      .replace(/[\\/]+$/, '');
+    const normalized = config.patchDirectory;
+    if (
+      path.isAbsolute(normalized) ||
+      normalized === '.' ||
+      normalized === '..' ||
+      normalized.startsWith('..' + path.sep)
+    ) {
+      problems.push(
+        `'patchDirectory' must be a directory inside the repository, relative to its root.`,
+      );
+    }
+  }
+  if (problems.length > 0) {
+    const message = `CRITICAL ERROR: Invalid configuration file '${configPath}'.`;
+    console.error(message);
+    problems.forEach((problem) => console.error(`  - ${problem}`));
+    throw new TayloredError('CONFIG_ERROR', message, problems);
+  }
+  return config as TayloredConfig;
+}
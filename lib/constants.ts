@@ -11,3 +11,47 @@ export const TAYLORED_DIR_NAME = '.taylored';
  * The standard file extension for taylored patch files.
  */
 export const TAYLORED_FILE_EXTENSION = '.taylored';
+
+/**
+ * The name of the applied-patch state ledger, stored inside the .taylored directory.
+ * It records the last successful --add/--remove of every patch in the working tree.
+ */
+export const TAYLORED_STATE_FILE_NAME = '.state.json';
+
+/**
+ * The name of the directory, inside the Git directory of the working tree, that
+ * holds the undo journal: the files changed by each mutating command, as they
+ * were before it ran (see lib/undo-journal.ts).
+ */
+export const TAYLORED_JOURNAL_DIR_NAME = 'taylored-journal';
+
+/**
+ * The name of the optional manifest a patch group directory may contain to declare
+ * `requires`/`conflicts` relationships for the patches stored next to it.
+ */
+export const TAYLORED_GROUP_MANIFEST_FILE_NAME = 'taylored.json';
+
+/**
+ * The name of the optional project configuration file, read from the repository root.
+ * It sets defaults (base branch, --automatic extensions, patch directory, ...) that
+ * command-line arguments override.
+ */
+export const TAYLORED_CONFIG_FILE_NAME = '.tayloredrc';
+
+/**
+ * The extension appended to a patch file name for its detached signature
+ * (e.g. `feature.taylored.sig`), written by `--sign`.
+ */
+export const TAYLORED_SIGNATURE_EXTENSION = '.sig';
+
+/**
+ * The default trust store: a directory at the repository root holding the
+ * Ed25519 public keys (`<name>.pem`) whose signatures are accepted.
+ */
+export const TAYLORED_TRUSTED_KEYS_DIR_NAME = '.taylored-keys';
+
+/**
+ * The environment variable that, when set to a non-empty value, makes the Git
+ * hooks installed by `taylored hooks install` exit without checking anything.
+ */
+export const TAYLORED_SKIP_GIT_HOOKS_ENV = 'TAYLORED_SKIP_GIT_HOOKS';
@@ -0,0 +1,100 @@
+// lib/errors.ts
+// Copyright (c) 2025 tailot@gmail.com
+// SPDX-License-Identifier: MIT
+
+import { PatchApplyError } from './patch-engine';
+import { ThreeWayConflictError } from './three-way-merge';
+
+/**
+ * Stable identifiers for the ways a command can fail. They are part of the
+ * `--json` output, so existing codes must not be renamed.
+ * - `USAGE_ERROR`: invalid command-line arguments.
+ * - `NOT_A_GIT_REPOSITORY`: the command needs a Git repository root.
+ * - `FILE_NOT_FOUND`: a patch or other input file does not exist.
+ * - `PATCH_APPLY_FAILED`: a patch does not apply (or revert) cleanly.
+ * - `MERGE_CONFLICT`: a `--3way` merge left conflict markers.
+ * - `DEPENDENCY_ERROR`: declared requirements or conflicts are not satisfied.
+ * - `CONFIG_ERROR`: the `.tayloredrc` project configuration, or the
+ *   `taylored.json` manifest of a group, is not valid.
+ * - `SIGNATURE_ERROR`: a patch is unsigned, signed by an untrusted key, or
+ *   does not match its signature.
+ * - `HOOK_FAILED`: a pre-operation hook failed, so the operation was not run.
+ * - `UNDO_CONFLICT`: `--undo` would overwrite files changed since the
+ *   operation, so nothing was restored.
+ * - `COMMAND_FAILED`: any other failure.
+ */
+export type TayloredErrorCode =
+  | 'USAGE_ERROR'
+  | 'NOT_A_GIT_REPOSITORY'
+  | 'FILE_NOT_FOUND'
+  | 'PATCH_APPLY_FAILED'
+  | 'MERGE_CONFLICT'
+  | 'DEPENDENCY_ERROR'
+  | 'CONFIG_ERROR'
+  | 'SIGNATURE_ERROR'
+  | 'HOOK_FAILED'
+  | 'UNDO_CONFLICT'
+  | 'COMMAND_FAILED';
+
+/**
+ * An error with a `TayloredErrorCode`. Handlers throw it where the kind of
+ * failure is known; `getErrorInfo` derives a code for other errors.
+ */
+export class TayloredError extends Error {
+  code: TayloredErrorCode;
+  /** Individual problems (failed hunks, unsatisfied declarations, ...). */
+  details: string[];
+
+  /**
+   * Constructs a TayloredError.
+   * @param {TayloredErrorCode} code - What kind of failure this is.
+   * @param {string} message - The error message.
+   * @param {string[]} [details=[]] - Individual problems, if there are several.
+   */
+  constructor(
+    code: TayloredErrorCode,
+    message: string,
+    details: string[] = [],
+  ) {
+    super(message);
+    this.name = 'TayloredError';
+    this.code = code;
+    this.details = details;
+  }
+}
+
+/**
+ * The machine-readable form of an error, as written by `--json`.
+ */
+export interface ErrorInfo {
+  code: TayloredErrorCode;
+  message: string;
+  details: string[];
+}
+
+/**
+ * Describes any thrown value as an `ErrorInfo`. The "CRITICAL ERROR:" prefix
+ * used in console messages is removed.
+ *
+ * @param {unknown} error - The thrown value.
+ * @returns {ErrorInfo} Its code, message and details.
+ */
+export function getErrorInfo(error: unknown): ErrorInfo {
+  const err = error as any;
+  const message = String(err && err.message ? err.message : err)
+    .trim()
+    .replace(/^CRITICAL ERROR:\s*/, '');
+  if (error instanceof TayloredError) {
+    return { code: error.code, message, details: error.details };
+  }
+  if (error instanceof ThreeWayConflictError) {
+    return { code: 'MERGE_CONFLICT', message, details: error.conflictedFiles };
+  }
+  if (error instanceof PatchApplyError) {
+    return { code: 'PATCH_APPLY_FAILED', message, details: error.failures };
+  }
+  if (err && err.code === 'ENOENT') {
+    return { code: 'FILE_NOT_FOUND', message, details: [] };
+  }
+  return { code: 'COMMAND_FAILED', message, details: [] };
+}
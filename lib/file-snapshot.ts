@@ -0,0 +1,122 @@
+// lib/file-snapshot.ts
+// Copyright (c) 2025 tailot@gmail.com
+// SPDX-License-Identifier: MIT
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as parseDiffModule from 'parse-diff';
+
+/**
+ * The captured content of a set of files, keyed by path relative to the
+ * directory the snapshot was taken in. A `null` value records that the file
+ * did not exist, so restoring the snapshot deletes it.
+ */
+export interface FileSnapshot {
+  baseDir: string;
+  files: Map<string, Buffer | null>;
+}
+
+/**
+ * Tells whether a path named in a patch stays inside the directory the patch
+ * is applied in. Like `git apply`, absolute paths (including Windows drive
+ * and UNC paths) and paths with a `..` component are refused.
+ *
+ * @param {string} relativePath - A path from a patch header, without its `a/` or `b/` prefix.
+ * @returns {boolean} True if the path can be joined to the patched directory.
+ */
+export function isSafePatchPath(relativePath: string): boolean {
+  if (
+    relativePath === '' ||
+    relativePath.includes('\0') ||
+    path.posix.isAbsolute(relativePath) ||
+    path.win32.isAbsolute(relativePath) ||
+    /^[a-zA-Z]:/.test(relativePath)
+  ) {
+    return false;
+  }
+  return !relativePath.split(/[/\\]/).includes('..');
+}
+
+/**
+ * Returns the repository-relative paths a patch touches: every source and
+ * target file named in its headers, excluding `/dev/null`. Paths outside the
+ * repository (see `isSafePatchPath`) are left out: no engine writes them.
+ *
+ * @param {string} patchContent - The content of a .taylored (git diff) file.
+ * @returns {string[]} The de-duplicated list of paths, in order of appearance.
+ */
+export function getPatchTargetPaths(patchContent: string): string[] {
+  const paths: string[] = [];
+  if (patchContent.trim() === '') {
+    return paths;
+  }
+  const files = parseDiffModule.default(patchContent);
+  for (const file of files) {
+    for (const candidate of [file.from, file.to]) {
+      if (
+        candidate &&
+        candidate !== '/dev/null' &&
+        isSafePatchPath(candidate) &&
+        !paths.includes(candidate)
+      ) {
+        paths.push(candidate);
+      }
+    }
+  }
+  return paths;
+}
+
+/**
+ * Captures the current content of the given files.
+ *
+ * @async
+ * @param {string[]} relativePaths - Paths relative to `baseDir`. Missing files are recorded as absent.
+ * @param {string} baseDir - The directory the paths are relative to (usually the repository root).
+ * @returns {Promise<FileSnapshot>} The snapshot.
+ */
+export async function takeFileSnapshot(
+  relativePaths: string[],
+  baseDir: string,
+): Promise<FileSnapshot> {
+  const files = new Map<string, Buffer | null>();
+  for (const relativePath of relativePaths) {
+    if (files.has(relativePath)) {
+      continue;
+    }
+    try {
+      files.set(
+        relativePath,
+        await fs.readFile(path.join(baseDir, relativePath)),
+      );
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+      files.set(relativePath, null);
+    }
+  }
+  return { baseDir, files };
+}
+
+/**
+ * Restores every file in a snapshot to its captured state: files that existed
+ * are rewritten with their original content, files that did not exist are
+ * deleted.
+ *
+ * @async
+ * @param {FileSnapshot} snapshot - A snapshot produced by `takeFileSnapshot`.
+ * @returns {Promise<void>}
+ */
+export async function restoreFileSnapshot(
+  snapshot: FileSnapshot,
+): Promise<void> {
+  for (const [relativePath, content] of snapshot.files) {
+    const absolutePath = path.join(snapshot.baseDir, relativePath);
+    if (content === null) {
+      await fs.rm(absolutePath, { force: true });
+    } else {
+      await fs.mkdir(path.dirname(absolutePath), { recursive: true });
+      await fs.writeFile(absolutePath, content);
+    }
+  }
+}
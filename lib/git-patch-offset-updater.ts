@@ -7,8 +7,17 @@ import * as path from 'path';
 import { exec, ExecOptions as ChildProcessExecOptions } from 'child_process';
 import * as util from 'util';
 import { handleApplyOperation } from './apply-logic';
-import { TAYLORED_DIR_NAME } from './constants';
+import {
+  createScratchWorktree,
+  removeScratchWorktree,
+} from './scratch-worktree';
 import { extractMessageFromPatch } from './utils';
+import { PatchAnalyzer } from './PatchAnalyzer';
+import {
+  parsePatchMetadata,
+  splitPatchPreamble,
+  withPatchMetadata,
+} from './patch-metadata';
 
 const execAsync = util.promisify(exec);
 
@@ -158,75 +167,19 @@ function parsePatchHunks(
 }
 
 /**
- * Helper function to embed a message as a Subject line into patch content.
- * @param diffBody The main body of the diff. Should be pre-cleaned (e.g., line endings normalized, trailing whitespace on lines removed).
- * @param message The message to embed.
- * @returns Patch content with the message embedded, or an empty string if the diffBody is effectively empty.
+ * Returns the line that must end a trimmed patch: an empty line after the data
+ * of a final "GIT binary patch" section, which `git apply` requires, or just
+ * the newline of the last line otherwise.
+ * @param {string} patchBody - The patch, without trailing whitespace.
+ * @returns {string} The text to append to the patch.
  */
-function embedMessageInContent(
-  diffBody: string,
-  message: string | null,
-): string {
-  const trimmedDiffBody = diffBody.trim(); // Trim whitespace from the diff body
-
-  // If there's a message, it takes precedence.
-  // A patch/commit can exist with only a message and no actual code changes.
-  if (message) {
-    // Check if message is not null and not an empty string
-    const subjectLine = `Subject: [PATCH] ${message}`;
-    let content = subjectLine;
-
-    // Append the trimmed diff body only if it's not empty
-    if (trimmedDiffBody) {
-      content += `\n\n${trimmedDiffBody}`;
-    }
-
-    // Ensure a final newline
-    if (!content.endsWith('\n')) {
-      content += '\n';
-    }
-    return content;
-  }
-
-  // If no message (null or empty string), return the trimmed diff body (if any) with a final newline,
-  // or an empty string if the trimmed diff body is empty.
-  if (trimmedDiffBody === '') {
-    return '';
-  }
-  let content = trimmedDiffBody;
-  if (!content.endsWith('\n')) {
-    content += '\n';
-  }
-  return content;
+function getPatchTerminator(patchBody: string): string {
+  const sections = new PatchAnalyzer().parsePatch(patchBody);
+  const lastSection = sections[sections.length - 1];
+  return lastSection && lastSection.binaryHunks?.length ? '\n\n' : '\n';
 }
 
-/**
- * Helper function to get the actual diff body, stripping any existing Subject line.
- * @param patchFileContent The full content of the patch file.
- * @returns The diff body.
- */
-function getActualDiffBody(patchFileContent: string): string {
-  const lines = patchFileContent.split('\n');
-  if (lines.length > 0 && lines[0].startsWith('Subject: [PATCH]')) {
-    // Find the first blank line after the Subject line
-    let firstBlankLineIndex = -1;
-    for (let i = 1; i < lines.length; i++) {
-      if (lines[i].trim() === '') {
-        firstBlankLineIndex = i;
-        break;
-      }
-    }
-    // If a blank line is found and there's content after it, return that content
-    if (firstBlankLineIndex !== -1 && firstBlankLineIndex + 1 < lines.length) {
-      return lines.slice(firstBlankLineIndex + 1).join('\n');
-    }
-    // If no blank line is found after Subject, or no content after it, assume empty diff body
-    return '';
-  }
-  return patchFileContent; // No Subject line, return the whole content
-}
-
-interface SimplifiedUpdatePatchOffsetsResult {
+export interface SimplifiedUpdatePatchOffsetsResult {
   outputPath: string;
 }
 
@@ -237,56 +190,56 @@ interface SimplifiedUpdatePatchOffsetsResult {
  * original patch file with the new diff.
  *
  * Workflow:
- * 1. Checks for uncommitted changes; throws an error if any exist.
- * 2. Verifies the existence of the patch file and the base branch.
- * 3. Saves the current Git branch/commit.
- * 4. Creates a temporary branch.
- * 5. Tries to apply the patch in reverse (remove), then attempts to apply it normally (add) if removal fails.
+ * 1. Verifies the existence of the patch file and the base branch.
+ * 2. Checks out `HEAD` in a temporary worktree (see `lib/scratch-worktree.ts`), so the
+ * working tree, index and branches of the user are never touched and uncommitted changes
+ * do not get in the way (nor into the patch).
+ * 3. Tries to apply the patch in reverse (remove) in the worktree, then attempts to apply it normally (add) if removal fails.
  * This step aims to get the codebase to a state *before* the patch was applied, or *with* the patch applied,
  * to correctly generate the forward diff later.
- * 6. If the apply/remove step is successful, stages all changes and creates a temporary commit.
- * 7. Generates a `git diff` between the specified `baseBranch` and the current `HEAD` of the temporary branch.
- * 8. Extracts the original commit message from the input patch file, if present.
- * 9. Compares hunks of the original patch and the new diff. If all hunks appear "inverted"
+ * 4. If the apply/remove step is successful, stages all changes of the worktree.
+ * 5. Generates a `git diff --cached` between the specified `baseBranch` and the staged worktree.
+ * 6. Extracts the original commit message from the input patch file, if present.
+ * 7. Compares hunks of the original patch and the new diff. If all hunks appear "inverted"
  * (meaning the new diff looks like the reverse of the original patch, which can happen
  * if the initial apply/remove logic resulted in the patch's effects being *added* to the
- * temporary branch instead of *removed*), it uses the body of the *original* patch content
+ * worktree instead of *removed*), it uses the body of the *original* patch content
  * for the final output, but with the (potentially new) embedded message. Otherwise, it uses the new diff content.
- *10. Writes the resulting content (either the adjusted original patch body or the new diff body,
+ * 8. Removes the temporary worktree.
+ * 9. Writes the resulting content (either the adjusted original patch body or the new diff body,
  * with the embedded message) back to the original patch file, but only if the content has changed.
- *11. Cleans up by checking out the original branch/commit and deleting the temporary branch.
  *
  * @async
  * @param {string} patchFileName - The name of the .taylored file (e.g., "myfeature.taylored")
  * located in the .taylored/ directory.
  * @param {string} repoRoot - The absolute path to the root of the Git repository.
+ * @param {string} tayloredDirName - The .taylored directory, relative to `repoRoot`.
  * @param {string} [_customCommitMessage] - This parameter is ignored. The commit message is
  * extracted from the patch file itself if present.
  * @param {string} [branchName] - Optional. The name of the branch to diff against.
  * Defaults to 'main'.
  * @returns {Promise<SimplifiedUpdatePatchOffsetsResult>} A promise that resolves with an object
  * containing the `outputPath` of the updated patch file.
- * @throws {Error} If the repository has uncommitted changes, the patch file or base branch
- * doesn't exist, Git operations fail, or the patch cannot be processed.
+ * @throws {Error} If the patch file or base branch doesn't exist, Git operations fail,
+ * or the patch cannot be processed.
  */
 async function updatePatchOffsets(
   patchFileName: string,
   repoRoot: string,
+  tayloredDirName: string,
   _customCommitMessage?: string, // Parameter kept for signature compatibility if called elsewhere, but ignored.
   branchName?: string,
 ): Promise<SimplifiedUpdatePatchOffsetsResult> {
   const baseBranch = branchName || 'main'; // Use the provided branchName or 'main' as default
-
-  const statusResult = await execGit(repoRoot, ['status', '--porcelain']);
-  if (statusResult.stdout.trim() !== '') {
-    throw new Error(
-      'CRITICAL ERROR: Uncommitted changes detected in the repository. Please commit or stash them before running --offset.\n' +
-        statusResult.stdout,
+  if (!branchName) {
+    console.log(
+      `INFO: No branch given (as an argument or 'baseBranch' in .tayloredrc); computing offsets against '${baseBranch}'.`,
     );
   }
+
   const absolutePatchFilePath = path.join(
     repoRoot,
-    TAYLORED_DIR_NAME,
+    tayloredDirName,
     patchFileName,
   );
 
@@ -311,42 +264,14 @@ async function updatePatchOffsets(
     );
   }
 
-  let originalBranchOrCommit: string = '';
-  try {
-    const symbolicRefResult = await execGit(
-      repoRoot,
-      ['symbolic-ref', '--short', 'HEAD'],
-      { allowFailure: true, ignoreStderr: true },
-    );
-    if (symbolicRefResult.success && symbolicRefResult.stdout) {
-      originalBranchOrCommit = symbolicRefResult.stdout;
-    } else {
-      originalBranchOrCommit = (await execGit(repoRoot, ['rev-parse', 'HEAD']))
-        .stdout;
-    }
-    if (!originalBranchOrCommit) {
-      throw new Error('Could not determine the current branch or commit.');
-    }
-  } catch (e: any) {
-    throw new GitExecutionError(
-      `Failed to determine current branch/commit: ${e.message}`,
-      e,
-    );
-  }
-
-  const tempBranchName = `temp/offset-automation-${Date.now()}`;
   let operationSucceeded = false;
   let cliEquivalentCallSucceeded = false;
   let finalOutputContentToWrite: string | null = null; // --- MODIFICA 1: Variabile per memorizzare il contenuto
+  const tayloredDirPath = path.join(repoRoot, tayloredDirName);
+  let worktree: string | null = null;
 
   try {
-    await execGit(repoRoot, [
-      'checkout',
-      '-b',
-      tempBranchName,
-      originalBranchOrCommit,
-      '--quiet',
-    ]);
+    worktree = createScratchWorktree(repoRoot, 'HEAD');
 
     try {
       await handleApplyOperation(
@@ -354,7 +279,9 @@ async function updatePatchOffsets(
         false,
         true,
         '--remove (invoked by offset)',
-        repoRoot,
+        worktree,
+        tayloredDirName,
+        { tayloredDir: tayloredDirPath },
       );
       cliEquivalentCallSucceeded = true;
     } catch (removeError: any) {
@@ -364,7 +291,9 @@ async function updatePatchOffsets(
           false,
           false,
           '--add (invoked by offset, after remove failed)',
-          repoRoot,
+          worktree,
+          tayloredDirName,
+          { tayloredDir: tayloredDirPath },
         );
         cliEquivalentCallSucceeded = true;
       } catch (addError: any) {
@@ -373,24 +302,11 @@ async function updatePatchOffsets(
     }
 
     if (cliEquivalentCallSucceeded) {
-      await execGit(repoRoot, ['add', '.']);
-
-      const tempCommitMessageText =
-        'Internal: Staged changes for offset update';
-      await execGit(repoRoot, [
-        'commit',
-        '--allow-empty',
-        '-m',
-        tempCommitMessageText,
-        '--quiet',
-      ]);
-
-      const tayloredDirPath = path.join(repoRoot, TAYLORED_DIR_NAME);
-      await fs.ensureDir(tayloredDirPath);
+      await execGit(worktree, ['add', '.']);
 
       const diffCmdResult = await execGit(
-        repoRoot,
-        ['diff', baseBranch, 'HEAD'],
+        worktree,
+        ['diff', '--cached', '--binary', baseBranch],
         { allowFailure: true },
       );
 
@@ -399,8 +315,15 @@ async function updatePatchOffsets(
         'utf-8',
       );
       const rawNewDiffContent = diffCmdResult.stdout || '';
-      const effectiveMessageToEmbed: string | null =
-        extractMessageFromPatch(originalPatchContent);
+      // The metadata preamble is carried over to the updated patch. A preamble
+      // without metadata fields (e.g. a free-form message) becomes its title.
+      const metadata = parsePatchMetadata(originalPatchContent);
+      if (Object.keys(metadata).length === 0) {
+        const message = extractMessageFromPatch(originalPatchContent);
+        if (message) {
+          metadata.title = message;
+        }
+      }
 
       if (
         diffCmdResult.error &&
@@ -408,7 +331,7 @@ async function updatePatchOffsets(
         diffCmdResult.error.code !== 1
       ) {
         console.error(
-          `ERROR: Execution of 'git diff ${baseBranch} HEAD' command failed with an unexpected exit code ${diffCmdResult.error.code} on the temporary branch.`,
+          `ERROR: Execution of 'git diff --cached ${baseBranch}' command failed with an unexpected exit code ${diffCmdResult.error.code} in the temporary worktree.`,
         );
         if (diffCmdResult.stderr)
           console.error(`  Stderr: ${diffCmdResult.stderr}`);
@@ -448,24 +371,21 @@ async function updatePatchOffsets(
           .map((line) => line.trimEnd())
           .join('\n');
 
-        if (allHunksAreConsideredInverted) {
-          const bodyOfOriginalPatch = getActualDiffBody(originalPatchContent);
-          finalOutputContentToWrite = embedMessageInContent(
-            bodyOfOriginalPatch,
-            effectiveMessageToEmbed,
-          );
-        } else {
-          finalOutputContentToWrite = embedMessageInContent(
-            cleanedDiffContent,
-            effectiveMessageToEmbed,
-          );
-        }
+        const diffBody = (
+          allHunksAreConsideredInverted
+            ? splitPatchPreamble(originalPatchContent).body
+            : cleanedDiffContent
+        ).trim();
+        finalOutputContentToWrite = withPatchMetadata(
+          diffBody ? `${diffBody}${getPatchTerminator(diffBody)}` : '',
+          metadata,
+        );
 
         operationSucceeded = true;
       }
     } else {
       console.error(
-        `ERROR: Preliminary internal apply/remove operations for '${patchFileName}' failed on the temporary branch.`,
+        `ERROR: Preliminary internal apply/remove operations for '${patchFileName}' failed in the temporary worktree.`,
       );
     }
   } catch (error: any) {
@@ -477,26 +397,14 @@ async function updatePatchOffsets(
     }
     operationSucceeded = false;
   } finally {
-    try {
-      await execGit(repoRoot, [
-        'checkout',
-        '--force',
-        originalBranchOrCommit,
-        '--quiet',
-      ]);
-
-      const tempBranchExistsResult = await execGit(
-        repoRoot,
-        ['rev-parse', '--verify', tempBranchName],
-        { allowFailure: true, ignoreStderr: true },
-      );
-      if (tempBranchExistsResult.success) {
-        await execGit(repoRoot, ['branch', '-D', tempBranchName, '--quiet']);
+    if (worktree) {
+      try {
+        removeScratchWorktree(repoRoot, worktree);
+      } catch (cleanupErr: any) {
+        console.warn(
+          `Warning: Failed to remove the temporary worktree '${worktree}'; the next run will remove it. ${cleanupErr.message}`,
+        );
       }
-    } catch (cleanupErr: any) {
-      console.warn(
-        `Warning: Failed to cleanup temporary branch: ${cleanupErr.message}`,
-      );
     }
   }
 
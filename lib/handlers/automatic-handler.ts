@@ -2,14 +2,19 @@
 // SPDX-License-Identifier: MIT
 
 import * as fs from 'fs/promises';
+import { FSWatcher, watch } from 'fs';
 import * as path from 'path';
 import {
   execSync,
   ExecSyncOptionsWithStringEncoding,
   spawn,
 } from 'child_process';
-import { TAYLORED_DIR_NAME, TAYLORED_FILE_EXTENSION } from '../constants';
+import { TAYLORED_FILE_EXTENSION } from '../constants';
 import { analyzeDiffContent } from '../utils'; // Changed from handleSaveOperation
+import { humanOutputStream } from '../output';
+import { PatchMetadata, withPatchMetadata } from '../patch-metadata';
+import { formatUnifiedDiff } from '../line-diff';
+import { withScratchWorktree } from '../scratch-worktree';
 
 const execOpts: ExecSyncOptionsWithStringEncoding = {
   encoding: 'utf8',
@@ -22,16 +27,81 @@ interface BlockMatch {
   index: number;
 }
 
+// The marker attributes (XML) or keys (JSON) that set the metadata of the
+// generated patch. `tags` is a comma-separated list (or an array in JSON).
+const METADATA_ATTRIBUTES: { [attribute: string]: keyof PatchMetadata } = {
+  title: 'title',
+  description: 'description',
+  author: 'author',
+  version: 'version',
+  tags: 'tags',
+  'target-version': 'targetVersion',
+};
+
+/**
+ * Reads the metadata attributes of a block marker.
+ *
+ * @param {(attribute: string) => unknown} readAttribute - Returns the value of
+ *        an attribute of the marker, or undefined if it is absent.
+ * @returns {PatchMetadata} The metadata to write in the generated patch.
+ */
+function readBlockMetadata(
+  readAttribute: (attribute: string) => unknown,
+): PatchMetadata {
+  const metadata: PatchMetadata = {};
+  for (const [attribute, field] of Object.entries(METADATA_ATTRIBUTES)) {
+    const value = readAttribute(attribute);
+    if (
+      field === 'tags' &&
+      (typeof value === 'string' || Array.isArray(value))
+    ) {
+      metadata.tags = (Array.isArray(value) ? value : value.split(','))
+        .map((tag) => String(tag).trim())
+        .filter((tag) => tag !== '');
+    } else if (field !== 'tags' && typeof value === 'string' && value !== '') {
+      (metadata[field] as string) = value;
+    }
+  }
+  return metadata;
+}
+
+/**
+ * Tells whether `findFilesRecursive` skips a directory: ".git" directories,
+ * the .taylored directory and the directories of `excludeDirs` (and their
+ * subdirectories).
+ *
+ * @param {string} relativePath - The directory, relative to `CWD`.
+ * @param {string} tayloredDirName - The .taylored directory, relative to `CWD`.
+ * @param {string[]} [excludeDirs] - Directories, relative to `CWD`, to skip.
+ * @returns {boolean} True if the directory is not searched.
+ */
+function isSkippedDirectory(
+  relativePath: string,
+  tayloredDirName: string,
+  excludeDirs?: string[],
+): boolean {
+  return (
+    path.basename(relativePath) === '.git' ||
+    relativePath === tayloredDirName ||
+    (excludeDirs || []).some(
+      (excludedDir) =>
+        relativePath === excludedDir ||
+        relativePath.startsWith(excludedDir + path.sep),
+    )
+  );
+}
+
 /**
  * Recursively finds files with a specific extension within a directory, respecting exclusions.
  *
  * It traverses the directory structure starting from `dir`.
- * Directories named ".git" or ".taylored" are always excluded.
+ * Directories named ".git" and the .taylored directory are always excluded.
  * Additional directories can be excluded via the `excludeDirs` parameter.
  *
  * @async
  * @param {string} dir - The starting directory for the recursive search.
  * @param {string} ext - The file extension to search for (e.g., ".js", ".ts").
+ * @param {string} tayloredDirName - The .taylored directory, relative to `CWD_ABS`.
  * @param {string[]} allFiles - An accumulator array holding the paths of found files.
  * Typically initialized as an empty array by the caller.
  * @param {string[]} [excludeDirs] - An optional array of directory names or relative paths
@@ -44,6 +114,7 @@ interface BlockMatch {
 async function findFilesRecursive(
   dir: string,
   ext: string,
+  tayloredDirName: string,
   allFiles: string[] = [],
   excludeDirs?: string[],
   CWD_ABS?: string, // Absolute path to CWD for reliable relative path checking
@@ -55,17 +126,15 @@ async function findFilesRecursive(
       const relativePath = CWD_ABS
         ? path.relative(CWD_ABS, fullPath)
         : entry.name;
-      if (
-        entry.name !== '.git' &&
-        entry.name !== TAYLORED_DIR_NAME &&
-        (!excludeDirs ||
-          !excludeDirs.some(
-            (excludedDir) =>
-              relativePath === excludedDir ||
-              relativePath.startsWith(excludedDir + path.sep),
-          ))
-      ) {
-        await findFilesRecursive(fullPath, ext, allFiles, excludeDirs, CWD_ABS);
+      if (!isSkippedDirectory(relativePath, tayloredDirName, excludeDirs)) {
+        await findFilesRecursive(
+          fullPath,
+          ext,
+          tayloredDirName,
+          allFiles,
+          excludeDirs,
+          CWD_ABS,
+        );
       }
     } else if (entry.isFile() && entry.name.endsWith(ext)) {
       allFiles.push(fullPath);
@@ -74,6 +143,307 @@ async function findFilesRecursive(
   return allFiles;
 }
 
+/**
+ * A Taylored block found in a source file.
+ */
+interface TayloredBlock {
+  /** The block number: the block is extracted to `<numero>.taylored`. */
+  numero: string;
+  /** The offset of the block in the file. */
+  index: number;
+  /** The whole block, markers included. */
+  scriptContentWithTags: string;
+  /** The content between the markers (the script, for compute blocks). */
+  scriptContent: string;
+  computeCharsToStrip?: string;
+  asyncFlag: boolean;
+  isDisabled: boolean;
+  metadata: PatchMetadata;
+}
+
+/**
+ * Finds the Taylored blocks (XML markers and JSON objects) of a file, in
+ * order of appearance, and reads their attributes. JSON blocks that cannot
+ * be parsed are skipped with a warning.
+ *
+ * @param {string} fileContent - The content of the file.
+ * @param {string} originalFilePath - The path of the file, for messages.
+ * @returns {TayloredBlock[]} The blocks, disabled ones included.
+ */
+function findTayloredBlocks(
+  fileContent: string,
+  originalFilePath: string,
+): TayloredBlock[] {
+  // Corrected regex to properly capture number, other attributes, and content
+  const blockRegex =
+    /[^\n]*?<taylored\s+number="(\d+)"([^>]*)>([\s\S]*?)[^\n]*?<\/taylored>/g;
+  const jsonBlockRegex =
+    /(?:const\s+\w+\s*=\s*)?({(?:[^{}]|{[^{}]*})*?"taylored"\s*:\s*(\d+)(?:[^{}]|{[^{}]*})*?});?/g;
+  const xmlMatchesRaw = Array.from(fileContent.matchAll(blockRegex));
+  const jsonMatchesRaw = Array.from(fileContent.matchAll(jsonBlockRegex));
+
+  const allMatches: BlockMatch[] = [];
+
+  for (const match of xmlMatchesRaw) {
+    if (match.index !== undefined) {
+      allMatches.push({ type: 'xml', match, index: match.index });
+    }
+  }
+  for (const match of jsonMatchesRaw) {
+    if (match.index !== undefined) {
+      allMatches.push({ type: 'json', match, index: match.index });
+    }
+  }
+  allMatches.sort((a, b) => a.index - b.index);
+
+  const blocks: TayloredBlock[] = [];
+  for (const matchInfo of allMatches) {
+    let numero: string;
+    let attributesString: string | undefined; // Only for XML
+    let scriptContent: string;
+    let scriptContentWithTags: string; // Full matched block
+    let computeCharsToStrip: string | undefined;
+    let asyncFlag: boolean = false; // Default to false
+    let isDisabled: boolean = false; // Default to false
+    let metadata: PatchMetadata;
+
+    if (matchInfo.type === 'xml') {
+      const match = matchInfo.match;
+      numero = match[1];
+      attributesString = match[2];
+      scriptContentWithTags = match[0];
+      scriptContent = match[3];
+
+      const computeMatch = attributesString.match(/compute=["']([^"']*)["']/);
+      computeCharsToStrip = computeMatch ? computeMatch[1] : undefined;
+
+      const asyncMatch = attributesString.match(/async=["'](true|false)["']/);
+      asyncFlag = asyncMatch ? asyncMatch[1] === 'true' : false;
+
+      const disabledMatch = attributesString.match(
+        /disabled=["'](true|false)["']/,
+      );
+      isDisabled = disabledMatch ? disabledMatch[1] === 'true' : false;
+
+      const xmlAttributes = attributesString;
+      metadata = readBlockMetadata((attribute) => {
+        const attributeMatch = xmlAttributes.match(
+          new RegExp(`(?:^|\\s)${attribute}=(?:"([^"]*)"|'([^']*)')`),
+        );
+        return attributeMatch
+          ? (attributeMatch[1] ?? attributeMatch[2])
+          : undefined;
+      });
+    } else {
+      // type === 'json'
+      scriptContentWithTags = matchInfo.match[0]; // For la sostituzione, usiamo ancora la corrispondenza completa (es. "chiave": {...})
+      const jsonBlockText = matchInfo.match[1]; // Per il parsing, usiamo il 1° gruppo di cattura (es. {...})
+      numero = matchInfo.match[2]; // Il numero è già disponibile nel 2° gruppo di cattura
+
+      try {
+        // Rimuove le righe di commento prima del parsing JSON
+        const cleanedJsonText = jsonBlockText.replace(/\/\/.*$/gm, '');
+        const parsedJson = JSON.parse(cleanedJsonText);
+
+        if (typeof parsedJson.content !== 'string') {
+          console.warn(
+            `Warning: JSON block ${numero} in ${originalFilePath} has invalid or missing 'content' string. Skipping.`,
+          );
+          continue;
+        }
+        scriptContent = parsedJson.content;
+        computeCharsToStrip =
+          typeof parsedJson.compute === 'string'
+            ? parsedJson.compute
+            : undefined;
+        asyncFlag = parsedJson.async === true;
+        isDisabled = parsedJson.disabled === true;
+        metadata = readBlockMetadata((attribute) =>
+          attribute === 'target-version'
+            ? parsedJson.targetVersion
+            : parsedJson[attribute],
+        );
+      } catch (e: any) {
+        console.warn(
+          `Warning: Parsing of JSON block in ${originalFilePath} ... Skipping.`,
+        );
+        continue;
+      }
+    }
+
+    blocks.push({
+      numero,
+      index: matchInfo.index,
+      scriptContentWithTags,
+      scriptContent,
+      computeCharsToStrip,
+      asyncFlag,
+      isDisabled,
+      metadata,
+    });
+  }
+  return blocks;
+}
+
+/**
+ * Runs the script of a compute block and returns its standard output.
+ *
+ * The patterns of `computeCharsToStrip` (comma-separated) are removed from the
+ * block content, which is then written to a temporary executable file in
+ * `scriptDirectory` and run in `CWD` through the shell, relying on its shebang. The output of the script
+ * is echoed while it runs.
+ *
+ * @async
+ * @param {string} numero - The block number, for messages.
+ * @param {string} originalFilePath - The file of the block, for messages.
+ * @param {string} scriptContent - The content of the block.
+ * @param {string} computeCharsToStrip - The value of the `compute` attribute.
+ * @param {string} CWD - The directory the script runs in.
+ * @param {string} [scriptDirectory=CWD] - The directory of the temporary file.
+ * @returns {Promise<string>} The standard output of the script.
+ * @throws {Error} If the script cannot be written or exits with a non-zero code.
+ */
+async function runComputeScript(
+  numero: string,
+  originalFilePath: string,
+  scriptContent: string,
+  computeCharsToStrip: string,
+  CWD: string,
+  scriptDirectory: string = CWD,
+): Promise<string> {
+  let actualScriptContent: string;
+  if (computeCharsToStrip.length > 0) {
+    // Removes all occurrences of each pattern specified in 'computeCharsToStrip'.
+    let processedContent = scriptContent.trim();
+    const patterns = computeCharsToStrip.split(',');
+    for (const pattern of patterns) {
+      const trimmedPattern = pattern.trim();
+      if (trimmedPattern.length > 0) {
+        processedContent = processedContent.replaceAll(trimmedPattern, '');
+      }
+    }
+    actualScriptContent = processedContent.trim();
+  } else {
+    // Empty compute: use the content of the block, trimmed.
+    actualScriptContent = scriptContent.trim();
+  }
+
+  // Create temp script file without extension, relying on shebang
+  const tempScriptPath = path.join(
+    scriptDirectory,
+    `taylored-temp-script-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+  );
+  await fs.writeFile(tempScriptPath, actualScriptContent);
+
+  try {
+    // Add execute permission to the temporary script file before execution
+    await fs.chmod(tempScriptPath, 0o755); // rwxr-xr-x
+    return await new Promise<string>((resolve, reject) => {
+      const child = spawn(tempScriptPath, [], {
+        cwd: CWD,
+        stdio: 'pipe',
+        shell: true,
+      });
+      let scriptOutput = '';
+      let scriptErrorOutput = '';
+      child.stdout.on('data', (data) => {
+        scriptOutput += data.toString();
+        humanOutputStream().write(data);
+      });
+      child.stderr.on('data', (data) => {
+        scriptErrorOutput += data.toString();
+        process.stderr.write(data);
+      });
+      child.on('error', reject);
+      child.on('close', (code) => {
+        if (code === 0) {
+          resolve(scriptOutput);
+        } else {
+          const error = new Error(`Script failed with code ${code}`) as any;
+          error.status = code;
+          error.stdout = scriptOutput;
+          error.stderr = scriptErrorOutput;
+          reject(error);
+        }
+      });
+    });
+  } catch (error: any) {
+    // Differentiate error source for better logging
+    // istanbul ignore next
+    if (
+      error.status !== undefined ||
+      error.stderr !== undefined ||
+      error.stdout !== undefined
+    ) {
+      // istanbul ignore next
+      console.error(
+        `ERROR: Script execution failed for block ${numero} in ${originalFilePath}. Error: ${error.message}`,
+      );
+      if (error.stderr) console.error('STDERR:\n' + error.stderr);
+      if (error.stdout) console.error('STDOUT:\n' + error.stdout);
+    } else {
+      console.error(
+        `ERROR: Failed to set execute permissions or other FS issue on temporary script file '${tempScriptPath}'. Details: ${error.message}`,
+      );
+    }
+    throw error;
+  } finally {
+    // Clean up temp script file, regardless of success or failure
+    try {
+      await fs.unlink(tempScriptPath);
+    } catch (unlinkError: any) {
+      // istanbul ignore next
+      console.warn(
+        `Warning: Failed to delete temporary script file '${tempScriptPath}' during cleanup. Details: ${unlinkError.message}`,
+      );
+    }
+  }
+}
+
+/**
+ * Summary of a `taylored --automatic` run.
+ */
+export interface AutomaticOperationResult {
+  /** Number of files with the requested extensions that were scanned. */
+  filesScanned: number;
+  /** The `.taylored` files written, relative to `.taylored/`. */
+  patches: string[];
+  /** Number of asynchronous compute blocks that failed. */
+  failedAsyncBlocks: number;
+}
+
+/**
+ * Options of `handleAutomaticOperation`.
+ */
+export interface AutomaticOperationOptions {
+  /**
+   * Keeps running and regenerates the patches of the blocks that change
+   * (`--watch`) instead of extracting every block once.
+   */
+  watch?: boolean;
+  /** In watch mode, how long the files must stay unchanged before the patches are regenerated, in milliseconds. Defaults to 300. */
+  debounceMs?: number;
+  /** Ends watch mode when aborted. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Undoes the changes made to a file of a scratch worktree, so that the next
+ * block of the file starts from its committed content.
+ */
+function restoreWorktreeFile(worktree: string, relativeFilePath: string): void {
+  try {
+    execSync(`git checkout -- "${relativeFilePath}"`, {
+      cwd: worktree,
+      stdio: 'ignore',
+    });
+  } catch (error: any) {
+    console.warn(
+      `Warning: Failed to restore '${relativeFilePath}' in the temporary worktree. ${error.message}`,
+    );
+  }
+}
+
 /**
  * Handles the `taylored --automatic` command, automating the discovery and
  * extraction of Taylored blocks from source files into individual .taylored patch files.
@@ -90,24 +460,30 @@ async function findFilesRecursive(
  * becomes the content of the patch.
  * - `async="true|false"`: (Optional, for `compute` blocks) If "true", the compute script
  * is executed asynchronously. Defaults to "false" (synchronous).
- * 3. **Git Workflow (for each block):**
+ * - `title`, `description`, `author`, `version`, `tags`, `target-version`: (Optional)
+ * Written as the metadata preamble of the generated patch (see `lib/patch-metadata.ts`).
+ * 3. **Git Workflow (for each block):** the blocks are extracted from the files of the
+ * current commit, checked out in a temporary worktree (see `lib/scratch-worktree.ts`), so the
+ * working tree, index and branches of the user are never touched, and uncommitted changes
+ * neither get in the way nor into the patches.
  * - **Static Blocks (no `compute`):**
- * a. A temporary branch is created from the current branch (`originalBranchName`).
- * b. On this temp branch, the Taylored block is removed from the source file, and the change is committed.
- * c. A diff is generated between this temporary commit (block removed) and `originalBranchName` (block present).
- * This diff, representing the addition of the block, is saved as `N.taylored`.
- * d. The temporary branch is deleted, and the original branch is restored.
+ * a. In the worktree, the Taylored block is removed from the source file.
+ * b. A diff is generated between the current commit (block present) and the modified file (block removed).
+ * This diff, representing the removal of the block, is saved as `N.taylored`.
+ * c. The file of the worktree is restored.
  * - **Compute Blocks:**
  * a. The script within the block is executed (stdout captured).
- * b. A temporary branch is created from `originalBranchName`.
- * c. On this temp branch, the original Taylored block markers are replaced with the script's stdout
- * in the source file, and this change is committed.
- * d. A diff is generated between this temporary commit and the target `branchName` (specified by user).
+ * b. In the worktree, the original Taylored block markers are replaced with the script's stdout
+ * in the source file.
+ * c. A diff is generated between the target `branchName` (specified by user) and the modified file.
  * This diff, representing the changes needed to apply the computed content to `branchName`,
  * is saved as `N.taylored`.
- * e. The temporary branch is deleted, and `originalBranchName` is restored.
- * 4. Ensures the repository is clean (no uncommitted changes) and not in a detached HEAD state before starting.
- * 5. Handles errors gracefully, attempts to clean up temporary branches, and logs progress.
+ * d. The file of the worktree is restored. Asynchronous blocks run in parallel, each in a
+ * worktree of its own.
+ * 4. Handles errors gracefully, removes the temporary worktrees, and logs progress.
+ *
+ * With `options.watch`, the blocks are regenerated as the files are edited
+ * instead (see `watchAutomaticBlocks`), from the current content of the files.
  *
  * For comprehensive details on the `taylored --automatic` command, its features, and marker syntax,
  * refer to the `DOCUMENTATION.md` file.
@@ -118,11 +494,14 @@ async function findFilesRecursive(
  * @param {string} branchName - The target Git branch against which computed blocks are diffed.
  * For static blocks, the current branch is implicitly the target for comparison.
  * @param {string} CWD - The current working directory, expected to be the root of the Git repository.
+ * @param {string} tayloredDirName - The .taylored directory, relative to `CWD`, where the
+ * patches are written.
  * @param {string[]} [excludeDirs] - An optional array of directory names or relative paths
  * (from CWD) to exclude from scanning.
- * @returns {Promise<void>} A promise that resolves when all blocks have been processed.
- * @throws {Error} If critical pre-checks fail (e.g., dirty Git repository, detached HEAD state),
- * or if Git operations (checkout, commit, diff), file system operations (read,
+ * @param {AutomaticOperationOptions} [options={}] - Watch mode.
+ * @returns {Promise<AutomaticOperationResult>} The files scanned and the patches written.
+ * @throws {Error} If critical pre-checks fail (e.g., the temporary worktree cannot be created),
+ * or if Git operations (worktree, diff), file system operations (read,
  * write, unlink), or script execution (for compute blocks) encounter errors
  * during processing. Errors typically lead to the skipping of the problematic
  * block or premature termination of the command.
@@ -131,42 +510,34 @@ export async function handleAutomaticOperation(
   extensionsInput: string,
   branchName: string,
   CWD: string,
+  tayloredDirName: string,
   excludeDirs?: string[],
-): Promise<void> {
+  options: AutomaticOperationOptions = {},
+): Promise<AutomaticOperationResult> {
+  if (options.watch) {
+    return watchAutomaticBlocks(
+      extensionsInput,
+      branchName,
+      CWD,
+      tayloredDirName,
+      excludeDirs,
+      options,
+    );
+  }
+
   let originalBranchName: string;
+  let headCommit: string;
   try {
     originalBranchName = execSync('git rev-parse --abbrev-ref HEAD', {
       cwd: CWD,
       ...execOpts,
     }).trim();
-    if (originalBranchName === 'HEAD') {
-      const errorMessage =
-        'CRITICAL ERROR: Repository is in a detached HEAD state. Please checkout a branch.';
-      console.error(errorMessage);
-      throw new Error(errorMessage);
-    }
-  } catch (error: any) {
-    const errorMessage = `CRITICAL ERROR: Failed to get current Git branch. Details: ${error.message}`;
-    console.error(errorMessage);
-    if (error.stderr) console.error('STDERR:\n' + error.stderr);
-    if (error.stdout) console.error('STDOUT:\n' + error.stdout);
-    throw new Error(errorMessage);
-  }
-
-  try {
-    const gitStatus = execSync('git status --porcelain', {
+    headCommit = execSync('git rev-parse HEAD', {
       cwd: CWD,
       ...execOpts,
     }).trim();
-    if (gitStatus) {
-      const errorMessage =
-        'CRITICAL ERROR: Uncommitted changes or untracked files in the repository. Please commit or stash them before running --automatic.';
-      console.error(errorMessage);
-      console.error('Details:\n' + gitStatus);
-      throw new Error(errorMessage);
-    }
   } catch (error: any) {
-    const errorMessage = `CRITICAL ERROR: Failed to check Git status. Details: ${error.message}`;
+    const errorMessage = `CRITICAL ERROR: Failed to get current Git branch. Details: ${error.message}`;
     console.error(errorMessage);
     if (error.stderr) console.error('STDERR:\n' + error.stderr);
     if (error.stdout) console.error('STDOUT:\n' + error.stdout);
@@ -177,7 +548,7 @@ export async function handleAutomaticOperation(
     `Starting automatic taylored block extraction for extensions '${extensionsInput}' in directory '${CWD}'. Original branch: '${originalBranchName}'`,
   );
 
-  const tayloredDir = path.join(CWD, TAYLORED_DIR_NAME);
+  const tayloredDir = path.join(CWD, tayloredDirName);
   try {
     await fs.mkdir(tayloredDir, { recursive: true });
   } catch (error: any) {
@@ -186,22 +557,71 @@ export async function handleAutomaticOperation(
     throw new Error(errorMessage);
   }
 
+  const uncommittedChanges = execSync(
+    'git status --porcelain --untracked-files=no',
+    {
+      cwd: CWD,
+      ...execOpts,
+    },
+  ).trim();
+  if (uncommittedChanges) {
+    console.log(
+      `INFO: Uncommitted changes are not included: blocks are extracted from the last commit of '${originalBranchName}'.`,
+    );
+  }
+
+  const CWD_ABS = path.resolve(CWD); // Resolve CWD to an absolute path
+  return withScratchWorktree(CWD_ABS, headCommit, (worktree) =>
+    extractBlocksInWorktree(
+      extensionsInput,
+      branchName,
+      CWD_ABS,
+      worktree,
+      tayloredDirName,
+      originalBranchName,
+      headCommit,
+      excludeDirs,
+    ),
+  );
+}
+
+/**
+ * The body of `handleAutomaticOperation` (without watch mode): extracts the
+ * blocks of the files in `worktree`, a scratch worktree of `headCommit`, and
+ * writes their patches to `tayloredDirName` in `CWD_ABS`. Files are reported
+ * with their path in the repository of the user, `CWD_ABS`.
+ */
+async function extractBlocksInWorktree(
+  extensionsInput: string,
+  branchName: string,
+  CWD_ABS: string,
+  worktree: string,
+  tayloredDirName: string,
+  originalBranchName: string,
+  headCommit: string,
+  excludeDirs?: string[],
+): Promise<AutomaticOperationResult> {
+  const tayloredDir = path.join(CWD_ABS, tayloredDirName);
   const extensions = extensionsInput.split(',').map((ext) => ext.trim());
   const allFilesToScan: string[] = [];
-  const CWD_ABS = path.resolve(CWD); // Resolve CWD to an absolute path
 
   for (const ext of extensions) {
     const normalizedExtension = ext.startsWith('.') ? ext : `.${ext}`;
     try {
-      // Pass excludeDirs and CWD_ABS to findFilesRecursive
+      // Pass excludeDirs and the worktree to findFilesRecursive
       const filesForExtension = await findFilesRecursive(
-        CWD_ABS,
+        worktree,
         normalizedExtension,
+        tayloredDirName,
         [],
         excludeDirs,
-        CWD_ABS,
+        worktree,
+      );
+      allFilesToScan.push(
+        ...filesForExtension.map((file) =>
+          path.join(CWD_ABS, path.relative(worktree, file)),
+        ),
       );
-      allFilesToScan.push(...filesForExtension);
     } catch (error: any) {
       console.error(
         `Error while searching for files with extension '${normalizedExtension}': ${error.message}`,
@@ -212,25 +632,26 @@ export async function handleAutomaticOperation(
 
   if (allFilesToScan.length === 0) {
     console.log(`No files found with specified extensions: ${extensionsInput}`);
-    return;
+    return { filesScanned: 0, patches: [], failedAsyncBlocks: 0 };
   }
 
   console.log(
     `Found ${allFilesToScan.length} file(s) with specified extensions. Processing...`,
   );
 
-  // Corrected regex to properly capture number, other attributes, and content
-  const blockRegex =
-    /[^\n]*?<taylored\s+number="(\d+)"([^>]*)>([\s\S]*?)[^\n]*?<\/taylored>/g;
-  const jsonBlockRegex =
-    /(?:const\s+\w+\s*=\s*)?({(?:[^{}]|{[^{}]*})*?"taylored"\s*:\s*(\d+)(?:[^{}]|{[^{}]*})*?});?/g;
   let totalBlocksProcessed = 0;
   const asyncScriptPromises: Promise<void>[] = [];
+  // Patch written by each entry of asyncScriptPromises.
+  const asyncPatchNames: string[] = [];
+  const createdPatches: string[] = [];
 
   for (const originalFilePath of allFilesToScan) {
+    // The file is read and modified in the worktree.
+    const relativeOriginalFilePath = path.relative(CWD_ABS, originalFilePath);
+    const worktreeFilePath = path.join(worktree, relativeOriginalFilePath);
     let fileContent: string;
     try {
-      fileContent = await fs.readFile(originalFilePath, 'utf-8');
+      fileContent = await fs.readFile(worktreeFilePath, 'utf-8');
     } catch (readError: any) {
       console.warn(
         `Warning: Error reading file '${originalFilePath}': ${readError.message}. Skipping this file.`,
@@ -238,91 +659,17 @@ export async function handleAutomaticOperation(
       continue;
     }
 
-    // const matches = Array.from(fileContent.matchAll(blockRegex));
-    // if (matches.length === 0) {
-    //     continue;
-    // }
-    const xmlMatchesRaw = Array.from(fileContent.matchAll(blockRegex));
-    const jsonMatchesRaw = Array.from(fileContent.matchAll(jsonBlockRegex));
-
-    const allMatches: BlockMatch[] = [];
-
-    for (const match of xmlMatchesRaw) {
-      if (match.index !== undefined) {
-        allMatches.push({ type: 'xml', match, index: match.index });
-      }
-    }
-    for (const match of jsonMatchesRaw) {
-      if (match.index !== undefined) {
-        allMatches.push({ type: 'json', match, index: match.index });
-      }
-    }
-
-    allMatches.sort((a, b) => a.index - b.index);
-
-    if (allMatches.length === 0) {
-      continue;
-    }
-
-    for (const matchInfo of allMatches) {
-      let numero: string;
-      let attributesString: string | undefined; // Only for XML
-      let scriptContent: string;
-      let scriptContentWithTags: string; // Full matched block
-      let computeCharsToStrip: string | undefined;
-      let asyncFlag: boolean = false; // Default to false
-      let isDisabled: boolean = false; // Default to false
-
-      if (matchInfo.type === 'xml') {
-        const match = matchInfo.match;
-        numero = match[1];
-        attributesString = match[2];
-        scriptContentWithTags = match[0];
-        scriptContent = match[3];
-
-        const computeMatch = attributesString.match(/compute=["']([^"']*)["']/);
-        computeCharsToStrip = computeMatch ? computeMatch[1] : undefined;
-
-        const asyncMatch = attributesString.match(/async=["'](true|false)["']/);
-        asyncFlag = asyncMatch ? asyncMatch[1] === 'true' : false;
-
-        const disabledMatch = attributesString.match(
-          /disabled=["'](true|false)["']/,
-        );
-        isDisabled = disabledMatch ? disabledMatch[1] === 'true' : false;
-      } else {
-        // type === 'json'
-        scriptContentWithTags = matchInfo.match[0]; // For la sostituzione, usiamo ancora la corrispondenza completa (es. "chiave": {...})
-        const jsonBlockText = matchInfo.match[1]; // Per il parsing, usiamo il 1° gruppo di cattura (es. {...})
-        numero = matchInfo.match[2]; // Il numero è già disponibile nel 2° gruppo di cattura
-
-        try {
-          // Rimuove le righe di commento prima del parsing JSON
-          const cleanedJsonText = jsonBlockText.replace(/\/\/.*$/gm, '');
-          const parsedJson = JSON.parse(cleanedJsonText);
-
-          if (typeof parsedJson.content !== 'string') {
-            console.warn(
-              `Warning: JSON block ${numero} in ${originalFilePath} has invalid or missing 'content' string. Skipping.`,
-            );
-            continue;
-          }
-          scriptContent = parsedJson.content;
-          computeCharsToStrip =
-            typeof parsedJson.compute === 'string'
-              ? parsedJson.compute
-              : undefined;
-          asyncFlag = parsedJson.async === true;
-          isDisabled = parsedJson.disabled === true;
-        } catch (e: any) {
-          console.warn(
-            `Warning: Parsing of JSON block in ${originalFilePath} ... Skipping.`,
-          );
-          continue;
-        }
-      }
-
-      if (isDisabled) {
+    for (const block of findTayloredBlocks(fileContent, originalFilePath)) {
+      const {
+        numero,
+        scriptContent,
+        scriptContentWithTags,
+        computeCharsToStrip,
+        asyncFlag,
+        metadata,
+      } = block;
+
+      if (block.isDisabled) {
         console.log(
           `Skipping disabled block ${numero} from ${originalFilePath}.`,
         );
@@ -350,8 +697,9 @@ export async function handleAutomaticOperation(
           currentScriptContentWithTags: string,
           currentCWD: string,
           currentBranchName: string,
-          currentOriginalBranchName: string,
+          currentCommit: string,
           currentTargetTayloredFilePath: string,
+          currentMetadata: PatchMetadata,
         ): Promise<void> => {
           console.log(
             `Asynchronously processing computed block ${currentNumero} from ${currentOriginalFilePath}...`,
@@ -382,222 +730,93 @@ export async function handleAutomaticOperation(
             }
           }
 
-          let actualScriptContent: string;
-          if (currentComputeCharsToStrip.length > 0) {
-            let processedContent = currentScriptContent.trim();
-            const patterns = currentComputeCharsToStrip.split(',');
-            for (const pattern of patterns) {
-              const trimmedPattern = pattern.trim();
-              if (trimmedPattern.length > 0) {
-                processedContent = processedContent.replaceAll(
-                  trimmedPattern,
-                  '',
-                );
-              }
-            }
-            actualScriptContent = processedContent.trim();
-          } else {
-            actualScriptContent = currentScriptContent.trim();
-          }
-
-          const tempScriptPath = path.join(
-            currentCWD,
-            `taylored-temp-script-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
-          );
-          await fs.writeFile(tempScriptPath, actualScriptContent);
-
-          let scriptResult = '';
-          try {
-            await fs.chmod(tempScriptPath, 0o755);
-            scriptResult = await new Promise<string>((resolve, reject) => {
-              const child = spawn(tempScriptPath, [], {
-                cwd: currentCWD,
-                stdio: 'pipe',
-                shell: true,
-              });
-              let scriptOutput = '';
-              let scriptErrorOutput = '';
-              child.stdout.on('data', (data) => {
-                scriptOutput += data.toString();
-                process.stdout.write(data);
-              });
-              child.stderr.on('data', (data) => {
-                scriptErrorOutput += data.toString();
-                process.stderr.write(data);
-              });
-              child.on('error', reject);
-              child.on('close', (code) => {
-                if (code === 0) {
-                  resolve(scriptOutput);
-                } else {
-                  const error = new Error(
-                    `Script failed with code ${code}`,
-                  ) as any;
-                  error.status = code;
-                  error.stdout = scriptOutput;
-                  error.stderr = scriptErrorOutput;
-                  reject(error);
-                }
-              });
-            });
-          } catch (error: any) {
-            // istanbul ignore next
-            if (
-              error.status !== undefined ||
-              error.stderr !== undefined ||
-              error.stdout !== undefined
-            ) {
-              // istanbul ignore next
-              console.error(
-                `ERROR: Script execution failed for block ${currentNumero} in ${currentOriginalFilePath}. Error: ${error.message}`,
-              );
-              if (error.stderr) console.error('STDERR:\n' + error.stderr);
-              if (error.stdout) console.error('STDOUT:\n' + error.stdout);
-            } else {
-              console.error(
-                `ERROR: Failed to set execute permissions or other FS issue on temporary script file '${tempScriptPath}'. Details: ${error.message}`,
-              );
-            }
-            throw error;
-          } finally {
-            try {
-              await fs.unlink(tempScriptPath);
-            } catch (unlinkError: any) {
-              // istanbul ignore next
-              console.warn(
-                `Warning: Failed to delete temporary script file '${tempScriptPath}' during cleanup. Details: ${unlinkError.message}`,
-              );
-            }
-          }
-
           const relativeOriginalFilePath = path.relative(
             currentCWD,
             currentOriginalFilePath,
           );
-          const tempComputeBranchName = `temp-taylored-compute-${currentNumero}-${Date.now()}`;
-
-          try {
-            execSync(
-              `git checkout -b "${tempComputeBranchName}" "${currentOriginalBranchName}"`,
-              { cwd: currentCWD, ...execOpts },
-            );
-
-            // Create and add .gitignore to the temporary compute branch
-            const gitignorePath = path.join(currentCWD, '.gitignore');
-            await fs.writeFile(gitignorePath, TAYLORED_DIR_NAME + '\n');
-            execSync(`git add .gitignore`, { cwd: currentCWD, ...execOpts });
-
-            const contentOnTempBranch = await fs.readFile(
-              currentOriginalFilePath,
-              'utf-8',
-            );
-            const contentWithScriptResult = contentOnTempBranch.replace(
-              currentScriptContentWithTags,
-              scriptResult,
-            );
-            await fs.writeFile(
-              currentOriginalFilePath,
-              contentWithScriptResult,
-            );
-            execSync(`git add "${relativeOriginalFilePath}"`, {
-              cwd: currentCWD,
-              ...execOpts,
-            });
-            execSync(
-              `git commit --no-verify -m "AUTO: Apply computed block ${currentNumero} for ${path.basename(currentOriginalFilePath)}"`,
-              { cwd: currentCWD, ...execOpts },
-            );
 
-            const diffAgainstBranchCommand = `git diff --exit-code "${currentBranchName}" HEAD -- "${relativeOriginalFilePath}"`;
-            try {
-              execSync(diffAgainstBranchCommand, {
-                cwd: currentCWD,
-                encoding: 'utf8',
-                stdio: 'pipe',
-              });
-              await fs.writeFile(currentTargetTayloredFilePath, '');
-              console.log(
-                `No difference found for computed block ${currentNumero} from ${currentOriginalFilePath} when compared against branch '${currentBranchName}'. Empty taylored file created: ${currentTargetTayloredFilePath}`,
+          // Blocks run in parallel: each gets a worktree of its own.
+          await withScratchWorktree(
+            currentCWD,
+            currentCommit,
+            async (blockWorktree) => {
+              const blockWorktreeFilePath = path.join(
+                blockWorktree,
+                relativeOriginalFilePath,
               );
-            } catch (e: any) {
-              if (e.status === 1 && typeof e.stdout === 'string') {
-                await fs.writeFile(currentTargetTayloredFilePath, e.stdout);
-                console.log(
-                  `Successfully created ${currentTargetTayloredFilePath} for computed block ${currentNumero} from ${currentOriginalFilePath} (using branch diff against '${currentBranchName}')`,
+              const scriptResult = await runComputeScript(
+                currentNumero,
+                currentOriginalFilePath,
+                currentScriptContent,
+                currentComputeCharsToStrip,
+                currentCWD,
+                blockWorktree,
+              );
+
+              try {
+                const contentInWorktree = await fs.readFile(
+                  blockWorktreeFilePath,
+                  'utf-8',
                 );
-              } else {
+                const contentWithScriptResult = contentInWorktree.replace(
+                  currentScriptContentWithTags,
+                  scriptResult,
+                );
+                await fs.writeFile(
+                  blockWorktreeFilePath,
+                  contentWithScriptResult,
+                );
+
+                const diffAgainstBranchCommand = `git diff --binary --exit-code "${currentBranchName}" -- "${relativeOriginalFilePath}"`;
+                try {
+                  execSync(diffAgainstBranchCommand, {
+                    cwd: blockWorktree,
+                    encoding: 'utf8',
+                    stdio: 'pipe',
+                  });
+                  await fs.writeFile(currentTargetTayloredFilePath, '');
+                  console.log(
+                    `No difference found for computed block ${currentNumero} from ${currentOriginalFilePath} when compared against branch '${currentBranchName}'. Empty taylored file created: ${currentTargetTayloredFilePath}`,
+                  );
+                } catch (e: any) {
+                  if (e.status === 1 && typeof e.stdout === 'string') {
+                    await fs.writeFile(
+                      currentTargetTayloredFilePath,
+                      withPatchMetadata(e.stdout, currentMetadata),
+                    );
+                    console.log(
+                      `Successfully created ${currentTargetTayloredFilePath} for computed block ${currentNumero} from ${currentOriginalFilePath} (using branch diff against '${currentBranchName}')`,
+                    );
+                  } else {
+                    // istanbul ignore next
+                    console.error(
+                      `CRITICAL ERROR: Failed to generate diff for computed block ${currentNumero} from ${currentOriginalFilePath} against branch '${currentBranchName}'.`,
+                    );
+                    if (e.message)
+                      console.error(`  Error message: ${e.message}`);
+                    if (e.stderr)
+                      console.error('  STDERR:\n' + e.stderr.toString().trim());
+                    if (e.stdout)
+                      console.error('  STDOUT:\n' + e.stdout.toString().trim());
+                    throw e;
+                  }
+                }
+                // totalBlocksProcessed will be incremented after Promise.allSettled for async blocks
+              } catch (error: any) {
                 // istanbul ignore next
                 console.error(
-                  `CRITICAL ERROR: Failed to generate diff for computed block ${currentNumero} from ${currentOriginalFilePath} against branch '${currentBranchName}'.`,
+                  `CRITICAL ERROR: Failed to process computed block ${currentNumero} from ${currentOriginalFilePath} using branch diff method.`,
                 );
-                if (e.message) console.error(`  Error message: ${e.message}`);
-                if (e.stderr)
-                  console.error('  STDERR:\n' + e.stderr.toString().trim());
-                if (e.stdout)
-                  console.error('  STDOUT:\n' + e.stdout.toString().trim());
-                throw e;
+                if (error.message)
+                  console.error(`  Error message: ${error.message}`);
+                if (error.stderr)
+                  console.error('  STDERR:\n' + error.stderr.toString().trim());
+                if (error.stdout)
+                  console.error('  STDOUT:\n' + error.stdout.toString().trim());
+                throw error;
               }
-            }
-            // totalBlocksProcessed will be incremented after Promise.allSettled for async blocks
-          } catch (error: any) {
-            // istanbul ignore next
-            console.error(
-              `CRITICAL ERROR: Failed to process computed block ${currentNumero} from ${currentOriginalFilePath} using branch diff method.`,
-            );
-            if (error.message)
-              console.error(`  Error message: ${error.message}`);
-            if (error.stderr)
-              console.error('  STDERR:\n' + error.stderr.toString().trim());
-            if (error.stdout)
-              console.error('  STDOUT:\n' + error.stdout.toString().trim());
-            throw error;
-          } finally {
-            const currentBranchAfterOps = execSync(
-              'git rev-parse --abbrev-ref HEAD',
-              { cwd: currentCWD, ...execOpts },
-            ).trim();
-            if (currentBranchAfterOps === tempComputeBranchName) {
-              execSync(`git checkout -q "${currentOriginalBranchName}"`, {
-                cwd: currentCWD,
-                stdio: 'ignore',
-              });
-            } else if (currentBranchAfterOps !== currentOriginalBranchName) {
-              // istanbul ignore next
-              console.warn(
-                `Warning: Unexpected current branch '${currentBranchAfterOps}' during cleanup for computed block. Attempting to return to '${currentOriginalBranchName}'.`,
-              );
-              try {
-                execSync(`git checkout -q "${currentOriginalBranchName}"`, {
-                  cwd: currentCWD,
-                  stdio: 'ignore',
-                });
-              } catch (coErr: any) {
-                console.warn(
-                  `Warning: Failed to checkout original branch '${currentOriginalBranchName}' during cleanup. Current branch: ${currentBranchAfterOps}. Error: ${coErr.message}`,
-                );
-              }
-            }
-            try {
-              const branchesRaw = execSync('git branch', {
-                cwd: currentCWD,
-                ...execOpts,
-              });
-              const branchesList = branchesRaw
-                .split('\n')
-                .map((b) => b.trim().replace(/^\* /, ''));
-              if (branchesList.includes(tempComputeBranchName)) {
-                execSync(`git branch -q -D "${tempComputeBranchName}"`, {
-                  cwd: currentCWD,
-                  stdio: 'ignore',
-                });
-              }
-            } catch (deleteBranchError: any) {
-              // istanbul ignore next
-              console.warn(
-                `Warning: Failed to delete temporary branch '${tempComputeBranchName}' during cleanup for computed block. May require manual cleanup. ${deleteBranchError.message}`,
-              );
-            }
-          }
+            },
+          );
         };
 
         if (asyncFlag) {
@@ -608,12 +827,14 @@ export async function handleAutomaticOperation(
               scriptContent,
               computeCharsToStrip,
               scriptContentWithTags,
-              CWD,
+              CWD_ABS,
               branchName,
-              originalBranchName,
+              headCommit,
               targetTayloredFilePath,
+              metadata,
             ),
           );
+          asyncPatchNames.push(targetTayloredFileName);
           totalBlocksProcessed++; // Increment when task is initiated for async
         } else {
           // Synchronous execution path (existing logic)
@@ -643,163 +864,35 @@ export async function handleAutomaticOperation(
             }
           }
 
-          let actualScriptContent: string;
-          if (
-            computeCharsToStrip !== undefined &&
-            computeCharsToStrip.length > 0
-          ) {
-            // Modified compute logic:
-            // Removes all occurrences of each pattern specified in 'computeCharsToStrip'.
-            let processedContent = scriptContent.trim(); // Start by trimming the block content
-            const patterns = computeCharsToStrip.split(',');
-
-            for (const pattern of patterns) {
-              const trimmedPattern = pattern.trim(); // Trim the pattern itself to remove any surrounding whitespace
-              if (trimmedPattern.length > 0) {
-                // Removes all occurrences of the trimmedPattern.
-                // String.prototype.replaceAll() is available in Node.js v15.0.0+.
-                // If compatibility with older versions is required, you could use:
-                // processedContent = processedContent.split(trimmedPattern).join('');
-                processedContent = processedContent.replaceAll(
-                  trimmedPattern,
-                  '',
-                );
-              }
-            }
-            actualScriptContent = processedContent.trim(); // Trim the final result
-          } else {
-            // No compute or empty compute: use the content of the block, trimmed.
-            actualScriptContent = scriptContent.trim();
-          }
-
-          // Create temp script file without extension, relying on shebang
-          const tempScriptPath = path.join(
-            CWD,
-            `taylored-temp-script-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+          const scriptResult = await runComputeScript(
+            numero,
+            originalFilePath,
+            scriptContent,
+            computeCharsToStrip,
+            CWD_ABS,
+            worktree,
           );
-          await fs.writeFile(tempScriptPath, actualScriptContent);
 
-          let scriptResult = '';
+          // Git-based diffing logic for compute blocks, in the worktree
           try {
-            // Add execute permission to the temporary script file before execution
-            await fs.chmod(tempScriptPath, 0o755); // rwxr-xr-x
-
-            // Execute the temporary script directly, relying on its shebang
-            scriptResult = await new Promise<string>((resolve, reject) => {
-              const child = spawn(tempScriptPath, [], {
-                cwd: CWD,
-                stdio: 'pipe',
-                shell: true,
-              });
-              let scriptOutput = '';
-              let scriptErrorOutput = '';
-
-              child.stdout.on('data', (data) => {
-                scriptOutput += data.toString();
-                process.stdout.write(data);
-              });
-
-              child.stderr.on('data', (data) => {
-                scriptErrorOutput += data.toString();
-                process.stderr.write(data);
-              });
-
-              child.on('error', (err) => {
-                reject(err);
-              });
-
-              child.on('close', (code) => {
-                if (code === 0) {
-                  resolve(scriptOutput);
-                } else {
-                  const error = new Error(
-                    `Script failed with code ${code}`,
-                  ) as any;
-                  error.status = code;
-                  error.stdout = scriptOutput;
-                  error.stderr = scriptErrorOutput;
-                  reject(error);
-                }
-              });
-            });
-          } catch (error: any) {
-            // Differentiate error source for better logging
-            // istanbul ignore next
-            if (
-              error.status !== undefined ||
-              error.stderr !== undefined ||
-              error.stdout !== undefined
-            ) {
-              // This is likely an error from the script execution (spawn)
-              // istanbul ignore next
-              console.error(
-                `ERROR: Script execution failed for block ${numero} in ${originalFilePath}. Error: ${error.message}`,
-              );
-              if (error.stderr) console.error('STDERR:\n' + error.stderr);
-              if (error.stdout) console.error('STDOUT:\n' + error.stdout);
-            } else {
-              // This is likely an error from fs.chmod or other fs operations
-              console.error(
-                `ERROR: Failed to set execute permissions or other FS issue on temporary script file '${tempScriptPath}'. Details: ${error.message}`,
-              );
-            }
-            throw error; // Re-throw the error to stop processing for this block
-          } finally {
-            // Clean up temp script file, regardless of success or failure of the try block
-            try {
-              await fs.unlink(tempScriptPath);
-            } catch (unlinkError: any) {
-              // istanbul ignore next
-              console.warn(
-                `Warning: Failed to delete temporary script file '${tempScriptPath}' during cleanup. Details: ${unlinkError.message}`,
-              );
-            }
-          }
-
-          // New git-based diffing logic for compute blocks
-          const relativeOriginalFilePath = path.relative(CWD, originalFilePath);
-          const tempComputeBranchName = `temp-taylored-compute-${numero}-${Date.now()}`;
-
-          try {
-            // 1. Create a temporary branch from the current originalBranchName
-            execSync(
-              `git checkout -b "${tempComputeBranchName}" "${originalBranchName}"`,
-              { cwd: CWD, ...execOpts },
-            );
-
-            // Create and add .gitignore to the temporary compute branch (sync)
-            const gitignorePath = path.join(CWD, '.gitignore');
-            await fs.writeFile(gitignorePath, TAYLORED_DIR_NAME + '\n');
-            execSync(`git add .gitignore`, { cwd: CWD, ...execOpts });
-
-            // 2. On this temporary branch, modify the file:
-            const contentOnTempBranch = await fs.readFile(
-              originalFilePath,
+            // 1. In the worktree, modify the file:
+            const contentInWorktree = await fs.readFile(
+              worktreeFilePath,
               'utf-8',
             );
-            const contentWithScriptResult = contentOnTempBranch.replace(
+            const contentWithScriptResult = contentInWorktree.replace(
               scriptContentWithTags,
               scriptResult,
             );
-            await fs.writeFile(originalFilePath, contentWithScriptResult);
-
-            // 3. Commit this change on the temporary branch
-            execSync(`git add "${relativeOriginalFilePath}"`, {
-              cwd: CWD,
-              ...execOpts,
-            });
-            execSync(
-              `git commit --no-verify -m "AUTO: Apply computed block ${numero} for ${path.basename(originalFilePath)}"`,
-              { cwd: CWD, ...execOpts },
-            );
+            await fs.writeFile(worktreeFilePath, contentWithScriptResult);
 
-            // 4. Generate the diff between the target branchName and HEAD of our temporary branch
-            const diffAgainstBranchCommand = `git diff --exit-code "${branchName}" HEAD -- "${relativeOriginalFilePath}"`;
+            // 2. Generate the diff between the target branchName and the modified file
+            const diffAgainstBranchCommand = `git diff --binary --exit-code "${branchName}" -- "${relativeOriginalFilePath}"`;
             let diffOutputCommandResult: string;
 
             try {
               diffOutputCommandResult = execSync(diffAgainstBranchCommand, {
-                cwd: CWD,
+                cwd: worktree,
                 encoding: 'utf8',
                 stdio: 'pipe',
               });
@@ -814,7 +907,7 @@ export async function handleAutomaticOperation(
                 diffOutputCommandResult = e.stdout;
                 await fs.writeFile(
                   targetTayloredFilePath,
-                  diffOutputCommandResult,
+                  withPatchMetadata(diffOutputCommandResult, metadata),
                 );
                 console.log(
                   `Successfully created ${targetTayloredFilePath} for computed block ${numero} from ${originalFilePath} (using branch diff against '${branchName}')`,
@@ -834,6 +927,7 @@ export async function handleAutomaticOperation(
               }
             }
             totalBlocksProcessed++;
+            createdPatches.push(targetTayloredFileName);
           } catch (error: any) {
             // istanbul ignore next
             console.error(
@@ -847,52 +941,8 @@ export async function handleAutomaticOperation(
               console.error('  STDOUT:\n' + error.stdout.toString().trim());
             throw error; // Propagate error to stop processing for this block/file
           } finally {
-            // Clean up: switch back to original branch and delete temporary branch
-            const currentBranchAfterOps = execSync(
-              'git rev-parse --abbrev-ref HEAD',
-              { cwd: CWD, ...execOpts },
-            ).trim();
-            if (currentBranchAfterOps === tempComputeBranchName) {
-              execSync(`git checkout -q "${originalBranchName}"`, {
-                cwd: CWD,
-                stdio: 'ignore',
-              });
-            } else if (currentBranchAfterOps !== originalBranchName) {
-              // istanbul ignore next
-              console.warn(
-                `Warning: Unexpected current branch '${currentBranchAfterOps}' during cleanup for computed block. Attempting to return to '${originalBranchName}'.`,
-              );
-              try {
-                execSync(`git checkout -q "${originalBranchName}"`, {
-                  cwd: CWD,
-                  stdio: 'ignore',
-                });
-              } catch (coErr: any) {
-                console.warn(
-                  `Warning: Failed to checkout original branch '${originalBranchName}' during cleanup. Current branch: ${currentBranchAfterOps}. Error: ${coErr.message}`,
-                );
-              }
-            }
-            try {
-              const branchesRaw = execSync('git branch', {
-                cwd: CWD,
-                ...execOpts,
-              });
-              const branchesList = branchesRaw
-                .split('\n')
-                .map((b) => b.trim().replace(/^\* /, ''));
-              if (branchesList.includes(tempComputeBranchName)) {
-                execSync(`git branch -q -D "${tempComputeBranchName}"`, {
-                  cwd: CWD,
-                  stdio: 'ignore',
-                });
-              }
-            } catch (deleteBranchError: any) {
-              // istanbul ignore next
-              console.warn(
-                `Warning: Failed to delete temporary branch '${tempComputeBranchName}' during cleanup for computed block. May require manual cleanup. ${deleteBranchError.message}`,
-              );
-            }
+            // Clean up: restore the file for the next blocks
+            restoreWorktreeFile(worktree, relativeOriginalFilePath);
           }
         }
       } else {
@@ -930,42 +980,24 @@ export async function handleAutomaticOperation(
         }
 
         // const fileLines = fileContent.split('\n');
-        // Use matchInfo.index directly as it's populated for both XML and JSON types
-        const contentUpToMatch = fileContent.substring(0, matchInfo.index);
+        const contentUpToMatch = fileContent.substring(0, block.index);
         const startLineNum = contentUpToMatch.split('\n').length;
         const matchLinesCount = scriptContentWithTags.split('\n').length; // Use scriptContentWithTags here
-        const tempBranchName = `temp-taylored-${numero}-${Date.now()}`;
 
         try {
-          execSync(`git checkout -b ${tempBranchName}`, {
-            cwd: CWD,
-            ...execOpts,
-          });
-
-          // Create and add .gitignore to the temporary non-compute branch
-          const gitignorePath = path.join(CWD, '.gitignore');
-          await fs.writeFile(gitignorePath, TAYLORED_DIR_NAME + '\n');
-          execSync(`git add .gitignore`, { cwd: CWD, ...execOpts });
-
           const currentFileLines = (
-            await fs.readFile(originalFilePath, 'utf-8')
+            await fs.readFile(worktreeFilePath, 'utf-8')
           ).split('\n');
           currentFileLines.splice(startLineNum - 1, matchLinesCount);
-          await fs.writeFile(originalFilePath, currentFileLines.join('\n'));
-          execSync(`git add "${originalFilePath}"`, { cwd: CWD, ...execOpts });
-          execSync(
-            `git commit -m "Temporary: Remove block ${numero} from ${path.basename(originalFilePath)}"`,
-            { cwd: CWD, ...execOpts },
-          );
+          await fs.writeFile(worktreeFilePath, currentFileLines.join('\n'));
 
-          // Generate diff against originalBranchName for non-compute blocks
-          const relativeOriginalFilePath = path.relative(CWD, originalFilePath);
-          const diffCommand = `git diff --exit-code "${originalBranchName}" HEAD -- "${relativeOriginalFilePath}"`;
+          // Generate diff against the original commit for non-compute blocks
+          const diffCommand = `git diff --binary --exit-code HEAD -- "${relativeOriginalFilePath}"`;
           let diffContentForFile = ''; // Default to empty if no diff
 
           try {
             execSync(diffCommand, {
-              cwd: CWD,
+              cwd: worktree,
               encoding: 'utf8',
               stdio: 'pipe',
             });
@@ -1001,7 +1033,10 @@ export async function handleAutomaticOperation(
             analysis.deletions > 0 &&
             analysis.additions === 0
           ) {
-            await fs.writeFile(targetTayloredFilePath, diffContentForFile);
+            await fs.writeFile(
+              targetTayloredFilePath,
+              withPatchMetadata(diffContentForFile, metadata),
+            );
             console.log(
               `Successfully created ${targetTayloredFilePath} for block ${numero} from ${originalFilePath} (block removal vs original branch '${originalBranchName}')`,
             );
@@ -1035,6 +1070,7 @@ export async function handleAutomaticOperation(
             );
           }
           totalBlocksProcessed++;
+          createdPatches.push(targetTayloredFileName);
         } catch (error: any) {
           console.error(
             `CRITICAL ERROR: Failed to process block ${numero} from ${originalFilePath}.`,
@@ -1047,31 +1083,13 @@ export async function handleAutomaticOperation(
           // STDERR/STDOUT might be from a command that failed before diffing
           throw error;
         } finally {
-          try {
-            execSync(`git checkout "${originalBranchName}"`, {
-              cwd: CWD,
-              stdio: 'ignore',
-            });
-          } catch (checkoutError: any) {
-            console.warn(
-              `Warning: Failed to checkout original branch '${originalBranchName}' during cleanup. May require manual cleanup. ${checkoutError.message}`,
-            );
-          }
-          try {
-            execSync(`git branch -D "${tempBranchName}"`, {
-              cwd: CWD,
-              stdio: 'ignore',
-            });
-          } catch (deleteBranchError: any) {
-            console.warn(
-              `Warning: Failed to delete temporary branch '${tempBranchName}' during cleanup. May require manual cleanup. ${deleteBranchError.message}`,
-            );
-          }
+          restoreWorktreeFile(worktree, relativeOriginalFilePath);
         }
       } // This closes the `if (computeCharsToStrip !== undefined)` block, NOT the `else` for non-compute
     }
   }
 
+  let failedAsyncBlocks = 0;
   if (asyncScriptPromises.length > 0) {
     console.log(
       `Executing ${asyncScriptPromises.length} asynchronous compute block(s) in parallel...`,
@@ -1088,6 +1106,7 @@ export async function handleAutomaticOperation(
         console.log(
           `Asynchronous task for ${blockIdentifier} completed successfully.`,
         );
+        createdPatches.push(asyncPatchNames[index]);
         succeededCount++;
       } else {
         console.error(
@@ -1099,6 +1118,7 @@ export async function handleAutomaticOperation(
     console.log(
       `All asynchronous tasks have completed. Succeeded: ${succeededCount}, Failed: ${failedCount}.`,
     );
+    failedAsyncBlocks = failedCount;
   }
 
   if (totalBlocksProcessed === 0) {
@@ -1118,4 +1138,371 @@ export async function handleAutomaticOperation(
       );
     }
   }
+  return {
+    filesScanned: allFilesToScan.length,
+    patches: createdPatches,
+    failedAsyncBlocks,
+  };
+}
+
+/**
+ * Computes the patch of a block in memory, from the current content of its
+ * file, instead of extracting it from `HEAD` in a scratch worktree as
+ * `handleAutomaticOperation` does: this is what lets watch mode see
+ * uncommitted changes.
+ *
+ * As in the worktree extraction, the patch of a static block removes the
+ * block from the file, and the patch of a compute block goes from the file in
+ * `branchName` to the file with the block replaced by the script output.
+ *
+ * @async
+ * @param {TayloredBlock} block - The block.
+ * @param {string} originalFilePath - The absolute path of the file of the block.
+ * @param {string} fileContent - The current content of the file.
+ * @param {string} branchName - The branch compute blocks are diffed against.
+ * @param {string} CWD - The root of the repository.
+ * @returns {Promise<string>} The patch, with the metadata of the block, or ''
+ *          if the block makes no change.
+ * @throws {Error} If the script of a compute block fails or its file is not
+ *         in `branchName`.
+ */
+async function computeBlockPatch(
+  block: TayloredBlock,
+  originalFilePath: string,
+  fileContent: string,
+  branchName: string,
+  CWD: string,
+): Promise<string> {
+  const relativePath = path
+    .relative(CWD, originalFilePath)
+    .split(path.sep)
+    .join('/');
+  let oldContent: string;
+  let newContent: string;
+  if (block.computeCharsToStrip === undefined) {
+    const startLineNum = fileContent
+      .substring(0, block.index)
+      .split('\n').length;
+    const fileLines = fileContent.split('\n');
+    fileLines.splice(
+      startLineNum - 1,
+      block.scriptContentWithTags.split('\n').length,
+    );
+    oldContent = fileContent;
+    newContent = fileLines.join('\n');
+  } else {
+    const scriptResult = await runComputeScript(
+      block.numero,
+      originalFilePath,
+      block.scriptContent,
+      block.computeCharsToStrip,
+      CWD,
+    );
+    newContent = fileContent.replace(block.scriptContentWithTags, scriptResult);
+    try {
+      oldContent = execSync(`git show "${branchName}:${relativePath}"`, {
+        cwd: CWD,
+        ...execOpts,
+        maxBuffer: 64 * 1024 * 1024,
+      });
+    } catch (error: any) {
+      throw new Error(
+        `'${relativePath}' cannot be read from branch '${branchName}'. Details: ${(error.stderr || error.message).toString().trim()}`,
+      );
+    }
+  }
+  const diff = formatUnifiedDiff(
+    relativePath,
+    relativePath,
+    oldContent,
+    newContent,
+  );
+  if (diff.text === '') {
+    return '';
+  }
+  return withPatchMetadata(
+    `diff --git a/${relativePath} b/${relativePath}\n${diff.text}`,
+    block.metadata,
+  );
+}
+
+/**
+ * Implements `taylored --automatic --watch`: watches the files with the given
+ * extensions and regenerates the `.taylored` file of every block that
+ * changes, until `options.signal` is aborted.
+ *
+ * - Only the directories `findFilesRecursive` searches are watched, each with
+ *   its own `fs.watch`: ".git", the .taylored directory and `excludeDirs` are
+ *   not, so their changes cost nothing. Directories created while watching
+ *   are watched as they appear, and the files already in them are scanned.
+ * - At startup, the blocks are indexed and only those without a patch yet are
+ *   extracted.
+ * - Changes are debounced: a burst of saves triggers one pass, once the files
+ *   have been quiet for `options.debounceMs`.
+ * - A pass re-reads the changed files and regenerates the blocks that are new
+ *   or whose text (markers included) changed; compute scripts therefore only
+ *   run when their block is edited. Existing patches are overwritten.
+ * - Every regenerated patch and every error is logged on one line, and an
+ *   error never stops watching. A removed block keeps its patch.
+ *
+ * Patches are computed in memory (see `computeBlockPatch`), so the working
+ * tree may have uncommitted changes and the current branch is never switched.
+ *
+ * @async
+ * @param {string} extensionsInput - A comma-separated string of file extensions to watch.
+ * @param {string} branchName - The branch compute blocks are diffed against.
+ * @param {string} CWD - The root of the Git repository.
+ * @param {string} tayloredDirName - The .taylored directory, relative to `CWD`.
+ * @param {string[] | undefined} excludeDirs - Directories, relative to `CWD`, not watched.
+ * @param {AutomaticOperationOptions} options - The debounce delay and the abort signal.
+ * @returns {Promise<AutomaticOperationResult>} Once stopped: the files scanned at
+ *          startup and every patch written while watching.
+ * @throws {Error} If the patch directory cannot be created or `CWD` cannot be watched.
+ */
+async function watchAutomaticBlocks(
+  extensionsInput: string,
+  branchName: string,
+  CWD: string,
+  tayloredDirName: string,
+  excludeDirs: string[] | undefined,
+  options: AutomaticOperationOptions,
+): Promise<AutomaticOperationResult> {
+  const CWD_ABS = path.resolve(CWD);
+  const tayloredDir = path.join(CWD_ABS, tayloredDirName);
+  try {
+    await fs.mkdir(tayloredDir, { recursive: true });
+  } catch (error: any) {
+    const errorMessage = `CRITICAL ERROR: Could not create directory '${tayloredDir}'. Details: ${error.message}`;
+    console.error(errorMessage);
+    throw new Error(errorMessage);
+  }
+  const extensions = extensionsInput
+    .split(',')
+    .map((ext) => ext.trim())
+    .filter((ext) => ext !== '')
+    .map((ext) => (ext.startsWith('.') ? ext : `.${ext}`));
+
+  const isWatchedFile = (fileName: string): boolean =>
+    extensions.some((ext) => fileName.endsWith(ext));
+  const log = (message: string) =>
+    console.log(`[${new Date().toTimeString().substring(0, 8)}] ${message}`);
+
+  // The text of every known block, and the file it is in, by block number.
+  const knownBlocks = new Map<string, { filePath: string; text: string }>();
+  const writtenPatches = new Set<string>();
+
+  const scanFile = async (filePath: string, initial: boolean) => {
+    const relativePath = path.relative(CWD_ABS, filePath);
+    let fileContent = '';
+    try {
+      fileContent = await fs.readFile(filePath, 'utf-8');
+    } catch (error: any) {
+      // A deleted file is scanned as an empty one: its blocks are removed.
+      if (error.code !== 'ENOENT') {
+        log(`ERROR: Could not read ${relativePath}: ${error.message}`);
+        return;
+      }
+    }
+    const blocks = findTayloredBlocks(fileContent, filePath).filter(
+      (block) => !block.isDisabled,
+    );
+    for (const block of blocks) {
+      const known = knownBlocks.get(block.numero);
+      if (
+        known &&
+        known.filePath === filePath &&
+        known.text === block.scriptContentWithTags
+      ) {
+        continue;
+      }
+      knownBlocks.set(block.numero, {
+        filePath,
+        text: block.scriptContentWithTags,
+      });
+      const patchName = `${block.numero}${TAYLORED_FILE_EXTENSION}`;
+      const patchPath = path.join(tayloredDir, patchName);
+      if (initial) {
+        try {
+          await fs.access(patchPath);
+          continue;
+        } catch {
+          // No patch yet: extract the block now.
+        }
+      }
+      try {
+        const patch = await computeBlockPatch(
+          block,
+          filePath,
+          fileContent,
+          branchName,
+          CWD_ABS,
+        );
+        await fs.writeFile(patchPath, patch);
+        writtenPatches.add(patchName);
+        log(
+          `Regenerated ${patchName} from block ${block.numero} in ${relativePath}${patch === '' ? ' (empty: the block makes no change)' : ''}.`,
+        );
+      } catch (error: any) {
+        log(
+          `ERROR: Could not regenerate ${patchName} from block ${block.numero} in ${relativePath}: ${error.message}`,
+        );
+      }
+    }
+    const numbers = new Set(blocks.map((block) => block.numero));
+    for (const [numero, known] of knownBlocks) {
+      if (known.filePath === filePath && !numbers.has(numero)) {
+        knownBlocks.delete(numero);
+        log(
+          `Block ${numero} was removed from ${relativePath}; ${numero}${TAYLORED_FILE_EXTENSION} is left as is.`,
+        );
+      }
+    }
+  };
+
+  // Passes run one after the other, in the order they were triggered.
+  let running: Promise<void> = Promise.resolve();
+  const changedFiles = new Set<string>();
+  let debounceTimer: NodeJS.Timeout | undefined;
+  const runPass = () => {
+    debounceTimer = undefined;
+    const filePaths = Array.from(changedFiles).sort();
+    changedFiles.clear();
+    running = running.then(async () => {
+      for (const filePath of filePaths) {
+        await scanFile(filePath, false);
+      }
+    });
+  };
+
+  const fileChanged = (filePath: string) => {
+    changedFiles.add(filePath);
+    clearTimeout(debounceTimer);
+    debounceTimer = setTimeout(runPass, options.debounceMs ?? 300);
+  };
+
+  // One watcher per searched directory, by absolute path.
+  const watchers = new Map<string, FSWatcher>();
+  let stopped = false;
+  const unwatchTree = (dir: string) => {
+    for (const [watchedDir, watcher] of watchers) {
+      if (watchedDir === dir || watchedDir.startsWith(dir + path.sep)) {
+        watcher.close();
+        watchers.delete(watchedDir);
+      }
+    }
+  };
+  // Watches `dir` and the directories under it that are searched; with
+  // `scanFiles`, the watched files found there are treated as changed.
+  const watchTree = async (dir: string, scanFiles: boolean) => {
+    if (stopped || watchers.has(dir)) {
+      return;
+    }
+    const watcher = watch(dir, (_eventType, fileName) => {
+      if (fileName) {
+        entryChanged(path.join(dir, fileName.toString()));
+      }
+    });
+    // The directory was removed, or can no longer be watched.
+    watcher.on('error', () => unwatchTree(dir));
+    watchers.set(dir, watcher);
+    for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+      const fullPath = path.join(dir, entry.name);
+      if (
+        entry.isDirectory() &&
+        !isSkippedDirectory(
+          path.relative(CWD_ABS, fullPath),
+          tayloredDirName,
+          excludeDirs,
+        )
+      ) {
+        await watchTree(fullPath, scanFiles);
+      } else if (scanFiles && entry.isFile() && isWatchedFile(entry.name)) {
+        fileChanged(fullPath);
+      }
+    }
+  };
+  const entryChanged = (fullPath: string) => {
+    if (isWatchedFile(fullPath)) {
+      fileChanged(fullPath);
+    }
+    fs.stat(fullPath)
+      .then(
+        (stats) => {
+          if (
+            stats.isDirectory() &&
+            !isSkippedDirectory(
+              path.relative(CWD_ABS, fullPath),
+              tayloredDirName,
+              excludeDirs,
+            )
+          ) {
+            return watchTree(fullPath, true);
+          }
+        },
+        () => unwatchTree(fullPath),
+      )
+      .catch((error: any) =>
+        log(
+          `ERROR: Could not watch ${path.relative(CWD_ABS, fullPath)}: ${error.message}`,
+        ),
+      );
+  };
+
+  try {
+    await watchTree(CWD_ABS, false);
+  } catch (error: any) {
+    unwatchTree(CWD_ABS);
+    const errorMessage = `CRITICAL ERROR: Could not watch '${CWD_ABS}'. Details: ${error.message}`;
+    console.error(errorMessage);
+    throw new Error(errorMessage);
+  }
+
+  const filesToScan: string[] = [];
+  for (const ext of extensions) {
+    try {
+      filesToScan.push(
+        ...(await findFilesRecursive(
+          CWD_ABS,
+          ext,
+          tayloredDirName,
+          [],
+          excludeDirs,
+          CWD_ABS,
+        )),
+      );
+    } catch (error: any) {
+      log(
+        `ERROR: Could not search for files with extension '${ext}': ${error.message}`,
+      );
+    }
+  }
+  running = running.then(async () => {
+    for (const filePath of filesToScan) {
+      await scanFile(filePath, true);
+    }
+  });
+  await running;
+  log(
+    `Watching ${filesToScan.length} file(s) with extensions '${extensionsInput}' (${knownBlocks.size} block(s)). Press Ctrl+C to stop.`,
+  );
+
+  await new Promise<void>((resolve) => {
+    if (options.signal?.aborted) {
+      resolve();
+      return;
+    }
+    options.signal?.addEventListener('abort', () => resolve(), {
+      once: true,
+    });
+  });
+  stopped = true;
+  unwatchTree(CWD_ABS);
+  clearTimeout(debounceTimer);
+  await running;
+  log('Stopped watching.');
+  return {
+    filesScanned: filesToScan.length,
+    patches: Array.from(writtenPatches).sort(),
+    failedAsyncBlocks: 0,
+  };
 }
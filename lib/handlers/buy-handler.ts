@@ -2,7 +2,8 @@ import * as fs from 'fs-extra';
 import * as path from 'path';
 import * as https from 'https';
 import { validateTaysellFileContent, TaysellFile } from '../taysell-utils';
-import { TAYLORED_DIR_NAME, TAYLORED_FILE_EXTENSION } from '../constants';
+import { TAYLORED_FILE_EXTENSION } from '../constants';
+import { getTayloredDirName, loadProjectConfig } from '../config';
 //import { handleApplyOperation } from '../apply-logic';
 import { printUsageAndExit } from '../utils';
 import * as crypto from 'crypto';
@@ -240,8 +241,9 @@ function displayPurchaseAssistanceMessage(
  * 6.  **Patch Handling**:
  *     - If `isDryRun` is true: Prints the downloaded patch content to the console.
  *     - If `isDryRun` is false:
- *       - Saves the patch content to a new `.taylored` file in the local `.taylored/` directory
- *         (filename derived from `patchId`).
+ *       - Saves the patch content to a new `.taylored` file in the patch directory
+ *         (`patchDirectory` of `.tayloredrc`, `.taylored/` by default; filename derived
+ *         from `patchId`).
  *       - (Currently commented out) Would then call `handleApplyOperation` to apply the new patch.
  * 7.  **Error Handling**: If any step fails (e.g., file validation, polling timeout, download error),
  *     it calls `printUsageAndExit` or `displayPurchaseAssistanceMessage` to inform the user
@@ -259,6 +261,7 @@ function displayPurchaseAssistanceMessage(
  * @throws {Error} This function typically handles its own errors by calling `printUsageAndExit`
  *                 or `displayPurchaseAssistanceMessage` which terminate the process. It doesn't
  *                 usually throw errors to be caught by the main CLI handler.
+ * @throws {TayloredError} `CONFIG_ERROR` if `.tayloredrc` is invalid.
  */
 export async function handleBuyCommand(
   taysellFilePath: string,
@@ -313,6 +316,9 @@ export async function handleBuyCommand(
     return;
   }
 
+  // Read before paying: an invalid .tayloredrc fails here, not after the purchase.
+  const config = await loadProjectConfig(CWD);
+
   // Added to avoid prompt if in test mode
   if (!process.env.JEST_WORKER_ID) {
     const { proceed } = await inquirer.prompt([
@@ -434,7 +440,7 @@ export async function handleBuyCommand(
       console.log('Received patch content:');
       console.log(patchContent);
     } else {
-      const tayloredDir = path.resolve(CWD, TAYLORED_DIR_NAME);
+      const tayloredDir = path.resolve(CWD, getTayloredDirName(config));
       const targetFileName = `${patchId.replace(/[^a-z0-9]/gi, '_')}${TAYLORED_FILE_EXTENSION}`;
       const destinationPath = path.join(tayloredDir, targetFileName);
 
@@ -0,0 +1,422 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { execSync } from 'child_process';
+import {
+  TAYLORED_FILE_EXTENSION,
+  TAYLORED_SKIP_GIT_HOOKS_ENV,
+} from '../constants';
+import { TayloredError } from '../errors';
+import { findPatchesInDirectory, sortPatchesNumerically } from '../utils';
+import { ApplyCheckTarget, checkPatchApplies } from '../patch-state';
+
+/**
+ * The Git hooks `taylored hooks install` can write.
+ */
+export const GIT_HOOK_NAMES = ['pre-commit', 'pre-push'] as const;
+export type GitHookName = (typeof GIT_HOOK_NAMES)[number];
+
+/**
+ * Tells whether a value, e.g. a command-line argument, names one of
+ * `GIT_HOOK_NAMES`.
+ *
+ * @param {unknown} value - The value to check.
+ * @returns {boolean} True if `value` is a `GitHookName`.
+ */
+export function isGitHookName(value: unknown): value is GitHookName {
+  return GIT_HOOK_NAMES.some((hookName) => hookName === value);
+}
+
+// The line that identifies a hook written by taylored, so that it can be
+// replaced or removed without touching the user's own hooks.
+const GIT_HOOK_MARKER = '# Installed by taylored (taylored hooks install).';
+
+/**
+ * The result of `taylored hooks install` and `taylored hooks uninstall`.
+ */
+export interface GitHooksResult {
+  /** The Git hooks directory, relative to the repository root. */
+  directory: string;
+  /** The hooks written (install) or deleted (uninstall). */
+  hooks: GitHookName[];
+}
+
+/**
+ * How a patch relates to the commit it was checked against.
+ * - `applied`: the patch can be removed from it.
+ * - `not-applied`: the patch can be applied to it.
+ * - `either`: both (e.g. the patch has no context lines).
+ * - `inapplicable`: neither; the commit breaks the patch.
+ * - `empty`: the patch has no content; it is not checked.
+ */
+export type GitHookPatchState =
+  | 'applied'
+  | 'not-applied'
+  | 'either'
+  | 'inapplicable'
+  | 'empty';
+
+/**
+ * The patches checked against one commit.
+ */
+export interface GitHookCheck {
+  /**
+   * What was checked: 'index' for the commit being made, or the pushed ref.
+   */
+  target: string;
+  /** The commit, or null for the index. */
+  commit: string | null;
+  patches: { patch: string; state: GitHookPatchState }[];
+}
+
+/**
+ * The result of `taylored hooks run`.
+ */
+export interface GitHookRunResult {
+  hook: GitHookName;
+  checks: GitHookCheck[];
+}
+
+/**
+ * The directory Git runs hooks from (`core.hooksPath`, or `hooks/` in the Git
+ * directory, which may be shared by worktrees).
+ */
+function getGitHooksDirectory(CWD: string): string {
+  const directory = execSync('git rev-parse --git-path hooks', {
+    cwd: CWD,
+    encoding: 'utf8',
+    stdio: 'pipe',
+  }).trim();
+  return path.resolve(CWD, directory);
+}
+
+/**
+ * The content of an installed hook. It runs `taylored hooks run <hook>` with
+ * the `taylored` found on the PATH, or else the one installed in the project.
+ */
+function getGitHookScript(
+  hookName: GitHookName,
+  tayloredDirName: string,
+): string {
+  const command = `hooks run ${hookName}`;
+  return `#!/bin/sh
+${GIT_HOOK_MARKER}
+# Stops the ${hookName === 'pre-commit' ? 'commit' : 'push'} if a patch in ${tayloredDirName}/ could no longer be applied
+# or removed. Set ${TAYLORED_SKIP_GIT_HOOKS_ENV}=1 to skip this check.
+if [ -n "$${TAYLORED_SKIP_GIT_HOOKS_ENV}" ]; then
+  exit 0
+fi
+if command -v taylored >/dev/null 2>&1; then
+  exec taylored ${command}
+fi
+exec npx --no-install taylored ${command}
+`;
+}
+
+// The current content of a hook, or null if there is none.
+async function readGitHook(hookPath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(hookPath, 'utf8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Implements `taylored hooks install`.
+ *
+ * Writes Git hooks that run `taylored hooks run <hook>`, which blocks the
+ * commit or push when a patch would no longer apply (see
+ * `handleGitHookRun`). A hook that was not written by taylored is kept,
+ * unless `force` is set.
+ *
+ * For more details on the `taylored hooks` command, refer to `DOCUMENTATION.md`.
+ *
+ * @async
+ * @param {GitHookName[]} hookNames - The hooks to install.
+ * @param {boolean} force - Overwrite hooks that were not written by taylored.
+ * @param {string} CWD - The root of the Git repository.
+ * @param {string} tayloredDirName - The .taylored directory, relative to `CWD`,
+ *                                   named in the hooks.
+ * @returns {Promise<GitHooksResult>} The hooks written.
+ * @throws {TayloredError} `COMMAND_FAILED` if one of the hooks already exists
+ *         and `force` is not set. No hook is written then.
+ */
+export async function handleGitHooksInstall(
+  hookNames: GitHookName[],
+  force: boolean,
+  CWD: string,
+  tayloredDirName: string,
+): Promise<GitHooksResult> {
+  const hooksDirectory = getGitHooksDirectory(CWD);
+  const directory = path
+    .relative(CWD, hooksDirectory)
+    .split(path.sep)
+    .join('/');
+  if (!force) {
+    for (const hookName of hookNames) {
+      const existing = await readGitHook(path.join(hooksDirectory, hookName));
+      if (existing !== null && !existing.includes(GIT_HOOK_MARKER)) {
+        const message = `CRITICAL ERROR: A ${hookName} hook already exists in '${directory}/'. Add 'taylored hooks run ${hookName}' to it, or use --force to replace it.`;
+        console.error(message);
+        throw new TayloredError('COMMAND_FAILED', message);
+      }
+    }
+  }
+
+  await fs.mkdir(hooksDirectory, { recursive: true });
+  for (const hookName of hookNames) {
+    const hookPath = path.join(hooksDirectory, hookName);
+    await fs.writeFile(hookPath, getGitHookScript(hookName, tayloredDirName), {
+      mode: 0o755,
+    });
+    // writeFile only applies the mode to new files.
+    await fs.chmod(hookPath, 0o755);
+    console.log(`INFO: Installed the ${hookName} hook in '${directory}/'.`);
+  }
+  console.log(
+    `INFO: Set ${TAYLORED_SKIP_GIT_HOOKS_ENV}=1 to skip the check in an emergency.`,
+  );
+  return { directory, hooks: hookNames };
+}
+
+/**
+ * Implements `taylored hooks uninstall`: deletes the given hooks if they were
+ * written by `taylored hooks install`. Other hooks are left alone.
+ *
+ * @async
+ * @param {GitHookName[]} hookNames - The hooks to remove.
+ * @param {string} CWD - The root of the Git repository.
+ * @returns {Promise<GitHooksResult>} The hooks deleted.
+ */
+export async function handleGitHooksUninstall(
+  hookNames: GitHookName[],
+  CWD: string,
+): Promise<GitHooksResult> {
+  const hooksDirectory = getGitHooksDirectory(CWD);
+  const directory = path
+    .relative(CWD, hooksDirectory)
+    .split(path.sep)
+    .join('/');
+  const removed: GitHookName[] = [];
+  for (const hookName of hookNames) {
+    const hookPath = path.join(hooksDirectory, hookName);
+    const existing = await readGitHook(hookPath);
+    if (existing === null) {
+      continue;
+    }
+    if (!existing.includes(GIT_HOOK_MARKER)) {
+      console.log(
+        `INFO: The ${hookName} hook in '${directory}/' was not installed by taylored; it is left as is.`,
+      );
+      continue;
+    }
+    await fs.unlink(hookPath);
+    removed.push(hookName);
+    console.log(`INFO: Removed the ${hookName} hook from '${directory}/'.`);
+  }
+  if (removed.length === 0) {
+    console.log('INFO: No taylored hooks to remove.');
+  }
+  return { directory, hooks: removed };
+}
+
+/**
+ * The commits a push sends, from the lines git passes to a pre-push hook on
+ * its standard input (`<local ref> <local sha> <remote ref> <remote sha>`).
+ * Deleted refs are skipped.
+ */
+function parsePushedCommits(
+  input: string,
+): { target: string; commit: string }[] {
+  const pushed: { target: string; commit: string }[] = [];
+  for (const line of input.split('\n')) {
+    const [localRef, localCommit] = line.trim().split(/\s+/);
+    if (!localCommit || /^0+$/.test(localCommit)) {
+      continue;
+    }
+    if (!pushed.some((entry) => entry.commit === localCommit)) {
+      pushed.push({ target: localRef, commit: localCommit });
+    }
+  }
+  return pushed;
+}
+
+// Checks every patch in both directions against the index or commit `target`.
+async function checkPatches(
+  patchNames: string[],
+  applyTarget: ApplyCheckTarget,
+  CWD: string,
+  tayloredDirName: string,
+): Promise<GitHookCheck['patches']> {
+  const tayloredDirPath = path.join(CWD, tayloredDirName);
+  const results: GitHookCheck['patches'] = [];
+  for (const patchName of patchNames) {
+    const patch = patchName.split(path.sep).join('/');
+    const content = await fs.readFile(path.join(tayloredDirPath, patchName));
+    if (content.toString().trim() === '') {
+      results.push({ patch, state: 'empty' });
+      continue;
+    }
+    const canAdd = checkPatchApplies(
+      patchName,
+      false,
+      CWD,
+      tayloredDirName,
+      'git',
+      applyTarget,
+    );
+    const canRemove = checkPatchApplies(
+      patchName,
+      true,
+      CWD,
+      tayloredDirName,
+      'git',
+      applyTarget,
+    );
+    const state: GitHookPatchState =
+      canAdd && canRemove
+        ? 'either'
+        : canRemove
+          ? 'applied'
+          : canAdd
+            ? 'not-applied'
+            : 'inapplicable';
+    results.push({ patch, state });
+  }
+  return results;
+}
+
+/**
+ * Implements `taylored hooks run <hook>`, which the installed Git hooks call.
+ *
+ * Every `.taylored` file in `.taylored/` is checked, as with `--verify-add`
+ * and `--verify-remove`, against the content being committed or pushed: for
+ * `pre-commit`, the Git index; for `pre-push`, each pushed commit (read from
+ * `pushInput`, or HEAD if there is none). A patch passes if it can be either
+ * applied to or removed from that content. The patch files themselves are
+ * read from the working tree.
+ *
+ * For more details on the `taylored hooks` command, refer to `DOCUMENTATION.md`.
+ *
+ * @async
+ * @param {GitHookName} hookName - The hook being run.
+ * @param {string} pushInput - The standard input of the pre-push hook.
+ * @param {string} CWD - The root of the Git repository.
+ * @param {string} tayloredDirName - The .taylored directory, relative to `CWD`.
+ * @returns {Promise<GitHookRunResult>} The state of every patch in every
+ *          checked commit.
+ * @throws {TayloredError} `PATCH_APPLY_FAILED` if a patch could neither be
+ *         applied nor removed; its details name the patches. Git then stops
+ *         the commit or push.
+ */
+export async function handleGitHookRun(
+  hookName: GitHookName,
+  pushInput: string,
+  CWD: string,
+  tayloredDirName: string,
+): Promise<GitHookRunResult> {
+  const result: GitHookRunResult = { hook: hookName, checks: [] };
+  const tayloredDirPath = path.join(CWD, tayloredDirName);
+  const patchPaths = sortPatchesNumerically(
+    await findPatchesInDirectory(tayloredDirPath).catch((error: any) => {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }),
+  );
+  if (patchPaths.length === 0) {
+    console.log(
+      `INFO: No ${TAYLORED_FILE_EXTENSION} files found in '${tayloredDirName}/'. Nothing to check.`,
+    );
+    return result;
+  }
+  const patchNames = patchPaths.map((patchPath) =>
+    path.relative(tayloredDirPath, patchPath),
+  );
+
+  if (hookName === 'pre-commit') {
+    result.checks.push({
+      target: 'index',
+      commit: null,
+      patches: await checkPatches(
+        patchNames,
+        { cached: true },
+        CWD,
+        tayloredDirName,
+      ),
+    });
+  } else {
+    const pushed = parsePushedCommits(pushInput);
+    if (pushed.length === 0) {
+      pushed.push({ target: 'HEAD', commit: 'HEAD' });
+    }
+    const scratchDir = await fs.mkdtemp(
+      path.join(os.tmpdir(), 'taylored-hook-'),
+    );
+    try {
+      const indexFile = path.join(scratchDir, 'index');
+      for (const { target, commit } of pushed) {
+        execSync(`git read-tree ${commit}`, {
+          cwd: CWD,
+          stdio: 'pipe',
+          env: { ...process.env, GIT_INDEX_FILE: indexFile },
+        });
+        result.checks.push({
+          target,
+          commit: execSync(`git rev-parse ${commit}`, {
+            cwd: CWD,
+            encoding: 'utf8',
+            stdio: 'pipe',
+          }).trim(),
+          patches: await checkPatches(
+            patchNames,
+            { indexFile },
+            CWD,
+            tayloredDirName,
+          ),
+        });
+      }
+    } finally {
+      await fs.rm(scratchDir, { recursive: true, force: true });
+    }
+  }
+
+  const labels: { [state in GitHookPatchState]: string } = {
+    applied: 'OK (applied)',
+    'not-applied': 'OK (not applied)',
+    either: 'OK',
+    inapplicable: 'BROKEN',
+    empty: 'SKIPPED (empty)',
+  };
+  const failures: string[] = [];
+  for (const check of result.checks) {
+    const described =
+      check.commit === null
+        ? 'the commit being made'
+        : `${check.target} (${check.commit.substring(0, 7)})`;
+    console.log(
+      `INFO: Checking ${check.patches.length} patch(es) against ${described}:`,
+    );
+    for (const { patch, state } of check.patches) {
+      console.log(`  ${labels[state].padEnd(16)}  ${patch}`);
+      if (state === 'inapplicable') {
+        failures.push(
+          `'${patch}' can neither be applied to nor removed from ${described}.`,
+        );
+      }
+    }
+  }
+  if (failures.length > 0) {
+    const message = `CRITICAL ERROR: ${failures.length} patch(es) would no longer apply. Update them (e.g. with --offset) before the ${hookName === 'pre-commit' ? 'commit' : 'push'}, or set ${TAYLORED_SKIP_GIT_HOOKS_ENV}=1 to skip this check.`;
+    console.error(message);
+    failures.forEach((failure) => console.error(`  - ${failure}`));
+    throw new TayloredError('PATCH_APPLY_FAILED', message, failures);
+  }
+  console.log('INFO: All patches still apply.');
+  return result;
+}
@@ -1,6 +1,21 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { TAYLORED_DIR_NAME, TAYLORED_FILE_EXTENSION } from '../constants';
+import { TAYLORED_FILE_EXTENSION } from '../constants';
+import { findPatchesInDirectory, sortPatchesNumerically } from '../utils';
+import { parsePatchMetadata } from '../patch-metadata';
+
+/**
+ * Describes a patch by the title and version of its metadata preamble, if any.
+ * @param patchPath The patch file.
+ * @returns The text printed after the file name, e.g. ": Dark mode (version 1.2.0)".
+ */
+async function describePatch(patchPath: string): Promise<string> {
+  const { title, version } = parsePatchMetadata(
+    await fs.readFile(patchPath, 'utf8'),
+  );
+  const parts = [title, version && `(version ${version})`].filter(Boolean);
+  return parts.length > 0 ? `: ${parts.join(' ')}` : '';
+}
 
 /**
  * Recursively prints the directory tree for .taylored files.
@@ -52,7 +67,9 @@ async function printDirectoryTree(
         foundTayloredFiles = true;
       }
     } else if (entry.isFile() && entry.name.endsWith(TAYLORED_FILE_EXTENSION)) {
-      console.log(`${prefix}${connector}📄 ${entry.name}`);
+      console.log(
+        `${prefix}${connector}📄 ${entry.name}${await describePatch(entryPath)}`,
+      );
       foundTayloredFiles = true;
     }
   }
@@ -64,7 +81,8 @@ async function printDirectoryTree(
  *
  * This function lists all Taylored patch files (files ending with `.taylored`)
  * found within the `.taylored/` directory in the specified current working directory (CWD),
- * displaying them in a hierarchical tree structure.
+ * displaying them in a hierarchical tree structure. The title and version of
+ * patches that have a metadata preamble are shown next to their names.
  *
  * For more details on the `taylored --list` command, refer to `DOCUMENTATION.md`.
  *
@@ -72,31 +90,37 @@ async function printDirectoryTree(
  * @param {string} CWD - The current working directory, expected to be the root of a
  *                       Git repository where Taylored operations are performed. The
  *                       `.taylored/` directory is expected to be a direct child of CWD.
- * @returns {Promise<void>} A promise that resolves when the listing operation is complete.
+ * @param {string} tayloredDirName - The .taylored directory, relative to `CWD`
+ *                                   (`patchDirectory` in `.tayloredrc`).
+ * @returns {Promise<string[]>} The patches found, relative to `.taylored/` (with `/`
+ *                              separators), in numeric/alphabetical order.
  * @throws {Error} Throws an error if there's an issue accessing the `.taylored`
  *                 directory (other than it not existing, which is handled gracefully)
  *                 or if reading its contents fails.
  */
-export async function handleListOperation(CWD: string): Promise<void> {
-  const tayloredDirPath = path.join(CWD, TAYLORED_DIR_NAME);
+export async function handleListOperation(
+  CWD: string,
+  tayloredDirName: string,
+): Promise<string[]> {
+  const tayloredDirPath = path.join(CWD, tayloredDirName);
   console.log(`INFO: Listing contents of '${tayloredDirPath}'...\n`);
 
   try {
     const stats = await fs.stat(tayloredDirPath);
     if (!stats.isDirectory()) {
       console.log(
-        `INFO: Expected '${TAYLORED_DIR_NAME}' to be a directory, but it's not (found at '${tayloredDirPath}').`,
+        `INFO: Expected '${tayloredDirName}' to be a directory, but it's not (found at '${tayloredDirPath}').`,
       );
       console.log('No taylored files or directories to list.');
-      return;
+      return [];
     }
   } catch (statError: any) {
     if (statError.code === 'ENOENT') {
       console.log(
-        `INFO: Directory '${TAYLORED_DIR_NAME}' not found at '${tayloredDirPath}'.`,
+        `INFO: Directory '${tayloredDirName}' not found at '${tayloredDirPath}'.`,
       );
       console.log('No taylored files or directories to list.');
-      return;
+      return [];
     }
     console.error(
       `CRITICAL ERROR: Could not access directory '${tayloredDirPath}'. Details: ${statError.message}`,
@@ -104,7 +128,7 @@ export async function handleListOperation(CWD: string): Promise<void> {
     throw statError;
   }
 
-  console.log(`📁 ${TAYLORED_DIR_NAME}/`);
+  console.log(`📁 ${tayloredDirName}/`);
   const foundAnyTayloredFiles = await printDirectoryTree(tayloredDirPath, '');
 
   // If the directory was empty and printDirectoryTree found nothing, add the "(empty)" marker.
@@ -128,4 +152,7 @@ export async function handleListOperation(CWD: string): Promise<void> {
       `\nINFO: No ${TAYLORED_FILE_EXTENSION} files found in '${tayloredDirPath}' or its subdirectories.`,
     );
   }
+  return sortPatchesNumerically(
+    await findPatchesInDirectory(tayloredDirPath),
+  ).map((p) => path.relative(tayloredDirPath, p).split(path.sep).join('/'));
 }
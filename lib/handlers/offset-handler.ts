@@ -1,4 +1,7 @@
-import { updatePatchOffsets } from '../git-patch-offset-updater';
+import {
+  updatePatchOffsets,
+  SimplifiedUpdatePatchOffsetsResult,
+} from '../git-patch-offset-updater';
 import { resolveTayloredFileName } from '../utils';
 
 /**
@@ -14,15 +17,15 @@ import { resolveTayloredFileName } from '../utils';
  * resolves the filename and invokes `updatePatchOffsets`.
  *
  * The general Git workflow performed by `updatePatchOffsets` (as described in DOCUMENTATION.md) involves:
- * 1. Ensuring the Git working directory is clean.
- * 2. Saving the current branch and creating a temporary working branch.
- * 3. Attempting to apply the existing patch to this temporary branch.
- * 4. If successful (or after forcing application), committing the changes on the temporary branch.
- * 5. Generating a new diff by comparing this temporary branch (with patch changes) against
+ * 1. Checking out the current commit in a temporary worktree, leaving the working tree,
+ *    index and branches of the user (and any uncommitted changes) untouched.
+ * 2. Attempting to remove (or else apply) the existing patch in this worktree.
+ * 3. If successful, staging the changes of the worktree.
+ * 4. Generating a new diff by comparing the staged worktree (with patch changes) against
  *    the `targetBranchName` (or a default like 'main' if `branchName` is not provided).
  *    This new diff will have updated line numbers and context.
- * 6. Overwriting the original `.taylored` file with this new, offset-adjusted diff.
- * 7. Cleaning up by restoring the original Git branch and deleting temporary branches.
+ * 5. Overwriting the original `.taylored` file with this new, offset-adjusted diff.
+ * 6. Removing the temporary worktree.
  *
  * For more details on the `taylored --offset` command, its arguments, and use cases,
  * please refer to `DOCUMENTATION.md`.
@@ -32,28 +35,30 @@ import { resolveTayloredFileName } from '../utils';
  *                                     include the .taylored extension). Located in `.taylored/`.
  * @param {string} CWD - The current working directory, which must be the root of a
  *                       Git repository.
+ * @param {string} tayloredDirName - The .taylored directory, relative to `CWD`.
  * @param {string} [branchName] - Optional. The name of the Git branch against which the new
  *                                patch offsets should be calculated. If omitted, `updatePatchOffsets`
  *                                typically defaults to the 'main' branch or a similar primary branch.
- * @returns {Promise<void>} A promise that resolves if the patch file's offsets are
- *                          successfully updated.
+ * @returns {Promise<SimplifiedUpdatePatchOffsetsResult>} The path of the updated patch file.
  * @throws {Error} Throws an error if `updatePatchOffsets` fails. This can happen due to
- *                 various reasons including a dirty Git repository, inability to apply the
+ *                 various reasons including a missing base branch, inability to apply the
  *                 original patch even temporarily, or issues generating the new diff.
  *                 The error message from `updatePatchOffsets` will be logged.
  */
 export async function handleOffsetCommand(
   userInputFileName: string,
   CWD: string,
+  tayloredDirName: string,
   branchName?: string,
-): Promise<void> {
+): Promise<SimplifiedUpdatePatchOffsetsResult> {
   const resolvedTayloredFileName = resolveTayloredFileName(userInputFileName);
 
   try {
     // Pass branchName to updatePatchOffsets. Custom commit message is no longer passed.
-    await updatePatchOffsets(
+    return await updatePatchOffsets(
       resolvedTayloredFileName,
       CWD,
+      tayloredDirName,
       undefined,
       branchName,
     );
@@ -0,0 +1,125 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { TAYLORED_FILE_EXTENSION } from '../constants';
+import { findPatchesInDirectory, sortPatchesNumerically } from '../utils';
+import {
+  analyzePatchOverlaps,
+  OverlapMatrix,
+  PairVerdict,
+} from '../patch-overlaps';
+
+// The symbol of each verdict in the matrix.
+const SYMBOLS: { [verdict in PairVerdict]: string } = {
+  independent: '.',
+  safe: '=',
+  'order-dependent': '>',
+  conflict: 'X',
+  unknown: '?',
+};
+
+/**
+ * Implements the `taylored --overlaps` command.
+ *
+ * Every `.taylored` file found (recursively) in the `.taylored/` directory is
+ * compared with every other one: the files and line ranges they both touch,
+ * and whether they apply one after the other in each order (see
+ * `analyzePatchOverlaps`). The result is printed as a matrix, followed by the
+ * reasons for every pair that is not independent. Nothing in the working tree
+ * is modified.
+ *
+ * For more details on the `taylored --overlaps` command, refer to `DOCUMENTATION.md`.
+ *
+ * @async
+ * @param {string} CWD - The current working directory, expected to be the root of a
+ *                       Git repository.
+ * @param {string} tayloredDirName - The .taylored directory, relative to `CWD`.
+ * @returns {Promise<OverlapMatrix>} The analysis of every pair of patches.
+ * @throws {Error} If the `.taylored` directory or a patch cannot be read.
+ */
+export async function handleOverlapsOperation(
+  CWD: string,
+  tayloredDirName: string,
+): Promise<OverlapMatrix> {
+  const tayloredDirPath = path.join(CWD, tayloredDirName);
+  const stats = await fs.stat(tayloredDirPath).catch((error: any) => {
+    if (error.code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  });
+  if (!stats || !stats.isDirectory()) {
+    console.log(
+      `INFO: Directory '${tayloredDirName}' not found at '${tayloredDirPath}'. No patches to analyze.`,
+    );
+    return { patches: [], pairs: [] };
+  }
+
+  const patchPaths = sortPatchesNumerically(
+    await findPatchesInDirectory(tayloredDirPath),
+  );
+  if (patchPaths.length < 2) {
+    console.log(
+      `INFO: Found ${patchPaths.length} ${TAYLORED_FILE_EXTENSION} file(s) in '${tayloredDirPath}'. At least two are needed to analyze overlaps.`,
+    );
+  }
+  const patches = [];
+  for (const patchPath of patchPaths) {
+    patches.push({
+      name: path.relative(tayloredDirPath, patchPath).split(path.sep).join('/'),
+      content: await fs.readFile(patchPath),
+    });
+  }
+  const matrix = analyzePatchOverlaps(patches, CWD);
+  if (patches.length < 2) {
+    return matrix;
+  }
+
+  const verdictOf = (i: number, j: number): PairVerdict => {
+    const [a, b] = i < j ? [i, j] : [j, i];
+    return matrix.pairs.find(
+      (pair) =>
+        pair.first === matrix.patches[a] && pair.second === matrix.patches[b],
+    )!.verdict;
+  };
+  const indexWidth = String(patches.length).length;
+  const nameWidth = Math.max(...matrix.patches.map((name) => name.length));
+  console.log(
+    `INFO: Overlaps between the patches in '${tayloredDirPath}' (nothing was modified):\n`,
+  );
+  console.log(
+    `  ${''.padEnd(indexWidth + nameWidth + 3)}` +
+      matrix.patches
+        .map((_, j) => String(j + 1).padStart(indexWidth + 1))
+        .join(''),
+  );
+  matrix.patches.forEach((name, i) => {
+    const cells = matrix.patches.map((_, j) =>
+      (i === j ? '-' : SYMBOLS[verdictOf(i, j)]).padStart(indexWidth + 1),
+    );
+    console.log(
+      `  ${String(i + 1).padStart(indexWidth)}  ${name.padEnd(nameWidth)} ${cells.join('')}`,
+    );
+  });
+  console.log(
+    `\n  ${SYMBOLS.independent} independent  ${SYMBOLS.safe} safe (common files, either order)  ${SYMBOLS['order-dependent']} one order only  ${SYMBOLS.conflict} conflict  ${SYMBOLS.unknown} unknown`,
+  );
+
+  const notable = matrix.pairs.filter((pair) => pair.verdict !== 'independent');
+  for (const pair of notable) {
+    let verdict = pair.verdict.toUpperCase();
+    if (pair.verdict === 'order-dependent') {
+      verdict += pair.firstThenSecond
+        ? ` ('${pair.first}' first)`
+        : ` ('${pair.second}' first)`;
+    }
+    console.log(`\n  ${pair.first} + ${pair.second}: ${verdict}`);
+    pair.reasons.forEach((reason) => console.log(`    - ${reason}`));
+  }
+
+  const count = (verdict: PairVerdict) =>
+    matrix.pairs.filter((pair) => pair.verdict === verdict).length;
+  console.log(
+    `\nINFO: ${matrix.pairs.length} pair(s): ${count('independent')} independent, ${count('safe')} safe, ${count('order-dependent')} order-dependent, ${count('conflict')} in conflict, ${count('unknown')} unknown.`,
+  );
+  return matrix;
+}
@@ -0,0 +1,183 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  findPatchesInDirectory,
+  resolveTayloredFileName,
+  sortPatchesNumerically,
+} from '../utils';
+import { planPatchOperation } from '../patch-dependencies';
+import {
+  computePatchedFiles,
+  PatchApplyError,
+  PatchEngine,
+} from '../patch-engine';
+import { formatUnifiedDiff } from '../line-diff';
+import { isJsonOutput } from '../output';
+
+/**
+ * The change previewed for one file.
+ */
+export interface PreviewFileResult {
+  path: string;
+  status: 'added' | 'deleted' | 'modified';
+  added: number;
+  removed: number;
+  binary: boolean;
+}
+
+/**
+ * Implements `--add <name> --preview` and `--remove <name> --preview`.
+ *
+ * The patch (or every patch of a group directory, in the order `--add` or
+ * `--remove` would process them) is applied in memory with the native engine,
+ * using the same rules as `git apply --whitespace=fix`. The resulting content
+ * of every touched file is then compared with the working tree and printed as
+ * a unified diff, preceded by per-file line statistics. Unless `color` says
+ * otherwise, colors are used when standard output is a terminal and `NO_COLOR`
+ * is not set.
+ *
+ * Nothing is written: neither the working tree, nor `.rej` files, nor the
+ * state ledger.
+ *
+ * @async
+ * @param {string} userInput - A patch or group directory, relative to `.taylored/`.
+ * @param {boolean} isReverse - True to preview a removal.
+ * @param {string} modeName - The command being previewed (e.g. "--add").
+ * @param {string} CWD - The root of the repository.
+ * @param {string} tayloredDirName - The .taylored directory, relative to `CWD`.
+ * @param {PatchEngine} [engine='git'] - Used to determine which patches are
+ *                                       applied when checking declared dependencies.
+ * @param {boolean} [color] - Forces colors on or off (`output.color` in `.tayloredrc`).
+ * @returns {Promise<PreviewFileResult[]>} The change to each file, in patch order.
+ * @throws {Error} If a patch would not apply, or its dependencies are not satisfied.
+ */
+export async function handlePreviewOperation(
+  userInput: string,
+  isReverse: boolean,
+  modeName: string,
+  CWD: string,
+  tayloredDirName: string,
+  engine: PatchEngine = 'git',
+  color?: boolean,
+): Promise<PreviewFileResult[]> {
+  const tayloredDir = path.join(CWD, tayloredDirName);
+  const inputPath = path.join(tayloredDir, userInput);
+  let patchNames: string[];
+  const stats = await fs.stat(inputPath).catch(() => null);
+  if (stats && stats.isDirectory()) {
+    patchNames = sortPatchesNumerically(
+      await findPatchesInDirectory(inputPath),
+    ).map((p) => path.relative(tayloredDir, p));
+  } else {
+    patchNames = [resolveTayloredFileName(userInput)];
+  }
+  patchNames = await planPatchOperation(
+    patchNames,
+    isReverse,
+    CWD,
+    tayloredDirName,
+    engine,
+  );
+
+  // Content of every file touched so far, after the patches processed so far.
+  const overlay = new Map<string, Buffer | null>();
+  for (const patchName of patchNames) {
+    const patchPath = path.join(tayloredDir, patchName);
+    let patchContent: Buffer;
+    try {
+      patchContent = await fs.readFile(patchPath);
+    } catch (error: any) {
+      console.error(
+        `CRITICAL ERROR: Taylored file '${patchPath}' not found or not accessible in '${tayloredDirName}/' directory.`,
+      );
+      throw error;
+    }
+    try {
+      computePatchedFiles(patchContent, CWD, {
+        isReverse,
+        fixWhitespace: true,
+        overlay,
+      }).forEach((file) => overlay.set(file.path, file.content));
+    } catch (error: any) {
+      console.error(
+        `CRITICAL ERROR: Cannot preview ${modeName}: '${patchName}' would not ${isReverse ? 'be removed' : 'apply'} cleanly.`,
+      );
+      if (error instanceof PatchApplyError) {
+        error.failures.forEach((failure) =>
+          console.error(`  error: ${failure}`),
+        );
+      } else {
+        console.error(`  Details: ${error.message}`);
+      }
+      console.error('  No files were modified.');
+      throw error;
+    }
+  }
+
+  if (color === undefined) {
+    color = Boolean(process.stdout.isTTY) && !('NO_COLOR' in process.env);
+  }
+  // Never color the diffs when they go to stderr as chatter.
+  color = color && !isJsonOutput();
+  const results: PreviewFileResult[] = [];
+  const diffs: string[] = [];
+  for (const [relativePath, content] of overlay) {
+    const original = await fs
+      .readFile(path.join(CWD, relativePath))
+      .catch(() => null);
+    const binary = [original, content].some(
+      (buffer) => buffer !== null && buffer.includes(0),
+    );
+    let added = 0;
+    let removed = 0;
+    let diffText: string;
+    if (binary) {
+      diffText = `Binary file ${relativePath} differs\n`;
+    } else {
+      const diff = formatUnifiedDiff(
+        original === null ? null : relativePath,
+        content === null ? null : relativePath,
+        original === null ? '' : original.toString('utf8'),
+        content === null ? '' : content.toString('utf8'),
+        { color },
+      );
+      ({ added, removed } = diff);
+      diffText = diff.text;
+    }
+    if (diffText === '') {
+      continue;
+    }
+    results.push({
+      path: relativePath,
+      status:
+        original === null ? 'added' : content === null ? 'deleted' : 'modified',
+      added,
+      removed,
+      binary,
+    });
+    diffs.push(diffText);
+  }
+
+  console.log(
+    `INFO: Preview of ${modeName} ${userInput} (${patchNames.length} patch(es)). No files will be modified.\n`,
+  );
+  if (results.length === 0) {
+    console.log('INFO: The working tree would not change.');
+    return results;
+  }
+  const width = Math.max(...results.map((r) => r.path.length));
+  for (const result of results) {
+    const summary = result.binary
+      ? 'Bin'
+      : `+${result.added} -${result.removed}`;
+    const note = result.status === 'modified' ? '' : ` (${result.status})`;
+    console.log(` ${result.path.padEnd(width)} | ${summary}${note}`);
+  }
+  const totalAdded = results.reduce((sum, r) => sum + r.added, 0);
+  const totalRemoved = results.reduce((sum, r) => sum + r.removed, 0);
+  console.log(
+    ` ${results.length} file(s) changed, ${totalAdded} insertion(s)(+), ${totalRemoved} deletion(s)(-)\n`,
+  );
+  diffs.forEach((diff) => console.log(diff.replace(/\n$/, '')));
+  return results;
+}
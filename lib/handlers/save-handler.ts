@@ -1,44 +1,420 @@
 import * as fs from 'fs/promises';
 import * as fsExtra from 'fs-extra';
 import * as path from 'path';
-import { TAYLORED_DIR_NAME, TAYLORED_FILE_EXTENSION } from '../constants';
-import { getAndAnalyzeDiff } from '../utils';
+import { execFileSync } from 'child_process';
+import { TAYLORED_FILE_EXTENSION } from '../constants';
+import {
+  getAndAnalyzeDiff,
+  resolveTayloredFileName,
+  findPatchesInDirectory,
+} from '../utils';
+import {
+  parsePatchMetadata,
+  withPatchMetadata,
+  PatchMetadata,
+} from '../patch-metadata';
+import { splitMixedDiff } from '../mixed-diff-split';
+import { SaveSource } from '../save-source';
 
 /**
- * Implements the `taylored --save <branch_name>` command functionality.
+ * How `--save --split` divides a diff into the patches of a group:
+ * - `file`: one patch per changed file.
+ * - `directory`: one patch per top-level directory (or file) of the
+ *   repository with changes.
+ */
+export type SaveSplitMode = 'file' | 'directory';
+
+export const SAVE_SPLIT_MODES: SaveSplitMode[] = ['file', 'directory'];
+
+/**
+ * Options of `handleSaveOperation`.
+ */
+export interface SaveOperationOptions {
+  /** The name of the patch, instead of the one derived from the source. */
+  name?: string;
+  /** Split a mixed diff into a group of pure patches instead of failing. */
+  splitMixed?: boolean;
+  /**
+   * Git pathspecs the diff is limited to (see `getSavePathspecs`); the whole
+   * diff if empty.
+   */
+  pathspecs?: string[];
+  /** Save a group of one patch per file or per top-level directory. */
+  split?: SaveSplitMode;
+}
+
+// Makes a pathspec given in the directory `prefix` relative to the root of
+// the repository, as Git does for a command run in that directory: the
+// pattern is prefixed, after any magic. `:/` and `:(top)` pathspecs are
+// already relative to the root.
+function prefixPathspec(pathspec: string, prefix: string): string {
+  if (prefix === '') {
+    return pathspec;
+  }
+  let magicEnd = 0;
+  if (pathspec.startsWith(':(') && pathspec.includes(')')) {
+    magicEnd = pathspec.indexOf(')') + 1;
+    if (
+      pathspec
+        .substring(2, magicEnd - 1)
+        .split(',')
+        .includes('top')
+    ) {
+      return pathspec;
+    }
+  } else if (pathspec.startsWith(':')) {
+    magicEnd = 1;
+    while (magicEnd < pathspec.length && '/!^'.includes(pathspec[magicEnd])) {
+      magicEnd++;
+    }
+    if (pathspec.substring(1, magicEnd).includes('/')) {
+      return pathspec;
+    }
+    if (pathspec[magicEnd] === ':') {
+      magicEnd++;
+    }
+  }
+  return (
+    pathspec.substring(0, magicEnd) +
+    path.posix.normalize(prefix + pathspec.substring(magicEnd))
+  );
+}
+
+/**
+ * The Git pathspecs of `--save --include` and `--exclude`, relative to the
+ * root of the repository: the included pathspecs (everything, if there are
+ * none) minus the excluded ones.
+ *
+ * @param {string[]} [include=[]] - Pathspecs of the changes to save.
+ * @param {string[]} [exclude=[]] - Pathspecs of the changes to leave out.
+ * @param {string} [prefix=''] - The directory `include` and `exclude` are
+ *        relative to, as `git rev-parse --show-prefix` prints it: relative to
+ *        the root, with a trailing slash; '' for the root.
+ * @returns {string[]} The pathspecs, for `git diff -- <pathspecs>`.
+ */
+export function getSavePathspecs(
+  include: string[] = [],
+  exclude: string[] = [],
+  prefix: string = '',
+): string[] {
+  return [
+    ...include.map((pathspec) => prefixPathspec(pathspec, prefix)),
+    ...exclude.map(
+      (pathspec) => `:(exclude)${prefixPathspec(pathspec, prefix)}`,
+    ),
+  ];
+}
+
+/**
+ * The name `handleSaveOperation` gives the patch of a source: `name` if
+ * given, otherwise the default name of the source (for a branch, the branch
+ * name with path separators replaced by dashes).
+ *
+ * @param {SaveSource} source - What is saved.
+ * @param {string} [name] - The name asked for, with or without extension.
+ * @returns {string} The file name, with the `.taylored` extension.
+ */
+export function getSaveOutputFileName(
+  source: SaveSource,
+  name?: string,
+): string {
+  return name
+    ? resolveTayloredFileName(name)
+    : `${source.defaultName}${TAYLORED_FILE_EXTENSION}`;
+}
+
+// The metadata of a saved patch: the metadata of the source, overridden by
+// the preamble of the patch it replaces, if any.
+async function readSavedMetadata(
+  patchPath: string,
+  sourceMetadata: PatchMetadata,
+): Promise<PatchMetadata> {
+  const existingContent = await fs.readFile(patchPath, 'utf8').catch(() => '');
+  return { ...sourceMetadata, ...parsePatchMetadata(existingContent) };
+}
+
+// The patches of a diff that mixes additions and deletions, by name relative
+// to their group: `1-remove.taylored` deletes lines and `2-add.taylored` adds
+// lines (see `splitMixedDiff`).
+function getSplitMixedPatches(
+  source: SaveSource,
+  CWD: string,
+  pathspecs: string[],
+): [string, string][] {
+  const { deletions, additions } = splitMixedDiff(
+    source.to,
+    CWD,
+    source.from,
+    pathspecs,
+    source.env,
+  );
+  return [
+    [`1-remove${TAYLORED_FILE_EXTENSION}`, deletions],
+    [`2-add${TAYLORED_FILE_EXTENSION}`, additions],
+  ];
+}
+
+// Writes the patches of a group directory, keeping the metadata preambles of
+// the patches they replace.
+async function writeGroupPatches(
+  source: SaveSource,
+  groupPath: string,
+  patches: [string, string][],
+): Promise<void> {
+  try {
+    for (const [patchName, diff] of patches) {
+      const patchPath = path.join(groupPath, patchName);
+      await fsExtra.ensureDir(path.dirname(patchPath));
+      await fs.writeFile(
+        patchPath,
+        withPatchMetadata(
+          diff,
+          await readSavedMetadata(patchPath, source.metadata),
+        ),
+      );
+    }
+  } catch (writeError: any) {
+    console.error(
+      `CRITICAL ERROR: Failed to write the patches of group '${groupPath}'. Details: ${writeError.message}`,
+    );
+    throw writeError;
+  }
+}
+
+// Removes the patches of a group directory left by an earlier save that
+// `patches` does not replace, so that the group reproduces the new diff.
+async function removeStalePatches(
+  groupPath: string,
+  patches: [string, string][],
+  targetDirectoryPath: string,
+): Promise<void> {
+  const stalePatches = (
+    await findPatchesInDirectory(groupPath).catch((): string[] => [])
+  ).filter(
+    (patchPath) =>
+      !patches.some(
+        ([patchName]) => path.join(groupPath, patchName) === patchPath,
+      ),
+  );
+  for (const patchPath of stalePatches) {
+    await fs.rm(patchPath);
+    console.log(
+      `INFO: Removed '${path.relative(targetDirectoryPath, patchPath)}', which is no longer in the diff.`,
+    );
+  }
+}
+
+/**
+ * Saves a diff that mixes additions and deletions as a numbered group
+ * directory named like the patch would be: `1-remove.taylored` deletes lines
+ * and `2-add.taylored` adds lines (see `splitMixedDiff`). The metadata
+ * preambles of existing patches are kept, and the other patches of the
+ * directory (e.g. of an earlier `--split`) are removed.
+ *
+ * @returns {Promise<string>} The group directory, relative to `.taylored/`.
+ */
+async function saveSplitPatches(
+  source: SaveSource,
+  groupName: string,
+  CWD: string,
+  targetDirectoryPath: string,
+  pathspecs: string[],
+): Promise<string> {
+  const groupPath = path.join(targetDirectoryPath, groupName);
+  const patches = getSplitMixedPatches(source, CWD, pathspecs);
+  await removeStalePatches(groupPath, patches, targetDirectoryPath);
+  await writeGroupPatches(source, groupPath, patches);
+  console.log(
+    `INFO: The diff of ${source.label} mixes additions and deletions. Saved it as group '${groupName}': ${patches.map(([patchName]) => patchName).join(' (deletions), then ')} (additions).`,
+  );
+  return groupName;
+}
+
+/**
+ * Saves a diff as a group directory named like the patch would be, holding
+ * one patch per changed file (`split` is `file`) or per top-level directory
+ * of the repository (`directory`), named after the path with separators
+ * replaced by dashes, e.g. `src-app.js.taylored`. Each patch is checked for
+ * purity on its own: with `splitMixed`, a mixed one becomes a subgroup of a
+ * `1-remove` and a `2-add` patch; otherwise nothing is saved. The metadata
+ * preambles of existing patches are kept, and patches of the group that are
+ * no longer produced are removed.
+ *
+ * @returns {Promise<string>} The group directory, relative to `.taylored/`.
+ */
+async function savePatchesByPath(
+  source: SaveSource,
+  groupName: string,
+  CWD: string,
+  targetDirectoryPath: string,
+  options: SaveOperationOptions & { split: SaveSplitMode },
+): Promise<string> {
+  let changedFiles: string[];
+  try {
+    changedFiles = execFileSync(
+      'git',
+      [
+        'diff',
+        '--name-only',
+        '-z',
+        '--no-renames',
+        source.from,
+        source.to,
+        '--',
+        ...(options.pathspecs || []),
+      ],
+      { cwd: CWD, env: source.env, encoding: 'utf8', stdio: 'pipe' },
+    )
+      .split('\0')
+      .filter((file) => file !== '');
+  } catch (error: any) {
+    const message = `CRITICAL ERROR: Could not list the files changed by ${source.label}. Details: ${(error.stderr || error.message).toString().trim()}`;
+    console.error(message);
+    throw new Error(message);
+  }
+  if (changedFiles.length === 0) {
+    const message = `CRITICAL ERROR: The diff of ${source.label} has no changes to split.`;
+    console.error(message);
+    throw new Error(message);
+  }
+
+  // The files of each patch, by patch name.
+  const parts = new Map<string, { key: string; files: string[] }>();
+  for (const file of changedFiles) {
+    const key = options.split === 'file' ? file : file.split('/')[0];
+    const name = key.replace(/[/\\]/g, '-');
+    const part = parts.get(name);
+    if (part && part.key !== key) {
+      const message = `CRITICAL ERROR: '${part.key}' and '${key}' would both be saved as '${name}${TAYLORED_FILE_EXTENSION}'.`;
+      console.error(message);
+      throw new Error(message);
+    }
+    if (part) {
+      part.files.push(file);
+    } else {
+      parts.set(name, { key, files: [file] });
+    }
+  }
+
+  const patches: [string, string][] = [];
+  const mixedParts: string[] = [];
+  for (const [name, { key, files }] of parts) {
+    const pathspecs = files.map((file) => `:(literal)${file}`);
+    const diffResult = getAndAnalyzeDiff(
+      source.to,
+      CWD,
+      source.from,
+      pathspecs,
+      source.env,
+    );
+    if (!diffResult.success || typeof diffResult.diffOutput !== 'string') {
+      const message =
+        diffResult.errorMessage ||
+        `CRITICAL ERROR: Failed to obtain the diff of '${key}' for ${source.label}.`;
+      console.error(message);
+      throw new Error(message);
+    }
+    if (diffResult.isPure) {
+      patches.push([
+        `${name}${TAYLORED_FILE_EXTENSION}`,
+        diffResult.diffOutput,
+      ]);
+    } else if (options.splitMixed) {
+      patches.push(
+        ...getSplitMixedPatches(source, CWD, pathspecs).map(
+          ([patchName, diff]): [string, string] => [
+            path.join(name, patchName),
+            diff,
+          ],
+        ),
+      );
+    } else {
+      mixedParts.push(
+        `  ${key}: ${diffResult.additions} line(s) added, ${diffResult.deletions} deleted`,
+      );
+    }
+  }
+  const groupPath = path.join(targetDirectoryPath, groupName);
+  if (mixedParts.length > 0) {
+    console.error(`ERROR: Group '${groupPath}' was NOT generated.`);
+    console.error(
+      `Reason: These parts of the diff of ${source.label} contain a mix of content line additions and deletions:`,
+    );
+    mixedParts.forEach((line) => console.error(line));
+    console.error(
+      'Add --split-mixed to save each of them as a subgroup of two patches: one deleting lines, then one adding lines.',
+    );
+    throw new Error(
+      `Failed to save the patches of ${source.label}: ${mixedParts.length} part(s) mix additions and deletions.`,
+    );
+  }
+
+  await removeStalePatches(groupPath, patches, targetDirectoryPath);
+  await writeGroupPatches(source, groupPath, patches);
+  console.log(
+    `INFO: Saved the diff of ${source.label} as group '${groupName}', one patch per ${options.split}:`,
+  );
+  patches.forEach(([patchName]) => console.log(`  ${patchName}`));
+  return groupName;
+}
+
+/**
+ * Implements the `taylored --save <source>` command functionality.
  *
  * This function captures the difference between a specified Git branch and the current
- * `HEAD`, then saves this diff as a `.taylored` patch file. A critical aspect of this
+ * `HEAD`, or the changes of a commit, a range of commits, a stash entry or the index
+ * (see `SaveSource`), then saves this diff as a `.taylored` patch file. A critical aspect of this
  * operation is the **atomicity requirement**: the patch file is created only if the
  * diff consists exclusively of line additions or exclusively of line deletions (or no changes).
  * If the diff contains a mix of additions and deletions, the operation will fail,
  * ensuring that Taylored patches represent clean, atomic changes.
  *
- * The generated patch file is named after the sanitized `branchName` and stored in
- * the `.taylored/` directory within the `CWD`.
+ * With `splitMixed`, a mixed diff is saved instead as a numbered group
+ * directory of two pure patches, one deleting lines and one adding lines,
+ * which applied in order reproduce the branch exactly.
+ *
+ * `options.pathspecs` limits the diff to some paths, and `options.split` saves
+ * it as a group of one patch per file or per top-level directory, each of
+ * which must be pure on its own (see `savePatchesByPath`).
+ *
+ * Binary files are saved as Git binary patches (`git diff --binary`), so that
+ * plugins can carry images, fonts and other assets. Adding a binary file counts
+ * as an addition and deleting one as a deletion; modifying one is a mix.
+ *
+ * The generated patch file is named after the source (see `getSaveOutputFileName`),
+ * unless `options.name` is given, and stored in the `.taylored/` directory within
+ * the `CWD`. Commits give the patch a metadata preamble (see `lib/patch-metadata.ts`)
+ * from their messages; if the file already exists, the metadata it carries wins.
  *
  * For more details on the `taylored --save` command, refer to `DOCUMENTATION.md`.
  *
  * @async
- * @param {string} branchName - The name of the Git branch to compare against HEAD.
- *                              This name will be sanitized for use in the output filename.
+ * @param {SaveSource} source - The changes to save (see `resolveSaveSource`).
  * @param {string} CWD - The current working directory, which must be the root of a
  *                       Git repository for the diff operation to work correctly.
- * @returns {Promise<void>} A promise that resolves if the patch file is saved successfully.
+ * @param {string} tayloredDirName - The .taylored directory, relative to `CWD`.
+ * @param {SaveOperationOptions} [options={}] - The name of the patch, the paths to save,
+ *                                              and how to split the diff.
+ * @returns {Promise<string>} The name of the saved patch file, or of the group
+ *                            directory with `options.split` or `options.splitMixed`,
+ *                            relative to `.taylored/`.
  * @throws {Error} Throws an error if:
  *                 - The `.taylored` directory cannot be created.
  *                 - The `git diff` command fails (e.g., invalid branch name).
  *                 - The diff analysis fails.
- *                 - The diff is not "pure" (contains mixed additions and deletions).
+ *                 - The diff is not "pure" (contains mixed additions and deletions),
+ *                   unless `splitMixed` is set.
  *                 - The diff output is unexpectedly undefined.
  *                 - Writing the patch file fails.
  */
 export async function handleSaveOperation(
-  branchName: string,
+  source: SaveSource,
   CWD: string,
-): Promise<void> {
-  const outputFileName = `${branchName.replace(/[/\\]/g, '-')}${TAYLORED_FILE_EXTENSION}`;
-  const targetDirectoryPath = path.join(CWD, TAYLORED_DIR_NAME);
+  tayloredDirName: string,
+  options: SaveOperationOptions = {},
+): Promise<string> {
+  const outputFileName = getSaveOutputFileName(source, options.name);
+  const targetDirectoryPath = path.join(CWD, tayloredDirName);
   const resolvedOutputFileName = path.join(targetDirectoryPath, outputFileName);
 
   try {
@@ -50,24 +426,55 @@ export async function handleSaveOperation(
     throw mkdirError;
   }
 
-  const diffResult = getAndAnalyzeDiff(branchName, CWD);
+  const groupName = outputFileName.slice(0, -TAYLORED_FILE_EXTENSION.length);
+  const pathspecs = options.pathspecs || [];
+  if (options.split) {
+    return savePatchesByPath(source, groupName, CWD, targetDirectoryPath, {
+      ...options,
+      split: options.split,
+    });
+  }
+
+  const diffResult = getAndAnalyzeDiff(
+    source.to,
+    CWD,
+    source.from,
+    pathspecs,
+    source.env,
+  );
+  if (options.splitMixed && diffResult.success && !diffResult.isPure) {
+    return saveSplitPatches(
+      source,
+      groupName,
+      CWD,
+      targetDirectoryPath,
+      pathspecs,
+    );
+  }
 
   if (diffResult.success && diffResult.isPure) {
     if (typeof diffResult.diffOutput === 'string') {
       try {
-        await fs.writeFile(resolvedOutputFileName, diffResult.diffOutput);
+        await fs.writeFile(
+          resolvedOutputFileName,
+          withPatchMetadata(
+            diffResult.diffOutput,
+            await readSavedMetadata(resolvedOutputFileName, source.metadata),
+          ),
+        );
       } catch (writeError: any) {
         console.error(
           `CRITICAL ERROR: Failed to write diff file '${resolvedOutputFileName}'. Details: ${writeError.message}`,
         );
         throw writeError;
       }
+      return outputFileName;
     } else {
       console.error(
-        `CRITICAL ERROR: Diff output is unexpectedly undefined for branch '${branchName}' despite successful analysis.`,
+        `CRITICAL ERROR: Diff output is unexpectedly undefined for ${source.label} despite successful analysis.`,
       );
       throw new Error(
-        `Undefined diff output for pure diff on branch '${branchName}'.`,
+        `Undefined diff output for pure diff of ${source.label}.`,
       );
     }
   } else {
@@ -79,26 +486,35 @@ export async function handleSaveOperation(
       );
       if (!diffResult.isPure) {
         console.error(
-          `Reason: The diff between "${branchName}" and HEAD contains a mix of content line additions and deletions.`,
+          `Reason: The diff of ${source.label} contains a mix of content line additions and deletions.`,
         );
         console.error(`  Total lines added: ${diffResult.additions}`);
         console.error(`  Total lines deleted: ${diffResult.deletions}`);
+        const { added, deleted, modified } = diffResult.binaryFiles;
+        if (added + deleted + modified > 0) {
+          console.error(
+            `  Binary files added: ${added}, deleted: ${deleted}, modified: ${modified} (a modified binary file counts as both).`,
+          );
+        }
         console.error(
           'This script, for the --save operation, requires the diff to consist exclusively of additions or exclusively of deletions (of lines).',
         );
+        console.error(
+          'Add --split-mixed to save it as a group of two patches: one deleting lines, then one adding lines.',
+        );
       } else if (typeof diffResult.diffOutput === 'undefined') {
         console.error(
-          `Reason: Failed to obtain diff output for branch '${branchName}'. This may be due to an invalid branch name or other git error.`,
+          `Reason: Failed to obtain diff output for ${source.label}. This may be due to an invalid branch name or other git error.`,
         );
       } else {
         console.error(
-          `Reason: An unspecified error occurred during diff generation or analysis for branch '${branchName}'.`,
+          `Reason: An unspecified error occurred during diff generation or analysis for ${source.label}.`,
         );
       }
     }
     throw new Error(
       diffResult.errorMessage ||
-        `Failed to save taylored file for branch '${branchName}' due to purity or diff generation issues.`,
+        `Failed to save taylored file for ${source.label} due to purity or diff generation issues.`,
     );
   }
 }
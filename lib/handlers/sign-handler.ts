@@ -0,0 +1,107 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { resolveTayloredFileName } from '../utils';
+import {
+  getSignaturePath,
+  loadTrustedKeys,
+  signPatchFile,
+} from '../patch-signing';
+
+/**
+ * The result of `taylored --sign`.
+ */
+export interface SignResult {
+  /** The signed patch, relative to `.taylored/`. */
+  patch: string;
+  /** The signature file, relative to `.taylored/`. */
+  signatureFile: string;
+  /** The fingerprint of the signing key. */
+  keyId: string;
+  /**
+   * The name of the matching public key in the trust store, or null if the
+   * key is not trusted (the signature is then rejected by `--add`).
+   */
+  trustedKey: string | null;
+}
+
+/**
+ * Implements the `taylored --sign <taylored_file_name> --key <private_key>`
+ * command.
+ *
+ * The patch file is signed with the Ed25519 private key read from `keyPath`,
+ * and the detached signature is written next to it as `<patch>.sig` (see
+ * `signPatchFile`). Any previous signature is replaced. A warning is printed
+ * if the public half of the key is not in the trust store, since `--add`
+ * would then refuse the patch when signatures are required.
+ *
+ * For more details on the `taylored --sign` command, refer to `DOCUMENTATION.md`.
+ *
+ * @async
+ * @param {string} userInputFileName - The patch, relative to `.taylored/` (the
+ *                                     extension may be omitted).
+ * @param {string} keyPath - The private key file, relative to `CWD`.
+ * @param {string} CWD - The root of the Git repository.
+ * @param {string} tayloredDirName - The .taylored directory, relative to `CWD`.
+ * @param {string} trustedKeysDirName - The trust store, relative to `CWD`.
+ * @returns {Promise<SignResult>} The signature written.
+ * @throws {Error} If the patch or the key cannot be read, or the key is not an
+ *                 Ed25519 private key.
+ */
+export async function handleSignOperation(
+  userInputFileName: string,
+  keyPath: string,
+  CWD: string,
+  tayloredDirName: string,
+  trustedKeysDirName: string,
+): Promise<SignResult> {
+  const patchName = resolveTayloredFileName(userInputFileName);
+  const tayloredDir = path.join(CWD, tayloredDirName);
+  const patchPath = path.join(tayloredDir, patchName);
+  try {
+    await fs.access(patchPath);
+  } catch (error: any) {
+    console.error(
+      `CRITICAL ERROR: Taylored file '${patchPath}' not found or not accessible in '${tayloredDirName}/' directory.`,
+    );
+    throw error;
+  }
+  const resolvedKeyPath = path.resolve(CWD, keyPath);
+  let privateKeyPem: string;
+  try {
+    privateKeyPem = await fs.readFile(resolvedKeyPath, 'utf8');
+  } catch (error: any) {
+    console.error(
+      `CRITICAL ERROR: Could not read the signing key '${resolvedKeyPath}'. Details: ${error.message}`,
+    );
+    throw error;
+  }
+
+  let signature;
+  try {
+    signature = await signPatchFile(patchPath, privateKeyPem);
+  } catch (error: any) {
+    console.error(error.message);
+    throw error;
+  }
+  const trustedKey = (await loadTrustedKeys(CWD, trustedKeysDirName)).find(
+    (key) => key.keyId === signature.keyId,
+  );
+  const signatureFile = path
+    .relative(tayloredDir, getSignaturePath(patchPath))
+    .split(path.sep)
+    .join('/');
+  console.log(
+    `INFO: Signed '${patchName}' with key ${signature.keyId}${trustedKey ? ` ('${trustedKey.name}')` : ''}. Signature written to '${signatureFile}'.`,
+  );
+  if (!trustedKey) {
+    console.log(
+      `WARNING: This key is not in the trust store '${trustedKeysDirName}/'. Add its public key there for the signature to be accepted.`,
+    );
+  }
+  return {
+    patch: patchName.split(path.sep).join('/'),
+    signatureFile,
+    keyId: signature.keyId,
+    trustedKey: trustedKey ? trustedKey.name : null,
+  };
+}
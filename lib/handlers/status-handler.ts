@@ -0,0 +1,110 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { TAYLORED_FILE_EXTENSION } from '../constants';
+import { findPatchesInDirectory, sortPatchesNumerically } from '../utils';
+import { readStateLedger } from '../state-ledger';
+import { reconcilePatchStatus, PatchState, PatchStatus } from '../patch-state';
+
+/**
+ * Implements the `taylored --status` command.
+ *
+ * Every `.taylored` file found (recursively) in the `.taylored/` directory is
+ * reconciled against the working tree and the state ledger written by `--add`
+ * and `--remove`, and reported as applied, not applied, drifted or unknown.
+ * Nothing in the working tree is modified.
+ *
+ * For more details on the `taylored --status` command, refer to `DOCUMENTATION.md`.
+ *
+ * @async
+ * @param {string} CWD - The current working directory, expected to be the root of a
+ *                       Git repository.
+ * @param {string} tayloredDirName - The .taylored directory, relative to `CWD`.
+ * @returns {Promise<PatchStatus[]>} The status of each patch, in numeric/alphabetical order.
+ * @throws {Error} If the `.taylored` directory or the ledger cannot be read.
+ */
+export async function handleStatusOperation(
+  CWD: string,
+  tayloredDirName: string,
+): Promise<PatchStatus[]> {
+  const tayloredDirPath = path.join(CWD, tayloredDirName);
+  try {
+    const stats = await fs.stat(tayloredDirPath);
+    if (!stats.isDirectory()) {
+      console.log(
+        `INFO: Expected '${tayloredDirName}' to be a directory, but it's not (found at '${tayloredDirPath}').`,
+      );
+      return [];
+    }
+  } catch (statError: any) {
+    if (statError.code === 'ENOENT') {
+      console.log(
+        `INFO: Directory '${tayloredDirName}' not found at '${tayloredDirPath}'. No patches to report.`,
+      );
+      return [];
+    }
+    throw statError;
+  }
+
+  const ledger = await readStateLedger(CWD, tayloredDirName);
+  const patchPaths = sortPatchesNumerically(
+    await findPatchesInDirectory(tayloredDirPath),
+  );
+  if (patchPaths.length === 0) {
+    console.log(
+      `INFO: No ${TAYLORED_FILE_EXTENSION} files found in '${tayloredDirPath}' or its subdirectories.`,
+    );
+    return [];
+  }
+
+  const results: PatchStatus[] = [];
+  for (const patchPath of patchPaths) {
+    const patchName = path.relative(tayloredDirPath, patchPath);
+    const patchKey = patchName.split(path.sep).join('/');
+    results.push(
+      await reconcilePatchStatus(
+        patchName,
+        ledger.patches[patchKey],
+        CWD,
+        tayloredDirName,
+      ),
+    );
+  }
+
+  const labels: { [state in PatchState]: string } = {
+    applied: 'APPLIED',
+    'not-applied': 'NOT APPLIED',
+    drifted: 'DRIFTED',
+    unknown: 'UNKNOWN',
+  };
+  const width = Math.max(...Object.values(labels).map((l) => l.length));
+
+  console.log(`INFO: Status of patches in '${tayloredDirPath}':\n`);
+  for (const result of results) {
+    console.log(`  ${labels[result.state].padEnd(width)}  ${result.patch}`);
+    if (result.ledgerEntry) {
+      const commit = result.ledgerEntry.headCommit
+        ? result.ledgerEntry.headCommit.substring(0, 7)
+        : 'no commit';
+      console.log(
+        `  ${''.padEnd(width)}    last ${result.ledgerEntry.state === 'applied' ? 'added' : 'removed'} ${result.ledgerEntry.timestamp} at ${commit}`,
+      );
+    }
+    for (const note of result.notes) {
+      console.log(`  ${''.padEnd(width)}    (${note})`);
+    }
+  }
+
+  const counts = results.reduce(
+    (acc, r) => {
+      acc[r.state]++;
+      return acc;
+    },
+    { applied: 0, 'not-applied': 0, drifted: 0, unknown: 0 } as {
+      [state in PatchState]: number;
+    },
+  );
+  console.log(
+    `\nINFO: ${results.length} patch(es): ${counts.applied} applied, ${counts['not-applied']} not applied, ${counts.drifted} drifted, ${counts.unknown} unknown.`,
+  );
+  return results;
+}
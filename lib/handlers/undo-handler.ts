@@ -0,0 +1,78 @@
+import {
+  readJournalEntries,
+  undoJournalEntries,
+  JournalEntry,
+  UndoResult,
+} from '../undo-journal';
+
+function describeEntry(entry: JournalEntry): string {
+  const files = Object.keys(entry.before).length;
+  return [
+    `${entry.command}${entry.target ? ` ${entry.target}` : ''}`,
+    `${files} file(s)`,
+    entry.timestamp,
+    ...(entry.succeeded ? [] : ['failed']),
+  ].join(', ');
+}
+
+/**
+ * Implements the `taylored --undo` command.
+ *
+ * Restores the files changed by the last mutating command (`--add`,
+ * `--remove`, `--offset`, `--automatic`, `--upgrade`) or, given an entry of
+ * `--history`, by every command back to that entry, as recorded in the undo
+ * journal. Files changed since those commands are not overwritten unless
+ * `force` is set.
+ *
+ * For more details on the `taylored --undo` command, refer to `DOCUMENTATION.md`.
+ *
+ * @async
+ * @param {string} CWD - The root of the Git repository.
+ * @param {number | undefined} entryId - The oldest entry to undo; the last one by default.
+ * @param {boolean} force - Overwrite files changed since the commands.
+ * @returns {Promise<UndoResult>} The commands undone and the files restored.
+ * @throws {TayloredError} If there is nothing to undo, the entry does not
+ *         exist, or files changed since (`UNDO_CONFLICT`).
+ */
+export async function handleUndoOperation(
+  CWD: string,
+  entryId: number | undefined,
+  force: boolean,
+): Promise<UndoResult> {
+  const result = await undoJournalEntries(CWD, entryId, force);
+  result.undone.forEach((entry) =>
+    console.log(`INFO: Undid #${entry.id}: ${describeEntry(entry)}`),
+  );
+  console.log(`INFO: Restored ${result.files.length} file(s):`);
+  result.files.forEach((file) => console.log(`  ${file}`));
+  return result;
+}
+
+/**
+ * Implements the `taylored --history` command: prints the commands recorded
+ * in the undo journal, newest first. Nothing is modified.
+ *
+ * @async
+ * @param {string} CWD - The root of the Git repository.
+ * @returns {Promise<JournalEntry[]>} The entries, newest first.
+ */
+export async function handleHistoryOperation(
+  CWD: string,
+): Promise<JournalEntry[]> {
+  const entries = (await readJournalEntries(CWD)).reverse();
+  if (entries.length === 0) {
+    console.log('INFO: The undo journal is empty.');
+    return entries;
+  }
+  console.log('INFO: Operations that can be undone, newest first:\n');
+  for (const entry of entries) {
+    console.log(`  #${entry.id}  ${describeEntry(entry)}`);
+    for (const file of Object.keys(entry.before)) {
+      console.log(`        ${file}`);
+    }
+  }
+  console.log(
+    "\nRun 'taylored --undo' to undo the last one, or 'taylored --undo <entry>' to undo back to an entry.",
+  );
+  return entries;
+}
@@ -0,0 +1,315 @@
+import * as fs from 'fs/promises';
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import { TAYLORED_FILE_EXTENSION } from '../constants';
+import { TayloredError } from '../errors';
+import { findPatchesInDirectory, sortPatchesNumerically } from '../utils';
+import { readStateLedger, LedgerEntry } from '../state-ledger';
+import {
+  checkPatchApplies,
+  reconcilePatchStatus,
+  PatchState,
+} from '../patch-state';
+import { computePatchedFiles } from '../patch-engine';
+import { PatchAnalyzer, VerificationResult } from '../PatchAnalyzer';
+import { formatJUnitReport, formatSarifReport } from '../verify-reports';
+
+/**
+ * The health of one patch, as checked by `taylored --verify-all`.
+ */
+export interface PatchHealth {
+  /** Patch path relative to the .taylored directory, using '/' separators. */
+  patch: string;
+  /** Whether the patch is currently applied (see `reconcilePatchStatus`). */
+  state: PatchState;
+  /**
+   * The operation that was verified, the opposite of the current state:
+   * `remove` for an applied patch, `add` for a patch that is not applied.
+   * Null if the state is not known (both operations were tried) or the patch
+   * was skipped.
+   */
+  verified: 'add' | 'remove' | null;
+  /** Whether the verified operation (or, if the state is not known, either one) would succeed. */
+  applicable: boolean;
+  /** The frame checks of the `PatchAnalyzer`, one per file of the patch. */
+  frames: VerificationResult[];
+  /** Why the patch fails; empty if it passes. */
+  failures: string[];
+  /** True if the patch is empty and was not checked. */
+  skipped: boolean;
+}
+
+/**
+ * The result of `taylored --verify-all`.
+ */
+export interface VerifyAllResult {
+  patches: PatchHealth[];
+  passed: number;
+  failed: number;
+  skipped: number;
+  /** The report files written, relative to the repository root. */
+  reports: string[];
+}
+
+/**
+ * Options for `handleVerifyAllOperation`.
+ */
+export interface VerifyAllOptions {
+  /** Write a JUnit XML report to this file: absolute, or relative to the repository root. */
+  junit?: string;
+  /** Write a SARIF 2.1.0 report to this file: absolute, or relative to the repository root. */
+  sarif?: string;
+  /**
+   * Filled in as patches are checked, so that it is complete when the
+   * command fails.
+   */
+  result?: VerifyAllResult;
+}
+
+// The lines of each file of a patch with and without it, for the frame
+// checks: one version is in the working tree, the other is computed in memory.
+function createFileReader(
+  patchContent: Buffer,
+  isApplied: boolean,
+  CWD: string,
+): (filePath: string, version: 'original' | 'patched') => string[] | null {
+  const otherVersion = new Map<string, Buffer | null>();
+  try {
+    for (const file of computePatchedFiles(patchContent, CWD, {
+      isReverse: isApplied,
+    })) {
+      otherVersion.set(file.path, file.content);
+    }
+  } catch (error: any) {
+    // The patch does not apply in that direction: only the working tree is
+    // available, and the frames are checked against it.
+  }
+  return (filePath, version) => {
+    const inWorkingTree = isApplied === (version === 'patched');
+    let content: Buffer | null;
+    if (!inWorkingTree && otherVersion.has(filePath)) {
+      content = otherVersion.get(filePath)!;
+    } else {
+      try {
+        content = readFileSync(path.join(CWD, filePath));
+      } catch (error: any) {
+        content = null;
+      }
+    }
+    return content === null ? null : content.toString('utf8').split('\n');
+  };
+}
+
+// The failures found by the frame checks of one patch.
+function describeFrameFailures(frames: VerificationResult[]): string[] {
+  const failures: string[] = [];
+  for (const result of frames) {
+    if (result.status === 'error') {
+      failures.push(`${result.file}: ${result.message}`);
+      continue;
+    }
+    for (const block of result.blocks || []) {
+      for (const frame of [block.topFrame, block.bottomFrame]) {
+        if (!frame.intact) {
+          failures.push(
+            `${result.file}: ${frame.message}` +
+              (frame.expected !== null
+                ? ` Expected "${frame.expected.trim()}", found ${frame.actual === null ? 'nothing' : `"${frame.actual.trim()}"`}.`
+                : ''),
+          );
+        }
+      }
+    }
+  }
+  return failures;
+}
+
+/**
+ * Checks one patch: its state, the opposite operation and its frames.
+ */
+async function checkPatchHealth(
+  patchName: string,
+  ledgerEntry: LedgerEntry | undefined,
+  CWD: string,
+  tayloredDirName: string,
+): Promise<PatchHealth> {
+  const status = await reconcilePatchStatus(
+    patchName,
+    ledgerEntry,
+    CWD,
+    tayloredDirName,
+  );
+  const health: PatchHealth = {
+    patch: status.patch,
+    state: status.state,
+    verified: null,
+    applicable: true,
+    frames: [],
+    failures: [],
+    skipped: false,
+  };
+  const content = await fs.readFile(path.join(CWD, tayloredDirName, patchName));
+  if (content.toString().trim() === '') {
+    health.skipped = true;
+    return health;
+  }
+
+  const isApplied = status.state === 'applied';
+  if (status.state === 'drifted' || status.state === 'unknown') {
+    // Unknown also covers patches that can be both applied and removed.
+    health.applicable =
+      checkPatchApplies(patchName, false, CWD, tayloredDirName) ||
+      checkPatchApplies(patchName, true, CWD, tayloredDirName);
+    if (!health.applicable) {
+      health.failures.push(
+        'The patch can neither be applied nor removed cleanly: the code it changes has been modified.',
+      );
+    }
+  } else {
+    health.verified = isApplied ? 'remove' : 'add';
+    health.applicable = checkPatchApplies(
+      patchName,
+      isApplied,
+      CWD,
+      tayloredDirName,
+    );
+  }
+  if (!health.applicable && health.verified !== null) {
+    health.failures.push(
+      `--verify-${health.verified} failed: the patch is ${isApplied ? 'applied' : 'not applied'} but cannot be ${isApplied ? 'removed' : 'applied'} cleanly.`,
+    );
+  }
+
+  health.frames = new PatchAnalyzer().verifyFrames(
+    content.toString('utf8'),
+    createFileReader(content, isApplied, CWD),
+  );
+  health.failures.push(...describeFrameFailures(health.frames));
+  return health;
+}
+
+/**
+ * Implements the `taylored --verify-all` command.
+ *
+ * Every `.taylored` file found (recursively) in the `.taylored/` directory is
+ * checked:
+ * 1. Its state is determined as by `--status`.
+ * 2. The opposite operation is verified, as by `--verify-remove` for an
+ *    applied patch and `--verify-add` otherwise. A patch whose state cannot
+ *    be determined fails if it can neither be applied nor removed.
+ * 3. The frames of its modification blocks are checked by the
+ *    `PatchAnalyzer` (see `verifyFrames`), which catches patches that only
+ *    apply at an offset.
+ *
+ * The results are printed, and written as JUnit XML and SARIF if requested.
+ * Nothing in the working tree is modified.
+ *
+ * For more details on the `taylored --verify-all` command, refer to `DOCUMENTATION.md`.
+ *
+ * @async
+ * @param {string} CWD - The root of the Git repository.
+ * @param {string} tayloredDirName - The .taylored directory, relative to `CWD`.
+ * @param {VerifyAllOptions} [options={}] - The reports to write.
+ * @returns {Promise<VerifyAllResult>} The health of every patch.
+ * @throws {TayloredError} `PATCH_APPLY_FAILED` if any patch fails, after the
+ *         reports are written; its details name the failing patches.
+ */
+export async function handleVerifyAllOperation(
+  CWD: string,
+  tayloredDirName: string,
+  options: VerifyAllOptions = {},
+): Promise<VerifyAllResult> {
+  const result: VerifyAllResult = options.result || {
+    patches: [],
+    passed: 0,
+    failed: 0,
+    skipped: 0,
+    reports: [],
+  };
+  const tayloredDirPath = path.join(CWD, tayloredDirName);
+  const patchPaths = sortPatchesNumerically(
+    await findPatchesInDirectory(tayloredDirPath).catch((error: any) => {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }),
+  );
+  if (patchPaths.length === 0) {
+    console.log(
+      `INFO: No ${TAYLORED_FILE_EXTENSION} files found in '${tayloredDirPath}' or its subdirectories.`,
+    );
+  } else {
+    console.log(
+      `INFO: Verifying ${patchPaths.length} patch(es) in '${tayloredDirPath}' (nothing is modified):\n`,
+    );
+  }
+
+  const ledger = await readStateLedger(CWD, tayloredDirName);
+  for (const patchPath of patchPaths) {
+    const patchName = path.relative(tayloredDirPath, patchPath);
+    const patchKey = patchName.split(path.sep).join('/');
+    const health = await checkPatchHealth(
+      patchName,
+      ledger.patches[patchKey],
+      CWD,
+      tayloredDirName,
+    );
+    result.patches.push(health);
+    if (health.skipped) {
+      result.skipped++;
+      console.log(`  SKIP  ${health.patch} (empty)`);
+      continue;
+    }
+    const frameCount = health.frames
+      .flatMap((frame) => frame.blocks || [])
+      .flatMap((block) => [block.topFrame, block.bottomFrame])
+      .filter((frame) => frame.expected !== null).length;
+    const summary = `${health.state}; ${health.verified ? `--verify-${health.verified}` : 'add or remove'}; ${frameCount} frame(s) checked`;
+    if (health.failures.length === 0) {
+      result.passed++;
+      console.log(`  PASS  ${health.patch} (${summary})`);
+    } else {
+      result.failed++;
+      console.log(`  FAIL  ${health.patch} (${summary})`);
+      health.failures.forEach((failure) =>
+        console.log(`          - ${failure}`),
+      );
+    }
+  }
+  console.log(
+    `\nINFO: ${result.patches.length} patch(es): ${result.passed} passed, ${result.failed} failed, ${result.skipped} skipped.`,
+  );
+
+  const reports: [string | undefined, string, () => string][] = [
+    [options.junit, 'JUnit', () => formatJUnitReport(result, tayloredDirName)],
+    [options.sarif, 'SARIF', () => formatSarifReport(result, tayloredDirName)],
+  ];
+  for (const [reportPath, format, formatReport] of reports) {
+    if (reportPath === undefined) {
+      continue;
+    }
+    const absolutePath = path.resolve(CWD, reportPath);
+    await fs.mkdir(path.dirname(absolutePath), { recursive: true });
+    await fs.writeFile(absolutePath, formatReport());
+    result.reports.push(
+      path.relative(CWD, absolutePath).split(path.sep).join('/'),
+    );
+    console.log(`INFO: ${format} report written to '${absolutePath}'.`);
+  }
+
+  if (result.failed > 0) {
+    const message = `CRITICAL ERROR: ${result.failed} of ${result.patches.length} patch(es) failed verification.`;
+    console.error(message);
+    throw new TayloredError(
+      'PATCH_APPLY_FAILED',
+      message,
+      result.patches
+        .filter((health) => health.failures.length > 0)
+        .flatMap((health) =>
+          health.failures.map((failure) => `${health.patch}: ${failure}`),
+        ),
+    );
+  }
+  return result;
+}
@@ -0,0 +1,261 @@
+// lib/hooks.ts
+// Copyright (c) 2025 tailot@gmail.com
+// SPDX-License-Identifier: MIT
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { spawn } from 'child_process';
+import { TAYLORED_GROUP_MANIFEST_FILE_NAME } from './constants';
+import {
+  getTayloredDirName,
+  validateHooksConfig,
+  HookName,
+  HooksConfig,
+  TayloredConfig,
+} from './config';
+import { TayloredError } from './errors';
+import { isJsonOutput } from './output';
+
+/**
+ * The operations hooks run around.
+ */
+export type HookOperation = 'add' | 'remove' | 'save' | 'offset' | 'automatic';
+
+/**
+ * What a hook is told about the operation. It is passed to every hook command
+ * as JSON on its standard input, together with the `hook` name, and as
+ * environment variables (see `getHookEnvironment`).
+ */
+export interface HookContext {
+  operation: HookOperation;
+  /** The command, e.g. `--add`. */
+  mode: string;
+  /**
+   * The patch or group the command operates on, relative to `.taylored/`;
+   * null for `--automatic`.
+   */
+  patch: string | null;
+  /**
+   * The patches processed by the operation, relative to `.taylored/`. For a
+   * post-`--save` or post-`--automatic` hook: the patches written.
+   */
+  patches: string[];
+  /** The files the operation changes (or, for a patch, touches), relative to the repository root. */
+  files: string[];
+}
+
+// A command to run for a hook, and where it was configured (for messages).
+interface HookCommand {
+  command: string;
+  source: string;
+}
+
+/**
+ * @param {'pre' | 'post'} phase - Before or after the operation.
+ * @param {HookOperation} operation - The operation.
+ * @returns {HookName} The name of the hook, e.g. `preAdd`.
+ */
+export function getHookName(
+  phase: 'pre' | 'post',
+  operation: HookOperation,
+): HookName {
+  return `${phase}${operation[0].toUpperCase()}${operation.substring(1)}` as HookName;
+}
+
+/**
+ * The environment variables that describe a hook invocation. Lists hold one
+ * entry per line.
+ *
+ * @param {HookName} hookName - The hook being run.
+ * @param {HookContext} context - The operation.
+ * @returns {{ [name: string]: string }} `TAYLORED_HOOK`, `TAYLORED_OPERATION`,
+ *          `TAYLORED_MODE`, `TAYLORED_PATCH` (empty if none),
+ *          `TAYLORED_PATCHES` and `TAYLORED_FILES`.
+ */
+export function getHookEnvironment(
+  hookName: HookName,
+  context: HookContext,
+): { [name: string]: string } {
+  return {
+    TAYLORED_HOOK: hookName,
+    TAYLORED_OPERATION: context.operation,
+    TAYLORED_MODE: context.mode,
+    TAYLORED_PATCH: context.patch || '',
+    TAYLORED_PATCHES: context.patches.join('\n'),
+    TAYLORED_FILES: context.files.join('\n'),
+  };
+}
+
+/**
+ * Reads the `hooks` of the group manifests (`taylored.json`) that apply to a
+ * patch or group: those of every directory from the top-level group down to
+ * the directory of the patch (or the group itself). `.taylored/` itself is
+ * not a group.
+ *
+ * @param {string} patch - A patch or group, relative to `.taylored/`.
+ * @param {boolean} isGroup - Whether `patch` is a directory.
+ * @param {string} CWD - The root of the repository.
+ * @param {string} tayloredDirName - The .taylored directory, relative to `CWD`.
+ * @returns {Promise<{ hooks: HooksConfig; source: string }[]>} The hooks of
+ *          each manifest, outermost first.
+ * @throws {TayloredError} `CONFIG_ERROR` if a manifest is not valid JSON or its
+ *         hooks are not valid.
+ */
+async function readGroupHooks(
+  patch: string,
+  isGroup: boolean,
+  CWD: string,
+  tayloredDirName: string,
+): Promise<{ hooks: HooksConfig; source: string }[]> {
+  const groupDirectory = path.normalize(isGroup ? patch : path.dirname(patch));
+  if (groupDirectory === '.') {
+    return [];
+  }
+  const groupHooks: { hooks: HooksConfig; source: string }[] = [];
+  const segments = groupDirectory.split(path.sep).filter((s) => s !== '');
+  for (let depth = 1; depth <= segments.length; depth++) {
+    const manifestPath = path.join(
+      tayloredDirName,
+      ...segments.slice(0, depth),
+      TAYLORED_GROUP_MANIFEST_FILE_NAME,
+    );
+    let raw: string;
+    try {
+      raw = await fs.readFile(path.join(CWD, manifestPath), 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        continue;
+      }
+      throw error;
+    }
+    let problems: string[];
+    let manifest: any;
+    try {
+      manifest = JSON.parse(raw);
+      problems =
+        manifest && manifest.hooks !== undefined
+          ? validateHooksConfig(manifest.hooks, 'hooks')
+          : [];
+    } catch (error: any) {
+      problems = [`Not valid JSON: ${error.message}`];
+    }
+    if (problems.length > 0) {
+      const message = `CRITICAL ERROR: Invalid group manifest '${manifestPath}'.`;
+      console.error(message);
+      problems.forEach((problem) => console.error(`  - ${problem}`));
+      throw new TayloredError('CONFIG_ERROR', message, problems);
+    }
+    if (manifest && manifest.hooks) {
+      groupHooks.push({ hooks: manifest.hooks, source: manifestPath });
+    }
+  }
+  return groupHooks;
+}
+
+/**
+ * Runs one hook command through the shell, in the repository root, with the
+ * context as JSON on its standard input. Its output is shown as it runs (on
+ * standard error in `--json` mode).
+ *
+ * @returns {Promise<number | null>} The exit code; null if it was killed by a signal.
+ */
+function runHookCommand(
+  command: string,
+  hookName: HookName,
+  context: HookContext,
+  CWD: string,
+): Promise<number | null> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, {
+      cwd: CWD,
+      shell: true,
+      stdio: ['pipe', isJsonOutput() ? 2 : 'inherit', 'inherit'],
+      env: { ...process.env, ...getHookEnvironment(hookName, context) },
+    });
+    child.on('error', reject);
+    child.on('close', (code) => resolve(code));
+    // A hook that does not read its input may exit before it is written.
+    child.stdin!.on('error', () => {});
+    child.stdin!.end(JSON.stringify({ hook: hookName, ...context }) + '\n');
+  });
+}
+
+/**
+ * Runs the hooks configured for one side of an operation: first those of
+ * `.tayloredrc`, then those of the group manifests that apply to
+ * `context.patch`, each in the order written.
+ *
+ * A failing `pre` hook (non-zero exit code) stops the operation before it
+ * changes anything: the remaining hooks are not run. A failing `post` hook is
+ * reported, and the remaining hooks still run; the operation has already
+ * succeeded, so it is not undone.
+ *
+ * @async
+ * @param {'pre' | 'post'} phase - Before or after the operation.
+ * @param {HookContext} context - The operation.
+ * @param {TayloredConfig} config - The project configuration.
+ * @param {string} CWD - The root of the repository.
+ * @param {boolean} [isGroup=false] - Whether `context.patch` is a group directory.
+ * @returns {Promise<string[]>} The commands of the `post` hooks that failed.
+ * @throws {TayloredError} `HOOK_FAILED` if a `pre` hook fails; `CONFIG_ERROR`
+ *         if a group manifest is not valid.
+ */
+export async function runHooks(
+  phase: 'pre' | 'post',
+  context: HookContext,
+  config: TayloredConfig,
+  CWD: string,
+  isGroup: boolean = false,
+): Promise<string[]> {
+  const hookName = getHookName(phase, context.operation);
+  const sources: { hooks: HooksConfig; source: string }[] = [];
+  if (config.hooks) {
+    sources.push({ hooks: config.hooks, source: '.tayloredrc' });
+  }
+  if (context.patch !== null) {
+    sources.push(
+      ...(await readGroupHooks(
+        context.patch,
+        isGroup,
+        CWD,
+        getTayloredDirName(config),
+      )),
+    );
+  }
+  const commands: HookCommand[] = [];
+  for (const { hooks, source } of sources) {
+    const value = hooks[hookName];
+    for (const command of value === undefined ? [] : [value].flat()) {
+      commands.push({ command, source });
+    }
+  }
+
+  const failures: string[] = [];
+  for (const { command, source } of commands) {
+    console.log(`INFO: Running ${hookName} hook from ${source}: ${command}`);
+    let failure: string | null = null;
+    try {
+      const code = await runHookCommand(command, hookName, context, CWD);
+      if (code !== 0) {
+        failure =
+          code === null ? 'was terminated' : `failed with exit code ${code}`;
+      }
+    } catch (error: any) {
+      failure = `could not be run: ${error.message}`;
+    }
+    if (failure === null) {
+      continue;
+    }
+    const problem = `The ${hookName} hook '${command}' (${source}) ${failure}.`;
+    if (phase === 'pre') {
+      const message = `CRITICAL ERROR: ${problem} ${context.mode} was not run.`;
+      console.error(message);
+      throw new TayloredError('HOOK_FAILED', message);
+    }
+    console.error(
+      `ERROR: ${problem} ${context.mode} itself completed successfully.`,
+    );
+    failures.push(command);
+  }
+  return failures;
+}
@@ -0,0 +1,248 @@
+// lib/line-diff.ts
+// Copyright (c) 2025 tailot@gmail.com
+// SPDX-License-Identifier: MIT
+
+/**
+ * One line of an edit script. `text` keeps its line terminator, so a line
+ * that only differs by its final newline is a change.
+ */
+export interface DiffLine {
+  type: ' ' | '-' | '+';
+  text: string;
+}
+
+/**
+ * A group of changes with its surrounding context, as in a unified diff.
+ */
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export interface UnifiedDiffOptions {
+  /** Number of context lines around each change. Defaults to 3. */
+  context?: number;
+  /** Wrap headers, hunk ranges and changed lines in ANSI colors. */
+  color?: boolean;
+}
+
+export interface UnifiedDiff {
+  /** The formatted diff, or '' if both sides are identical. */
+  text: string;
+  added: number;
+  removed: number;
+}
+
+const ANSI = {
+  bold: '\x1b[1m',
+  red: '\x1b[31m',
+  green: '\x1b[32m',
+  cyan: '\x1b[36m',
+  reset: '\x1b[0m',
+};
+
+/**
+ * Splits text into lines, keeping each line's terminator.
+ */
+export function splitDiffLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) || [];
+}
+
+/**
+ * Computes a shortest edit script between two texts, line by line, with
+ * Myers' O(ND) algorithm. The common prefix and suffix are stripped first,
+ * which keeps the search small for the typical few-line patch.
+ *
+ * @param {string} oldText - The original content.
+ * @param {string} newText - The new content.
+ * @returns {DiffLine[]} Every line of both texts, in order: unchanged lines
+ *                       once, removed lines before the lines added in their place.
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = splitDiffLines(oldText);
+  const b = splitDiffLines(newText);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const middle = myers(
+    a.slice(prefix, a.length - suffix),
+    b.slice(prefix, b.length - suffix),
+  );
+  return [
+    ...a.slice(0, prefix).map((text) => ({ type: ' ' as const, text })),
+    ...middle,
+    ...a.slice(a.length - suffix).map((text) => ({ type: ' ' as const, text })),
+  ];
+}
+
+/**
+ * Groups an edit script into hunks with `context` lines around each change.
+ * Changes separated by at most twice the context share a hunk.
+ */
+export function buildHunks(lines: DiffLine[], context = 3): DiffHunk[] {
+  // Number of old/new lines before each entry of the script.
+  const oldBefore: number[] = [];
+  const newBefore: number[] = [];
+  let oldCount = 0;
+  let newCount = 0;
+  lines.forEach((line) => {
+    oldBefore.push(oldCount);
+    newBefore.push(newCount);
+    if (line.type !== '+') oldCount++;
+    if (line.type !== '-') newCount++;
+  });
+
+  const changes = lines
+    .map((line, index) => (line.type === ' ' ? -1 : index))
+    .filter((index) => index >= 0);
+  const hunks: DiffHunk[] = [];
+  let next = 0;
+  while (next < changes.length) {
+    let last = next;
+    while (
+      last + 1 < changes.length &&
+      changes[last + 1] - changes[last] - 1 <= 2 * context
+    ) {
+      last++;
+    }
+    const start = Math.max(0, changes[next] - context);
+    const end = Math.min(lines.length - 1, changes[last] + context);
+    const hunkLines = lines.slice(start, end + 1);
+    const oldLines = hunkLines.filter((l) => l.type !== '+').length;
+    const newLines = hunkLines.filter((l) => l.type !== '-').length;
+    hunks.push({
+      // An empty side is numbered after the line it follows, as git does.
+      oldStart: oldBefore[start] + (oldLines > 0 ? 1 : 0),
+      oldLines,
+      newStart: newBefore[start] + (newLines > 0 ? 1 : 0),
+      newLines,
+      lines: hunkLines,
+    });
+    next = last + 1;
+  }
+  return hunks;
+}
+
+/**
+ * Formats the difference between two versions of a file as a unified diff.
+ *
+ * @param {string | null} oldPath - The original path, or null for a new file.
+ * @param {string | null} newPath - The new path, or null for a deleted file.
+ * @param {string} oldText - The original content ('' for a new file).
+ * @param {string} newText - The new content ('' for a deleted file).
+ * @param {UnifiedDiffOptions} [options={}] - Context size and colors.
+ * @returns {UnifiedDiff} The diff text and its line statistics.
+ */
+export function formatUnifiedDiff(
+  oldPath: string | null,
+  newPath: string | null,
+  oldText: string,
+  newText: string,
+  options: UnifiedDiffOptions = {},
+): UnifiedDiff {
+  const paint = (code: string, text: string) =>
+    options.color ? `${code}${text}${ANSI.reset}` : text;
+  const script = diffLines(oldText, newText);
+  const hunks = buildHunks(script, options.context ?? 3);
+  const added = script.filter((l) => l.type === '+').length;
+  const removed = script.filter((l) => l.type === '-').length;
+  if (hunks.length === 0 && oldPath === newPath) {
+    return { text: '', added, removed };
+  }
+
+  const out: string[] = [
+    paint(ANSI.bold, `--- ${oldPath === null ? '/dev/null' : `a/${oldPath}`}`),
+    paint(ANSI.bold, `+++ ${newPath === null ? '/dev/null' : `b/${newPath}`}`),
+  ];
+  const range = (start: number, count: number) =>
+    count === 1 ? `${start}` : `${start},${count}`;
+  const colors = { ' ': '', '-': ANSI.red, '+': ANSI.green };
+  for (const hunk of hunks) {
+    out.push(
+      paint(
+        ANSI.cyan,
+        `@@ -${range(hunk.oldStart, hunk.oldLines)} +${range(hunk.newStart, hunk.newLines)} @@`,
+      ),
+    );
+    for (const line of hunk.lines) {
+      const body = `${line.type}${line.text.replace(/\n$/, '')}`;
+      out.push(line.type === ' ' ? body : paint(colors[line.type], body));
+      if (!line.text.endsWith('\n')) {
+        out.push('\\ No newline at end of file');
+      }
+    }
+  }
+  return { text: out.join('\n') + '\n', added, removed };
+}
+
+/**
+ * Myers' greedy forward search, recording the frontier of every round so
+ * that the path can be walked back into an edit script.
+ */
+function myers(a: string[], b: string[]): DiffLine[] {
+  const n = a.length;
+  const m = b.length;
+  const offset = n + m + 1;
+  const v = new Int32Array(2 * offset + 1);
+  const trace: Int32Array[] = [];
+
+  search: for (let d = 0; d <= n + m; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        break search;
+      }
+    }
+  }
+
+  const script: DiffLine[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const frontier = trace[d];
+    const k = x - y;
+    const prevK =
+      k === -d ||
+      (k !== d && frontier[offset + k - 1] < frontier[offset + k + 1])
+        ? k + 1
+        : k - 1;
+    const prevX = frontier[offset + prevK];
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      script.push({ type: ' ', text: a[--x] });
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        script.push({ type: '+', text: b[--y] });
+      } else {
+        script.push({ type: '-', text: a[--x] });
+      }
+    }
+  }
+  return script.reverse();
+}
@@ -0,0 +1,245 @@
+// lib/mixed-diff-split.ts
+// Copyright (c) 2025 tailot@gmail.com
+// SPDX-License-Identifier: MIT
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { diffLines } from './line-diff';
+import { analyzeDiffContent } from './utils';
+import {
+  createTemporaryObjectDirectory,
+  temporaryObjectsEnv,
+} from './temporary-objects';
+
+/**
+ * A diff with both additions and deletions, decomposed into two pure diffs
+ * that are applied in order.
+ */
+export interface SplitDiff {
+  /** From the base to the intermediate tree: deletions only. */
+  deletions: string;
+  /** From the intermediate tree to the revision: additions only. */
+  additions: string;
+}
+
+function runGit(
+  CWD: string,
+  args: string[],
+  options: { env?: NodeJS.ProcessEnv; input?: Buffer } = {},
+): string {
+  return execFileSync('git', args, {
+    cwd: CWD,
+    encoding: 'utf8',
+    stdio: 'pipe',
+    maxBuffer: 1024 * 1024 * 1024,
+    ...options,
+  });
+}
+
+function diffTrees(
+  CWD: string,
+  from: string,
+  to: string,
+  pathspecs: string[],
+  env: NodeJS.ProcessEnv,
+): string {
+  // The minimal diff between a text and a subsequence of it only deletes
+  // lines; other algorithms may pair a deletion with an addition.
+  return runGit(
+    CWD,
+    [
+      'diff',
+      '--binary',
+      '--diff-algorithm=minimal',
+      from,
+      to,
+      '--',
+      ...pathspecs,
+    ],
+    { env },
+  );
+}
+
+/**
+ * Writes the tree between `base` and `revision`: `base` without the lines
+ * (and files) the revision deletes, and without anything it adds. Each
+ * modified text file gets the longest common subsequence of its lines in
+ * `base` and in the revision. Only the files matching `pathspecs` (all, if
+ * there are none) are changed. Binary files, symbolic links and submodules
+ * that change, and files that change type, cannot be split line by line: they
+ * are removed, so that they are deleted by the first diff and added back by
+ * the second.
+ *
+ * The tree is built in a temporary index, and its objects are written with
+ * `objectsEnv` (see `temporaryObjectsEnv`); the working tree, the index, the
+ * branches and the object store of the repository are not touched.
+ *
+ * @returns {string} The ID of the tree.
+ */
+function writeIntermediateTree(
+  base: string,
+  revision: string,
+  CWD: string,
+  pathspecs: string[],
+  objectsEnv: NodeJS.ProcessEnv,
+): string {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'taylored-split-'));
+  const env = { ...objectsEnv, GIT_INDEX_FILE: path.join(tempDir, 'index') };
+  try {
+    runGit(CWD, ['read-tree', base], { env });
+    const binaryPaths = new Set(
+      runGit(
+        CWD,
+        [
+          'diff',
+          '--numstat',
+          '-z',
+          '--no-renames',
+          base,
+          revision,
+          '--',
+          ...pathspecs,
+        ],
+        { env },
+      )
+        .split('\0')
+        .filter((entry) => entry.startsWith('-\t-\t'))
+        .map((entry) => entry.substring('-\t-\t'.length)),
+    );
+    // "--raw -z" output: ":<old mode> <new mode> <old id> <new id> <status>",
+    // then the path, each terminated by NUL.
+    const raw = runGit(
+      CWD,
+      [
+        'diff',
+        '--raw',
+        '-z',
+        '--no-abbrev',
+        '--no-renames',
+        base,
+        revision,
+        '--',
+        ...pathspecs,
+      ],
+      { env },
+    ).split('\0');
+    for (let i = 0; i + 1 < raw.length; i += 2) {
+      const [oldMode, newMode, oldId, newId, status] = raw[i]
+        .substring(1)
+        .split(' ');
+      const file = raw[i + 1];
+      if (status === 'A') {
+        continue;
+      }
+      const isRegularText =
+        status === 'M' &&
+        /^100[67]/.test(oldMode) &&
+        /^100[67]/.test(newMode) &&
+        !binaryPaths.has(file);
+      if (!isRegularText) {
+        runGit(CWD, ['update-index', '--force-remove', '--', file], { env });
+        continue;
+      }
+      // latin1 maps every byte to one character, so any encoding round-trips.
+      const readBlob = (id: string) =>
+        execFileSync('git', ['cat-file', 'blob', id], {
+          cwd: CWD,
+          env,
+          stdio: 'pipe',
+          maxBuffer: 1024 * 1024 * 1024,
+        }).toString('latin1');
+      const oldContent = readBlob(oldId);
+      const common = diffLines(oldContent, readBlob(newId))
+        .filter((line) => line.type === ' ')
+        .map((line) => line.text)
+        .join('');
+      if (common === oldContent) {
+        continue;
+      }
+      const blobId = runGit(CWD, ['hash-object', '-w', '--stdin'], {
+        env,
+        input: Buffer.from(common, 'latin1'),
+      }).trim();
+      runGit(
+        CWD,
+        ['update-index', '--cacheinfo', `${oldMode},${blobId},${file}`],
+        { env },
+      );
+    }
+    return runGit(CWD, ['write-tree'], { env }).trim();
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Decomposes the diff between a base (HEAD by default) and a revision, which
+ * has both additions and deletions, into a diff that only deletes lines
+ * followed by a diff that only adds lines, through an intermediate tree (see
+ * `writeIntermediateTree`). Applying both in order gives the revision;
+ * reverting them in reverse order gives the base back.
+ *
+ * @param {string} revision - The revision to diff the base against, e.g. a branch.
+ * @param {string} CWD - The root of the Git repository.
+ * @param {string} [base='HEAD'] - The tree-ish the diff starts from.
+ * @param {string[]} [pathspecs=[]] - Git pathspecs the diffs are limited to.
+ * @param {NodeJS.ProcessEnv} [env=process.env] - The environment of the Git
+ *        commands, e.g. of `withTemporaryObjects` if `revision` is only there.
+ * @returns {SplitDiff} The two diffs, in the format of `git diff --binary`.
+ * @throws {Error} If a Git command fails (e.g. `revision` does not exist), or
+ *         if a diff is not pure, which would be a bug.
+ */
+export function splitMixedDiff(
+  revision: string,
+  CWD: string,
+  base: string = 'HEAD',
+  pathspecs: string[] = [],
+  env: NodeJS.ProcessEnv = process.env,
+): SplitDiff {
+  let intermediateTree: string;
+  let split: SplitDiff;
+  // The intermediate tree only exists in this directory, which is removed
+  // once both diffs are computed.
+  const objectDir = createTemporaryObjectDirectory();
+  try {
+    const objectsEnv = temporaryObjectsEnv(CWD, objectDir, env);
+    intermediateTree = writeIntermediateTree(
+      base,
+      revision,
+      CWD,
+      pathspecs,
+      objectsEnv,
+    );
+    split = {
+      deletions: diffTrees(CWD, base, intermediateTree, pathspecs, objectsEnv),
+      additions: diffTrees(
+        CWD,
+        intermediateTree,
+        revision,
+        pathspecs,
+        objectsEnv,
+      ),
+    };
+  } catch (error: any) {
+    const message = `CRITICAL ERROR: Could not split the diff between '${base}' and '${revision}'. Details: ${(error.stderr || error.message).toString().trim()}`;
+    console.error(message);
+    throw new Error(message);
+  } finally {
+    fs.rmSync(objectDir, { recursive: true, force: true });
+  }
+  const deletions = analyzeDiffContent(split.deletions);
+  const additions = analyzeDiffContent(split.additions);
+  if (
+    !deletions.isPure ||
+    !additions.isPure ||
+    deletions.additions + deletions.binaryFiles.added > 0 ||
+    additions.deletions + additions.binaryFiles.deleted > 0
+  ) {
+    const message = `CRITICAL ERROR: Splitting the diff between '${base}' and '${revision}' produced a diff that is not pure (intermediate tree ${intermediateTree}).`;
+    console.error(message);
+    throw new Error(message);
+  }
+  return split;
+}
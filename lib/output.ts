@@ -0,0 +1,107 @@
+// lib/output.ts
+// Copyright (c) 2025 tailot@gmail.com
+// SPDX-License-Identifier: MIT
+
+import * as fs from 'fs';
+import { StdioOptions } from 'child_process';
+import { getErrorInfo, ErrorInfo } from './errors';
+
+/**
+ * The document written to standard output by a command run with `--json`.
+ */
+export interface JsonResultDocument {
+  /** The command, e.g. "--add". */
+  command: string;
+  success: boolean;
+  exitCode: number;
+  /** Command-specific data; may be partial when the command failed. */
+  result: unknown;
+  error: ErrorInfo | null;
+}
+
+// The command being run with --json, or null when output is for humans.
+let jsonCommand: string | null = null;
+let documentWritten = false;
+
+/**
+ * Switches the process to `--json` output for `command`.
+ *
+ * From now on, everything printed through `console.log`/`console.info`
+ * (the human-readable progress messages of every handler) is sent to standard
+ * error, so that standard output only carries the document written by
+ * `writeJsonResult` or `writeJsonError`.
+ *
+ * @param {string} command - The command being run, e.g. "--add".
+ */
+export function enableJsonOutput(command: string): void {
+  jsonCommand = command;
+  console.log = console.error;
+  console.info = console.error;
+}
+
+/**
+ * @returns {boolean} True if the current command was run with `--json`.
+ */
+export function isJsonOutput(): boolean {
+  return jsonCommand !== null;
+}
+
+/**
+ * The `stdio` option for child processes whose output is shown to the user
+ * (such as `git apply --verbose`): inherited normally, but with their
+ * standard output redirected to standard error in `--json` mode.
+ */
+export function childProcessStdio(): StdioOptions {
+  return isJsonOutput() ? ['inherit', 2, 'inherit'] : 'inherit';
+}
+
+/**
+ * The stream for human-readable output written directly rather than through
+ * `console.log` (standard error in `--json` mode).
+ */
+export function humanOutputStream(): NodeJS.WriteStream {
+  return isJsonOutput() ? process.stderr : process.stdout;
+}
+
+/**
+ * Writes the result document of a successful command. Does nothing unless
+ * `--json` is enabled.
+ *
+ * @param {unknown} result - The command-specific data.
+ */
+export function writeJsonResult(result: unknown): void {
+  writeDocument({
+    command: jsonCommand!,
+    success: true,
+    exitCode: 0,
+    result: result ?? null,
+    error: null,
+  });
+}
+
+/**
+ * Writes the result document of a failed command. Does nothing unless
+ * `--json` is enabled.
+ *
+ * @param {unknown} error - The error that ended the command.
+ * @param {unknown} [result=null] - Whatever data was gathered before the failure.
+ */
+export function writeJsonError(error: unknown, result: unknown = null): void {
+  writeDocument({
+    command: jsonCommand!,
+    success: false,
+    exitCode: 1,
+    result: result ?? null,
+    error: getErrorInfo(error),
+  });
+}
+
+function writeDocument(document: JsonResultDocument): void {
+  // Only one document per command.
+  if (!isJsonOutput() || documentWritten) {
+    return;
+  }
+  documentWritten = true;
+  // Written synchronously: the process usually exits right afterwards.
+  fs.writeSync(1, JSON.stringify(document, null, 2) + '\n');
+}
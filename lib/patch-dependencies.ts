@@ -0,0 +1,439 @@
+// lib/patch-dependencies.ts
+// Copyright (c) 2025 tailot@gmail.com
+// SPDX-License-Identifier: MIT
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  TAYLORED_FILE_EXTENSION,
+  TAYLORED_GROUP_MANIFEST_FILE_NAME,
+} from './constants';
+import { findPatchesInDirectory } from './utils';
+import { readStateLedger, StateLedger } from './state-ledger';
+import { reconcilePatchStatus, PatchState } from './patch-state';
+import { PatchEngine } from './patch-engine';
+import { TayloredError } from './errors';
+import { parsePatchMetadata } from './patch-metadata';
+
+/**
+ * The relationships a patch declares with other patches.
+ * - `requires`: patches that must be applied before this one can be applied.
+ * - `conflicts`: patches that must not be applied at the same time as this one.
+ */
+export interface PatchDependencies {
+  requires: string[];
+  conflicts: string[];
+}
+
+/**
+ * Parses the `Requires:` and `Conflicts:` fields of the metadata preamble of a
+ * patch (see `parsePatchMetadata`). Values may be separated by commas and/or
+ * whitespace, and a field may be repeated.
+ *
+ * @param {string} patchContent - The content of a .taylored file.
+ * @returns {PatchDependencies} The references exactly as written (unresolved).
+ */
+export function parseDependencyHeaders(
+  patchContent: string,
+): PatchDependencies {
+  const { requires = [], conflicts = [] } = parsePatchMetadata(patchContent);
+  return { requires, conflicts };
+}
+
+/**
+ * Reads the `taylored.json` manifest of a group directory, if there is one.
+ * The manifest has the form:
+ *
+ *   { "patches": { "2-feature": { "requires": ["1-base"], "conflicts": ["legacy"] } } }
+ *
+ * Patch names may be given with or without the `.taylored` extension. The
+ * `hooks` of the manifest are read by `lib/hooks.ts`; a manifest may only
+ * have hooks.
+ *
+ * @returns The declarations keyed by patch file name (with extension), or an
+ *          empty object if the directory has no manifest.
+ * @throws {TayloredError} `CONFIG_ERROR` if the manifest exists but is not valid.
+ */
+async function readGroupManifest(
+  directoryPath: string,
+): Promise<{ [patchFileName: string]: PatchDependencies }> {
+  const manifestPath = path.join(
+    directoryPath,
+    TAYLORED_GROUP_MANIFEST_FILE_NAME,
+  );
+  let raw: string;
+  try {
+    raw = await fs.readFile(manifestPath, 'utf8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return {};
+    }
+    throw error;
+  }
+
+  const invalid = (details: string) => {
+    const message = `CRITICAL ERROR: Invalid group manifest '${manifestPath}': ${details}`;
+    console.error(message);
+    return new TayloredError('CONFIG_ERROR', message);
+  };
+  let parsed: any;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error: any) {
+    throw invalid(error.message);
+  }
+  if (
+    !parsed ||
+    typeof parsed !== 'object' ||
+    (parsed.patches !== undefined &&
+      (!parsed.patches ||
+        typeof parsed.patches !== 'object' ||
+        Array.isArray(parsed.patches)))
+  ) {
+    throw invalid("expected a top-level 'patches' object.");
+  }
+
+  const declarations: { [patchFileName: string]: PatchDependencies } = {};
+  for (const [name, entry] of Object.entries<any>(parsed.patches || {})) {
+    const fileName = name.endsWith(TAYLORED_FILE_EXTENSION)
+      ? name
+      : name + TAYLORED_FILE_EXTENSION;
+    const dependencies: PatchDependencies = { requires: [], conflicts: [] };
+    for (const field of ['requires', 'conflicts'] as const) {
+      const value = entry ? entry[field] : undefined;
+      if (value === undefined) {
+        continue;
+      }
+      if (
+        !Array.isArray(value) ||
+        value.some((item) => typeof item !== 'string')
+      ) {
+        throw invalid(`'${name}.${field}' must be an array of patch names.`);
+      }
+      dependencies[field].push(...value);
+    }
+    declarations[fileName] = dependencies;
+  }
+  return declarations;
+}
+
+/**
+ * Resolves a patch reference written in a header or manifest to a patch key
+ * (path relative to `.taylored/`, '/' separators, with extension). References
+ * are looked up relative to the directory of the declaring patch first, then
+ * relative to `.taylored/` itself.
+ *
+ * @returns The resolved key, or null if no such patch exists.
+ */
+function resolvePatchReference(
+  reference: string,
+  fromPatchKey: string,
+  knownPatchKeys: Set<string>,
+): string | null {
+  let normalized = reference.split('\\').join('/');
+  if (!normalized.endsWith(TAYLORED_FILE_EXTENSION)) {
+    normalized += TAYLORED_FILE_EXTENSION;
+  }
+  const candidates = [
+    path.posix.join(path.posix.dirname(fromPatchKey), normalized),
+    path.posix.normalize(normalized),
+  ];
+  for (const candidate of candidates) {
+    if (knownPatchKeys.has(candidate)) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+/**
+ * The dependency graph of every patch in `.taylored/`.
+ */
+interface DependencyGraph {
+  /** Resolved declarations, keyed by patch key. */
+  dependencies: Map<string, PatchDependencies>;
+  /** References that could not be resolved, as human-readable problems. */
+  unresolved: Map<string, string[]>;
+  /** True if at least one patch declares a relationship. */
+  hasDeclarations: boolean;
+}
+
+/**
+ * Reads the declarations of every patch in `.taylored/` (headers merged with
+ * the group manifests) and resolves the references they contain.
+ */
+async function loadDependencyGraph(
+  CWD: string,
+  tayloredDirName: string,
+): Promise<DependencyGraph> {
+  const tayloredDir = path.join(CWD, tayloredDirName);
+  const graph: DependencyGraph = {
+    dependencies: new Map(),
+    unresolved: new Map(),
+    hasDeclarations: false,
+  };
+  let patchPaths: string[];
+  try {
+    patchPaths = await findPatchesInDirectory(tayloredDir);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return graph;
+    }
+    throw error;
+  }
+
+  const toKey = (patchPath: string) =>
+    path.relative(tayloredDir, patchPath).split(path.sep).join('/');
+  const knownPatchKeys = new Set(patchPaths.map(toKey));
+  const manifests = new Map<
+    string,
+    { [patchFileName: string]: PatchDependencies }
+  >();
+
+  for (const patchPath of patchPaths) {
+    const key = toKey(patchPath);
+    const directory = path.dirname(patchPath);
+    if (!manifests.has(directory)) {
+      manifests.set(directory, await readGroupManifest(directory));
+    }
+    const declared = parseDependencyHeaders(
+      await fs.readFile(patchPath, 'utf8'),
+    );
+    const fromManifest = manifests.get(directory)![path.basename(patchPath)];
+    if (fromManifest) {
+      declared.requires.push(...fromManifest.requires);
+      declared.conflicts.push(...fromManifest.conflicts);
+    }
+
+    const resolved: PatchDependencies = { requires: [], conflicts: [] };
+    const problems: string[] = [];
+    for (const field of ['requires', 'conflicts'] as const) {
+      for (const reference of declared[field]) {
+        graph.hasDeclarations = true;
+        const target = resolvePatchReference(reference, key, knownPatchKeys);
+        if (target === null) {
+          // A conflict with a patch that does not exist can never be violated.
+          if (field === 'requires') {
+            problems.push(
+              `'${key}' requires '${reference}', which does not exist in '${tayloredDirName}/'.`,
+            );
+          }
+        } else if (target !== key && !resolved[field].includes(target)) {
+          resolved[field].push(target);
+        }
+      }
+    }
+    graph.dependencies.set(key, resolved);
+    if (problems.length > 0) {
+      graph.unresolved.set(key, problems);
+    }
+  }
+  return graph;
+}
+
+/**
+ * Orders patches so that every patch comes after the patches it requires.
+ * Only requirements between patches in the list are considered. Among patches
+ * that are ready at the same time the original order is kept, so a list with
+ * no declared relationships comes back unchanged.
+ *
+ * @param {string[]} patchKeys - The patches to order, in their default (numeric) order.
+ * @param {Map<string, PatchDependencies>} dependencies - Resolved declarations by patch key.
+ * @returns {string[]} The ordered patch keys.
+ * @throws {Error} If the requirements form a cycle. The message names the cycle.
+ */
+export function orderPatchesByDependencies(
+  patchKeys: string[],
+  dependencies: Map<string, PatchDependencies>,
+): string[] {
+  const members = new Set(patchKeys);
+  const inSetRequirements = (key: string) =>
+    (dependencies.get(key)?.requires || []).filter((r) => members.has(r));
+
+  const ordered: string[] = [];
+  const placed = new Set<string>();
+  let remaining = [...patchKeys];
+  while (remaining.length > 0) {
+    const next = remaining.find((key) =>
+      inSetRequirements(key).every((r) => placed.has(r)),
+    );
+    if (next === undefined) {
+      throw new TayloredError(
+        'DEPENDENCY_ERROR',
+        `CRITICAL ERROR: Dependency cycle detected: ${findCycle(remaining, inSetRequirements).join(' -> ')}`,
+      );
+    }
+    ordered.push(next);
+    placed.add(next);
+    remaining = remaining.filter((key) => key !== next);
+  }
+  return ordered;
+}
+
+/**
+ * Follows requirements between the given patches, none of which could be
+ * placed, until a patch repeats. Returns the cycle, starting and ending with
+ * the same patch.
+ */
+function findCycle(
+  remaining: string[],
+  inSetRequirements: (key: string) => string[],
+): string[] {
+  const pending = new Set(remaining);
+  const walk: string[] = [remaining[0]];
+  for (;;) {
+    const current = walk[walk.length - 1];
+    const next = inSetRequirements(current).find((r) => pending.has(r))!;
+    const seenAt = walk.indexOf(next);
+    if (seenAt !== -1) {
+      return [...walk.slice(seenAt), next];
+    }
+    walk.push(next);
+  }
+}
+
+/**
+ * Checks the declared relationships of a set of patches that is about to be
+ * added (or removed, with `isReverse`) as a unit, and returns the order in which
+ * they must be processed.
+ *
+ * When adding, every required patch must be in the set or already applied, no
+ * two patches in the set may conflict, and no patch in the set may conflict
+ * with an applied patch (in either direction of the declaration). When
+ * removing, no applied patch outside the set may require a patch in the set.
+ * The state of patches outside the set is determined as by `--status`.
+ *
+ * All problems are collected and reported together before anything is changed.
+ *
+ * @async
+ * @param {string[]} patchNames - Patch paths relative to `.taylored/`, in their default order.
+ * @param {boolean} isReverse - True if the patches are about to be removed.
+ * @param {string} CWD - The root of the Git repository.
+ * @param {string} tayloredDirName - The .taylored directory, relative to `CWD`.
+ * @param {PatchEngine} [engine='git'] - The backend used to determine the state of other patches.
+ * @returns {Promise<string[]>} The patch names in processing order: requirements
+ *                              first when adding, dependents first when removing.
+ * @throws {Error} If the requirements form a cycle or the set cannot be
+ *                 processed without violating a declaration.
+ */
+export async function planPatchOperation(
+  patchNames: string[],
+  isReverse: boolean,
+  CWD: string,
+  tayloredDirName: string,
+  engine: PatchEngine = 'git',
+): Promise<string[]> {
+  const graph = await loadDependencyGraph(CWD, tayloredDirName);
+  const defaultOrder = isReverse ? [...patchNames].reverse() : patchNames;
+  if (!graph.hasDeclarations) {
+    return defaultOrder;
+  }
+
+  const toKey = (name: string) => name.split(path.sep).join('/');
+  const keyToName = new Map(patchNames.map((name) => [toKey(name), name]));
+  const keys = [...keyToName.keys()];
+  const members = new Set(keys);
+
+  let ordered: string[];
+  try {
+    ordered = orderPatchesByDependencies(keys, graph.dependencies);
+  } catch (error: any) {
+    console.error(error.message);
+    console.error(
+      '  Fix the Requires: headers or taylored.json manifests so that no patch depends on itself.',
+    );
+    throw error;
+  }
+
+  let ledger: StateLedger | null = null;
+  const states = new Map<string, PatchState>();
+  const stateOf = async (key: string): Promise<PatchState> => {
+    if (!states.has(key)) {
+      ledger = ledger || (await readStateLedger(CWD, tayloredDirName));
+      const status = await reconcilePatchStatus(
+        key.split('/').join(path.sep),
+        ledger.patches[key],
+        CWD,
+        tayloredDirName,
+        engine,
+      );
+      states.set(key, status.state);
+    }
+    return states.get(key)!;
+  };
+
+  const problems: string[] = [];
+  if (!isReverse) {
+    for (const key of keys) {
+      problems.push(...(graph.unresolved.get(key) || []));
+      const declared = graph.dependencies.get(key);
+      if (!declared) {
+        continue;
+      }
+      for (const required of declared.requires) {
+        if (members.has(required)) {
+          continue;
+        }
+        const state = await stateOf(required);
+        if (state !== 'applied') {
+          problems.push(
+            `'${key}' requires '${required}', which is not applied (status: ${state}).`,
+          );
+        }
+      }
+    }
+    // Conflicts are symmetric: a declaration on either side counts.
+    const reported = new Set<string>();
+    for (const [declaring, declared] of graph.dependencies) {
+      for (const other of declared.conflicts) {
+        const pair = [declaring, other].sort().join('\n');
+        if (reported.has(pair)) {
+          continue;
+        }
+        const declaringIn = members.has(declaring);
+        const otherIn = members.has(other);
+        if (declaringIn && otherIn) {
+          reported.add(pair);
+          problems.push(
+            `'${declaring}' conflicts with '${other}'; they cannot be added together.`,
+          );
+        } else if (declaringIn || otherIn) {
+          const outside = declaringIn ? other : declaring;
+          const inside = declaringIn ? declaring : other;
+          if ((await stateOf(outside)) === 'applied') {
+            reported.add(pair);
+            problems.push(
+              `'${inside}' conflicts with '${outside}', which is currently applied.`,
+            );
+          }
+        }
+      }
+    }
+  } else {
+    for (const [dependent, declared] of graph.dependencies) {
+      if (members.has(dependent)) {
+        continue;
+      }
+      for (const required of declared.requires.filter((r) => members.has(r))) {
+        if ((await stateOf(dependent)) === 'applied') {
+          problems.push(
+            `'${dependent}' requires '${required}' and is currently applied; remove it first.`,
+          );
+        }
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    const message = `CRITICAL ERROR: Cannot ${isReverse ? 'remove' : 'add'} ${patchNames.length === 1 ? `'${keys[0]}'` : `${patchNames.length} patches`}: declared dependencies are not satisfied.`;
+    console.error(message);
+    problems.forEach((problem) => console.error(`  - ${problem}`));
+    console.error('  No files were modified.');
+    throw new TayloredError('DEPENDENCY_ERROR', message, problems);
+  }
+
+  if (isReverse) {
+    ordered.reverse();
+  }
+  return ordered.map((key) => keyToName.get(key)!);
+}
@@ -0,0 +1,829 @@
+// lib/patch-engine.ts
+// Copyright (c) 2025 tailot@gmail.com
+// SPDX-License-Identifier: MIT
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { PatchAnalyzer, Patch, Hunk } from './PatchAnalyzer';
+import {
+  takeFileSnapshot,
+  restoreFileSnapshot,
+  isSafePatchPath,
+} from './file-snapshot';
+import { applyBinaryHunk, computeGitBlobId } from './binary-patch';
+
+/**
+ * The backends that can apply a .taylored file:
+ * - `git`: shells out to `git apply` (the default; requires Git to be installed).
+ * - `native`: the built-in applier in this module; works in any directory,
+ *   including exported source trees without a `.git` directory.
+ */
+export type PatchEngine = 'git' | 'native';
+
+export const PATCH_ENGINES: PatchEngine[] = ['git', 'native'];
+
+/**
+ * The outcome of applying a patch to one file.
+ */
+export interface PatchedFile {
+  /** Path relative to the directory the patch was applied in. */
+  path: string;
+  /** The new content, or null if the patch deletes the file. */
+  content: Buffer | null;
+  /** Permission bits to set on the file (e.g. 0o755), if the patch specifies them. */
+  mode?: number;
+}
+
+/**
+ * Thrown by the native engine when a patch does not apply. `failures` holds one
+ * message per file that could not be patched, in the style of `git apply`.
+ */
+export class PatchApplyError extends Error {
+  /** One message per file that could not be patched. */
+  failures: string[];
+
+  /**
+   * Constructs a PatchApplyError.
+   * @param {string[]} failures - The per-file failure messages.
+   */
+  constructor(failures: string[]) {
+    super(`Patch does not apply: ${failures.join('; ')}`);
+    this.name = 'PatchApplyError';
+    this.failures = failures;
+  }
+}
+
+export interface NativeApplyOptions {
+  /** Apply the patch in reverse (like `git apply --reverse`). */
+  isReverse?: boolean;
+  /** Fix whitespace errors in added lines (like `git apply --whitespace=fix`). */
+  fixWhitespace?: boolean;
+  /**
+   * Contents to use instead of the files under `baseDir`, keyed by relative
+   * path (null: the file is absent). Lets several patches be chained in memory.
+   */
+  overlay?: Map<string, Buffer | null>;
+}
+
+/**
+ * Resolves a path named in a patch against the patched directory, refusing
+ * paths that would leave it (see `isSafePatchPath`), as `git apply` does.
+ *
+ * @param {string} baseDir - The patched directory.
+ * @param {string} relativePath - A path from `getSectionPaths`.
+ * @returns {string} The absolute path, inside `baseDir`.
+ * @throws {PatchApplyError} If the path is absolute, has a `..` component or
+ *         otherwise resolves outside `baseDir`.
+ */
+export function resolvePatchPath(
+  baseDir: string,
+  relativePath: string,
+): string {
+  if (!isInsideDirectory(baseDir, relativePath)) {
+    throw new PatchApplyError([`invalid path '${relativePath}'`]);
+  }
+  return path.resolve(baseDir, relativePath);
+}
+
+function isInsideDirectory(baseDir: string, relativePath: string): boolean {
+  if (!isSafePatchPath(relativePath)) {
+    return false;
+  }
+  const root = path.resolve(baseDir);
+  const inside = path.relative(root, path.resolve(root, relativePath));
+  return (
+    inside !== '' &&
+    inside.split(path.sep)[0] !== '..' &&
+    !path.isAbsolute(inside)
+  );
+}
+
+/** A line of a file or hunk, including its "\n" terminator (absent on an unterminated last line). */
+type Line = string;
+
+// Git's default tab width, used when fixing spaces before tabs in indentation.
+const TAB_WIDTH = 8;
+
+/**
+ * Computes the result of applying a patch to the files under `baseDir`,
+ * without writing anything. The semantics follow `git apply` with its default
+ * settings: hunks must match their context exactly (no fuzz), a hunk may be
+ * found at an offset from its recorded position, hunks starting at line 1 must
+ * match at the beginning of the file and hunks without trailing context must
+ * match at its end. New files must not exist, deleted files must be emptied
+ * exactly by the patch, and renames and mode changes from `diff --git` headers
+ * are honoured. Paths that would leave `baseDir` are refused (see
+ * `resolvePatchPath`).
+ *
+ * File contents are handled as bytes (latin1), so any encoding round-trips
+ * unchanged.
+ *
+ * @param {string | Buffer} patchContent - The content of a .taylored file.
+ * @param {string} baseDir - The directory the paths in the patch are relative to.
+ * @param {NativeApplyOptions} [options={}] - Direction, whitespace handling and overlay.
+ * @returns {PatchedFile[]} The files that change, in the order they appear in the patch.
+ * @throws {PatchApplyError} If any file cannot be patched. Nothing is written either way.
+ */
+export function computePatchedFiles(
+  patchContent: string | Buffer,
+  baseDir: string,
+  options: NativeApplyOptions = {},
+): PatchedFile[] {
+  const sections = parsePatchSections(patchContent, options.isReverse);
+
+  // Current content of every file touched so far (null = absent), so that
+  // several sections of one patch can touch the same file.
+  const images = new Map<string, Line[] | null>();
+  const modes = new Map<string, number>();
+  const order: string[] = [];
+  const failures: string[] = [];
+
+  const readImage = (relativePath: string): Line[] | null => {
+    if (!images.has(relativePath)) {
+      const absolutePath = resolvePatchPath(baseDir, relativePath);
+      let content: Buffer | null = null;
+      if (options.overlay && options.overlay.has(relativePath)) {
+        content = options.overlay.get(relativePath)!;
+      } else if (fs.existsSync(absolutePath)) {
+        content = fs.readFileSync(absolutePath);
+      }
+      images.set(
+        relativePath,
+        content === null ? null : splitLines(content.toString('latin1')),
+      );
+    }
+    return images.get(relativePath)!;
+  };
+  const touch = (relativePath: string) => {
+    if (!order.includes(relativePath)) {
+      order.push(relativePath);
+    }
+  };
+
+  for (const section of sections) {
+    const { oldPath, newPath } = getSectionPaths(section);
+    const displayPath = newPath ?? oldPath ?? '(unknown)';
+    const invalidPath = [oldPath, newPath].find(
+      (sectionPath) =>
+        sectionPath !== null && !isInsideDirectory(baseDir, sectionPath),
+    );
+    if (invalidPath !== undefined) {
+      failures.push(`invalid path '${invalidPath}'`);
+      continue;
+    }
+
+    let image: Line[];
+    if (oldPath === null) {
+      if (newPath !== null && readImage(newPath) !== null) {
+        failures.push(`${newPath}: already exists in working directory`);
+        continue;
+      }
+      image = [];
+    } else {
+      const current = readImage(oldPath);
+      if (current === null) {
+        failures.push(`${oldPath}: No such file or directory`);
+        continue;
+      }
+      image = [...current];
+    }
+    if (
+      newPath !== null &&
+      oldPath !== null &&
+      newPath !== oldPath &&
+      readImage(newPath) !== null
+    ) {
+      failures.push(`${newPath}: already exists in working directory`);
+      continue;
+    }
+
+    if (section.isBinary) {
+      const failure = applyBinarySection(image, section, displayPath);
+      if (failure !== null) {
+        failures.push(failure);
+        continue;
+      }
+    } else {
+      const corruptHunk = section.hunks.find(
+        (hunk) => !hunkMatchesHeader(hunk),
+      );
+      if (corruptHunk) {
+        failures.push(
+          `corrupt patch for ${displayPath}: hunk at line ${corruptHunk.oldStart} does not match its header's line counts`,
+        );
+        continue;
+      }
+
+      const failure = applyHunks(image, section.hunks, options.fixWhitespace);
+      if (failure !== null) {
+        failures.push(`patch failed: ${oldPath ?? newPath}:${failure}`);
+        continue;
+      }
+    }
+
+    if (newPath === null) {
+      if (image.length > 0) {
+        failures.push(`${oldPath}: removal patch leaves file contents`);
+        continue;
+      }
+      images.set(oldPath!, null);
+      touch(oldPath!);
+      continue;
+    }
+    if (oldPath !== null && oldPath !== newPath) {
+      images.set(oldPath, null);
+      touch(oldPath);
+    }
+    images.set(newPath, image);
+    touch(newPath);
+    if (section.newMode) {
+      modes.set(newPath, parseInt(section.newMode, 8) & 0o777);
+    }
+  }
+
+  if (failures.length > 0) {
+    throw new PatchApplyError(failures);
+  }
+  return order.map((relativePath) => {
+    const image = images.get(relativePath)!;
+    return {
+      path: relativePath,
+      content: image === null ? null : Buffer.from(image.join(''), 'latin1'),
+      mode: modes.get(relativePath),
+    };
+  });
+}
+
+/**
+ * Parses a patch for the native engine. The content is decoded as latin1 so
+ * that file bytes round-trip unchanged; with `isReverse`, every section is
+ * turned into the section that undoes it.
+ *
+ * @param {string | Buffer} patchContent - The content of a .taylored file.
+ * @param {boolean} [isReverse=false] - Whether the patch is being removed.
+ * @returns {Patch[]} One parsed section per file.
+ */
+export function parsePatchSections(
+  patchContent: string | Buffer,
+  isReverse: boolean = false,
+): Patch[] {
+  const text =
+    typeof patchContent === 'string'
+      ? Buffer.from(patchContent, 'utf8').toString('latin1')
+      : patchContent.toString('latin1');
+  const sections = new PatchAnalyzer().parsePatch(text);
+  return isReverse ? sections.map(reverseSection) : sections;
+}
+
+/**
+ * Returns the file a section reads (`oldPath`) and the file it writes
+ * (`newPath`), relative to the patched directory. Either is null when the
+ * section creates or deletes the file.
+ */
+export function getSectionPaths(section: Patch): {
+  oldPath: string | null;
+  newPath: string | null;
+} {
+  return {
+    oldPath:
+      section.renameFrom !== undefined
+        ? unquotePath(section.renameFrom)
+        : stripPathPrefix(section.oldFile),
+    newPath:
+      section.renameTo !== undefined
+        ? unquotePath(section.renameTo)
+        : stripPathPrefix(section.newFile),
+  };
+}
+
+/**
+ * Applies the hunks of one section (from `parsePatchSections`) to a file's
+ * content, given as latin1 text.
+ *
+ * @returns The new content, or null if the section is corrupt or a hunk does not apply.
+ */
+export function applySectionHunks(
+  content: string,
+  section: Patch,
+  fixWhitespace: boolean = false,
+): string | null {
+  if (!section.hunks.every(hunkMatchesHeader)) {
+    return null;
+  }
+  const image = splitLines(content);
+  return applyHunks(image, section.hunks, fixWhitespace) === null
+    ? image.join('')
+    : null;
+}
+
+/**
+ * Summary of the change a patch makes to one file.
+ */
+export interface PatchFileSummary {
+  path: string;
+  /** The original path, for renames. */
+  oldPath?: string;
+  status: 'added' | 'deleted' | 'modified' | 'renamed';
+  hunks: number;
+  additions: number;
+  deletions: number;
+  binary: boolean;
+}
+
+/**
+ * Lists the files a patch changes, with hunk and line statistics, in the
+ * direction given by `isReverse`. Nothing is read besides the patch.
+ *
+ * @param {string | Buffer} patchContent - The content of a .taylored file.
+ * @param {boolean} [isReverse=false] - Describe the removal of the patch.
+ * @returns {PatchFileSummary[]} One entry per file, in patch order.
+ */
+export function describePatchFiles(
+  patchContent: string | Buffer,
+  isReverse: boolean = false,
+): PatchFileSummary[] {
+  // Section paths are latin1, like the contents; report them as UTF-8.
+  const display = (p: string) => Buffer.from(p, 'latin1').toString('utf8');
+  return parsePatchSections(patchContent, isReverse).map((section) => {
+    const { oldPath, newPath } = getSectionPaths(section);
+    const changes = section.hunks.flatMap((hunk) => hunk.changes);
+    const summary: PatchFileSummary = {
+      path: display((newPath ?? oldPath)!),
+      status:
+        oldPath === null
+          ? 'added'
+          : newPath === null
+            ? 'deleted'
+            : oldPath !== newPath
+              ? 'renamed'
+              : 'modified',
+      hunks: section.hunks.length,
+      additions: changes.filter((c) => c.type === '+').length,
+      deletions: changes.filter((c) => c.type === '-').length,
+      binary: Boolean(section.isBinary),
+    };
+    if (summary.status === 'renamed') {
+      summary.oldPath = display(oldPath!);
+    }
+    return summary;
+  });
+}
+
+/**
+ * Writes the result of `computePatchedFiles` to disk. Each file is written to
+ * a temporary file and renamed into place; if anything fails, the files
+ * written so far are restored, so the directory is either fully patched or
+ * left unchanged. Directories emptied by deletions are removed, as `git apply`
+ * does.
+ *
+ * @async
+ * @param {PatchedFile[]} files - The files to write or delete.
+ * @param {string} baseDir - The directory the paths are relative to.
+ * @returns {Promise<void>}
+ * @throws {PatchApplyError} If a path would leave `baseDir`; nothing is written then.
+ */
+export async function writePatchedFiles(
+  files: PatchedFile[],
+  baseDir: string,
+): Promise<void> {
+  // Throws before anything is written if a path would leave baseDir.
+  files.forEach((file) => resolvePatchPath(baseDir, file.path));
+  const snapshot = await takeFileSnapshot(
+    files.map((f) => f.path),
+    baseDir,
+  );
+  try {
+    for (const file of files) {
+      const absolutePath = resolvePatchPath(baseDir, file.path);
+      if (file.content === null) {
+        await fs.promises.rm(absolutePath, { force: true });
+        await removeEmptyParents(path.dirname(absolutePath), baseDir);
+        continue;
+      }
+      await fs.promises.mkdir(path.dirname(absolutePath), { recursive: true });
+      const tempPath = `${absolutePath}.taylored-tmp-${process.pid}`;
+      await fs.promises.writeFile(tempPath, file.content);
+      if (file.mode !== undefined) {
+        await fs.promises.chmod(tempPath, file.mode);
+      } else {
+        try {
+          const stats = await fs.promises.stat(absolutePath);
+          await fs.promises.chmod(tempPath, stats.mode & 0o777);
+        } catch (error: any) {
+          if (error.code !== 'ENOENT') {
+            throw error;
+          }
+        }
+      }
+      await fs.promises.rename(tempPath, absolutePath);
+    }
+  } catch (error: any) {
+    await restoreFileSnapshot(snapshot);
+    throw error;
+  }
+}
+
+/**
+ * Applies, reverts or checks a .taylored file with the native engine.
+ *
+ * @async
+ * @param {string} patchFilePath - Absolute path of the .taylored file.
+ * @param {string} baseDir - The directory to patch.
+ * @param {boolean} isVerify - If true, only checks that the patch applies.
+ * @param {boolean} isReverse - If true, reverts the patch.
+ * @returns {Promise<PatchedFile[]>} The files that were (or, when verifying, would be) changed.
+ * @throws {PatchApplyError} If the patch does not apply. No file is modified in that case.
+ */
+export async function applyPatchNatively(
+  patchFilePath: string,
+  baseDir: string,
+  isVerify: boolean,
+  isReverse: boolean,
+): Promise<PatchedFile[]> {
+  const patchContent = await fs.promises.readFile(patchFilePath);
+  const files = computePatchedFiles(patchContent, baseDir, {
+    isReverse,
+    // Mirrors the git backend, which uses --whitespace=fix only when applying.
+    fixWhitespace: !isVerify,
+  });
+  if (!isVerify) {
+    await writePatchedFiles(files, baseDir);
+  }
+  return files;
+}
+
+/**
+ * Splits file content into lines that keep their "\n" terminators.
+ */
+function splitLines(content: string): Line[] {
+  return content.match(/[^\n]*\n|[^\n]+$/g) || [];
+}
+
+/**
+ * Turns a path from a "---"/"+++" header into a path relative to the patched
+ * directory: drops a trailing timestamp and strips the first path component
+ * ("a/", "b/"), like `git apply -p1`.
+ *
+ * @returns The path, or null for /dev/null.
+ */
+function stripPathPrefix(headerPath: string | null): string | null {
+  if (headerPath === null) {
+    return null;
+  }
+  const name = unquotePath(headerPath.split('\t')[0]);
+  if (name === null) {
+    return null;
+  }
+  const slash = name.indexOf('/');
+  return slash === -1 ? name : name.substring(slash + 1);
+}
+
+/**
+ * Decodes a path as written in a patch (latin1 text): C-style quoted names are
+ * unquoted and the bytes are decoded as UTF-8 for use with the file system.
+ *
+ * @returns The path, or null for /dev/null.
+ */
+function unquotePath(name: string): string | null {
+  if (name.startsWith('"') && name.endsWith('"')) {
+    name = name
+      .slice(1, -1)
+      .replace(/\\([0-7]{3}|.)/g, (_, escaped: string) => {
+        if (escaped.length === 3) {
+          return String.fromCharCode(parseInt(escaped, 8));
+        }
+        const named: { [key: string]: string } = { t: '\t', n: '\n', r: '\r' };
+        return named[escaped] ?? escaped;
+      });
+  }
+  if (name === '/dev/null') {
+    return null;
+  }
+  return Buffer.from(name, 'latin1').toString('utf8');
+}
+
+/**
+ * Returns a copy of a parsed section that undoes it: paths, modes and line
+ * counts are swapped and additions become deletions.
+ */
+function reverseSection(section: Patch): Patch {
+  return {
+    ...section,
+    oldFile: section.newFile ?? '/dev/null',
+    newFile: section.oldFile,
+    isNewFile: section.isDeletedFile,
+    isDeletedFile: section.isNewFile,
+    oldMode: section.newMode,
+    newMode: section.oldMode,
+    oldBlob: section.newBlob,
+    newBlob: section.oldBlob,
+    renameFrom: section.renameTo,
+    renameTo: section.renameFrom,
+    // The reverse hunk of a binary patch follows its forward hunk.
+    binaryHunks: section.binaryHunks && section.binaryHunks.slice(1, 2),
+    hunks: section.hunks.map((hunk) => ({
+      ...hunk,
+      oldStart: hunk.newStart,
+      oldCount: hunk.newCount,
+      newStart: hunk.oldStart,
+      newCount: hunk.oldCount,
+      changes: hunk.changes.map((change) => ({
+        ...change,
+        type:
+          change.type === '+' ? '-' : change.type === '-' ? '+' : change.type,
+      })),
+    })),
+  };
+}
+
+/**
+ * Applies a "GIT binary patch" section to `image`, in place, with the checks
+ * of `git apply`: the file must be the blob the patch was made from, and the
+ * result must be the blob it records.
+ *
+ * @returns null on success, or the reason the section does not apply.
+ */
+function applyBinarySection(
+  image: Line[],
+  section: Patch,
+  displayPath: string,
+): string | null {
+  const [hunk] = section.binaryHunks || [];
+  if (!hunk) {
+    return section.binaryHunks && section.binaryHunks.length === 0
+      ? `cannot reverse-apply a binary patch without the reverse hunk to '${displayPath}'`
+      : `cannot apply binary patch to '${displayPath}' without full index line`;
+  }
+  const original = Buffer.from(image.join(''), 'latin1');
+  const isFullId = (id: string | undefined) =>
+    id !== undefined && (id.length === 40 || id.length === 64);
+  if (
+    isFullId(section.oldBlob) &&
+    !/^0+$/.test(section.oldBlob!) &&
+    computeGitBlobId(original, section.oldBlob!.length) !== section.oldBlob
+  ) {
+    return `the patch applies to '${displayPath}' (${section.oldBlob}), which does not match the current contents.`;
+  }
+  let result: Buffer;
+  try {
+    result = applyBinaryHunk(hunk, original);
+  } catch (error: any) {
+    return `corrupt binary patch for ${displayPath}: ${error.message}`;
+  }
+  if (isFullId(section.newBlob) && !/^0+$/.test(section.newBlob!)) {
+    const resultId = computeGitBlobId(result, section.newBlob!.length);
+    if (resultId !== section.newBlob) {
+      return `binary patch to '${displayPath}' creates incorrect result (expecting ${section.newBlob}, got ${resultId})`;
+    }
+  }
+  image.length = 0;
+  splitLines(result.toString('latin1')).forEach((line) => image.push(line));
+  return null;
+}
+
+/**
+ * True if a hunk contains as many old and new lines as its header declares.
+ */
+function hunkMatchesHeader(hunk: Hunk): boolean {
+  const oldLines = hunk.changes.filter((c) => c.type !== '+').length;
+  const newLines = hunk.changes.filter((c) => c.type !== '-').length;
+  return oldLines === hunk.oldCount && newLines === hunk.newCount;
+}
+
+/**
+ * Applies the hunks of one file section to `image`, in place.
+ *
+ * @returns null on success, or the old-file line number of the first hunk that
+ *          does not apply.
+ */
+function applyHunks(
+  image: Line[],
+  hunks: Hunk[],
+  fixWhitespace: boolean = false,
+): number | null {
+  for (const hunk of hunks) {
+    const preimage: Line[] = [];
+    const postimage: Line[] = [];
+    // For each postimage line, the index of the preimage line it repeats
+    // (context lines), or -1 for added lines.
+    const postSource: number[] = [];
+    let leading = 0;
+    let trailing = 0;
+    let seenChange = false;
+    let blankLinesAtEnd = 0;
+
+    for (const change of hunk.changes) {
+      const line = change.content + (change.noNewline ? '' : '\n');
+      if (change.type === ' ') {
+        postSource.push(preimage.length);
+        preimage.push(line);
+        postimage.push(line);
+        if (seenChange) {
+          trailing++;
+        } else {
+          leading++;
+        }
+        if (!isBlank(line)) {
+          blankLinesAtEnd = 0;
+        }
+      } else if (change.type === '-') {
+        preimage.push(line);
+        seenChange = true;
+        trailing = 0;
+        blankLinesAtEnd = 0;
+      } else if (change.type === '+') {
+        const added = fixWhitespace ? fixWhitespaceErrors(line) : line;
+        postSource.push(-1);
+        postimage.push(added);
+        seenChange = true;
+        trailing = 0;
+        blankLinesAtEnd = isBlank(added) ? blankLinesAtEnd + 1 : 0;
+      }
+    }
+
+    const matchBeginning = hunk.oldStart === 0 || hunk.oldStart === 1;
+    const matchEnd = trailing === 0;
+    const start = hunk.newStart > 0 ? hunk.newStart - 1 : 0;
+
+    const match = findPosition(
+      image,
+      preimage,
+      start,
+      matchBeginning,
+      matchEnd,
+      fixWhitespace,
+    );
+    if (match === null) {
+      return hunk.oldStart;
+    }
+    const position = match.position;
+    let replacement = postimage;
+    if (match.fuzzy) {
+      // Matched only after fixing whitespace: like git, context lines keep the
+      // text actually found in the file (blank lines past its end are dropped).
+      replacement = postimage.flatMap((line, i) => {
+        if (postSource[i] === -1) return [line];
+        return postSource[i] < match.length
+          ? [image[position + postSource[i]]]
+          : [];
+      });
+    }
+
+    if (
+      fixWhitespace &&
+      blankLinesAtEnd > 0 &&
+      position + match.length >= image.length
+    ) {
+      // Blank lines added at the end of the file are dropped by --whitespace=fix.
+      replacement = replacement.slice(0, replacement.length - blankLinesAtEnd);
+    }
+    image.splice(position, match.length, ...replacement);
+  }
+  return null;
+}
+
+/**
+ * Finds where `preimage` occurs in `image`, searching outwards from `start`
+ * alternately forwards and backwards, as `git apply` does.
+ *
+ * With `fixWhitespace`, a position where the lines only match after fixing
+ * whitespace errors is accepted too (`fuzzy`), and at the end of the file the
+ * preimage may extend past the last line if the extra lines are blank. In
+ * that case `length` is the number of image lines actually matched.
+ *
+ * @returns The match, or null if there is no acceptable position.
+ */
+function findPosition(
+  image: Line[],
+  preimage: Line[],
+  start: number,
+  matchBeginning: boolean,
+  matchEnd: boolean,
+  fixWhitespace: boolean,
+): { position: number; length: number; fuzzy: boolean } | null {
+  let line = start;
+  if (matchBeginning) {
+    line = 0;
+  } else if (matchEnd) {
+    line = image.length - preimage.length;
+  }
+  if (line < 0 || line > image.length) {
+    line = image.length;
+  }
+
+  const matchAt = (at: number) => {
+    let length = preimage.length;
+    if (at + preimage.length <= image.length) {
+      if (matchEnd && at + preimage.length !== image.length) return null;
+    } else if (fixWhitespace) {
+      length = image.length - at;
+    } else {
+      return null;
+    }
+    if (matchBeginning && at !== 0) return null;
+
+    if (
+      length === preimage.length &&
+      preimage.every((l, i) => l === image[at + i])
+    ) {
+      return { position: at, length, fuzzy: false };
+    }
+    if (!fixWhitespace) return null;
+    for (let i = 0; i < preimage.length; i++) {
+      const matches =
+        i < length
+          ? fixWhitespaceErrors(preimage[i]) ===
+            fixWhitespaceErrors(image[at + i])
+          : isBlank(preimage[i]);
+      if (!matches) return null;
+    }
+    return { position: at, length, fuzzy: true };
+  };
+
+  let backwards = line;
+  let forwards = line;
+  let candidate = line;
+  for (let i = 0; ; i++) {
+    const match = matchAt(candidate);
+    if (match) {
+      return match;
+    }
+    // Alternate between the next line below and the next line above the start.
+    for (;;) {
+      if (backwards === 0 && forwards === image.length) {
+        return null;
+      }
+      if (i & 1) {
+        if (backwards === 0) {
+          i++;
+          continue;
+        }
+        candidate = --backwards;
+      } else {
+        if (forwards === image.length) {
+          i++;
+          continue;
+        }
+        candidate = ++forwards;
+      }
+      break;
+    }
+  }
+}
+
+/**
+ * Fixes the whitespace errors `git apply --whitespace=fix` corrects with Git's
+ * default `core.whitespace` rules: trailing whitespace (including a carriage
+ * return before the newline) and spaces before a tab in the indentation.
+ */
+function fixWhitespaceErrors(line: Line): Line {
+  const hasNewline = line.endsWith('\n');
+  let body = hasNewline ? line.slice(0, -1) : line;
+  body = body.replace(/[ \t\r]+$/, '');
+
+  const indent = body.match(/^[ \t]*/)![0];
+  const lastTab = indent.lastIndexOf('\t');
+  if (lastTab > 0 && indent.substring(0, lastTab).includes(' ')) {
+    let fixed = '';
+    let spaces = 0;
+    for (const ch of indent.substring(0, lastTab + 1)) {
+      if (ch !== ' ') {
+        spaces = 0;
+        fixed += ch;
+      } else if (++spaces === TAB_WIDTH) {
+        fixed += '\t';
+        spaces = 0;
+      }
+    }
+    fixed += ' '.repeat(spaces);
+    body = fixed + body.substring(lastTab + 1);
+  }
+  return hasNewline ? body + '\n' : body;
+}
+
+/**
+ * True if the line consists of whitespace only.
+ */
+function isBlank(line: Line): boolean {
+  return /^[ \t\r\n]*$/.test(line);
+}
+
+/**
+ * Removes `directory` and its parents, up to (not including) `baseDir`, as
+ * long as they are empty.
+ */
+async function removeEmptyParents(
+  directory: string,
+  baseDir: string,
+): Promise<void> {
+  const root = path.resolve(baseDir);
+  let current = path.resolve(directory);
+  while (current !== root && current.startsWith(root + path.sep)) {
+    try {
+      await fs.promises.rmdir(current);
+    } catch (error: any) {
+      return;
+    }
+    current = path.dirname(current);
+  }
+}
@@ -0,0 +1,184 @@
+// lib/patch-metadata.ts
+// Copyright (c) 2025 tailot@gmail.com
+// SPDX-License-Identifier: MIT
+
+/**
+ * The metadata of a patch, stored in the preamble of its .taylored file: the
+ * lines before the first `diff --git`, `---` or `@@` line. `git apply` and the
+ * native engine ignore that text, so metadata does not affect how the patch is
+ * applied.
+ *
+ * The preamble is a list of `Key: value` fields, for example:
+ *
+ *   Title: Dark mode
+ *   Description: Adds a dark theme.
+ *    .
+ *    The theme follows the system setting.
+ *   Author: Jane Doe <jane@example.com>
+ *   Version: 1.2.0
+ *   Tags: ui, theme
+ *   Target-Version: >=2.0.0
+ *   Requires: 1-base
+ *
+ * Lines starting with a space continue the previous field (a line containing
+ * only " ." is an empty line). Keys are case-insensitive; `Subject:` (as
+ * written by `git format-patch`, without its "[PATCH]" prefix) is read as the
+ * title and `From:` as the author. Other lines are ignored.
+ */
+export interface PatchMetadata {
+  title?: string;
+  description?: string;
+  author?: string;
+  version?: string;
+  tags?: string[];
+  /** The versions of the project the patch is meant for, e.g. ">=2.0.0". */
+  targetVersion?: string;
+  /** Patches that must be applied first (see lib/patch-dependencies.ts). */
+  requires?: string[];
+  /** Patches that must not be applied at the same time. */
+  conflicts?: string[];
+}
+
+// The key written for each field, in the order they are written.
+const FIELD_KEYS: { [field in keyof Required<PatchMetadata>]: string } = {
+  title: 'Title',
+  description: 'Description',
+  author: 'Author',
+  version: 'Version',
+  tags: 'Tags',
+  targetVersion: 'Target-Version',
+  requires: 'Requires',
+  conflicts: 'Conflicts',
+};
+
+// The field read for each key (lower case), including aliases.
+const KEY_FIELDS: { [key: string]: keyof PatchMetadata } = {
+  ...Object.fromEntries(
+    Object.entries(FIELD_KEYS).map(([field, key]) => [
+      key.toLowerCase(),
+      field as keyof PatchMetadata,
+    ]),
+  ),
+  subject: 'title',
+  from: 'author',
+};
+
+const LIST_FIELDS: (keyof PatchMetadata)[] = ['tags', 'requires', 'conflicts'];
+
+// The first line of the patch itself.
+const DIFF_START = /^(diff --git |--- |@@ )/;
+
+/**
+ * Splits the content of a patch into its preamble and the diff that follows.
+ *
+ * @param {string} patchContent - The content of a .taylored file.
+ * @returns {{ preamble: string; body: string }} The text before the first
+ *          `diff --git`, `---` or `@@` line, and the rest.
+ */
+export function splitPatchPreamble(patchContent: string): {
+  preamble: string;
+  body: string;
+} {
+  const match = DIFF_START.exec(patchContent)
+    ? { index: 0 }
+    : /\n(diff --git |--- |@@ )/.exec(patchContent);
+  if (!match) {
+    return { preamble: patchContent, body: '' };
+  }
+  const index = match.index === 0 ? 0 : match.index + 1;
+  return {
+    preamble: patchContent.substring(0, index),
+    body: patchContent.substring(index),
+  };
+}
+
+/**
+ * Reads the metadata from the preamble of a patch.
+ *
+ * @param {string} patchContent - The content of a .taylored file.
+ * @returns {PatchMetadata} The fields present in the preamble. `tags`,
+ *          `requires` and `conflicts` are split on commas and whitespace
+ *          (`tags` on commas only), and accumulate when repeated.
+ */
+export function parsePatchMetadata(patchContent: string): PatchMetadata {
+  const metadata: PatchMetadata = {};
+  // Raw values, before continuation lines are joined and lists are split.
+  const values: { [field: string]: string[] } = {};
+  let current: string[] | null = null;
+  for (const line of splitPatchPreamble(patchContent).preamble.split('\n')) {
+    const field = line.match(/^([A-Za-z][\w-]*)\s*:\s?(.*)$/);
+    if (field) {
+      const name = KEY_FIELDS[field[1].toLowerCase()];
+      current = null;
+      if (name) {
+        let value = field[2].trimEnd();
+        if (name === 'title') {
+          value = value.replace(/^\[PATCH(?:\s+\d+\/\d+)?\]\s*/, '');
+        }
+        // Lists accumulate over repeated fields; other fields are replaced.
+        current = LIST_FIELDS.includes(name) ? values[name] || [] : [];
+        current.push(value);
+        values[name] = current;
+      }
+    } else if (current && /^[ \t]/.test(line)) {
+      const continuation = line.trim();
+      current.push(continuation === '.' ? '' : continuation);
+    } else {
+      current = null;
+    }
+  }
+
+  for (const [name, lines] of Object.entries(values)) {
+    const field = name as keyof PatchMetadata;
+    if (LIST_FIELDS.includes(field)) {
+      const separator = field === 'tags' ? /\s*,\s*/ : /[\s,]+/;
+      (metadata[field] as string[]) = lines
+        .flatMap((value) => value.split(separator))
+        .map((value) => value.trim())
+        .filter((value) => value !== '');
+    } else if (lines.join('').trim() !== '') {
+      (metadata[field] as string) = lines.join('\n').trim();
+    }
+  }
+  return metadata;
+}
+
+/**
+ * Writes metadata as a preamble, in the format read by `parsePatchMetadata`.
+ *
+ * @param {PatchMetadata} metadata - The fields to write; empty ones are skipped.
+ * @returns {string} The preamble, followed by an empty line; or an empty string
+ *                   if there is nothing to write.
+ */
+export function formatPatchMetadata(metadata: PatchMetadata): string {
+  const lines: string[] = [];
+  for (const [field, key] of Object.entries(FIELD_KEYS)) {
+    const value = metadata[field as keyof PatchMetadata];
+    if (value === undefined || value.length === 0) {
+      continue;
+    }
+    const text = Array.isArray(value)
+      ? value.join(field === 'tags' ? ', ' : ' ')
+      : value;
+    const [first, ...rest] = text.split('\n');
+    lines.push(`${key}: ${first}`);
+    rest.forEach((line) => lines.push(line.trim() === '' ? ' .' : ` ${line}`));
+  }
+  return lines.length > 0 ? `${lines.join('\n')}\n\n` : '';
+}
+
+/**
+ * Replaces the preamble of a patch with the given metadata. Used wherever a
+ * patch is rewritten (`--save`, `--offset`, `--upgrade`), so that its metadata
+ * survives.
+ *
+ * @param {string} patchContent - A patch, with or without a preamble.
+ * @param {PatchMetadata} metadata - The metadata to write.
+ * @returns {string} The diff of `patchContent`, preceded by the metadata.
+ */
+export function withPatchMetadata(
+  patchContent: string,
+  metadata: PatchMetadata,
+): string {
+  return formatPatchMetadata(metadata) + splitPatchPreamble(patchContent).body;
+}
@@ -0,0 +1,290 @@
+// lib/patch-overlaps.ts
+// Copyright (c) 2025 tailot@gmail.com
+// SPDX-License-Identifier: MIT
+
+import {
+  computePatchedFiles,
+  getSectionPaths,
+  parsePatchSections,
+  PatchApplyError,
+} from './patch-engine';
+
+/**
+ * A range of lines of the original file, 1-based and inclusive.
+ */
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Two hunks, one from each patch of a pair, covering common lines of a file.
+ */
+export interface HunkOverlap {
+  file: string;
+  /** The lines covered by the hunk of the first patch, context included. */
+  first: LineRange;
+  /** The lines covered by the hunk of the second patch, context included. */
+  second: LineRange;
+  /**
+   * True if only context lines are shared: the lines each hunk changes are
+   * distinct, but one hunk changes the context the other one needs.
+   */
+  contextOnly: boolean;
+}
+
+/**
+ * How two patches combine:
+ * - `independent`: they touch different files and apply in either order.
+ * - `safe`: they touch common files, but apply in either order.
+ * - `order-dependent`: they apply in one order only.
+ * - `conflict`: they cannot be applied together in either order.
+ * - `unknown`: one of them can be neither applied nor removed on the working
+ *   tree, so the combination cannot be tested.
+ */
+export type PairVerdict =
+  | 'independent'
+  | 'safe'
+  | 'order-dependent'
+  | 'conflict'
+  | 'unknown';
+
+/**
+ * The analysis of one pair of patches.
+ */
+export interface PatchPairAnalysis {
+  first: string;
+  second: string;
+  /** Files changed by both patches. */
+  sharedFiles: string[];
+  overlaps: HunkOverlap[];
+  /** Whether `first` then `second` applies; null if it could not be tested. */
+  firstThenSecond: boolean | null;
+  /** Whether `second` then `first` applies; null if it could not be tested. */
+  secondThenFirst: boolean | null;
+  verdict: PairVerdict;
+  /** Human-readable explanations of the verdict. */
+  reasons: string[];
+}
+
+/**
+ * The result of `analyzePatchOverlaps`.
+ */
+export interface OverlapMatrix {
+  /** The patches analyzed, in the order of the matrix. */
+  patches: string[];
+  /** One entry per pair, in row-major order of the upper triangle. */
+  pairs: PatchPairAnalysis[];
+}
+
+/**
+ * A patch to analyze: its name (for reports) and content.
+ */
+export interface NamedPatch {
+  name: string;
+  content: Buffer;
+}
+
+type Overlay = Map<string, Buffer | null>;
+
+// The lines a hunk covers, and the lines it changes (an added line counts as
+// changing the line it is inserted before).
+interface HunkRange extends LineRange {
+  changed: LineRange;
+}
+
+function overlapping(a: LineRange, b: LineRange): boolean {
+  return a.start <= b.end && b.start <= a.end;
+}
+
+// The files a patch touches, and the lines of each covered by its hunks.
+function collectHunkRanges(content: Buffer): Map<string, HunkRange[]> {
+  const ranges = new Map<string, HunkRange[]>();
+  for (const section of parsePatchSections(content)) {
+    const { oldPath, newPath } = getSectionPaths(section);
+    const hunkRanges = section.hunks.map((hunk) => {
+      const changedLines: number[] = [];
+      let oldLine = hunk.oldStart;
+      for (const change of hunk.changes) {
+        if (change.type !== ' ') {
+          changedLines.push(oldLine);
+        }
+        if (change.type !== '+') {
+          oldLine++;
+        }
+      }
+      return {
+        start: hunk.oldStart,
+        end: hunk.oldStart + Math.max(hunk.oldCount, 1) - 1,
+        changed: {
+          start: Math.min(...changedLines),
+          end: Math.max(...changedLines),
+        },
+      };
+    });
+    for (const file of new Set([oldPath, newPath])) {
+      if (file !== null) {
+        ranges.set(file, [...(ranges.get(file) || []), ...hunkRanges]);
+      }
+    }
+  }
+  return ranges;
+}
+
+// Applies a patch on top of `overlay`, returning the new overlay, or the
+// reasons it does not apply.
+function applyInMemory(
+  patch: NamedPatch,
+  CWD: string,
+  overlay: Overlay,
+  isReverse: boolean = false,
+): { overlay: Overlay } | { failures: string[] } {
+  try {
+    const result = new Map(overlay);
+    computePatchedFiles(patch.content, CWD, {
+      isReverse,
+      fixWhitespace: true,
+      overlay,
+    }).forEach((file) => result.set(file.path, file.content));
+    return { overlay: result };
+  } catch (error: any) {
+    return {
+      failures:
+        error instanceof PatchApplyError ? error.failures : [error.message],
+    };
+  }
+}
+
+// Applies patches one after the other; reports the first that fails.
+function applySequence(
+  patches: NamedPatch[],
+  CWD: string,
+  overlay: Overlay,
+): string | null {
+  for (const patch of patches) {
+    const outcome = applyInMemory(patch, CWD, overlay);
+    if ('failures' in outcome) {
+      return `'${patch.name}' does not apply after ${patches
+        .slice(0, patches.indexOf(patch))
+        .map((p) => `'${p.name}'`)
+        .join(', ')}: ${outcome.failures.join('; ')}`;
+    }
+    overlay = outcome.overlay;
+  }
+  return null;
+}
+
+/**
+ * Computes, for every pair of patches, which files and lines they both touch,
+ * and whether they can be applied one after the other in each order.
+ *
+ * Line ranges come from the hunk headers (see `PatchAnalyzer`), in the
+ * coordinates of the file each patch was created against. The order tests are
+ * authoritative: they apply the patches in memory with the native engine, on
+ * top of the working tree, and nothing is written. The patches that are
+ * currently applied (they can be removed but not added) are first removed in
+ * memory, so that every pair is tested from a tree where none is applied.
+ *
+ * @param {NamedPatch[]} patches - The patches, in the order of the matrix.
+ * @param {string} CWD - The root of the repository.
+ * @returns {OverlapMatrix} The analysis of every pair.
+ */
+export function analyzePatchOverlaps(
+  patches: NamedPatch[],
+  CWD: string,
+): OverlapMatrix {
+  const ranges = patches.map((patch) => collectHunkRanges(patch.content));
+  const applies = (patch: NamedPatch, overlay: Overlay, isReverse = false) =>
+    !('failures' in applyInMemory(patch, CWD, overlay, isReverse));
+  // Remove the applied patches (those that can be removed but not added) in
+  // memory, last first, to get a tree where none is applied.
+  const removed = new Set<number>();
+  let base: Overlay = new Map();
+  for (let k = patches.length - 1; k >= 0; k--) {
+    if (applies(patches[k], new Map()) || !applies(patches[k], base, true)) {
+      continue;
+    }
+    const outcome = applyInMemory(patches[k], CWD, base, true);
+    if ('overlay' in outcome) {
+      base = outcome.overlay;
+      removed.add(k);
+    }
+  }
+  const testable = patches.map((patch) => applies(patch, base));
+
+  const pairs: PatchPairAnalysis[] = [];
+  for (let i = 0; i < patches.length; i++) {
+    for (let j = i + 1; j < patches.length; j++) {
+      const [first, second] = [patches[i], patches[j]];
+      const sharedFiles = [...ranges[i].keys()].filter((file) =>
+        ranges[j].has(file),
+      );
+      const overlaps: HunkOverlap[] = [];
+      for (const file of sharedFiles) {
+        for (const a of ranges[i].get(file)!) {
+          for (const b of ranges[j].get(file)!) {
+            if (overlapping(a, b)) {
+              overlaps.push({
+                file,
+                first: { start: a.start, end: a.end },
+                second: { start: b.start, end: b.end },
+                contextOnly: !overlapping(a.changed, b.changed),
+              });
+            }
+          }
+        }
+      }
+      const reasons = sharedFiles.map((file) => `both change ${file}`);
+      overlaps.forEach((overlap) =>
+        reasons.push(
+          `hunks overlap in ${overlap.file}: lines ${overlap.first.start}-${overlap.first.end} and ${overlap.second.start}-${overlap.second.end}` +
+            (overlap.contextOnly ? ' (context lines only)' : ''),
+        ),
+      );
+      const analysis: PatchPairAnalysis = {
+        first: first.name,
+        second: second.name,
+        sharedFiles,
+        overlaps,
+        firstThenSecond: null,
+        secondThenFirst: null,
+        verdict: 'unknown',
+        reasons,
+      };
+      pairs.push(analysis);
+
+      const untestable = [i, j].filter((k) => !testable[k]);
+      if (untestable.length > 0) {
+        untestable.forEach((k) =>
+          reasons.push(
+            `'${patches[k].name}' can be neither applied nor removed on the working tree`,
+          ),
+        );
+        continue;
+      }
+      [i, j]
+        .filter((k) => removed.has(k))
+        .forEach((k) =>
+          reasons.push(
+            `'${patches[k].name}' is applied; it was removed in memory for the test`,
+          ),
+        );
+
+      const forward = applySequence([first, second], CWD, base);
+      const backward = applySequence([second, first], CWD, base);
+      analysis.firstThenSecond = forward === null;
+      analysis.secondThenFirst = backward === null;
+      [forward, backward].forEach(
+        (failure) => failure !== null && reasons.push(failure),
+      );
+      if (forward === null && backward === null) {
+        analysis.verdict = sharedFiles.length > 0 ? 'safe' : 'independent';
+      } else if (forward === null || backward === null) {
+        analysis.verdict = 'order-dependent';
+      } else {
+        analysis.verdict = 'conflict';
+      }
+    }
+  }
+  return { patches: patches.map((patch) => patch.name), pairs };
+}
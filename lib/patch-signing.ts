@@ -0,0 +1,282 @@
+// lib/patch-signing.ts
+// Copyright (c) 2025 tailot@gmail.com
+// SPDX-License-Identifier: MIT
+
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { TAYLORED_SIGNATURE_EXTENSION } from './constants';
+import { TayloredError } from './errors';
+
+/**
+ * The content of a detached signature file (`<patch>.taylored.sig`). It signs
+ * the exact bytes of the patch file, metadata preamble included.
+ */
+export interface PatchSignature {
+  algorithm: 'ed25519';
+  /** The fingerprint of the public key that verifies the signature. */
+  keyId: string;
+  /** The Ed25519 signature, base64-encoded. */
+  signature: string;
+}
+
+/**
+ * A public key of the trust store.
+ */
+export interface TrustedKey {
+  /** The file name of the key in the trust store, without extension. */
+  name: string;
+  keyId: string;
+  key: crypto.KeyObject;
+}
+
+/**
+ * The fingerprint of a public key: "SHA256:" followed by the base64-encoded
+ * (unpadded) SHA-256 digest of its DER SubjectPublicKeyInfo, as printed by
+ * `ssh-keygen -l`.
+ *
+ * @param {crypto.KeyObject} publicKey - The key.
+ * @returns {string} The fingerprint.
+ */
+export function getKeyId(publicKey: crypto.KeyObject): string {
+  const der = publicKey.export({ type: 'spki', format: 'der' });
+  return `SHA256:${crypto.createHash('sha256').update(der).digest('base64').replace(/=+$/, '')}`;
+}
+
+/**
+ * @param {string} patchPath - The path of a patch file.
+ * @returns {string} The path of its detached signature.
+ */
+export function getSignaturePath(patchPath: string): string {
+  return patchPath + TAYLORED_SIGNATURE_EXTENSION;
+}
+
+/**
+ * Signs a patch file with an Ed25519 private key and writes the detached
+ * signature next to it, replacing any previous one.
+ *
+ * @param {string} patchPath - The patch file.
+ * @param {string} privateKeyPem - The private key, in PEM format (PKCS#8, as
+ *        written by `openssl genpkey -algorithm ed25519`).
+ * @returns {Promise<PatchSignature>} The signature written.
+ * @throws {TayloredError} `SIGNATURE_ERROR` if the key is not an Ed25519
+ *         private key.
+ */
+export async function signPatchFile(
+  patchPath: string,
+  privateKeyPem: string,
+): Promise<PatchSignature> {
+  let privateKey: crypto.KeyObject;
+  try {
+    privateKey = crypto.createPrivateKey(privateKeyPem);
+  } catch (error: any) {
+    throw new TayloredError(
+      'SIGNATURE_ERROR',
+      `CRITICAL ERROR: The signing key is not a valid private key. Details: ${error.message}`,
+    );
+  }
+  if (privateKey.asymmetricKeyType !== 'ed25519') {
+    throw new TayloredError(
+      'SIGNATURE_ERROR',
+      `CRITICAL ERROR: The signing key is not an Ed25519 key (found: ${privateKey.asymmetricKeyType}).`,
+    );
+  }
+  const content = await fs.readFile(patchPath);
+  const signature: PatchSignature = {
+    algorithm: 'ed25519',
+    keyId: getKeyId(crypto.createPublicKey(privateKey)),
+    signature: crypto.sign(null, content, privateKey).toString('base64'),
+  };
+  await fs.writeFile(
+    getSignaturePath(patchPath),
+    JSON.stringify(signature, null, 2) + '\n',
+  );
+  return signature;
+}
+
+/**
+ * Reads the trust store: every `.pem` or `.pub` file of the trusted keys
+ * directory holding an Ed25519 public key.
+ *
+ * @param {string} CWD - The root of the repository.
+ * @param {string} trustedKeysDirName - The trust store, relative to `CWD`
+ *                                      (see `getTrustedKeysDirName`).
+ * @returns {Promise<TrustedKey[]>} The keys, in file name order; empty if the
+ *          directory does not exist.
+ * @throws {TayloredError} `SIGNATURE_ERROR` if a key file is not an Ed25519
+ *         public key.
+ */
+export async function loadTrustedKeys(
+  CWD: string,
+  trustedKeysDirName: string,
+): Promise<TrustedKey[]> {
+  const storePath = path.resolve(CWD, trustedKeysDirName);
+  let fileNames: string[];
+  try {
+    fileNames = (await fs.readdir(storePath))
+      .filter((name) => /\.(pem|pub)$/.test(name))
+      .sort();
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+  const keys: TrustedKey[] = [];
+  for (const fileName of fileNames) {
+    const keyPath = path.join(storePath, fileName);
+    let key: crypto.KeyObject;
+    try {
+      key = crypto.createPublicKey(await fs.readFile(keyPath, 'utf8'));
+    } catch (error: any) {
+      throw new TayloredError(
+        'SIGNATURE_ERROR',
+        `CRITICAL ERROR: Trusted key file '${keyPath}' does not contain a valid public key. Details: ${error.message}`,
+      );
+    }
+    if (key.asymmetricKeyType !== 'ed25519') {
+      throw new TayloredError(
+        'SIGNATURE_ERROR',
+        `CRITICAL ERROR: Trusted key file '${keyPath}' holds a ${key.asymmetricKeyType} key; only Ed25519 keys are supported.`,
+      );
+    }
+    keys.push({
+      name: fileName.replace(/\.(pem|pub)$/, ''),
+      keyId: getKeyId(key),
+      key,
+    });
+  }
+  return keys;
+}
+
+/**
+ * Checks that a patch file has a detached signature, made by a key of the
+ * trust store, that matches its current content.
+ *
+ * @param {string} patchPath - The patch file.
+ * @param {string} patchName - The name of the patch, for messages.
+ * @param {TrustedKey[]} trustedKeys - The trust store (see `loadTrustedKeys`).
+ * @param {string} trustedKeysDirName - The directory of the trust store, for messages.
+ * @returns {Promise<TrustedKey>} The key that verified the signature.
+ * @throws {TayloredError} `SIGNATURE_ERROR` if the patch is unsigned, the
+ *         signature file is not valid, the key is not trusted or the
+ *         signature does not match. The message names the key.
+ */
+export async function verifyPatchSignature(
+  patchPath: string,
+  patchName: string,
+  trustedKeys: TrustedKey[],
+  trustedKeysDirName: string,
+): Promise<TrustedKey> {
+  const signaturePath = getSignaturePath(patchPath);
+  let raw: string;
+  try {
+    raw = await fs.readFile(signaturePath, 'utf8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      throw new TayloredError(
+        'SIGNATURE_ERROR',
+        `CRITICAL ERROR: Patch '${patchName}' is not signed: '${path.basename(signaturePath)}' not found. Sign it with 'taylored --sign ${patchName} --key <private_key>'.`,
+      );
+    }
+    throw error;
+  }
+
+  let signature: PatchSignature;
+  try {
+    signature = JSON.parse(raw);
+    if (
+      signature.algorithm !== 'ed25519' ||
+      typeof signature.keyId !== 'string' ||
+      typeof signature.signature !== 'string'
+    ) {
+      throw new Error(
+        "expected { algorithm: 'ed25519', keyId, signature } strings",
+      );
+    }
+  } catch (error: any) {
+    throw new TayloredError(
+      'SIGNATURE_ERROR',
+      `CRITICAL ERROR: Signature file '${signaturePath}' is not valid: ${error.message}`,
+    );
+  }
+
+  const trustedKey = trustedKeys.find((key) => key.keyId === signature.keyId);
+  if (!trustedKey) {
+    throw new TayloredError(
+      'SIGNATURE_ERROR',
+      `CRITICAL ERROR: Patch '${patchName}' is signed by key ${signature.keyId}, which is not in the trust store '${trustedKeysDirName}/'.`,
+    );
+  }
+  const content = await fs.readFile(patchPath);
+  if (
+    !crypto.verify(
+      null,
+      content,
+      trustedKey.key,
+      Buffer.from(signature.signature, 'base64'),
+    )
+  ) {
+    throw new TayloredError(
+      'SIGNATURE_ERROR',
+      `CRITICAL ERROR: Patch '${patchName}' does not match its signature by key '${trustedKey.name}' (${trustedKey.keyId}): it was modified after it was signed.`,
+    );
+  }
+  return trustedKey;
+}
+
+/**
+ * Checks the signatures of patches before they are added, removed or
+ * verified, when signatures are required (`--require-signature` or
+ * `signing.required` in `.tayloredrc`). Every patch is checked and all
+ * problems are reported together.
+ *
+ * @param {string[]} patchNames - The patches, relative to `tayloredDir`.
+ * @param {string} tayloredDir - The directory the patches are read from.
+ * @param {string} CWD - The root of the repository.
+ * @param {string} trustedKeysDirName - The trust store, relative to `CWD`.
+ * @returns {Promise<void>} Resolves if every patch has a valid, trusted signature.
+ * @throws {TayloredError} `SIGNATURE_ERROR` listing the patches that do not.
+ */
+export async function assertPatchesSigned(
+  patchNames: string[],
+  tayloredDir: string,
+  CWD: string,
+  trustedKeysDirName: string,
+): Promise<void> {
+  const trustedKeys = await loadTrustedKeys(CWD, trustedKeysDirName).catch(
+    (error) => {
+      console.error(error.message);
+      throw error;
+    },
+  );
+  const problems: string[] = [];
+  for (const patchName of patchNames) {
+    try {
+      await verifyPatchSignature(
+        path.join(tayloredDir, patchName),
+        patchName,
+        trustedKeys,
+        trustedKeysDirName,
+      );
+    } catch (error: any) {
+      if (!(error instanceof TayloredError)) {
+        throw error;
+      }
+      problems.push(error.message.replace(/^CRITICAL ERROR:\s*/, ''));
+    }
+  }
+  if (problems.length === 0) {
+    return;
+  }
+  const message =
+    problems.length === 1
+      ? `CRITICAL ERROR: ${problems[0]}`
+      : `CRITICAL ERROR: ${problems.length} patches do not have a valid trusted signature.`;
+  console.error(message);
+  if (problems.length > 1) {
+    problems.forEach((problem) => console.error(`  - ${problem}`));
+  }
+  console.error('  No files were modified.');
+  throw new TayloredError('SIGNATURE_ERROR', message, problems);
+}
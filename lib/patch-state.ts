@@ -0,0 +1,195 @@
+// lib/patch-state.ts
+// Copyright (c) 2025 tailot@gmail.com
+// SPDX-License-Identifier: MIT
+
+import * as fs from 'fs/promises';
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import { execSync } from 'child_process';
+import { computePatchHash, LedgerEntry } from './state-ledger';
+import { PatchEngine, computePatchedFiles } from './patch-engine';
+
+/**
+ * Where `checkPatchApplies` checks a patch, instead of the working tree.
+ */
+export interface ApplyCheckTarget {
+  /**
+   * Check against the Git index (`git apply --check --cached`), e.g. the
+   * content of the commit being made.
+   */
+  cached?: boolean;
+  /**
+   * Check against this index file instead of the repository's own (implies
+   * `cached`). Used to check against an arbitrary commit, after `git
+   * read-tree` into a scratch index.
+   */
+  indexFile?: string;
+}
+
+/**
+ * Silently checks whether a patch would apply (or, with `isReverse`, revert)
+ * cleanly against the current working tree, using `git apply --check` (or the
+ * native engine's check mode). With a `target`, the check is made against the
+ * index instead (git engine only).
+ *
+ * Unlike `handleApplyOperation` in verify mode, nothing is printed and no
+ * exception is thrown: the outcome is reported through the return value only.
+ * This is used to reconcile recorded state with the real tree.
+ *
+ * @param {string} tayloredFileNameWithExt - Patch path relative to the .taylored directory.
+ * @param {boolean} isReverse - If true, checks whether the patch can be reverted.
+ * @param {string} CWD - The root of the Git repository.
+ * @param {string} tayloredDirName - The .taylored directory, relative to `CWD`.
+ * @param {PatchEngine} [engine='git'] - The backend used for the check.
+ * @param {ApplyCheckTarget} [target={}] - Check against an index instead of the working tree.
+ * @returns {boolean} True if the check succeeds.
+ */
+export function checkPatchApplies(
+  tayloredFileNameWithExt: string,
+  isReverse: boolean,
+  CWD: string,
+  tayloredDirName: string,
+  engine: PatchEngine = 'git',
+  target: ApplyCheckTarget = {},
+): boolean {
+  const actualTayloredFilePath = path.join(
+    CWD,
+    tayloredDirName,
+    tayloredFileNameWithExt,
+  );
+  if (engine === 'native') {
+    try {
+      computePatchedFiles(readFileSync(actualTayloredFilePath), CWD, {
+        isReverse,
+      });
+      return true;
+    } catch (error: any) {
+      return false;
+    }
+  }
+  let gitApplyCommand = 'git apply --check';
+  if (target.cached || target.indexFile) {
+    gitApplyCommand += ' --cached';
+  }
+  if (isReverse) {
+    gitApplyCommand += ' --reverse';
+  }
+  gitApplyCommand += ` "${actualTayloredFilePath.replace(/"/g, '\\"')}"`;
+  try {
+    execSync(gitApplyCommand, {
+      cwd: CWD,
+      stdio: 'pipe',
+      env: target.indexFile
+        ? { ...process.env, GIT_INDEX_FILE: target.indexFile }
+        : process.env,
+    });
+    return true;
+  } catch (error: any) {
+    return false;
+  }
+}
+
+/**
+ * The reconciled state of a single patch.
+ * - `applied`: the patch's changes are present in the working tree.
+ * - `not-applied`: the patch could be applied cleanly; its changes are absent.
+ * - `drifted`: the ledger knows about the patch, but the tree (or the patch file)
+ *   has changed so that it can neither be applied nor removed cleanly.
+ * - `unknown`: the state cannot be determined from the tree and the ledger.
+ */
+export type PatchState = 'applied' | 'not-applied' | 'drifted' | 'unknown';
+
+export interface PatchStatus {
+  /** Patch path relative to the .taylored directory, using '/' separators. */
+  patch: string;
+  state: PatchState;
+  /** The ledger record for the patch, if any. */
+  ledgerEntry?: LedgerEntry;
+  /** Human-readable notes explaining how the state was determined. */
+  notes: string[];
+}
+
+/**
+ * Determines the real state of one patch by combining apply checks in both
+ * directions with the state ledger.
+ *
+ * @param {string} patchName - Patch path relative to the .taylored directory.
+ * @param {LedgerEntry | undefined} ledgerEntry - The ledger record for this patch, if any.
+ * @param {string} CWD - The root of the Git repository.
+ * @param {string} tayloredDirName - The .taylored directory, relative to `CWD`.
+ * @param {PatchEngine} [engine='git'] - The backend used for the probes.
+ * @returns {Promise<PatchStatus>} The reconciled status.
+ */
+export async function reconcilePatchStatus(
+  patchName: string,
+  ledgerEntry: LedgerEntry | undefined,
+  CWD: string,
+  tayloredDirName: string,
+  engine: PatchEngine = 'git',
+): Promise<PatchStatus> {
+  const patchKey = patchName.split(path.sep).join('/');
+  const notes: string[] = [];
+  const content = await fs.readFile(path.join(CWD, tayloredDirName, patchName));
+
+  const hashChanged =
+    ledgerEntry !== undefined &&
+    ledgerEntry.contentHash !== computePatchHash(content);
+  if (hashChanged) {
+    notes.push('patch file has changed since the recorded operation');
+  }
+
+  if (content.toString().trim() === '') {
+    notes.push('patch is empty');
+    return { patch: patchKey, state: 'unknown', ledgerEntry, notes };
+  }
+
+  const canAdd = checkPatchApplies(
+    patchName,
+    false,
+    CWD,
+    tayloredDirName,
+    engine,
+  );
+  const canRemove = checkPatchApplies(
+    patchName,
+    true,
+    CWD,
+    tayloredDirName,
+    engine,
+  );
+
+  let state: PatchState;
+  if (canRemove && !canAdd) {
+    state = 'applied';
+  } else if (canAdd && !canRemove) {
+    state = 'not-applied';
+  } else if (canAdd && canRemove) {
+    // Both directions apply (e.g. a patch with no context lines), so the tree alone
+    // cannot tell us anything. Fall back to the ledger, if it is still trustworthy.
+    if (ledgerEntry && !hashChanged) {
+      state = ledgerEntry.state === 'applied' ? 'applied' : 'not-applied';
+      notes.push('tree is ambiguous; state taken from the ledger');
+    } else {
+      state = 'unknown';
+      notes.push('patch can be both applied and removed cleanly');
+    }
+  } else if (ledgerEntry) {
+    state = 'drifted';
+    notes.push('patch can be neither applied nor removed cleanly');
+  } else {
+    state = 'unknown';
+    notes.push('patch can be neither applied nor removed cleanly');
+  }
+
+  if (
+    ledgerEntry &&
+    (state === 'applied' || state === 'not-applied') &&
+    (ledgerEntry.state === 'applied') !== (state === 'applied')
+  ) {
+    notes.push(
+      `ledger recorded it as ${ledgerEntry.state}; the tree was changed outside taylored`,
+    );
+  }
+
+  return { patch: patchKey, state, ledgerEntry, notes };
+}
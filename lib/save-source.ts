@@ -0,0 +1,240 @@
+// lib/save-source.ts
+// Copyright (c) 2025 tailot@gmail.com
+// SPDX-License-Identifier: MIT
+
+import { execFileSync } from 'child_process';
+import { PatchMetadata } from './patch-metadata';
+
+// The ID of the empty tree, which every Git repository knows: the parent
+// side of the diff of a root commit.
+const EMPTY_TREE_ID = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+
+/**
+ * Where the changes saved by `--save` come from: the diff from the tree-ish
+ * `from` to the tree-ish `to`.
+ * - `<branch>` (or any revision): from HEAD to the revision.
+ * - `<A>..<B>`: from A to B.
+ * - `<A>...<B>`: from the merge base of A and B to B.
+ * - `<rev>^!`: the changes of one commit, from its first parent to it.
+ * - `stash@{<n>}`: from the commit the entry was stashed on to the entry.
+ * - `--staged`: from HEAD to the tree of the index, which is written to a
+ *   temporary object directory (see `withTemporaryObjects`).
+ */
+export interface SaveSource {
+  from: string;
+  to: string;
+  /** Names the source in messages, e.g. `'feature' against HEAD`. */
+  label: string;
+  /** The name of the patch, without extension, unless another is given. */
+  defaultName: string;
+  /**
+   * Metadata taken from the commit messages of a commit, range or stash
+   * entry; empty for a branch and for the index.
+   */
+  metadata: PatchMetadata;
+  /**
+   * The environment of the Git commands that read `from` and `to`: the tree
+   * of the index is only in its temporary object directory.
+   */
+  env: NodeJS.ProcessEnv;
+}
+
+interface CommitMessage {
+  author: string;
+  subject: string;
+  body: string;
+}
+
+function runGit(
+  CWD: string,
+  args: string[],
+  env: NodeJS.ProcessEnv = process.env,
+): string {
+  return execFileSync('git', args, {
+    cwd: CWD,
+    env,
+    encoding: 'utf8',
+    stdio: 'pipe',
+  }).trim();
+}
+
+function resolveCommit(CWD: string, revision: string): string {
+  try {
+    return runGit(CWD, ['rev-parse', '--verify', `${revision}^{commit}`]);
+  } catch (error: any) {
+    const message = `CRITICAL ERROR: '${revision}' is not a commit of the repository.`;
+    console.error(message);
+    throw new Error(message);
+  }
+}
+
+// The author, subject and body of the commits `git log <args>` lists.
+function readCommitMessages(CWD: string, args: string[]): CommitMessage[] {
+  return runGit(CWD, ['log', '--format=%an <%ae>%x1f%s%x1f%b%x1e', ...args])
+    .split('\x1e')
+    .map((record) => record.trim())
+    .filter((record) => record !== '')
+    .map((record) => {
+      const [author, subject, body] = record.split('\x1f');
+      return { author, subject, body: (body || '').trim() };
+    });
+}
+
+/**
+ * The metadata of a patch made from commits: the title, description and
+ * author of a single commit; for several commits, their subjects as the
+ * description, and their author if they have only one.
+ */
+function getCommitMetadata(commits: CommitMessage[]): PatchMetadata {
+  if (commits.length === 0) {
+    return {};
+  }
+  const metadata: PatchMetadata = {};
+  if (commits.length === 1) {
+    metadata.title = commits[0].subject;
+    if (commits[0].body !== '') {
+      metadata.description = commits[0].body;
+    }
+  } else {
+    metadata.description = commits
+      .map((commit) => `- ${commit.subject}`)
+      .join('\n');
+  }
+  const authors = new Set(commits.map((commit) => commit.author));
+  if (authors.size === 1) {
+    metadata.author = commits[0].author;
+  }
+  return metadata;
+}
+
+// The rule --save has always used to name a patch after a branch.
+function toPatchName(revision: string): string {
+  return revision.replace(/[/\\]/g, '-');
+}
+
+function toSlug(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .substring(0, 60)
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Resolves what `--save` is asked to save (see `SaveSource`).
+ *
+ * @param {string | undefined} spec - A branch or other revision, a range
+ *        (`A..B`, `A...B`), a single commit (`rev^!`) or a stash entry
+ *        (`stash`, `stash@{n}`).
+ * @param {boolean} staged - Save the changes staged in the index instead;
+ *        also the source if `spec` is undefined.
+ * @param {string} CWD - The root of the Git repository.
+ * @param {NodeJS.ProcessEnv} env - The environment of a temporary object
+ *        directory (see `withTemporaryObjects`), which must outlive the use
+ *        of the source: the tree of the index is written there.
+ * @returns {SaveSource} The source.
+ * @throws {Error} If a commit of the source does not exist or the index
+ *         cannot be written as a tree (e.g. during a merge with conflicts).
+ *         A branch that does not exist is reported when it is diffed.
+ */
+export function resolveSaveSource(
+  spec: string | undefined,
+  staged: boolean,
+  CWD: string,
+  env: NodeJS.ProcessEnv,
+): SaveSource {
+  if (staged || spec === undefined) {
+    let tree: string;
+    try {
+      tree = runGit(CWD, ['write-tree'], env);
+    } catch (error: any) {
+      const message = `CRITICAL ERROR: Could not read the staged changes. Resolve any conflicts in the index first. Details: ${(error.stderr || error.message).toString().trim()}`;
+      console.error(message);
+      throw new Error(message);
+    }
+    return {
+      from: 'HEAD',
+      to: tree,
+      label: 'the staged changes',
+      defaultName: 'staged',
+      metadata: {},
+      env,
+    };
+  }
+
+  const stash = spec.match(/^stash(?:@\{(\d+)\})?$/);
+  if (stash) {
+    const index = stash[1] || '0';
+    const entry = resolveCommit(CWD, `stash@{${index}}`);
+    const [message] = readCommitMessages(CWD, ['-1', entry]);
+    // "On main: message" or "WIP on main: abc1234 subject".
+    message.subject = message.subject.replace(/^(WIP on|On) [^:]*: /, '');
+    return {
+      // The stash entry records the working tree on top of the commit it
+      // was made on (its first parent).
+      from: `${entry}^1`,
+      to: entry,
+      label: `stash entry 'stash@{${index}}'`,
+      defaultName: `stash-${index}`,
+      metadata: getCommitMetadata([message]),
+      env,
+    };
+  }
+
+  const single = spec.match(/^(.+)\^!$/);
+  if (single) {
+    const commit = resolveCommit(CWD, single[1]);
+    let parent: string;
+    try {
+      parent = runGit(CWD, ['rev-parse', '--verify', '--quiet', `${commit}^`]);
+    } catch (error: any) {
+      parent = EMPTY_TREE_ID;
+    }
+    const metadata = getCommitMetadata(readCommitMessages(CWD, ['-1', commit]));
+    return {
+      from: parent,
+      to: commit,
+      label: `commit '${single[1]}'`,
+      defaultName: toSlug(metadata.title || '') || commit.substring(0, 7),
+      metadata,
+      env,
+    };
+  }
+
+  const range = spec.match(/^(.*?)(\.\.\.?)(.*)$/);
+  if (range) {
+    // As in Git, an omitted side of the range is HEAD.
+    const left = range[1] || 'HEAD';
+    const right = range[3] || 'HEAD';
+    const to = resolveCommit(CWD, right);
+    let from = resolveCommit(CWD, left);
+    if (range[2] === '...') {
+      try {
+        from = runGit(CWD, ['merge-base', from, to]);
+      } catch (error: any) {
+        const message = `CRITICAL ERROR: '${left}' and '${right}' have no common ancestor.`;
+        console.error(message);
+        throw new Error(message);
+      }
+    }
+    return {
+      from,
+      to,
+      label: `range '${spec}'`,
+      defaultName: `${toPatchName(left)}-${toPatchName(right)}`,
+      metadata: getCommitMetadata(
+        readCommitMessages(CWD, ['--reverse', `${from}..${to}`]),
+      ),
+      env,
+    };
+  }
+
+  return {
+    from: 'HEAD',
+    to: spec,
+    label: `'${spec}' against HEAD`,
+    defaultName: toPatchName(spec),
+    metadata: {},
+    env,
+  };
+}
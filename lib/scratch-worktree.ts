@@ -0,0 +1,169 @@
+// lib/scratch-worktree.ts
+// Copyright (c) 2025 tailot@gmail.com
+// SPDX-License-Identifier: MIT
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { execFileSync } from 'child_process';
+
+// The directory of the Git common directory (the `.git` of the main working
+// tree) that holds the scratch worktrees. Editors, file watchers and
+// `git status` do not look inside it.
+const SCRATCH_WORKTREES_DIR_NAME = 'taylored-worktrees';
+
+function runGit(cwd: string, args: string[]): string {
+  return execFileSync('git', args, {
+    cwd,
+    encoding: 'utf8',
+    stdio: 'pipe',
+  }).trim();
+}
+
+/**
+ * The directory holding the scratch worktrees of the repository. It is shared
+ * by all the linked worktrees of the repository.
+ */
+function getScratchWorktreesDir(repoRoot: string): string {
+  const commonDir = runGit(repoRoot, ['rev-parse', '--git-common-dir']);
+  return path.join(
+    path.resolve(repoRoot, commonDir),
+    SCRATCH_WORKTREES_DIR_NAME,
+  );
+}
+
+function isProcessRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error: any) {
+    // EPERM: the process exists but belongs to another user.
+    return error.code === 'EPERM';
+  }
+}
+
+/**
+ * Removes a scratch worktree and its administrative files. A directory that
+ * is not (or no longer) a registered worktree, e.g. because creating it
+ * failed, is deleted and the registration pruned.
+ *
+ * @param {string} repoRoot - The root of the repository.
+ * @param {string} worktreePath - The worktree, as returned by `createScratchWorktree`.
+ */
+export function removeScratchWorktree(
+  repoRoot: string,
+  worktreePath: string,
+): void {
+  try {
+    runGit(repoRoot, ['worktree', 'remove', '--force', worktreePath]);
+  } catch (error: any) {
+    fs.rmSync(worktreePath, { recursive: true, force: true });
+    runGit(repoRoot, ['worktree', 'prune']);
+  }
+}
+
+/**
+ * Removes the scratch worktrees left behind by taylored processes that are no
+ * longer running, e.g. because they crashed or were interrupted. Each
+ * worktree is named after the process that created it.
+ *
+ * @param {string} repoRoot - The root of the repository.
+ * @returns {string[]} The paths of the worktrees removed.
+ */
+export function removeStaleScratchWorktrees(repoRoot: string): string[] {
+  const scratchDir = getScratchWorktreesDir(repoRoot);
+  let names: string[];
+  try {
+    names = fs.readdirSync(scratchDir);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+  const removed: string[] = [];
+  for (const name of names) {
+    const pid = parseInt(name, 10);
+    if (!isNaN(pid) && isProcessRunning(pid)) {
+      continue;
+    }
+    const worktreePath = path.join(scratchDir, name);
+    removeScratchWorktree(repoRoot, worktreePath);
+    removed.push(worktreePath);
+  }
+  return removed;
+}
+
+/**
+ * Checks out a commit in a new, detached worktree where `--automatic` and
+ * `--offset` do their work, so that the working tree, index, branches and
+ * uncommitted changes of the user are never touched. Stale worktrees of
+ * earlier runs are removed first.
+ *
+ * @param {string} repoRoot - The root of the repository.
+ * @param {string} commit - The commit to check out, e.g. "HEAD".
+ * @returns {string} The absolute path of the worktree. Remove it with
+ *          `removeScratchWorktree`.
+ * @throws {Error} If the worktree cannot be created (e.g. `commit` does not
+ *         exist).
+ */
+export function createScratchWorktree(
+  repoRoot: string,
+  commit: string,
+): string {
+  for (const worktreePath of removeStaleScratchWorktrees(repoRoot)) {
+    console.log(
+      `INFO: Removed the stale temporary worktree '${worktreePath}'.`,
+    );
+  }
+  const worktreePath = path.join(
+    getScratchWorktreesDir(repoRoot),
+    `${process.pid}-${crypto.randomBytes(4).toString('hex')}`,
+  );
+  fs.mkdirSync(path.dirname(worktreePath), { recursive: true });
+  try {
+    runGit(repoRoot, [
+      'worktree',
+      'add',
+      '--detach',
+      '--quiet',
+      worktreePath,
+      commit,
+    ]);
+  } catch (error: any) {
+    removeScratchWorktree(repoRoot, worktreePath);
+    const message = `CRITICAL ERROR: Could not check out '${commit}' in a temporary worktree. Details: ${(error.stderr || error.message).toString().trim()}`;
+    console.error(message);
+    throw new Error(message);
+  }
+  return worktreePath;
+}
+
+/**
+ * Runs `work` in a scratch worktree of `commit` (see `createScratchWorktree`)
+ * and removes the worktree afterwards, whether `work` succeeds or not.
+ *
+ * @async
+ * @param {string} repoRoot - The root of the repository.
+ * @param {string} commit - The commit to check out.
+ * @param {(worktreePath: string) => Promise<T>} work - The work to do.
+ * @returns {Promise<T>} The result of `work`.
+ */
+export async function withScratchWorktree<T>(
+  repoRoot: string,
+  commit: string,
+  work: (worktreePath: string) => Promise<T>,
+): Promise<T> {
+  const worktreePath = createScratchWorktree(repoRoot, commit);
+  try {
+    return await work(worktreePath);
+  } finally {
+    try {
+      removeScratchWorktree(repoRoot, worktreePath);
+    } catch (error: any) {
+      console.warn(
+        `Warning: Failed to remove the temporary worktree '${worktreePath}'; the next run will remove it. ${error.message}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,173 @@
+// lib/state-ledger.ts
+// Copyright (c) 2025 tailot@gmail.com
+// SPDX-License-Identifier: MIT
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { execSync } from 'child_process';
+import { TAYLORED_STATE_FILE_NAME } from './constants';
+
+/**
+ * A single record in the state ledger, describing the last successful
+ * `--add` or `--remove` of one patch.
+ */
+export interface LedgerEntry {
+  /** Patch path relative to the .taylored directory (e.g. "group/1-first.taylored"). */
+  patch: string;
+  /** The state the patch was left in by the recorded operation. */
+  state: 'applied' | 'removed';
+  /** SHA-256 of the patch file content at the time of the operation. */
+  contentHash: string;
+  /** ISO-8601 timestamp of the operation. */
+  timestamp: string;
+  /** The HEAD commit at the time of the operation, or null if it could not be determined. */
+  headCommit: string | null;
+}
+
+/**
+ * On-disk structure of the `.taylored/.state.json` ledger.
+ */
+export interface StateLedger {
+  version: 1;
+  patches: { [patch: string]: LedgerEntry };
+}
+
+/**
+ * Returns the absolute path of the state ledger for the given working directory
+ * and patch directory (relative to it).
+ */
+export function getStateLedgerPath(
+  CWD: string,
+  tayloredDirName: string,
+): string {
+  return path.join(CWD, tayloredDirName, TAYLORED_STATE_FILE_NAME);
+}
+
+/**
+ * Computes the SHA-256 hash (hex) used to identify a patch's content in the ledger.
+ */
+export function computePatchHash(patchContent: string | Buffer): string {
+  return crypto.createHash('sha256').update(patchContent).digest('hex');
+}
+
+/**
+ * Returns the commit currently checked out in `CWD`, or null if it cannot be
+ * resolved (e.g. a repository without commits).
+ */
+export function getHeadCommit(CWD: string): string | null {
+  try {
+    return execSync('git rev-parse HEAD', {
+      cwd: CWD,
+      encoding: 'utf8',
+      stdio: 'pipe',
+    }).trim();
+  } catch (error: any) {
+    return null;
+  }
+}
+
+/**
+ * Reads the state ledger. A missing ledger is treated as an empty one.
+ *
+ * @throws {Error} If the ledger exists but cannot be read or is not valid JSON.
+ */
+export async function readStateLedger(
+  CWD: string,
+  tayloredDirName: string,
+): Promise<StateLedger> {
+  const ledgerPath = getStateLedgerPath(CWD, tayloredDirName);
+  let raw: string;
+  try {
+    raw = await fs.readFile(ledgerPath, 'utf8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return { version: 1, patches: {} };
+    }
+    throw new Error(
+      `CRITICAL ERROR: Could not read state ledger '${ledgerPath}'. Details: ${error.message}`,
+    );
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed.patches !== 'object') {
+      throw new Error("missing 'patches' object");
+    }
+    return { version: 1, patches: parsed.patches };
+  } catch (error: any) {
+    throw new Error(
+      `CRITICAL ERROR: State ledger '${ledgerPath}' is corrupted. Delete it to start a new one. Details: ${error.message}`,
+    );
+  }
+}
+
+/**
+ * Writes the state ledger, creating the .taylored directory if needed.
+ */
+export async function writeStateLedger(
+  CWD: string,
+  tayloredDirName: string,
+  ledger: StateLedger,
+): Promise<void> {
+  const ledgerPath = getStateLedgerPath(CWD, tayloredDirName);
+  await fs.mkdir(path.dirname(ledgerPath), { recursive: true });
+  await fs.writeFile(ledgerPath, JSON.stringify(ledger, null, 2) + '\n');
+}
+
+/**
+ * Records a successful `--add` (or `--remove`, when `isReverse` is true) of a patch
+ * in the state ledger, together with the patch's content hash, a timestamp and the
+ * current HEAD commit.
+ *
+ * @param {string} tayloredFileNameWithExt - Patch path relative to the .taylored directory.
+ * @param {boolean} isReverse - True if the patch was removed, false if it was added.
+ * @param {string} CWD - The root of the Git repository.
+ * @param {string} tayloredDirName - The .taylored directory, relative to `CWD`.
+ * @returns {Promise<LedgerEntry>} The entry that was written.
+ */
+export async function recordPatchOperation(
+  tayloredFileNameWithExt: string,
+  isReverse: boolean,
+  CWD: string,
+  tayloredDirName: string,
+): Promise<LedgerEntry> {
+  const patchPath = path.join(CWD, tayloredDirName, tayloredFileNameWithExt);
+  const content = await fs.readFile(patchPath);
+  const patchKey = tayloredFileNameWithExt.split(path.sep).join('/');
+  const entry: LedgerEntry = {
+    patch: patchKey,
+    state: isReverse ? 'removed' : 'applied',
+    contentHash: computePatchHash(content),
+    timestamp: new Date().toISOString(),
+    headCommit: getHeadCommit(CWD),
+  };
+  const ledger = await readStateLedger(CWD, tayloredDirName);
+  ledger.patches[patchKey] = entry;
+  await writeStateLedger(CWD, tayloredDirName, ledger);
+  return entry;
+}
+
+/**
+ * Like `recordPatchOperation`, but never throws. Used right after a patch has
+ * been applied or removed: the working tree has already changed at that point,
+ * so a ledger write failure is reported as a warning instead of failing the command.
+ */
+export async function tryRecordPatchOperation(
+  tayloredFileNameWithExt: string,
+  isReverse: boolean,
+  CWD: string,
+  tayloredDirName: string,
+): Promise<void> {
+  try {
+    await recordPatchOperation(
+      tayloredFileNameWithExt,
+      isReverse,
+      CWD,
+      tayloredDirName,
+    );
+  } catch (error: any) {
+    console.warn(
+      `Warning: Could not record '${tayloredFileNameWithExt}' in the state ledger. Details: ${error.message}`,
+    );
+  }
+}
@@ -0,0 +1,79 @@
+// lib/temporary-objects.ts
+// Copyright (c) 2025 tailot@gmail.com
+// SPDX-License-Identifier: MIT
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+
+/**
+ * Creates an empty directory for the objects of `temporaryObjectsEnv`. Delete
+ * it with `fs.rmSync(objectDir, { recursive: true, force: true })`.
+ *
+ * @returns {string} The absolute path of the directory.
+ */
+export function createTemporaryObjectDirectory(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), 'taylored-objects-'));
+}
+
+/**
+ * The environment of Git commands that must not write to the object store of
+ * the repository: new objects (e.g. of `git write-tree` or
+ * `git hash-object -w`) go to `objectDir`, and the objects the commands
+ * could read with `env`, those of the repository included, are read as
+ * alternates. Nesting works: with an `env` returned by this function, both
+ * temporary directories are readable.
+ *
+ * @param {string} CWD - The root of the Git repository.
+ * @param {string} objectDir - The directory new objects are written to (see
+ *        `createTemporaryObjectDirectory`).
+ * @param {NodeJS.ProcessEnv} [env=process.env] - The environment to extend.
+ * @returns {NodeJS.ProcessEnv} The environment.
+ * @throws {Error} If the object directory of the repository cannot be found.
+ */
+export function temporaryObjectsEnv(
+  CWD: string,
+  objectDir: string,
+  env: NodeJS.ProcessEnv = process.env,
+): NodeJS.ProcessEnv {
+  const currentObjects = path.resolve(
+    CWD,
+    execFileSync('git', ['rev-parse', '--git-path', 'objects'], {
+      cwd: CWD,
+      encoding: 'utf8',
+      stdio: 'pipe',
+      env,
+    }).trim(),
+  );
+  const alternates = [currentObjects, env.GIT_ALTERNATE_OBJECT_DIRECTORIES]
+    .filter(Boolean)
+    .join(path.delimiter);
+  return {
+    ...env,
+    GIT_OBJECT_DIRECTORY: objectDir,
+    GIT_ALTERNATE_OBJECT_DIRECTORIES: alternates,
+  };
+}
+
+/**
+ * Runs `work` with the environment of a new temporary object directory (see
+ * `temporaryObjectsEnv`) and deletes the directory afterwards, whether `work`
+ * succeeds or not. The objects written by `work` only exist meanwhile.
+ *
+ * @async
+ * @param {string} CWD - The root of the Git repository.
+ * @param {(env: NodeJS.ProcessEnv) => Promise<T>} work - The work to do.
+ * @returns {Promise<T>} The result of `work`.
+ */
+export async function withTemporaryObjects<T>(
+  CWD: string,
+  work: (env: NodeJS.ProcessEnv) => Promise<T>,
+): Promise<T> {
+  const objectDir = createTemporaryObjectDirectory();
+  try {
+    return await work(temporaryObjectsEnv(CWD, objectDir));
+  } finally {
+    fs.rmSync(objectDir, { recursive: true, force: true });
+  }
+}
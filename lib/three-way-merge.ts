@@ -0,0 +1,346 @@
+// lib/three-way-merge.ts
+// Copyright (c) 2025 tailot@gmail.com
+// SPDX-License-Identifier: MIT
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { Patch } from './PatchAnalyzer';
+import {
+  parsePatchSections,
+  getSectionPaths,
+  resolvePatchPath,
+  applySectionHunks,
+  writePatchedFiles,
+  PatchedFile,
+} from './patch-engine';
+
+/**
+ * How one file of a patch was handled by a three-way application.
+ * - `applied`: the hunks applied as they are.
+ * - `merged`: the hunks did not apply, but a three-way merge succeeded.
+ * - `conflicted`: the file now contains conflict markers (or, for deletions,
+ *   was left in place) and needs manual resolution.
+ */
+export type ThreeWayFileOutcome = 'applied' | 'merged' | 'conflicted';
+
+export interface ThreeWayFileResult {
+  path: string;
+  outcome: ThreeWayFileOutcome;
+  /** Where the merge base came from, for `merged` and `conflicted` files. */
+  baseSource?: 'blob' | 'context';
+  /** Why the file is conflicted, when it is not a plain content conflict. */
+  note?: string;
+}
+
+/**
+ * Thrown after a three-way application that left conflicts. The working tree
+ * has already been updated: conflicted files contain standard conflict
+ * markers for the user to resolve.
+ */
+export class ThreeWayConflictError extends Error {
+  /** The paths that need manual resolution. */
+  conflictedFiles: string[];
+
+  /**
+   * Constructs a ThreeWayConflictError.
+   * @param {string} message - The error message.
+   * @param {string[]} conflictedFiles - The paths that need manual resolution.
+   */
+  constructor(message: string, conflictedFiles: string[]) {
+    super(message);
+    this.name = 'ThreeWayConflictError';
+    this.conflictedFiles = conflictedFiles;
+  }
+}
+
+/**
+ * Applies (or, with `isReverse`, removes) a patch, falling back to a
+ * three-way merge for every file whose hunks no longer apply.
+ *
+ * For such a file, the merge base is the patch's pre-image and "theirs" is
+ * its post-image. The pre-image is taken from the blob recorded in the
+ * patch's `index <old>..<new>` line when that object is in the repository;
+ * otherwise it is reconstructed from the hunks alone (their context and
+ * removed lines). The current file is "ours". The merge is done with
+ * `git merge-file`, so conflicts are written with standard
+ * `<<<<<<<`/`=======`/`>>>>>>>` markers and no `.rej` files are created.
+ *
+ * All files are computed in memory first and written together at the end.
+ *
+ * @param {string} patchFilePath - Absolute path of the .taylored file.
+ * @param {string} CWD - The directory to patch (the repository root).
+ * @param {boolean} isReverse - True to remove the patch.
+ * @returns {ThreeWayFileResult[]} The outcome for each file, in patch order.
+ * @throws {Error} If a file cannot be merged at all (e.g. a binary file, or
+ *                 `git merge-file` is unavailable), or a `PatchApplyError` if
+ *                 a path would leave `CWD`. Nothing is written then.
+ */
+export async function applyPatchWithThreeWayMerge(
+  patchFilePath: string,
+  CWD: string,
+  isReverse: boolean,
+): Promise<ThreeWayFileResult[]> {
+  const sections = parsePatchSections(
+    await fs.promises.readFile(patchFilePath),
+    isReverse,
+  );
+  const patchLabel = path.basename(patchFilePath);
+  const theirsLabel = isReverse ? `${patchLabel} (removed)` : patchLabel;
+
+  const results: ThreeWayFileResult[] = [];
+  const writes: PatchedFile[] = [];
+  for (const section of sections) {
+    const { oldPath, newPath } = getSectionPaths(section);
+    const displayPath = (newPath ?? oldPath)!;
+    // Refuses paths outside CWD before reading anything.
+    for (const sectionPath of [oldPath, newPath]) {
+      if (sectionPath !== null) {
+        resolvePatchPath(CWD, sectionPath);
+      }
+    }
+    if (section.isBinary) {
+      throw new Error(
+        `CRITICAL ERROR: '${displayPath}' is a binary patch and cannot be merged with --3way.`,
+      );
+    }
+
+    const ours = readLatin1(CWD, oldPath ?? newPath!);
+    const expectedToExist = oldPath !== null;
+    if (expectedToExist && ours !== null) {
+      const applied = applySectionHunks(ours, section, true);
+      if (applied !== null) {
+        results.push({ path: displayPath, outcome: 'applied' });
+        writes.push(...fileWrites(oldPath, newPath, applied));
+        continue;
+      }
+    } else if (!expectedToExist && ours === null) {
+      const created = applySectionHunks('', section, true);
+      if (created !== null) {
+        results.push({ path: displayPath, outcome: 'applied' });
+        writes.push(...fileWrites(oldPath, newPath, created));
+        continue;
+      }
+    }
+
+    if (expectedToExist && ours === null) {
+      results.push({
+        path: displayPath,
+        outcome: 'conflicted',
+        note: 'the file to patch does not exist',
+      });
+      continue;
+    }
+
+    const { base, theirs, baseSource } = reconstructMergeInputs(section, CWD);
+    if (newPath === null) {
+      // Deletion: only safe if nothing but the patch's content is left.
+      if (ours === base) {
+        results.push({ path: displayPath, outcome: 'merged', baseSource });
+        writes.push(...fileWrites(oldPath, null, ''));
+      } else {
+        results.push({
+          path: displayPath,
+          outcome: 'conflicted',
+          baseSource,
+          note: 'deleted by the patch but modified in the working tree; left in place',
+        });
+      }
+      continue;
+    }
+
+    const merge = mergeFile(ours ?? '', base, theirs, theirsLabel);
+    results.push({
+      path: displayPath,
+      outcome: merge.conflicts ? 'conflicted' : 'merged',
+      baseSource,
+    });
+    writes.push(...fileWrites(oldPath, newPath, merge.content));
+  }
+
+  await writePatchedFiles(writes, CWD);
+  return results;
+}
+
+/**
+ * Prints the per-file outcome of a three-way application and throws a
+ * `ThreeWayConflictError` if any file is conflicted.
+ *
+ * @param {string} patchName - The patch, as shown to the user.
+ * @param {ThreeWayFileResult[]} results - The outcome from `applyPatchWithThreeWayMerge`.
+ * @throws {ThreeWayConflictError} If at least one file needs manual resolution.
+ */
+export function reportThreeWayResults(
+  patchName: string,
+  results: ThreeWayFileResult[],
+): void {
+  const labels: { [outcome in ThreeWayFileOutcome]: string } = {
+    applied: 'APPLIED',
+    merged: 'MERGED',
+    conflicted: 'CONFLICT',
+  };
+  console.log(`INFO: Three-way result for '${patchName}':`);
+  for (const result of results) {
+    let details = '';
+    if (result.outcome !== 'applied') {
+      details = ` (base from ${result.baseSource === 'blob' ? 'recorded blob' : 'patch context'}${result.note ? `; ${result.note}` : ''})`;
+    }
+    console.log(
+      `  ${labels[result.outcome].padEnd(8)}  ${result.path}${details}`,
+    );
+  }
+
+  const conflicted = results
+    .filter((r) => r.outcome === 'conflicted')
+    .map((r) => r.path);
+  const merged = results.filter((r) => r.outcome === 'merged').length;
+  console.log(
+    `INFO: ${results.length} file(s): ${results.length - merged - conflicted.length} applied, ${merged} merged, ${conflicted.length} conflicted.`,
+  );
+  if (conflicted.length > 0) {
+    const message = `CRITICAL ERROR: Three-way merge of '${patchName}' left conflicts in ${conflicted.length} file(s): ${conflicted.join(', ')}`;
+    console.error(message);
+    console.error(
+      '  Resolve the conflict markers in these files, then review the result with git diff.',
+    );
+    throw new ThreeWayConflictError(message, conflicted);
+  }
+}
+
+/**
+ * Returns the writes that put `content` at `newPath` (null: delete), also
+ * deleting `oldPath` when the section renames the file.
+ */
+function fileWrites(
+  oldPath: string | null,
+  newPath: string | null,
+  content: string,
+): PatchedFile[] {
+  const writes: PatchedFile[] = [];
+  if (oldPath !== null && oldPath !== newPath) {
+    writes.push({ path: oldPath, content: null });
+  }
+  if (newPath !== null) {
+    writes.push({ path: newPath, content: Buffer.from(content, 'latin1') });
+  }
+  return writes;
+}
+
+/**
+ * Reads a file as latin1 text, or returns null if it does not exist.
+ */
+function readLatin1(CWD: string, relativePath: string): string | null {
+  const absolutePath = resolvePatchPath(CWD, relativePath);
+  return fs.existsSync(absolutePath)
+    ? fs.readFileSync(absolutePath).toString('latin1')
+    : null;
+}
+
+/**
+ * Builds the base and "theirs" sides of the merge for one section.
+ *
+ * If the pre-image blob is available, the base is the full original file and
+ * "theirs" is that file with the section applied. Otherwise both sides are
+ * made of the hunks only: the base is every hunk's context and removed lines,
+ * "theirs" every hunk's context and added lines. Lines of the current file
+ * outside the hunks then show up as local additions, which merge cleanly as
+ * long as they do not touch a changed region.
+ */
+function reconstructMergeInputs(
+  section: Patch,
+  CWD: string,
+): { base: string; theirs: string; baseSource: 'blob' | 'context' } {
+  const blob = section.oldBlob ? readBlob(section.oldBlob, CWD) : null;
+  if (blob !== null) {
+    const theirs = applySectionHunks(blob, section, true);
+    if (theirs !== null) {
+      return { base: blob, theirs, baseSource: 'blob' };
+    }
+  }
+
+  let base = '';
+  let theirs = '';
+  for (const hunk of section.hunks) {
+    for (const change of hunk.changes) {
+      const line = change.content + (change.noNewline ? '' : '\n');
+      if (change.type !== '+') base += line;
+      if (change.type !== '-') theirs += line;
+    }
+  }
+  return { base, theirs, baseSource: 'context' };
+}
+
+/**
+ * Reads a blob from the repository as latin1 text. Returns '' for the null
+ * blob (the pre-image of a new file) and null if the object is not available.
+ */
+function readBlob(blobId: string, CWD: string): string | null {
+  if (/^0+$/.test(blobId)) {
+    return '';
+  }
+  try {
+    return execFileSync('git', ['cat-file', 'blob', blobId], {
+      cwd: CWD,
+      stdio: 'pipe',
+    }).toString('latin1');
+  } catch (error: any) {
+    return null;
+  }
+}
+
+/**
+ * Runs `git merge-file` on the three versions of a file.
+ *
+ * @returns The merged content (latin1) and whether it contains conflicts.
+ * @throws {Error} If `git merge-file` fails for a reason other than conflicts.
+ */
+function mergeFile(
+  ours: string,
+  base: string,
+  theirs: string,
+  theirsLabel: string,
+): { content: string; conflicts: boolean } {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'taylored-3way-'));
+  try {
+    const files = { ours, base, theirs };
+    for (const [name, content] of Object.entries(files)) {
+      fs.writeFileSync(
+        path.join(tempDir, name),
+        Buffer.from(content, 'latin1'),
+      );
+    }
+    const args = [
+      'merge-file',
+      '-p',
+      '-L',
+      'working tree',
+      '-L',
+      'patch base',
+      '-L',
+      theirsLabel,
+      path.join(tempDir, 'ours'),
+      path.join(tempDir, 'base'),
+      path.join(tempDir, 'theirs'),
+    ];
+    try {
+      const merged = execFileSync('git', args, { stdio: 'pipe' });
+      return { content: merged.toString('latin1'), conflicts: false };
+    } catch (error: any) {
+      // git merge-file exits with the number of conflicts (capped at 127) and
+      // still prints the merged result; other exit codes are real errors.
+      if (
+        typeof error.status === 'number' &&
+        error.status > 0 &&
+        error.status < 128
+      ) {
+        return { content: error.stdout.toString('latin1'), conflicts: true };
+      }
+      throw new Error(
+        `CRITICAL ERROR: 'git merge-file' failed. Details: ${error.stderr ? error.stderr.toString().trim() : error.message}`,
+      );
+    }
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+}
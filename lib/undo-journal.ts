@@ -0,0 +1,390 @@
+// lib/undo-journal.ts
+// Copyright (c) 2025 tailot@gmail.com
+// SPDX-License-Identifier: MIT
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { execSync } from 'child_process';
+import { TAYLORED_JOURNAL_DIR_NAME } from './constants';
+import { getHeadCommit } from './state-ledger';
+import { takeFileSnapshot, restoreFileSnapshot } from './file-snapshot';
+import { computeGitBlobId } from './binary-patch';
+import { TayloredError } from './errors';
+
+// The number of operations the journal keeps; older entries are dropped.
+const MAX_JOURNAL_ENTRIES = 50;
+
+/**
+ * One mutating command (`--add`, `--remove`, `--offset`, `--automatic`,
+ * `--upgrade`) recorded in the undo journal.
+ */
+export interface JournalEntry {
+  /** Increases with every recorded operation; never reused. */
+  id: number;
+  /** The command, e.g. "--add". */
+  command: string;
+  /** The patch or group the command was run on, if any. */
+  target: string | null;
+  /** ISO-8601 timestamp of the operation. */
+  timestamp: string;
+  /** The HEAD commit at the time of the operation, or null if it could not be determined. */
+  headCommit: string | null;
+  /**
+   * False if the command failed after changing files (e.g. a group added
+   * with `--no-rollback`).
+   */
+  succeeded: boolean;
+  /**
+   * The files the command changed, with their content before it ran: the ID
+   * of a blob stored in the journal, or null if the file did not exist. Paths
+   * are relative to the repository root, with '/' separators.
+   */
+  before: { [file: string]: string | null };
+  /**
+   * The same files after the command, as blob IDs (their content is not
+   * stored), to detect files changed since.
+   */
+  after: { [file: string]: string | null };
+}
+
+/**
+ * On-disk structure of the journal (`journal.json`). Entries are in the order
+ * they were recorded, oldest first.
+ */
+export interface UndoJournal {
+  version: 1;
+  nextId: number;
+  entries: JournalEntry[];
+}
+
+/**
+ * The result of `undoJournalEntries`.
+ */
+export interface UndoResult {
+  /** The operations undone, newest first. */
+  undone: JournalEntry[];
+  /** The files restored, relative to the repository root. */
+  files: string[];
+}
+
+/**
+ * Returns the directory of the undo journal of the working tree: a directory
+ * of its Git directory, so that linked worktrees have journals of their own.
+ *
+ * @param {string} CWD - The root of the working tree.
+ * @returns {string | null} The directory (which may not exist yet), or null
+ *          if `CWD` is not in a Git repository.
+ */
+export function getJournalDir(CWD: string): string | null {
+  try {
+    const gitDir = execSync('git rev-parse --absolute-git-dir', {
+      cwd: CWD,
+      encoding: 'utf8',
+      stdio: 'pipe',
+    }).trim();
+    return path.join(gitDir, TAYLORED_JOURNAL_DIR_NAME);
+  } catch (error: any) {
+    return null;
+  }
+}
+
+/**
+ * Reads the journal. A missing journal is treated as an empty one.
+ *
+ * @throws {Error} If the journal exists but cannot be read or is not valid JSON.
+ */
+async function readJournal(journalDir: string): Promise<UndoJournal> {
+  const journalPath = path.join(journalDir, 'journal.json');
+  let raw: string;
+  try {
+    raw = await fs.readFile(journalPath, 'utf8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return { version: 1, nextId: 1, entries: [] };
+    }
+    throw new Error(
+      `CRITICAL ERROR: Could not read the undo journal '${journalPath}'. Details: ${error.message}`,
+    );
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    if (!parsed || !Array.isArray(parsed.entries)) {
+      throw new Error("missing 'entries' array");
+    }
+    return {
+      version: 1,
+      nextId:
+        typeof parsed.nextId === 'number'
+          ? parsed.nextId
+          : Math.max(0, ...parsed.entries.map((e: JournalEntry) => e.id)) + 1,
+      entries: parsed.entries,
+    };
+  } catch (error: any) {
+    throw new Error(
+      `CRITICAL ERROR: The undo journal '${journalPath}' is corrupted. Delete '${journalDir}' to start a new one. Details: ${error.message}`,
+    );
+  }
+}
+
+/**
+ * Writes the journal and deletes the blobs no entry refers to any more.
+ */
+async function writeJournal(
+  journalDir: string,
+  journal: UndoJournal,
+): Promise<void> {
+  const objectsDir = path.join(journalDir, 'objects');
+  await fs.mkdir(objectsDir, { recursive: true });
+  await fs.writeFile(
+    path.join(journalDir, 'journal.json'),
+    JSON.stringify(journal, null, 2) + '\n',
+  );
+  const referenced = new Set(
+    journal.entries.flatMap((entry) => Object.values(entry.before)),
+  );
+  for (const blobId of await fs.readdir(objectsDir)) {
+    if (!referenced.has(blobId)) {
+      await fs.rm(path.join(objectsDir, blobId), { force: true });
+    }
+  }
+}
+
+// Blobs are named after their Git blob ID, so identical contents are stored once.
+async function storeBlob(journalDir: string, content: Buffer): Promise<string> {
+  const blobId = computeGitBlobId(content);
+  const objectsDir = path.join(journalDir, 'objects');
+  await fs.mkdir(objectsDir, { recursive: true });
+  try {
+    await fs.writeFile(path.join(objectsDir, blobId), content, { flag: 'wx' });
+  } catch (error: any) {
+    if (error.code !== 'EEXIST') {
+      throw error;
+    }
+  }
+  return blobId;
+}
+
+async function readCurrentBlobId(
+  CWD: string,
+  file: string,
+): Promise<string | null> {
+  try {
+    return computeGitBlobId(await fs.readFile(path.join(CWD, file)));
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Lists the files of a directory, recursively, relative to `CWD`. A missing
+ * directory has no files.
+ *
+ * @param {string} directory - The directory, relative to `CWD`.
+ * @param {string} CWD - The root of the repository.
+ * @returns {Promise<string[]>} The files.
+ */
+export async function listFilesRecursively(
+  directory: string,
+  CWD: string,
+): Promise<string[]> {
+  let entries;
+  try {
+    entries = await fs.readdir(path.join(CWD, directory), {
+      withFileTypes: true,
+    });
+  } catch (error: any) {
+    if (error.code === 'ENOENT' || error.code === 'ENOTDIR') {
+      return [];
+    }
+    throw error;
+  }
+  const files: string[] = [];
+  for (const entry of entries) {
+    const relativePath = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await listFilesRecursively(relativePath, CWD)));
+    } else {
+      files.push(relativePath);
+    }
+  }
+  return files;
+}
+
+/**
+ * Runs a mutating command and records in the undo journal the files it
+ * changed, with their content before it ran. The files that may change are
+ * given by `listFiles`, relative to `CWD`; it is called before and after the
+ * command, so that files created in a listed directory are found too.
+ *
+ * The entry is recorded whether the command succeeds or fails, as long as a
+ * file changed; nothing is recorded outside a Git repository. A failure to
+ * write the journal is reported as a warning: the files have changed by then.
+ *
+ * @async
+ * @param {string} CWD - The root of the repository.
+ * @param {string} command - The command, e.g. "--add".
+ * @param {string | null} target - The patch or group, if any.
+ * @param {() => Promise<string[]>} listFiles - The files the command may change.
+ * @param {() => Promise<T>} run - The command.
+ * @returns {Promise<T>} The result of `run`.
+ */
+export async function journalOperation<T>(
+  CWD: string,
+  command: string,
+  target: string | null,
+  listFiles: () => Promise<string[]>,
+  run: () => Promise<T>,
+): Promise<T> {
+  const journalDir = getJournalDir(CWD);
+  if (!journalDir) {
+    return run();
+  }
+  const snapshot = await takeFileSnapshot(await listFiles(), CWD);
+  const headCommit = getHeadCommit(CWD);
+  let succeeded = false;
+  try {
+    const result = await run();
+    succeeded = true;
+    return result;
+  } finally {
+    try {
+      const files = new Map(snapshot.files);
+      for (const file of await listFiles()) {
+        if (!files.has(file)) {
+          files.set(file, null);
+        }
+      }
+      const entry: JournalEntry = {
+        id: 0,
+        command,
+        target,
+        timestamp: new Date().toISOString(),
+        headCommit,
+        succeeded,
+        before: {},
+        after: {},
+      };
+      for (const [file, previous] of files) {
+        const currentId = await readCurrentBlobId(CWD, file);
+        const previousId =
+          previous === null ? null : computeGitBlobId(previous);
+        if (currentId !== previousId) {
+          const key = file.split(path.sep).join('/');
+          entry.before[key] =
+            previous === null ? null : await storeBlob(journalDir, previous);
+          entry.after[key] = currentId;
+        }
+      }
+      if (Object.keys(entry.before).length > 0) {
+        const journal = await readJournal(journalDir);
+        entry.id = journal.nextId++;
+        journal.entries.push(entry);
+        journal.entries.splice(
+          0,
+          Math.max(0, journal.entries.length - MAX_JOURNAL_ENTRIES),
+        );
+        await writeJournal(journalDir, journal);
+      }
+    } catch (error: any) {
+      console.warn(
+        `Warning: Could not record ${command} in the undo journal. Details: ${error.message}`,
+      );
+    }
+  }
+}
+
+/**
+ * Reads the entries of the undo journal of a working tree.
+ *
+ * @param {string} CWD - The root of the repository.
+ * @returns {Promise<JournalEntry[]>} The entries, oldest first.
+ */
+export async function readJournalEntries(CWD: string): Promise<JournalEntry[]> {
+  const journalDir = getJournalDir(CWD);
+  return journalDir ? (await readJournal(journalDir)).entries : [];
+}
+
+/**
+ * Undoes the last operation of the journal or, with `entryId`, every
+ * operation back to that entry (included): the files they changed get back
+ * the content they had before, and the entries are removed from the journal.
+ *
+ * Every file must still be as the operations left it, so that changes made
+ * since are not lost; `force` restores the files anyway.
+ *
+ * @async
+ * @param {string} CWD - The root of the repository.
+ * @param {number} [entryId] - The oldest entry to undo; the last one by default.
+ * @param {boolean} [force=false] - Restore files changed since the operations.
+ * @returns {Promise<UndoResult>} The operations undone and the files restored.
+ * @throws {TayloredError} `USAGE_ERROR` if the journal is empty or has no
+ *         such entry; `UNDO_CONFLICT` if files changed since, listed in its
+ *         details. Nothing is restored in either case.
+ */
+export async function undoJournalEntries(
+  CWD: string,
+  entryId?: number,
+  force: boolean = false,
+): Promise<UndoResult> {
+  const journalDir = getJournalDir(CWD);
+  const journal = journalDir
+    ? await readJournal(journalDir)
+    : { version: 1 as const, nextId: 1, entries: [] };
+  if (journal.entries.length === 0) {
+    throw new TayloredError(
+      'USAGE_ERROR',
+      'CRITICAL ERROR: Nothing to undo: the journal is empty.',
+    );
+  }
+  const first =
+    entryId === undefined
+      ? journal.entries.length - 1
+      : journal.entries.findIndex((entry) => entry.id === entryId);
+  if (first === -1) {
+    throw new TayloredError(
+      'USAGE_ERROR',
+      `CRITICAL ERROR: The journal has no entry ${entryId}. Run 'taylored --history' to list the entries.`,
+    );
+  }
+  const undone = journal.entries.slice(first).reverse();
+
+  // Undoes the entries, newest first, on the IDs of the file contents: each
+  // file must be as the entry left it, then gets the content it had before.
+  const contents = new Map<string, string | null>();
+  const conflicts: string[] = [];
+  for (const entry of undone) {
+    for (const [file, afterId] of Object.entries(entry.after)) {
+      const currentId = contents.has(file)
+        ? contents.get(file)
+        : await readCurrentBlobId(CWD, file);
+      if (currentId !== afterId && !conflicts.includes(file)) {
+        conflicts.push(file);
+      }
+      contents.set(file, entry.before[file]);
+    }
+  }
+  if (conflicts.length > 0 && !force) {
+    const message = `CRITICAL ERROR: ${conflicts.length} file(s) changed since the operation(s) to undo. Nothing was restored; use --force to overwrite them.`;
+    console.error(message);
+    conflicts.forEach((file) => console.error(`  ${file}`));
+    throw new TayloredError('UNDO_CONFLICT', message, conflicts);
+  }
+
+  // Every blob is read before the first file is written.
+  const files = new Map<string, Buffer | null>();
+  for (const [file, blobId] of contents) {
+    files.set(
+      file,
+      blobId === null
+        ? null
+        : await fs.readFile(path.join(journalDir!, 'objects', blobId)),
+    );
+  }
+  await restoreFileSnapshot({ baseDir: CWD, files });
+  journal.entries.splice(first);
+  await writeJournal(journalDir!, journal);
+  return { undone, files: [...contents.keys()].sort() };
+}
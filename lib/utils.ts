@@ -1,8 +1,12 @@
-import { execSync } from 'child_process';
+import { execSync, execFileSync } from 'child_process';
 import * as parseDiffModule from 'parse-diff';
 import * as fs from 'fs/promises'; // Added for findPatchesInDirectory
 import * as path from 'path'; // Added for findPatchesInDirectory and sortPatchesNumerically
 import { TAYLORED_FILE_EXTENSION } from './constants';
+import { TayloredError, TayloredErrorCode } from './errors';
+import { writeJsonError } from './output';
+import { parsePatchMetadata } from './patch-metadata';
+import { PatchAnalyzer } from './PatchAnalyzer';
 
 /**
  * Ensures a Taylored filename ends with the standard .taylored extension.
@@ -24,6 +28,29 @@ export function resolveTayloredFileName(userInputFileName: string): string {
   return userInputFileName + TAYLORED_FILE_EXTENSION;
 }
 
+/**
+ * Finds the root of the Git working tree that contains a directory, with
+ * `git rev-parse --show-toplevel`. This works from any subdirectory, in linked
+ * worktrees (where `.git` is a file rather than a directory) and in submodules,
+ * whose own root is returned.
+ *
+ * @param directory An absolute path to a directory.
+ * @returns The absolute path of the root, or null if the directory is not in a
+ *          Git working tree (or Git is not installed).
+ */
+export function findRepositoryRoot(directory: string): string | null {
+  try {
+    const root = execSync('git rev-parse --show-toplevel', {
+      cwd: directory,
+      encoding: 'utf8',
+      stdio: 'pipe',
+    }).trim();
+    return root ? path.resolve(root) : null;
+  } catch (error: any) {
+    return null;
+  }
+}
+
 /**
  * Prints usage information or an error message to the console and exits the process.
  *
@@ -39,40 +66,85 @@ export function resolveTayloredFileName(userInputFileName: string): string {
  *                If provided, the process will exit with a status code of 1.
  * @param printFullUsage If true, or if a message is provided, the full usage text is printed.
  *                       Defaults to false.
+ * @param errorCode The code reported for `message` with `--json`. Defaults to `USAGE_ERROR`.
  * @returns {void} This function does not return a value as it exits the process.
  */
 export function printUsageAndExit(
   message?: string,
   printFullUsage: boolean = false,
+  errorCode: TayloredErrorCode = 'USAGE_ERROR',
 ): void {
   if (message) {
     console.error(message);
+    // No-op unless --json was given; the usage text below goes to stderr then.
+    writeJsonError(new TayloredError(errorCode, message));
   }
   if (printFullUsage || message) {
     // Always print usage if there's a message
     console.log(`
 Usage: taylored <option> [arguments]`);
     console.log(`
-Core Patching Commands (require to be run in a Git repository root):`);
+Core Patching Commands (require to be run in a Git repository):`);
     console.log(`  --add <taylored_file_name>          Applies the patch.`);
     console.log(`  --remove <taylored_file_name>       Reverses the patch.`);
+    console.log(
+      `                                      On a directory, patches are applied all-or-nothing;`,
+    );
+    console.log(
+      `                                      add --no-rollback to keep partial changes on failure.`,
+    );
+    console.log(
+      `                                      Add --engine native to apply without git (no repository needed).`,
+    );
+    console.log(
+      `                                      Add --3way to merge files that no longer apply (conflict markers).`,
+    );
+    console.log(
+      `                                      Add --preview to print the resulting diff without changing files.`,
+    );
     console.log(
       `  --verify-add <taylored_file_name>   Verifies if the patch can be applied.`,
     );
     console.log(
       `  --verify-remove <taylored_file_name> Verifies if the patch can be reversed.`,
     );
+    console.log(`  --verify-all [--junit <FILE>] [--sarif <FILE>]`);
     console.log(
-      `  --save <branch_name>                Creates a patch from changes in <branch_name>.`,
+      `                                      Checks every patch; writes JUnit/SARIF reports for CI.`,
+    );
+    console.log(
+      `  --save <source> | --staged          Creates a patch from changes in a branch, commit ('rev^!'),`,
+    );
+    console.log(
+      `                                      range ('A..B'), stash entry or the index. --name <name> names it.`,
+    );
+    console.log(
+      `                                      --include/--exclude <PATHSPEC_LIST> limit it to some paths;`,
+    );
+    console.log(
+      `                                      --split <file|directory> saves one patch per file or directory.`,
+    );
+    console.log(
+      `                                      Add --split-mixed to split mixed changes into a remove/add group.`,
+    );
+    console.log(`  --sign <taylored_file_name> --key <private_key>`);
+    console.log(
+      `                                      Signs a patch with an Ed25519 key; --add --require-signature checks it.`,
     );
     console.log(
       `  --list                              Lists all applied patches.`,
     );
+    console.log(
+      `  --status                            Reports which patches are applied, not applied, drifted or unknown.`,
+    );
+    console.log(
+      `  --overlaps                          Shows which patches overlap and whether they can be applied together.`,
+    );
     console.log(
       `  --offset <taylored_file_name> [BRANCH_NAME] Adjusts patch offsets based on current branch or specified BRANCH_NAME.`,
     );
     console.log(
-      `  --automatic <EXTENSIONS> <branch_name> [--exclude <DIR_LIST>]`,
+      `  --automatic <EXTENSIONS> <branch_name> [--exclude <DIR_LIST>] [--watch]`,
     );
     console.log(
       `                                      Automatically computes and applies line offsets for patches based on Git history.`,
@@ -84,6 +156,31 @@ Core Patching Commands (require to be run in a Git repository root):`);
     console.log(
       `                                      If frames are intact, updates the patch content from the target file.`,
     );
+    console.log(`  --undo [ENTRY] [--force]`);
+    console.log(
+      `                                      Restores the files changed by the last add, remove, offset, automatic or upgrade.`,
+    );
+    console.log(
+      `  --history                           Lists the operations --undo can undo, newest first.`,
+    );
+    console.log(
+      `  hooks install|uninstall [--pre-commit] [--pre-push] [--force]`,
+    );
+    console.log(
+      `                                      Installs Git hooks that block commits and pushes that would break a patch.`,
+    );
+    console.log(
+      `  --json                              With any command: prints one JSON result document to stdout (messages go to stderr).`,
+    );
+    console.log(
+      `  Run 'taylored <option> --help' for the arguments and options of a command.`,
+    );
+    console.log(
+      `  Defaults (base branch, --automatic extensions and excludes, patch directory, output)`,
+    );
+    console.log(
+      `  can be set in a .tayloredrc JSON file at the repository root; arguments override them.`,
+    );
 
     // <taylored number="9003">
     console.log(`
@@ -108,6 +205,15 @@ Taysell Monetization Commands:`);
   process.exit(1);
 }
 
+/**
+ * Counts of the binary files in a diff, by kind of change.
+ */
+export interface BinaryFileCounts {
+  added: number;
+  deleted: number;
+  modified: number;
+}
+
 /**
  * Parses git diff output to count additions and deletions and determine if the diff is "pure".
  *
@@ -115,11 +221,16 @@ Taysell Monetization Commands:`);
  * Mixed additions and deletions are not pure. This function uses the `parse-diff` library
  * to interpret the diff string.
  *
+ * Binary files (sections with "GIT binary patch" data or a "Binary files ... differ"
+ * line) have no lines to count: a new binary file counts as an addition, a deleted
+ * one as a deletion, and a modified one as both, which makes the diff impure.
+ *
  * @param diffOutput The string output from a `git diff` command. Can be an empty string for no changes.
  *                   Undefined input will result in a failure status.
  * @returns An object detailing:
  *          - `additions`: The total number of lines added.
  *          - `deletions`: The total number of lines deleted.
+ *          - `binaryFiles`: The number of binary files added, deleted and modified.
  *          - `isPure`: Boolean indicating if the diff is purely additive, purely deletive, or empty.
  *          - `success`: Boolean indicating if the parsing and analysis were successful.
  *          - `errorMessage`: An optional message if parsing failed or input was invalid.
@@ -127,12 +238,14 @@ Taysell Monetization Commands:`);
 export function analyzeDiffContent(diffOutput: string | undefined): {
   additions: number;
   deletions: number;
+  binaryFiles: BinaryFileCounts;
   isPure: boolean;
   success: boolean;
   errorMessage?: string;
 } {
   let additions = 0;
   let deletions = 0;
+  const binaryFiles: BinaryFileCounts = { added: 0, deleted: 0, modified: 0 };
   let isPure = false;
   let success = true;
   let errorMessage: string | undefined;
@@ -150,10 +263,24 @@ export function analyzeDiffContent(diffOutput: string | undefined): {
           additions += file.additions;
           deletions += file.deletions;
         }
+        for (const section of new PatchAnalyzer().parsePatch(diffOutput)) {
+          if (!section.isBinary) {
+            continue;
+          }
+          if (section.isNewFile) {
+            binaryFiles.added++;
+          } else if (section.isDeletedFile) {
+            binaryFiles.deleted++;
+          } else {
+            binaryFiles.modified++;
+          }
+        }
+        const adds = additions + binaryFiles.added + binaryFiles.modified;
+        const deletes = deletions + binaryFiles.deleted + binaryFiles.modified;
         isPure =
-          (additions > 0 && deletions === 0) ||
-          (deletions > 0 && additions === 0) ||
-          (additions === 0 && deletions === 0);
+          (adds > 0 && deletes === 0) ||
+          (deletes > 0 && adds === 0) ||
+          (adds === 0 && deletes === 0);
       } catch (parseError: any) {
         errorMessage = `Failed to parse diff output. Error: ${parseError.message}`;
         success = false;
@@ -164,25 +291,35 @@ export function analyzeDiffContent(diffOutput: string | undefined): {
     errorMessage = `Diff output was unexpectedly undefined.`;
     success = false;
   }
-  return { additions, deletions, isPure, success, errorMessage };
+  return { additions, deletions, binaryFiles, isPure, success, errorMessage };
 }
 
 /**
- * Executes a `git diff HEAD <branchName>` command and analyzes its output for purity.
+ * Executes a `git diff --binary <from> <branchName> -- <pathspecs>` command and analyzes
+ * its output for purity.
  *
- * This function captures the diff between the current HEAD and a specified branch.
+ * This function captures the diff between `from` (the current HEAD by default) and a
+ * specified branch, or any other tree-ish (see `lib/save-source.ts`), limited to the
+ * paths matching `pathspecs` if any are given.
  * It then uses `analyzeDiffContent` to count additions/deletions and determine
- * if the diff is pure (all additions or all deletions).
+ * if the diff is pure (all additions or all deletions). With `--binary`, binary files
+ * are included as full-index binary deltas that `git apply` can apply, instead of
+ * "Binary files ... differ" stubs.
  * Handles cases where `git diff` itself might exit with a non-zero status (e.g., status 1
  * when differences are found, which is normal for diffing).
  *
  * @param branchName The name of the branch to compare against the current HEAD.
- *                   The branch name is sanitized for use in the shell command.
  * @param CWD The current working directory, expected to be the root of a Git repository.
+ * @param from The tree-ish the diff starts from. Defaults to `HEAD`.
+ * @param pathspecs Git pathspecs the diff is limited to, e.g. `src` or `:(exclude)docs`.
+ *                  Defaults to none: the whole diff.
+ * @param env The environment of `git diff`, e.g. of `withTemporaryObjects` if a side
+ *            of the diff is only there. Defaults to `process.env`.
  * @returns An object containing:
  *          - `diffOutput`: The raw string output from the `git diff` command. Undefined if the command failed critically.
  *          - `additions`: Total lines added.
  *          - `deletions`: Total lines deleted.
+ *          - `binaryFiles`: The number of binary files added, deleted and modified.
  *          - `isPure`: Boolean indicating if the diff is pure.
  *          - `errorMessage`: An optional error message if the command or analysis failed.
  *          - `success`: Boolean indicating overall success of both fetching and analyzing the diff.
@@ -190,24 +327,38 @@ export function analyzeDiffContent(diffOutput: string | undefined): {
 export function getAndAnalyzeDiff(
   branchName: string,
   CWD: string,
+  from: string = 'HEAD',
+  pathspecs: string[] = [],
+  env: NodeJS.ProcessEnv = process.env,
 ): {
   diffOutput?: string;
   additions: number;
   deletions: number;
+  binaryFiles: BinaryFileCounts;
   isPure: boolean;
   errorMessage?: string;
   success: boolean;
 } {
-  const command = `git diff HEAD "${branchName.replace(/"/g, '\\"')}"`; // Basic quoting for branch name
+  const args = ['diff', '--binary', from, branchName];
+  if (pathspecs.length > 0) {
+    args.push('--', ...pathspecs);
+  }
+  const command = `git ${args.join(' ')}`;
   let diffOutput: string | undefined;
   let errorMessage: string | undefined;
   let commandSuccess = false;
   let additions = 0;
   let deletions = 0;
+  let binaryFiles: BinaryFileCounts = { added: 0, deleted: 0, modified: 0 };
   let isPure = false;
 
   try {
-    diffOutput = execSync(command, { encoding: 'utf8', cwd: CWD });
+    diffOutput = execFileSync('git', args, {
+      encoding: 'utf8',
+      cwd: CWD,
+      env,
+      stdio: 'pipe',
+    });
     commandSuccess = true; // Command succeeded, implies diffOutput is valid (even if empty)
   } catch (error: any) {
     if (error.status === 1 && typeof error.stdout === 'string') {
@@ -241,6 +392,7 @@ export function getAndAnalyzeDiff(
     if (analysis.success) {
       additions = analysis.additions;
       deletions = analysis.deletions;
+      binaryFiles = analysis.binaryFiles;
       isPure = analysis.isPure;
     } else {
       errorMessage =
@@ -255,6 +407,7 @@ export function getAndAnalyzeDiff(
     diffOutput,
     additions,
     deletions,
+    binaryFiles,
     isPure,
     errorMessage,
     success: commandSuccess,
@@ -264,9 +417,9 @@ export function getAndAnalyzeDiff(
 /**
  * Attempts to extract a commit-like message from the header of a patch file content.
  *
- * It primarily looks for a "Subject:" line, similar to `git format-patch` output,
- * and cleans common prefixes like "[PATCH]".
- * If no "Subject:" line is found, it uses a heuristic to find potential message lines
+ * It primarily looks for the title of the metadata preamble (a "Title:" or
+ * "Subject:" line, see `parsePatchMetadata`), without prefixes like "[PATCH]".
+ * If there is no title, it uses a heuristic to find potential message lines
  * from the beginning of the patch, avoiding common Git header lines and diff content.
  *
  * This is useful for automatically deriving a description or name for a patch
@@ -282,18 +435,11 @@ export function extractMessageFromPatch(
   if (!patchContent || typeof patchContent !== 'string') {
     return null;
   }
-  const lines = patchContent.split('\n');
-  // Attempt to find Subject line
-  for (const line of lines) {
-    if (line.startsWith('Subject:')) {
-      let message = line.substring('Subject:'.length).trim();
-      // Remove common prefixes like [PATCH], [PATCH 0/N], [PATCH N/M]
-      message = message.replace(/^\[PATCH(?:\s+\d+\/\d+)?\]\s*/, '');
-      if (message) {
-        return message;
-      }
-    }
+  const { title } = parsePatchMetadata(patchContent);
+  if (title) {
+    return title;
   }
+  const lines = patchContent.split('\n');
 
   // Fallback: Look for non-header, non-diff lines near the beginning
   let inHeader = true;
@@ -388,3 +534,46 @@ export function sortPatchesNumerically(filePaths: string[]): string[] {
     }
   });
 }
+
+/**
+ * Finds the candidate closest to a mistyped name, for "did you mean" hints.
+ *
+ * Candidates are compared by Levenshtein distance (case-insensitively); only a
+ * candidate within a third of the name's length (at least 2 edits) is returned.
+ *
+ * @param {string} name - The unknown name, e.g. a misspelled option.
+ * @param {string[]} candidates - The valid names.
+ * @returns {string | undefined} The closest candidate, or undefined if none is close.
+ */
+export function suggestClosest(
+  name: string,
+  candidates: string[],
+): string | undefined {
+  const distance = (a: string, b: string): number => {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+        current[j] = Math.min(
+          previous[j] + 1,
+          current[j - 1] + 1,
+          previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+        );
+      }
+      previous = current;
+    }
+    return previous[b.length];
+  };
+
+  const maxDistance = Math.max(2, Math.floor(name.length / 3));
+  let best: string | undefined;
+  let bestDistance = Infinity;
+  for (const candidate of candidates) {
+    const d = distance(name.toLowerCase(), candidate.toLowerCase());
+    if (d <= maxDistance && d < bestDistance) {
+      best = candidate;
+      bestDistance = d;
+    }
+  }
+  return best;
+}
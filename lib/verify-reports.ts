@@ -0,0 +1,183 @@
+// lib/verify-reports.ts
+// Copyright (c) 2025 tailot@gmail.com
+// SPDX-License-Identifier: MIT
+
+import type {
+  PatchHealth,
+  VerifyAllResult,
+} from './handlers/verify-all-handler';
+
+// The rules reported in SARIF results.
+const PATCH_INAPPLICABLE_RULE = 'taylored/patch-inapplicable';
+const FRAME_MISMATCH_RULE = 'taylored/frame-mismatch';
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// The path of a patch relative to the repository root, using '/' separators.
+function getPatchUri(health: PatchHealth, tayloredDirName: string): string {
+  return `${tayloredDirName.split('\\').join('/')}/${health.patch}`;
+}
+
+/**
+ * Formats the result of `--verify-all` as a JUnit XML report: one test suite,
+ * with one test case per patch. A failing patch has a `<failure>` listing
+ * every problem; an empty patch is `<skipped>`.
+ *
+ * @param {VerifyAllResult} result - The health of every patch.
+ * @param {string} tayloredDirName - The .taylored directory, relative to the
+ *                                   repository root.
+ * @returns {string} The XML document.
+ */
+export function formatJUnitReport(
+  result: VerifyAllResult,
+  tayloredDirName: string,
+): string {
+  const counts = `tests="${result.patches.length}" failures="${result.failed}" errors="0" skipped="${result.skipped}"`;
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="taylored" ${counts}>`,
+    `  <testsuite name="taylored --verify-all" ${counts}>`,
+  ];
+  for (const health of result.patches) {
+    const uri = getPatchUri(health, tayloredDirName);
+    const separator = uri.lastIndexOf('/');
+    const attributes = `classname="${escapeXml(uri.substring(0, separator))}" name="${escapeXml(uri.substring(separator + 1))}"`;
+    if (health.skipped) {
+      lines.push(
+        `    <testcase ${attributes}>`,
+        '      <skipped message="The patch is empty."/>',
+        '    </testcase>',
+      );
+      continue;
+    }
+    lines.push(`    <testcase ${attributes}>`);
+    if (health.failures.length > 0) {
+      lines.push(
+        `      <failure message="${escapeXml(health.failures[0])}" type="${health.applicable ? 'FrameMismatch' : 'PatchInapplicable'}">${escapeXml(health.failures.join('\n'))}</failure>`,
+      );
+    }
+    const verified = health.verified
+      ? `--verify-${health.verified}`
+      : 'add or remove';
+    lines.push(
+      `      <system-out>${escapeXml(`state: ${health.state}; verified: ${verified}`)}</system-out>`,
+      '    </testcase>',
+    );
+  }
+  lines.push('  </testsuite>', '</testsuites>', '');
+  return lines.join('\n');
+}
+
+/**
+ * Formats the result of `--verify-all` as a SARIF 2.1.0 log, for code
+ * scanning tools. A patch that cannot be applied or removed is reported on
+ * the patch file; every modified frame is reported on the line of the target
+ * file where it was expected.
+ *
+ * @param {VerifyAllResult} result - The health of every patch.
+ * @param {string} tayloredDirName - The .taylored directory, relative to the
+ *                                   repository root.
+ * @returns {string} The JSON document.
+ */
+export function formatSarifReport(
+  result: VerifyAllResult,
+  tayloredDirName: string,
+): string {
+  const results: object[] = [];
+  for (const health of result.patches) {
+    const patchUri = getPatchUri(health, tayloredDirName);
+    if (!health.applicable) {
+      results.push({
+        ruleId: PATCH_INAPPLICABLE_RULE,
+        level: 'error',
+        message: { text: `${health.patch}: ${health.failures[0]}` },
+        locations: [
+          { physicalLocation: { artifactLocation: { uri: patchUri } } },
+        ],
+      });
+    }
+    for (const frames of health.frames) {
+      if (frames.status === 'error') {
+        results.push({
+          ruleId: FRAME_MISMATCH_RULE,
+          level: 'error',
+          message: { text: `${health.patch}: ${frames.message}` },
+          locations: [
+            { physicalLocation: { artifactLocation: { uri: patchUri } } },
+          ],
+        });
+        continue;
+      }
+      for (const block of frames.blocks || []) {
+        for (const frame of [block.topFrame, block.bottomFrame]) {
+          if (frame.intact) {
+            continue;
+          }
+          results.push({
+            ruleId: FRAME_MISMATCH_RULE,
+            level: 'error',
+            message: {
+              text: `${health.patch}: ${frame.message} Expected "${(frame.expected || '').trim()}".`,
+            },
+            locations: [
+              {
+                physicalLocation: {
+                  artifactLocation: { uri: frames.file },
+                  ...(frame.lineNumber && frame.lineNumber > 0
+                    ? { region: { startLine: frame.lineNumber } }
+                    : {}),
+                },
+              },
+            ],
+            relatedLocations: [
+              {
+                id: 0,
+                physicalLocation: { artifactLocation: { uri: patchUri } },
+              },
+            ],
+          });
+        }
+      }
+    }
+  }
+
+  const log = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'taylored',
+            informationUri: 'https://github.com/tailot/taylored',
+            rules: [
+              {
+                id: PATCH_INAPPLICABLE_RULE,
+                name: 'PatchInapplicable',
+                shortDescription: {
+                  text: 'A patch can neither be applied nor removed cleanly.',
+                },
+              },
+              {
+                id: FRAME_MISMATCH_RULE,
+                name: 'FrameMismatch',
+                shortDescription: {
+                  text: 'The context lines around a change of a patch are not where the patch expects them.',
+                },
+              },
+            ],
+          },
+        },
+        results,
+      },
+    ],
+  };
+  return JSON.stringify(log, null, 2) + '\n';
+}
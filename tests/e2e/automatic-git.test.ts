@@ -117,38 +117,88 @@ describe('Automatic Command (Git Workflow)', () => {
       }
     });
 
-    test('Clean Git State: Fails if uncommitted changes exist', () => {
-      testRepoPath = setupTestRepo('clean_state_uncommitted');
+    test('Uncommitted Changes: Blocks are extracted from HEAD in a temporary worktree, leaving the working tree untouched', () => {
+      testRepoPath = setupTestRepo('dirty_working_tree');
       createFileAndCommit(
         testRepoPath,
-        'committed_file.txt',
-        'initial content',
-        'Initial commit of a file',
+        'src/app.ts',
+        '// File content\n// <taylored number="1">\n// block\n// </taylored>',
+        'Add app.ts',
       );
+      const gitOpts: ExecSyncOptionsWithStringEncoding = {
+        cwd: testRepoPath,
+        encoding: 'utf8',
+        stdio: 'pipe',
+      };
+      const dirtyContent =
+        '// Edited\n// <taylored number="1">\n// changed block\n// </taylored>\n';
+      fs.writeFileSync(path.join(testRepoPath, 'src/app.ts'), dirtyContent);
       fs.writeFileSync(
-        path.join(testRepoPath, 'committed_file.txt'),
-        'changed content',
+        path.join(testRepoPath, 'untracked_file.txt'),
+        'untracked content',
       );
+      // The patches are written to .taylored/; nothing else may change.
+      const statusCommand = "git status --porcelain -- . ':!.taylored'";
+      const statusBefore = execSync(statusCommand, gitOpts);
 
       const result = runTayloredCommand(testRepoPath, '--automatic ts main');
-      expect(result.status).not.toBe(0);
-      expect(result.stderr).toContain(
-        'CRITICAL ERROR: Uncommitted changes or untracked files in the repository.',
+      expect(result.status).toBe(0);
+      expect(result.stdout).toContain(
+        "INFO: Uncommitted changes are not included: blocks are extracted from the last commit of 'main'.",
+      );
+      const patchContent = fs.readFileSync(
+        path.join(
+          testRepoPath,
+          TAYLORED_DIR_NAME,
+          `1${TAYLORED_FILE_EXTENSION}`,
+        ),
+        'utf8',
       );
+      expect(patchContent).toContain('-// block');
+      expect(patchContent).not.toContain('changed block');
+
+      expect(
+        fs.readFileSync(path.join(testRepoPath, 'src/app.ts'), 'utf8'),
+      ).toBe(dirtyContent);
+      expect(execSync(statusCommand, gitOpts)).toBe(statusBefore);
+      expect(execSync('git rev-parse --abbrev-ref HEAD', gitOpts).trim()).toBe(
+        'main',
+      );
+      expect(execSync('git branch', gitOpts).trim()).toBe('* main');
+      expect(
+        execSync('git worktree list --porcelain', gitOpts).match(
+          /^worktree /gm,
+        ),
+      ).toHaveLength(1);
     });
 
-    test('Clean Git State: Fails if untracked files exist', () => {
-      testRepoPath = setupTestRepo('clean_state_untracked');
-      fs.writeFileSync(
-        path.join(testRepoPath, 'untracked_file.txt'),
-        'untracked content',
+    test('Stale Worktrees: Worktrees left by interrupted runs are removed', () => {
+      testRepoPath = setupTestRepo('stale_worktrees');
+      const gitOpts: ExecSyncOptionsWithStringEncoding = {
+        cwd: testRepoPath,
+        encoding: 'utf8',
+        stdio: 'pipe',
+      };
+      // Named after a process that is not running.
+      const staleWorktree = path.join(
+        testRepoPath,
+        '.git',
+        'taylored-worktrees',
+        '999999999-0badc0de',
       );
+      execSync(`git worktree add --detach "${staleWorktree}"`, gitOpts);
 
       const result = runTayloredCommand(testRepoPath, '--automatic ts main');
-      expect(result.status).not.toBe(0);
-      expect(result.stderr).toContain(
-        'CRITICAL ERROR: Uncommitted changes or untracked files in the repository.',
+      expect(result.status).toBe(0);
+      expect(result.stdout).toContain(
+        `INFO: Removed the stale temporary worktree '${staleWorktree}'.`,
       );
+      expect(fs.existsSync(staleWorktree)).toBe(false);
+      expect(
+        execSync('git worktree list --porcelain', gitOpts).match(
+          /^worktree /gm,
+        ),
+      ).toHaveLength(1);
     });
 
     test('Intermediate .taylored/main.taylored Must Not Exist: Fails if it exists', () => {
@@ -0,0 +1,202 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ChildProcess, execSync, spawn } from 'child_process';
+
+const PROJECT_ROOT_PATH = path.resolve(__dirname, '../..');
+const TEMP_TEST_DIR = path.join(PROJECT_ROOT_PATH, 'temp_e2e_automatic_watch');
+
+const STATIC_FILE_CONTENT = `line 1
+// <taylored number="1" title="Greeting">
+console.log('hello');
+// </taylored>
+line 5
+`;
+
+const COMPUTE_FILE_CONTENT = `start
+// <taylored number="2" compute="/*,*/">
+/*
+#!/bin/sh
+echo "computed"
+*/
+// </taylored>
+end
+`;
+
+// Resolves once the output of the watcher matches `pattern`.
+const waitForOutput = (
+  getOutput: () => string,
+  pattern: RegExp,
+  timeoutMs = 20000,
+): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const started = Date.now();
+    const poll = setInterval(() => {
+      if (pattern.test(getOutput())) {
+        clearInterval(poll);
+        resolve();
+      } else if (Date.now() - started > timeoutMs) {
+        clearInterval(poll);
+        reject(
+          new Error(
+            `Timed out waiting for ${pattern}. Output:\n${getOutput()}`,
+          ),
+        );
+      }
+    }, 100);
+  });
+
+describe('taylored --automatic --watch', () => {
+  let watcher: ChildProcess | undefined;
+  let output = '';
+
+  beforeEach(() => {
+    fs.rmSync(TEMP_TEST_DIR, { recursive: true, force: true });
+    fs.mkdirSync(TEMP_TEST_DIR, { recursive: true });
+    const execOpts = { cwd: TEMP_TEST_DIR, stdio: 'pipe' as const };
+    execSync('git init -b main', execOpts);
+    execSync('git config user.name "Test User"', execOpts);
+    execSync('git config user.email "test@example.com"', execOpts);
+    execSync('git config commit.gpgsign false', execOpts);
+    fs.writeFileSync(path.join(TEMP_TEST_DIR, 'app.js'), STATIC_FILE_CONTENT);
+    fs.writeFileSync(
+      path.join(TEMP_TEST_DIR, 'compute.js'),
+      COMPUTE_FILE_CONTENT,
+    );
+    fs.mkdirSync(path.join(TEMP_TEST_DIR, 'vendor'));
+    fs.writeFileSync(path.join(TEMP_TEST_DIR, 'vendor', 'lib.js'), 'lib\n');
+    execSync('git add . && git commit -m "Initial commit"', execOpts);
+
+    output = '';
+    watcher = spawn(
+      process.execPath,
+      [
+        '-r',
+        'ts-node/register',
+        path.join(PROJECT_ROOT_PATH, 'index.ts'),
+        '--automatic',
+        'js',
+        'main',
+        '--watch',
+        '--exclude',
+        'vendor',
+      ],
+      {
+        cwd: TEMP_TEST_DIR,
+        env: { ...process.env, TS_NODE_TRANSPILE_ONLY: 'true' },
+      },
+    );
+    watcher.stdout!.on('data', (data) => (output += data.toString()));
+    watcher.stderr!.on('data', (data) => (output += data.toString()));
+  });
+
+  afterEach(async () => {
+    if (watcher && watcher.exitCode === null) {
+      const exited = new Promise((resolve) => watcher!.once('exit', resolve));
+      watcher.kill('SIGINT');
+      await exited;
+    }
+    watcher = undefined;
+    fs.rmSync(TEMP_TEST_DIR, { recursive: true, force: true });
+  });
+
+  test('extracts missing patches, then regenerates only the blocks that change', async () => {
+    await waitForOutput(() => output, /Watching 2 file\(s\)/);
+    const patchPath = path.join(TEMP_TEST_DIR, '.taylored', '1.taylored');
+    expect(fs.readFileSync(patchPath, 'utf8')).toContain(
+      "-console.log('hello');",
+    );
+    expect(output).toContain('Regenerated 2.taylored from block 2');
+
+    // A burst of saves (on a now dirty tree) triggers a single regeneration.
+    const appPath = path.join(TEMP_TEST_DIR, 'app.js');
+    fs.writeFileSync(appPath, STATIC_FILE_CONTENT.replace('hello', 'hi'));
+    fs.writeFileSync(appPath, STATIC_FILE_CONTENT.replace('hello', 'howdy'));
+    await waitForOutput(
+      () => output,
+      /Watching[\s\S]*Regenerated 1\.taylored from block 1 in app\.js\./,
+    );
+    // Let a second, unexpected pass show up before checking.
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+    const passes = output.split('Watching')[1];
+    expect(passes.match(/Regenerated/g)).toHaveLength(1);
+    expect(fs.readFileSync(patchPath, 'utf8')).toBe(`Title: Greeting
+
+diff --git a/app.js b/app.js
+--- a/app.js
++++ b/app.js
+@@ -1,5 +1,2 @@
+ line 1
+-// <taylored number="1" title="Greeting">
+-console.log('howdy');
+-// </taylored>
+ line 5
+`);
+
+    const exited = new Promise((resolve) => watcher!.once('exit', resolve));
+    watcher!.kill('SIGINT');
+    expect(await exited).toBe(0);
+    expect(output).toContain('Stopped watching.');
+  }, 60000);
+
+  test('logs a failing compute block and keeps watching', async () => {
+    await waitForOutput(() => output, /Watching 2 file\(s\)/);
+    const computePath = path.join(TEMP_TEST_DIR, 'compute.js');
+    fs.writeFileSync(
+      computePath,
+      COMPUTE_FILE_CONTENT.replace('echo "computed"', 'exit 3'),
+    );
+    await waitForOutput(
+      () => output,
+      /ERROR: Could not regenerate 2\.taylored from block 2 in compute\.js: Script failed with code 3/,
+    );
+
+    fs.writeFileSync(computePath, COMPUTE_FILE_CONTENT);
+    await waitForOutput(
+      () => output,
+      /Script failed[\s\S]*Regenerated 2\.taylored from block 2 in compute\.js\./,
+    );
+    expect(watcher!.exitCode).toBeNull();
+  }, 60000);
+
+  test('ignores excluded directories and watches new ones', async () => {
+    await waitForOutput(() => output, /Watching 2 file\(s\)/);
+    const block = (numero: number) =>
+      `// <taylored number="${numero}">\nconsole.log(${numero});\n// </taylored>\n`;
+
+    // A block in an excluded directory triggers no pass.
+    fs.writeFileSync(path.join(TEMP_TEST_DIR, 'vendor', 'lib.js'), block(3));
+    fs.mkdirSync(path.join(TEMP_TEST_DIR, 'vendor', 'nested'));
+    fs.writeFileSync(
+      path.join(TEMP_TEST_DIR, 'vendor', 'nested', 'deep.js'),
+      block(4),
+    );
+    await new Promise((resolve) => setTimeout(resolve, 1500));
+    expect(output.split('Watching')[1]).not.toMatch(/Regenerated|ERROR/);
+
+    // A directory created while watching is watched, with the files it
+    // already had.
+    fs.mkdirSync(path.join(TEMP_TEST_DIR, 'src', 'feature'), {
+      recursive: true,
+    });
+    fs.writeFileSync(
+      path.join(TEMP_TEST_DIR, 'src', 'feature', 'first.js'),
+      block(5),
+    );
+    await waitForOutput(
+      () => output,
+      /Regenerated 5\.taylored from block 5 in src[\\/]feature[\\/]first\.js\./,
+    );
+    fs.writeFileSync(
+      path.join(TEMP_TEST_DIR, 'src', 'feature', 'second.js'),
+      block(6),
+    );
+    await waitForOutput(
+      () => output,
+      /Regenerated 6\.taylored from block 6 in src[\\/]feature[\\/]second\.js\./,
+    );
+    expect(output).not.toMatch(/block [34]/);
+    expect(
+      fs.existsSync(path.join(TEMP_TEST_DIR, '.taylored', '3.taylored')),
+    ).toBe(false);
+  }, 60000);
+});
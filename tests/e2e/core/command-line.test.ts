@@ -0,0 +1,75 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { execSync } from 'child_process';
+import {
+  initializeTestEnvironment,
+  cleanupTestEnvironment,
+  resetToInitialState,
+  TAYLORED_CMD_BASE,
+  TEST_DIR_FULL_PATH,
+  execOptions,
+  PLUGIN_DELETIONS_NAME,
+} from './setup';
+
+const runTaylored = (args: string) =>
+  execSync(`${TAYLORED_CMD_BASE} ${args}`, execOptions).toString();
+
+const runExpectingFailure = (args: string) => {
+  try {
+    execSync(`${TAYLORED_CMD_BASE} ${args}`, execOptions);
+  } catch (error: any) {
+    return (error.stdout || '').toString() + (error.stderr || '').toString();
+  }
+  throw new Error(`Expected '${args}' to fail.`);
+};
+
+describe('Core CLI Tests - command line parsing', () => {
+  beforeAll(async () => {
+    await initializeTestEnvironment();
+  });
+
+  afterAll(async () => {
+    await cleanupTestEnvironment();
+  });
+
+  beforeEach(async () => {
+    await resetToInitialState();
+  });
+
+  test('<command> --help prints the arguments and options of the command', () => {
+    const output = runTaylored('--add --help');
+    expect(output).toContain(
+      'Usage: taylored --add <taylored_file_name_or_path> [options]',
+    );
+    expect(output).toContain('--engine <git|native>');
+    expect(output).toContain('--no-rollback');
+    expect(output).not.toContain('--exclude');
+  });
+
+  test('options accept --flag=value and may precede arguments', () => {
+    runTaylored(`--add --engine=git ${PLUGIN_DELETIONS_NAME}`);
+    expect(
+      fs.existsSync(path.join(TEST_DIR_FULL_PATH, 'file_to_delete.txt')),
+    ).toBe(false);
+  });
+
+  test('typos in commands and options are reported with a suggestion', () => {
+    expect(runExpectingFailure(`--ad ${PLUGIN_DELETIONS_NAME}`)).toContain(
+      "CRITICAL ERROR: Unknown option or command '--ad'. Did you mean '--add'?",
+    );
+
+    const output = runExpectingFailure(
+      `--add ${PLUGIN_DELETIONS_NAME} --no-rolback`,
+    );
+    expect(output).toContain(
+      "CRITICAL ERROR: Unknown option '--no-rolback' for --add. Did you mean '--no-rollback'?",
+    );
+    // The help of the command follows the error.
+    expect(output).toContain(
+      'Usage: taylored --add <taylored_file_name_or_path> [options]',
+    );
+    expect(
+      fs.existsSync(path.join(TEST_DIR_FULL_PATH, 'file_to_delete.txt')),
+    ).toBe(true);
+  });
+});
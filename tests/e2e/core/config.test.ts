@@ -0,0 +1,92 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { execSync } from 'child_process';
+import {
+  initializeTestEnvironment,
+  cleanupTestEnvironment,
+  resetToInitialState,
+  TAYLORED_CMD_BASE,
+  TEST_DIR_FULL_PATH,
+  execOptions,
+  BRANCH_DELETIONS,
+  PLUGIN_DELETIONS_NAME,
+} from './setup';
+
+const runTaylored = (args: string) =>
+  execSync(`${TAYLORED_CMD_BASE} ${args}`, execOptions).toString();
+
+const runExpectingFailure = (args: string) => {
+  try {
+    execSync(`${TAYLORED_CMD_BASE} ${args}`, execOptions);
+  } catch (error: any) {
+    return (error.stdout || '').toString() + (error.stderr || '').toString();
+  }
+  throw new Error(`Expected '${args}' to fail.`);
+};
+
+const writeConfig = (config: object | string) =>
+  fs.writeFileSync(
+    path.join(TEST_DIR_FULL_PATH, '.tayloredrc'),
+    typeof config === 'string' ? config : JSON.stringify(config),
+  );
+
+describe('Core CLI Tests - .tayloredrc', () => {
+  beforeAll(async () => {
+    await initializeTestEnvironment();
+  });
+
+  afterAll(async () => {
+    await cleanupTestEnvironment();
+  });
+
+  beforeEach(async () => {
+    await resetToInitialState();
+  });
+
+  test('patchDirectory moves where patches are saved, listed and applied from', () => {
+    writeConfig({ patchDirectory: 'patches' });
+
+    runTaylored(`--save ${BRANCH_DELETIONS}`);
+    expect(
+      fs.existsSync(
+        path.join(TEST_DIR_FULL_PATH, 'patches', PLUGIN_DELETIONS_NAME),
+      ),
+    ).toBe(true);
+    expect(runTaylored('--list')).toContain(PLUGIN_DELETIONS_NAME);
+
+    runTaylored(`--add ${PLUGIN_DELETIONS_NAME}`);
+    expect(
+      fs.existsSync(path.join(TEST_DIR_FULL_PATH, 'file_to_delete.txt')),
+    ).toBe(false);
+    expect(
+      fs.existsSync(path.join(TEST_DIR_FULL_PATH, 'patches', '.state.json')),
+    ).toBe(true);
+  });
+
+  test('output.json enables --json for every command', () => {
+    writeConfig({ output: { json: true } });
+
+    const document = JSON.parse(runTaylored('--list'));
+    expect(document).toMatchObject({
+      command: '--list',
+      success: true,
+      result: { patches: [PLUGIN_DELETIONS_NAME] },
+    });
+  });
+
+  test('invalid configuration files are rejected with readable errors', () => {
+    writeConfig({ baseBrach: 'main', output: { color: 'always' } });
+
+    const output = runExpectingFailure('--list');
+    expect(output).toContain(
+      `CRITICAL ERROR: Invalid configuration file '${path.join(TEST_DIR_FULL_PATH, '.tayloredrc')}'.`,
+    );
+    expect(output).toContain(
+      "  - Unknown key 'baseBrach'. Did you mean 'baseBranch'?",
+    );
+    expect(output).toContain("  - 'output.color' must be a boolean.");
+
+    writeConfig('{ "baseBranch": ');
+    expect(runExpectingFailure('--list')).toContain('Not valid JSON');
+  });
+});
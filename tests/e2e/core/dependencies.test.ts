@@ -0,0 +1,151 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { execSync } from 'child_process';
+import {
+  initializeTestEnvironment,
+  cleanupTestEnvironment,
+  resetToInitialState,
+  TEST_DIR_FULL_PATH,
+  TAYLORED_DIR_FULL_PATH,
+  TAYLORED_CMD_BASE,
+  execOptions,
+} from './setup';
+
+const CWD = TEST_DIR_FULL_PATH;
+const INITIAL_CONTENT = 'Initial content for target.txt\n';
+
+const runTaylored = (args: string) =>
+  execSync(`${TAYLORED_CMD_BASE} ${args}`, {
+    ...execOptions,
+    cwd: CWD,
+    encoding: 'utf-8',
+  });
+
+const runTayloredExpectingFailure = (args: string) => {
+  try {
+    runTaylored(args);
+  } catch (error: any) {
+    return (error.stdout || '') + (error.stderr || '');
+  }
+  throw new Error(`Expected 'taylored ${args}' to fail.`);
+};
+
+const writePatch = async (name: string, content: string) => {
+  const fullPath = path.join(TAYLORED_DIR_FULL_PATH, name);
+  await fs.mkdir(path.dirname(fullPath), { recursive: true });
+  await fs.writeFile(fullPath, content);
+};
+
+const readTarget = () => fs.readFile(path.join(CWD, 'target.txt'), 'utf-8');
+
+// "2-base" adds a line that "1-feature" needs as context, so the numeric
+// order is wrong and only the declared requirement makes the group apply.
+const BASE_PATCH = `--- a/target.txt
++++ b/target.txt
+@@ -1,1 +1,2 @@
+ Initial content for target.txt
++Base line
+`;
+const FEATURE_PATCH = `Requires: 2-base
+--- a/target.txt
++++ b/target.txt
+@@ -2,1 +2,2 @@
+ Base line
++Feature line
+`;
+
+describe('Core CLI Tests - Patch dependencies', () => {
+  beforeAll(async () => {
+    await initializeTestEnvironment();
+  });
+
+  afterAll(async () => {
+    await cleanupTestEnvironment();
+  });
+
+  beforeEach(async () => {
+    await resetToInitialState(true);
+    await fs.writeFile(path.join(CWD, 'target.txt'), INITIAL_CONTENT);
+    execSync('git add target.txt && git commit -m "add target.txt"', {
+      cwd: CWD,
+    });
+    await writePatch('deps/2-base.taylored', BASE_PATCH);
+    await writePatch('deps/1-feature.taylored', FEATURE_PATCH);
+  });
+
+  test('group --add applies required patches first and --remove reverses that order', async () => {
+    const addOutput = runTaylored('--add deps');
+    expect(addOutput.indexOf('  - deps/2-base.taylored')).toBeLessThan(
+      addOutput.indexOf('  - deps/1-feature.taylored'),
+    );
+    expect(await readTarget()).toEqual(
+      `${INITIAL_CONTENT}Base line\nFeature line\n`,
+    );
+
+    const removeOutput = runTaylored('--remove deps');
+    expect(removeOutput.indexOf('  - deps/1-feature.taylored')).toBeLessThan(
+      removeOutput.indexOf('  - deps/2-base.taylored'),
+    );
+    expect(await readTarget()).toEqual(INITIAL_CONTENT);
+  });
+
+  test('--add refuses a patch whose prerequisite is not applied', async () => {
+    const output = runTayloredExpectingFailure('--add deps/1-feature');
+    expect(output).toContain(
+      "'deps/1-feature.taylored' requires 'deps/2-base.taylored', which is not applied",
+    );
+    expect(output).toContain('No files were modified.');
+    expect(await readTarget()).toEqual(INITIAL_CONTENT);
+  });
+
+  test('--add applies a patch once its prerequisite is applied', async () => {
+    runTaylored('--add deps/2-base');
+    runTaylored('--add deps/1-feature');
+    expect(await readTarget()).toContain('Feature line');
+  });
+
+  test('--remove refuses a patch that an applied patch requires', async () => {
+    runTaylored('--add deps');
+    const output = runTayloredExpectingFailure('--remove deps/2-base');
+    expect(output).toContain(
+      "'deps/1-feature.taylored' requires 'deps/2-base.taylored' and is currently applied",
+    );
+    expect(await readTarget()).toContain('Feature line');
+  });
+
+  test('declared conflicts block --add while the other patch is applied', async () => {
+    await writePatch(
+      'deps/taylored.json',
+      JSON.stringify({ patches: { alternative: { conflicts: ['2-base'] } } }),
+    );
+    await writePatch(
+      'deps/alternative.taylored',
+      `--- a/target.txt
++++ b/target.txt
+@@ -1,1 +1,2 @@
+ Initial content for target.txt
++Alternative line
+`,
+    );
+
+    runTaylored('--add deps/2-base');
+    const output = runTayloredExpectingFailure('--add deps/alternative');
+    expect(output).toContain(
+      "'deps/alternative.taylored' conflicts with 'deps/2-base.taylored', which is currently applied.",
+    );
+    expect(await readTarget()).toEqual(`${INITIAL_CONTENT}Base line\n`);
+  });
+
+  test('a dependency cycle is reported before any file is touched', async () => {
+    await writePatch(
+      'deps/taylored.json',
+      JSON.stringify({ patches: { '2-base': { requires: ['1-feature'] } } }),
+    );
+    const output = runTayloredExpectingFailure('--add deps');
+    expect(output).toMatch(
+      /Dependency cycle detected: deps\/(1-feature|2-base)\.taylored -> .* -> deps\/\1\.taylored/,
+    );
+    expect(output).not.toContain('INFO: ==>');
+    expect(await readTarget()).toEqual(INITIAL_CONTENT);
+  });
+});
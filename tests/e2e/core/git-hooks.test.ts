@@ -0,0 +1,166 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { execSync } from 'child_process';
+import {
+  initializeTestEnvironment,
+  cleanupTestEnvironment,
+  resetToInitialState,
+  TAYLORED_CMD_BASE,
+  TEST_DIR_FULL_PATH,
+  PLUGIN_DELETIONS_NAME,
+  execOptions,
+} from './setup';
+
+// The installed hooks run the `taylored` found on the PATH.
+const BIN_DIR = path.join(TEST_DIR_FULL_PATH, '..', 'taylored_test_bin');
+
+// Git with the hooks enabled (the environment may disable them through
+// GIT_CONFIG_* variables, e.g. core.hooksPath=/dev/null) and taylored on the PATH.
+const gitEnv = (extra: { [name: string]: string } = {}) => {
+  const env: NodeJS.ProcessEnv = { ...process.env, ...extra };
+  for (const name of Object.keys(env)) {
+    if (name.startsWith('GIT_CONFIG_')) {
+      delete env[name];
+    }
+  }
+  env.PATH = `${BIN_DIR}${path.delimiter}${env.PATH}`;
+  return env;
+};
+
+const run = (command: string, extraEnv?: { [name: string]: string }) =>
+  execSync(command, { ...execOptions, env: gitEnv(extraEnv) }).toString();
+
+const runExpectingFailure = (command: string): string => {
+  try {
+    execSync(`${command} 2>&1`, { ...execOptions, env: gitEnv() });
+  } catch (error: any) {
+    return error.stdout.toString();
+  }
+  throw new Error(`${command} was expected to fail`);
+};
+
+// Changes line 2 of file1.txt, which the deletions patch removes: the patch
+// then neither applies nor reverts.
+const breakPatch = () =>
+  fs.writeFileSync(
+    path.join(TEST_DIR_FULL_PATH, 'file1.txt'),
+    'L1: Initial content for file1.\nL2: Changed.\nL3: Line three.\nL4: Line four.\nL5: Line five.\n',
+  );
+
+describe('Core CLI Tests - Git hooks', () => {
+  beforeAll(async () => {
+    await initializeTestEnvironment();
+    fs.mkdirSync(BIN_DIR, { recursive: true });
+    fs.writeFileSync(
+      path.join(BIN_DIR, 'taylored'),
+      `#!/bin/sh\nexec ${TAYLORED_CMD_BASE} "$@"\n`,
+      { mode: 0o755 },
+    );
+  });
+
+  afterAll(async () => {
+    await cleanupTestEnvironment();
+    fs.rmSync(BIN_DIR, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    await resetToInitialState();
+    fs.rmSync(path.join(TEST_DIR_FULL_PATH, '.git', 'hooks'), {
+      recursive: true,
+      force: true,
+    });
+    run('git add .taylored && git commit -q -m "Add patches"');
+  });
+
+  test('the pre-commit hook blocks a commit that breaks a patch, unless skipped', () => {
+    const output = run(`${TAYLORED_CMD_BASE} hooks install --pre-commit`);
+    expect(output).toContain("Installed the pre-commit hook in '.git/hooks/'.");
+    const hookPath = path.join(TEST_DIR_FULL_PATH, '.git', 'hooks');
+    expect(fs.existsSync(path.join(hookPath, 'pre-commit'))).toBe(true);
+    expect(fs.existsSync(path.join(hookPath, 'pre-push'))).toBe(false);
+
+    // Applying the patch keeps it removable: the commit goes through.
+    run(`${TAYLORED_CMD_BASE} --add ${PLUGIN_DELETIONS_NAME}`);
+    expect(run('git commit -q -am "Apply patch" 2>&1')).toContain(
+      `OK (applied)      ${PLUGIN_DELETIONS_NAME}`,
+    );
+    run('git reset -q --hard HEAD~1');
+
+    breakPatch();
+    const blocked = runExpectingFailure('git commit -q -am "Break patch"');
+    expect(blocked).toContain(`BROKEN            ${PLUGIN_DELETIONS_NAME}`);
+    expect(blocked).toContain(
+      `'${PLUGIN_DELETIONS_NAME}' can neither be applied to nor removed from the commit being made.`,
+    );
+    expect(run('git log -1 --format=%s').trim()).toBe('Add patches');
+
+    run('git commit -q -am "Break patch"', { TAYLORED_SKIP_GIT_HOOKS: '1' });
+    expect(run('git log -1 --format=%s').trim()).toBe('Break patch');
+  });
+
+  test('hooks run pre-push checks the pushed commits', () => {
+    breakPatch();
+    run('git commit -q -am "Break patch"');
+    const good = run('git rev-parse HEAD~1').trim();
+    const bad = run('git rev-parse HEAD').trim();
+    const zero = '0'.repeat(40);
+
+    const { result } = JSON.parse(
+      execSync(`${TAYLORED_CMD_BASE} hooks run pre-push --json`, {
+        ...execOptions,
+        input: `refs/heads/good ${good} refs/heads/good ${zero}\n(delete) ${zero} refs/heads/old ${good}\n`,
+      }).toString(),
+    );
+    expect(result).toEqual({
+      hook: 'pre-push',
+      checks: [
+        {
+          target: 'refs/heads/good',
+          commit: good,
+          patches: [{ patch: PLUGIN_DELETIONS_NAME, state: 'not-applied' }],
+        },
+      ],
+    });
+
+    let error: any;
+    try {
+      execSync(`${TAYLORED_CMD_BASE} hooks run pre-push --json`, {
+        ...execOptions,
+        input: `refs/heads/main ${bad} refs/heads/main ${good}\n`,
+      });
+    } catch (e: any) {
+      error = JSON.parse(e.stdout.toString()).error;
+    }
+    expect(error).toMatchObject({
+      code: 'PATCH_APPLY_FAILED',
+      details: [
+        `'${PLUGIN_DELETIONS_NAME}' can neither be applied to nor removed from refs/heads/main (${bad.substring(0, 7)}).`,
+      ],
+    });
+  });
+
+  test('existing hooks are only replaced with --force, and uninstall keeps them', () => {
+    const hookPath = path.join(TEST_DIR_FULL_PATH, '.git', 'hooks', 'pre-push');
+    fs.mkdirSync(path.dirname(hookPath), { recursive: true });
+    fs.writeFileSync(hookPath, '#!/bin/sh\nexit 0\n', { mode: 0o755 });
+
+    const refused = runExpectingFailure(`${TAYLORED_CMD_BASE} hooks install`);
+    expect(refused).toContain(
+      "CRITICAL ERROR: A pre-push hook already exists in '.git/hooks/'. Add 'taylored hooks run pre-push' to it, or use --force to replace it.",
+    );
+    expect(fs.existsSync(path.join(path.dirname(hookPath), 'pre-commit'))).toBe(
+      false,
+    );
+
+    const uninstalled = run(`${TAYLORED_CMD_BASE} hooks uninstall`);
+    expect(uninstalled).toContain('was not installed by taylored');
+    expect(fs.readFileSync(hookPath, 'utf8')).toBe('#!/bin/sh\nexit 0\n');
+
+    run(`${TAYLORED_CMD_BASE} hooks install --force`);
+    expect(fs.readFileSync(hookPath, 'utf8')).toContain(
+      'taylored hooks run pre-push',
+    );
+    run(`${TAYLORED_CMD_BASE} hooks uninstall`);
+    expect(fs.existsSync(hookPath)).toBe(false);
+  });
+});
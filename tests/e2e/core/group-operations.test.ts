@@ -204,6 +204,98 @@ describe('E2E Tests for Group Operations and Hierarchical List', () => {
     });
   });
 
+  describe('transactional --add on a directory', () => {
+    // A group whose third patch cannot apply: it expects context that no patch creates.
+    const createFailingGroup = async () => {
+      await createDummyPatch(
+        'failing-group/1-ok.taylored',
+        `--- a/target.txt
++++ b/target.txt
+@@ -1,1 +1,2 @@
+ Initial content for target.txt
++Line from 1-ok
+`,
+      );
+      await createDummyPatch(
+        'failing-group/2-ok.taylored',
+        `--- a/another.txt
++++ b/another.txt
+@@ -1,1 +1,2 @@
+ Initial content for another.txt
++Line from 2-ok
+`,
+      );
+      await createDummyPatch(
+        'failing-group/3-broken.taylored',
+        `--- a/target.txt
++++ b/target.txt
+@@ -1,2 +1,3 @@
+ Initial content for target.txt
+ This context line does not exist
++Line from 3-broken
+`,
+      );
+    };
+
+    const runTayloredExpectingFailure = (args: string) => {
+      try {
+        runTaylored(args);
+      } catch (error: any) {
+        return (error.stdout || '') + (error.stderr || '');
+      }
+      throw new Error(`Expected 'taylored ${args}' to fail.`);
+    };
+
+    it('should roll back already applied patches when a later patch fails', async () => {
+      await createFailingGroup();
+
+      const output = runTayloredExpectingFailure('--add failing-group');
+
+      expect(output).toContain('Rolling back the group operation');
+      expect(output).toContain('Reverted: failing-group/2-ok.taylored');
+      expect(output).toContain('Reverted: failing-group/1-ok.taylored');
+      expect(await readTargetFile('target.txt')).toEqual(
+        'Initial content for target.txt\n',
+      );
+      expect(await readTargetFile('another.txt')).toEqual(
+        'Initial content for another.txt\n',
+      );
+      expect(await readTargetFile('target.txt.rej')).toBeNull();
+      expect(await readTargetFile('another.txt.rej')).toBeNull();
+      expect(
+        execSync('git status --porcelain --untracked-files=no', {
+          cwd: CWD,
+          encoding: 'utf-8',
+        }).trim(),
+      ).toEqual('');
+      // Nothing was left applied, so nothing may be left in the state ledger.
+      expect(
+        await readTargetFile(`${TAYLORED_DIR_NAME}/.state.json`),
+      ).toBeNull();
+    });
+
+    it('should keep the partial state with --no-rollback', async () => {
+      await createFailingGroup();
+
+      const output = runTayloredExpectingFailure(
+        '--add failing-group --no-rollback',
+      );
+
+      expect(output).toContain('Rollback disabled (--no-rollback)');
+      expect(await readTargetFile('target.txt')).toContain('Line from 1-ok');
+      expect(await readTargetFile('another.txt')).toContain('Line from 2-ok');
+    });
+
+    it('should reject --no-rollback for verify operations', () => {
+      const output = runTayloredExpectingFailure(
+        '--verify-add test-group --no-rollback',
+      );
+      expect(output).toContain(
+        '--no-rollback can only be used with --add or --remove',
+      );
+    });
+  });
+
   describe('--verify-add on a directory', () => {
     it('should verify patches in a directory without applying them', async () => {
       const output = runTaylored('--verify-add test-group');
@@ -0,0 +1,135 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { execSync } from 'child_process';
+import {
+  initializeTestEnvironment,
+  cleanupTestEnvironment,
+  resetToInitialState,
+  TAYLORED_CMD_BASE,
+  TEST_DIR_FULL_PATH,
+  TAYLORED_DIR_FULL_PATH,
+  PLUGIN_DELETIONS_FULL_PATH,
+  PLUGIN_DELETIONS_NAME,
+  MODIFIED_FILE1_DELETIONS_CONTENT,
+  normalizeLineEndings,
+  execOptions,
+} from './setup';
+
+const runTaylored = (args: string) =>
+  execSync(`${TAYLORED_CMD_BASE} ${args}`, execOptions).toString();
+
+const runExpectingFailure = (args: string): string => {
+  try {
+    execSync(`${TAYLORED_CMD_BASE} ${args}`, execOptions);
+  } catch (error: any) {
+    return error.stdout.toString();
+  }
+  throw new Error(`taylored ${args} was expected to fail`);
+};
+
+const HOOK_LOG = path.join(TEST_DIR_FULL_PATH, 'hooks.log');
+
+// Hooks run through the shell of the platform (sh, or cmd.exe on Windows), so
+// they are written as node scripts: double quotes around the script, none of
+// `$`, `%`, `!` or backquotes inside it.
+const nodeHook = (script: string) => `node -e "${script}"`;
+const appendToLog = (expression: string) =>
+  nodeHook(`require('fs').appendFileSync('hooks.log', ${expression} + '\\n')`);
+const readFile1 = () =>
+  normalizeLineEndings(
+    fs.readFileSync(path.join(TEST_DIR_FULL_PATH, 'file1.txt'), 'utf8'),
+  );
+
+describe('Core CLI Tests - lifecycle hooks', () => {
+  beforeAll(async () => {
+    await initializeTestEnvironment();
+  });
+
+  afterAll(async () => {
+    await cleanupTestEnvironment();
+  });
+
+  beforeEach(async () => {
+    await resetToInitialState();
+  });
+
+  test('.tayloredrc hooks run around --add, and a failing pre hook vetoes --remove', () => {
+    const VETO_HOOK = nodeHook("console.error('not now'); process.exit(2)");
+    fs.writeFileSync(
+      path.join(TEST_DIR_FULL_PATH, '.tayloredrc'),
+      JSON.stringify({
+        hooks: {
+          preAdd: appendToLog(
+            "[process.env.TAYLORED_HOOK, process.env.TAYLORED_PATCH, ...process.env.TAYLORED_FILES.split('\\n')].join(' ')",
+          ),
+          postAdd: appendToLog(
+            "process.env.TAYLORED_HOOK + ' ' + process.env.TAYLORED_MODE",
+          ),
+          preRemove: VETO_HOOK,
+        },
+      }),
+    );
+
+    runTaylored(`--add ${PLUGIN_DELETIONS_NAME}`);
+    const log = fs.readFileSync(HOOK_LOG, 'utf8').split('\n');
+    expect(log[0]).toBe(
+      `preAdd ${PLUGIN_DELETIONS_NAME} file1.txt file_to_delete.txt`,
+    );
+    expect(log[1]).toBe('postAdd --add');
+    expect(readFile1()).toBe(
+      normalizeLineEndings(MODIFIED_FILE1_DELETIONS_CONTENT),
+    );
+
+    const { error } = JSON.parse(
+      runExpectingFailure(`--remove ${PLUGIN_DELETIONS_NAME} --json`),
+    );
+    expect(error).toMatchObject({
+      code: 'HOOK_FAILED',
+      message: `The preRemove hook '${VETO_HOOK}' (.tayloredrc) failed with exit code 2. --remove was not run.`,
+    });
+    // The patch is still applied.
+    expect(readFile1()).toBe(
+      normalizeLineEndings(MODIFIED_FILE1_DELETIONS_CONTENT),
+    );
+  });
+
+  test('group manifest hooks run for its patches; a failing post hook is only reported', () => {
+    const groupDir = path.join(TAYLORED_DIR_FULL_PATH, 'hooked');
+    fs.mkdirSync(groupDir);
+    fs.renameSync(
+      PLUGIN_DELETIONS_FULL_PATH,
+      path.join(groupDir, PLUGIN_DELETIONS_NAME),
+    );
+    fs.writeFileSync(
+      path.join(groupDir, 'taylored.json'),
+      JSON.stringify({
+        hooks: {
+          preAdd: nodeHook(
+            "require('fs').writeFileSync('hooks.log', require('fs').readFileSync(0))",
+          ),
+          postAdd: ['exit 1', appendToLog("'done'")],
+        },
+      }),
+    );
+
+    const output = execSync(
+      `${TAYLORED_CMD_BASE} --add hooked 2>&1`,
+      execOptions,
+    ).toString();
+    expect(output).toContain(
+      `ERROR: The postAdd hook 'exit 1' (${path.join('.taylored', 'hooked', 'taylored.json')}) failed with exit code 1. --add itself completed successfully.`,
+    );
+    const [input, done] = fs.readFileSync(HOOK_LOG, 'utf8').trim().split('\n');
+    expect(JSON.parse(input)).toMatchObject({
+      hook: 'preAdd',
+      operation: 'add',
+      mode: '--add',
+      patch: 'hooked',
+      patches: [`hooked/${PLUGIN_DELETIONS_NAME}`],
+    });
+    expect(done).toBe('done');
+    expect(readFile1()).toBe(
+      normalizeLineEndings(MODIFIED_FILE1_DELETIONS_CONTENT),
+    );
+  });
+});
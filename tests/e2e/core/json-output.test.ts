@@ -0,0 +1,170 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import {
+  initializeTestEnvironment,
+  cleanupTestEnvironment,
+  resetToInitialState,
+  TAYLORED_CMD_BASE,
+  TEST_DIR_FULL_PATH,
+  TAYLORED_DIR_FULL_PATH,
+  PLUGIN_DELETIONS_NAME,
+} from './setup';
+
+// Runs taylored with --json and parses its standard output, which must be a
+// single JSON document and nothing else.
+const runJson = (args: string) => {
+  const run = spawnSync(`${TAYLORED_CMD_BASE} ${args} --json`, {
+    cwd: TEST_DIR_FULL_PATH,
+    shell: true,
+    encoding: 'utf8',
+  });
+  return {
+    status: run.status,
+    stderr: run.stderr,
+    document: JSON.parse(run.stdout),
+  };
+};
+
+const addLinePatch = (line: string, context: string) =>
+  `diff --git a/file1.txt b/file1.txt
+--- a/file1.txt
++++ b/file1.txt
+@@ -1,2 +1,3 @@
+ ${context}
++${line}
+ L2: Line two.
+`;
+
+describe('Core CLI Tests - --json output', () => {
+  beforeAll(async () => {
+    await initializeTestEnvironment();
+  });
+
+  afterAll(async () => {
+    await cleanupTestEnvironment();
+  });
+
+  beforeEach(async () => {
+    await resetToInitialState();
+  });
+
+  test('--add --json reports the patch outcome with file and hunk statistics', () => {
+    const { status, stderr, document } = runJson(
+      `--add ${PLUGIN_DELETIONS_NAME}`,
+    );
+
+    expect(status).toBe(0);
+    expect(document).toEqual({
+      command: '--add',
+      success: true,
+      exitCode: 0,
+      error: null,
+      result: {
+        target: PLUGIN_DELETIONS_NAME,
+        group: false,
+        patches: [
+          {
+            patch: PLUGIN_DELETIONS_NAME,
+            outcome: 'applied',
+            files: [
+              {
+                path: 'file1.txt',
+                status: 'modified',
+                hunks: 1,
+                additions: 0,
+                deletions: 2,
+                binary: false,
+              },
+              {
+                path: 'file_to_delete.txt',
+                status: 'deleted',
+                hunks: 1,
+                additions: 0,
+                deletions: 1,
+                binary: false,
+              },
+            ],
+          },
+        ],
+      },
+    });
+    // Human-readable output, including git's, goes to stderr.
+    expect(stderr).toContain('Applied patch file1.txt cleanly.');
+  });
+
+  test('--add --json reports failures with an error code', () => {
+    runJson(`--add ${PLUGIN_DELETIONS_NAME}`);
+
+    const { status, document } = runJson(`--add ${PLUGIN_DELETIONS_NAME}`);
+
+    expect(status).toBe(1);
+    expect(document.success).toBe(false);
+    expect(document.exitCode).toBe(1);
+    expect(document.error).toEqual({
+      code: 'PATCH_APPLY_FAILED',
+      message: "'git apply' failed during --add operation.",
+      details: [],
+    });
+    expect(document.result.patches[0]).toMatchObject({
+      patch: PLUGIN_DELETIONS_NAME,
+      outcome: 'failed',
+      error: { code: 'PATCH_APPLY_FAILED' },
+    });
+  });
+
+  test('group operations report each patch, including rollbacks and skipped patches', () => {
+    const groupDir = path.join(TAYLORED_DIR_FULL_PATH, 'json-group');
+    fs.mkdirSync(groupDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(groupDir, '1-first.taylored'),
+      addLinePatch('First.', 'L1: Initial content for file1.'),
+    );
+    fs.writeFileSync(
+      path.join(groupDir, '2-broken.taylored'),
+      addLinePatch('Never applied.', 'This line does not exist.'),
+    );
+    fs.writeFileSync(
+      path.join(groupDir, '3-third.taylored'),
+      addLinePatch('Third.', 'L1: Initial content for file1.'),
+    );
+
+    const { status, document } = runJson('--add json-group');
+
+    expect(status).toBe(1);
+    expect(document.error.code).toBe('PATCH_APPLY_FAILED');
+    expect(document.result.group).toBe(true);
+    expect(
+      document.result.patches.map((p: any) => [p.patch, p.outcome]),
+    ).toEqual([
+      ['json-group/1-first.taylored', 'rolled-back'],
+      ['json-group/2-broken.taylored', 'failed'],
+      ['json-group/3-third.taylored', 'skipped'],
+    ]);
+  });
+
+  test('--list, --status and usage errors produce JSON documents', () => {
+    const list = runJson('--list');
+    expect(list.document.result).toEqual({
+      patches: [PLUGIN_DELETIONS_NAME],
+      metadata: {},
+    });
+    expect(list.stderr).toContain('INFO: Listing contents of');
+
+    const status = runJson('--status');
+    expect(status.document.result.patches).toMatchObject([
+      { patch: PLUGIN_DELETIONS_NAME, state: 'not-applied' },
+    ]);
+
+    const usage = runJson('--add');
+    expect(usage.status).toBe(1);
+    expect(usage.document).toMatchObject({
+      command: '--add',
+      success: false,
+      error: {
+        code: 'USAGE_ERROR',
+        message: '--add requires a <taylored_file_name_or_path> argument.',
+      },
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import * as fs from 'fs';
+import { execSync } from 'child_process';
+import {
+  initializeTestEnvironment,
+  cleanupTestEnvironment,
+  resetToInitialState,
+  TAYLORED_CMD_BASE,
+  TEST_DIR_FULL_PATH,
+  PLUGIN_DELETIONS_FULL_PATH,
+  PLUGIN_DELETIONS_NAME,
+  BRANCH_DELETIONS,
+  MODIFIED_FILE1_DELETIONS_CONTENT,
+  normalizeLineEndings,
+  execOptions,
+} from './setup';
+import * as path from 'path';
+
+const runTaylored = (args: string) =>
+  execSync(`${TAYLORED_CMD_BASE} ${args}`, execOptions).toString();
+
+const PREAMBLE = `Title: Remove lines
+Description: Removes a line and a file.
+Author: Jane Doe <jane@example.com>
+Version: 1.0.0
+Tags: cleanup
+
+`;
+
+describe('Core CLI Tests - patch metadata', () => {
+  beforeAll(async () => {
+    await initializeTestEnvironment();
+  });
+
+  afterAll(async () => {
+    await cleanupTestEnvironment();
+  });
+
+  beforeEach(async () => {
+    await resetToInitialState();
+    fs.writeFileSync(
+      PLUGIN_DELETIONS_FULL_PATH,
+      PREAMBLE + fs.readFileSync(PLUGIN_DELETIONS_FULL_PATH, 'utf8'),
+    );
+  });
+
+  test('--list shows the metadata, and --add ignores it', () => {
+    expect(runTaylored('--list')).toContain(
+      `📄 ${PLUGIN_DELETIONS_NAME}: Remove lines (version 1.0.0)`,
+    );
+    const { result } = JSON.parse(runTaylored('--list --json'));
+    expect(result.metadata).toEqual({
+      [PLUGIN_DELETIONS_NAME]: {
+        title: 'Remove lines',
+        description: 'Removes a line and a file.',
+        author: 'Jane Doe <jane@example.com>',
+        version: '1.0.0',
+        tags: ['cleanup'],
+      },
+    });
+
+    runTaylored(`--add ${PLUGIN_DELETIONS_NAME}`);
+    expect(
+      normalizeLineEndings(
+        fs.readFileSync(path.join(TEST_DIR_FULL_PATH, 'file1.txt'), 'utf8'),
+      ),
+    ).toBe(normalizeLineEndings(MODIFIED_FILE1_DELETIONS_CONTENT));
+  });
+
+  test('--save keeps the metadata of the patch it overwrites', () => {
+    runTaylored(`--save ${BRANCH_DELETIONS}`);
+    const content = fs.readFileSync(PLUGIN_DELETIONS_FULL_PATH, 'utf8');
+    expect(content.startsWith(PREAMBLE)).toBe(true);
+    expect(content.substring(PREAMBLE.length)).toMatch(/^diff --git /);
+  });
+});
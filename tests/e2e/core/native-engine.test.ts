@@ -0,0 +1,155 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { execSync } from 'child_process';
+import {
+  initializeTestEnvironment,
+  cleanupTestEnvironment,
+  resetToInitialState,
+  TAYLORED_CMD_BASE,
+  PROJECT_ROOT_PATH,
+  TEST_DIR_FULL_PATH,
+  execOptions,
+  PLUGIN_DELETIONS_NAME,
+  INITIAL_FILE1_CONTENT,
+  INITIAL_FILE_TO_DELETE_CONTENT,
+  MODIFIED_FILE1_DELETIONS_CONTENT,
+} from './setup';
+
+const readWorkingFiles = (dir: string) => ({
+  file1: fs.readFileSync(path.join(dir, 'file1.txt'), 'utf8'),
+  fileToDelete: fs.existsSync(path.join(dir, 'file_to_delete.txt'))
+    ? fs.readFileSync(path.join(dir, 'file_to_delete.txt'), 'utf8')
+    : null,
+});
+
+const runExpectingFailure = (
+  command: string,
+  cwd: string,
+  env: NodeJS.ProcessEnv = process.env,
+) => {
+  try {
+    execSync(command, { ...execOptions, cwd, env });
+  } catch (error: any) {
+    return (error.stdout || '').toString() + (error.stderr || '').toString();
+  }
+  throw new Error(`Expected '${command}' to fail.`);
+};
+
+describe('Core CLI Tests - Native patch engine', () => {
+  beforeAll(async () => {
+    await initializeTestEnvironment();
+  });
+
+  afterAll(async () => {
+    await cleanupTestEnvironment();
+  });
+
+  beforeEach(async () => {
+    await resetToInitialState();
+  });
+
+  test('--engine native adds and removes a patch exactly like the git engine', () => {
+    execSync(
+      `${TAYLORED_CMD_BASE} --add ${PLUGIN_DELETIONS_NAME}`,
+      execOptions,
+    );
+    const addedWithGit = readWorkingFiles(TEST_DIR_FULL_PATH);
+    execSync(
+      `${TAYLORED_CMD_BASE} --remove ${PLUGIN_DELETIONS_NAME}`,
+      execOptions,
+    );
+
+    execSync(
+      `${TAYLORED_CMD_BASE} --verify-add ${PLUGIN_DELETIONS_NAME} --engine native`,
+      execOptions,
+    );
+    execSync(
+      `${TAYLORED_CMD_BASE} --add ${PLUGIN_DELETIONS_NAME} --engine native`,
+      execOptions,
+    );
+    expect(readWorkingFiles(TEST_DIR_FULL_PATH)).toEqual(addedWithGit);
+    expect(addedWithGit).toEqual({
+      file1: MODIFIED_FILE1_DELETIONS_CONTENT,
+      fileToDelete: null,
+    });
+
+    execSync(
+      `${TAYLORED_CMD_BASE} --remove ${PLUGIN_DELETIONS_NAME} --engine native`,
+      execOptions,
+    );
+    expect(readWorkingFiles(TEST_DIR_FULL_PATH)).toEqual({
+      file1: INITIAL_FILE1_CONTENT,
+      fileToDelete: INITIAL_FILE_TO_DELETE_CONTENT,
+    });
+    expect(
+      execSync('git status --porcelain --untracked-files=no', execOptions)
+        .toString()
+        .trim(),
+    ).toBe('');
+  });
+
+  test('--engine native works in a directory that is not a Git repository', () => {
+    // Inside the project, so that ts-node resolves, but outside any repository:
+    // the search for the repository root stops before the project's own.
+    const exportDir = `${TEST_DIR_FULL_PATH}_export`;
+    const env = { ...process.env, GIT_CEILING_DIRECTORIES: PROJECT_ROOT_PATH };
+    try {
+      fs.cpSync(TEST_DIR_FULL_PATH, exportDir, {
+        recursive: true,
+        filter: (source) => path.basename(source) !== '.git',
+      });
+
+      const gitOutput = runExpectingFailure(
+        `${TAYLORED_CMD_BASE} --add ${PLUGIN_DELETIONS_NAME}`,
+        exportDir,
+        env,
+      );
+      expect(gitOutput).toContain('is not inside a Git repository');
+
+      execSync(
+        `${TAYLORED_CMD_BASE} --add ${PLUGIN_DELETIONS_NAME} --engine native`,
+        { ...execOptions, cwd: exportDir, env },
+      );
+      expect(readWorkingFiles(exportDir)).toEqual({
+        file1: MODIFIED_FILE1_DELETIONS_CONTENT,
+        fileToDelete: null,
+      });
+    } finally {
+      fs.rmSync(exportDir, { recursive: true, force: true });
+    }
+  });
+
+  test('--engine native fails without touching files when the patch does not apply', () => {
+    fs.writeFileSync(
+      path.join(TEST_DIR_FULL_PATH, 'file1.txt'),
+      'Completely rewritten content.\n',
+    );
+    const output = runExpectingFailure(
+      `${TAYLORED_CMD_BASE} --add ${PLUGIN_DELETIONS_NAME} --engine native`,
+      TEST_DIR_FULL_PATH,
+    );
+    expect(output).toContain('The native patch engine failed during --add');
+    expect(output).toContain('error: patch failed: file1.txt');
+    expect(
+      fs.readFileSync(path.join(TEST_DIR_FULL_PATH, 'file1.txt'), 'utf8'),
+    ).toBe('Completely rewritten content.\n');
+    expect(
+      fs.existsSync(path.join(TEST_DIR_FULL_PATH, 'file_to_delete.txt')),
+    ).toBe(true);
+  });
+
+  test('--engine rejects unknown engines and non-apply commands', () => {
+    expect(
+      runExpectingFailure(
+        `${TAYLORED_CMD_BASE} --add ${PLUGIN_DELETIONS_NAME} --engine patch`,
+        TEST_DIR_FULL_PATH,
+      ),
+    ).toContain('--engine requires one of: git, native');
+    expect(
+      runExpectingFailure(
+        `${TAYLORED_CMD_BASE} --list --engine native`,
+        TEST_DIR_FULL_PATH,
+      ),
+    ).toContain('--engine can only be used with');
+  });
+});
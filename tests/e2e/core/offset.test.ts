@@ -374,5 +374,44 @@ describe('Offset Functionality Tests', () => {
         normalizeLineEndings(expectedContentAfterApply),
       );
     });
+
+    test('updates offsets from HEAD, leaving uncommitted changes and the current branch as they are', () => {
+      const LOCAL_FILE = 'local_notes.txt';
+      const localFilePath = path.join(TEST_DIR_FULL_PATH, LOCAL_FILE);
+      const originalPatchContent = fs.readFileSync(PATCH_FULL_PATH, 'utf8');
+      fs.writeFileSync(localFilePath, 'Work in progress\n');
+      execSync(`git add ${LOCAL_FILE}`, execOptions);
+      fs.appendFileSync(localFilePath, 'Unstaged line\n');
+
+      try {
+        execSync(
+          `${TAYLORED_CMD_BASE} --offset ${PATCH_TO_OFFSET} main`,
+          execOptions,
+        );
+
+        const updatedPatchContent = fs.readFileSync(PATCH_FULL_PATH, 'utf8');
+        expect(updatedPatchContent).not.toEqual(originalPatchContent);
+        expect(updatedPatchContent).not.toContain(LOCAL_FILE);
+        expect(fs.readFileSync(localFilePath, 'utf8')).toBe(
+          'Work in progress\nUnstaged line\n',
+        );
+        expect(
+          execSync('git diff --cached --name-only', execOptions)
+            .toString()
+            .trim(),
+        ).toBe(LOCAL_FILE);
+        expect(
+          execSync('git rev-parse --abbrev-ref HEAD', execOptions)
+            .toString()
+            .trim(),
+        ).toBe('main');
+        expect(
+          execSync('git branch --list "temp/*"', execOptions).toString(),
+        ).toBe('');
+      } finally {
+        execSync(`git rm -q -f --cached ${LOCAL_FILE}`, execOptions);
+        fs.unlinkSync(localFilePath);
+      }
+    });
   });
 });
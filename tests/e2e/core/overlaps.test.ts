@@ -0,0 +1,84 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { execSync } from 'child_process';
+import {
+  initializeTestEnvironment,
+  cleanupTestEnvironment,
+  resetToInitialState,
+  applyDeletionsPatch,
+  TAYLORED_CMD_BASE,
+  TEST_DIR_FULL_PATH,
+  TAYLORED_DIR_FULL_PATH,
+  PLUGIN_DELETIONS_FULL_PATH,
+  PLUGIN_DELETIONS_NAME,
+  INITIAL_FILE1_CONTENT,
+  execOptions,
+} from './setup';
+
+const runTaylored = (args: string) =>
+  execSync(`${TAYLORED_CMD_BASE} ${args}`, execOptions).toString();
+
+describe('Core CLI Tests - --overlaps', () => {
+  beforeAll(async () => {
+    await initializeTestEnvironment();
+  });
+
+  afterAll(async () => {
+    await cleanupTestEnvironment();
+  });
+
+  beforeEach(async () => {
+    await resetToInitialState();
+    // A copy of the deletions patch conflicts with it; a patch creating a new
+    // file is independent of both.
+    fs.copyFileSync(
+      PLUGIN_DELETIONS_FULL_PATH,
+      path.join(TAYLORED_DIR_FULL_PATH, 'copy.taylored'),
+    );
+    fs.writeFileSync(
+      path.join(TAYLORED_DIR_FULL_PATH, 'new-file.taylored'),
+      'diff --git a/new.txt b/new.txt\nnew file mode 100644\n--- /dev/null\n+++ b/new.txt\n@@ -0,0 +1 @@\n+new\n',
+    );
+  });
+
+  test('prints the matrix and the reasons for each conflicting pair', () => {
+    const output = runTaylored('--overlaps');
+    expect(output).toContain(
+      `copy.taylored + ${PLUGIN_DELETIONS_NAME}: CONFLICT`,
+    );
+    expect(output).toContain('both change file1.txt');
+    expect(output).toContain(
+      'INFO: 3 pair(s): 2 independent, 0 safe, 0 order-dependent, 1 in conflict, 0 unknown.',
+    );
+    expect(fs.existsSync(path.join(TEST_DIR_FULL_PATH, 'new.txt'))).toBe(false);
+  });
+
+  test('--json reports every pair, with applied patches removed in memory', () => {
+    applyDeletionsPatch();
+    const { result } = JSON.parse(runTaylored('--overlaps --json'));
+    expect(result.patches).toEqual([
+      'copy.taylored',
+      PLUGIN_DELETIONS_NAME,
+      'new-file.taylored',
+    ]);
+    expect(result.pairs[0]).toMatchObject({
+      first: 'copy.taylored',
+      second: PLUGIN_DELETIONS_NAME,
+      sharedFiles: ['file1.txt', 'file_to_delete.txt'],
+      firstThenSecond: false,
+      secondThenFirst: false,
+      verdict: 'conflict',
+    });
+    expect(result.pairs[0].reasons).toContain(
+      `'${PLUGIN_DELETIONS_NAME}' is applied; it was removed in memory for the test`,
+    );
+    expect(result.pairs.slice(1).map((pair: any) => pair.verdict)).toEqual([
+      'independent',
+      'independent',
+    ]);
+    // The working tree is unchanged.
+    expect(
+      fs.readFileSync(path.join(TEST_DIR_FULL_PATH, 'file1.txt'), 'utf8'),
+    ).not.toBe(INITIAL_FILE1_CONTENT);
+  });
+});
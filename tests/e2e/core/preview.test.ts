@@ -0,0 +1,167 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { execSync } from 'child_process';
+import {
+  initializeTestEnvironment,
+  cleanupTestEnvironment,
+  resetToInitialState,
+  TAYLORED_CMD_BASE,
+  TEST_DIR_FULL_PATH,
+  TAYLORED_DIR_FULL_PATH,
+  execOptions,
+  PLUGIN_DELETIONS_NAME,
+  INITIAL_FILE1_CONTENT,
+  INITIAL_FILE_TO_DELETE_CONTENT,
+} from './setup';
+
+const runTaylored = (args: string) =>
+  execSync(`${TAYLORED_CMD_BASE} ${args}`, execOptions).toString();
+
+const runExpectingFailure = (args: string) => {
+  try {
+    execSync(`${TAYLORED_CMD_BASE} ${args}`, execOptions);
+  } catch (error: any) {
+    return (error.stdout || '').toString() + (error.stderr || '').toString();
+  }
+  throw new Error(`Expected '${args}' to fail.`);
+};
+
+const expectWorkingTreeUnchanged = () => {
+  expect(
+    fs.readFileSync(path.join(TEST_DIR_FULL_PATH, 'file1.txt'), 'utf8'),
+  ).toBe(INITIAL_FILE1_CONTENT);
+  expect(
+    fs.readFileSync(
+      path.join(TEST_DIR_FULL_PATH, 'file_to_delete.txt'),
+      'utf8',
+    ),
+  ).toBe(INITIAL_FILE_TO_DELETE_CONTENT);
+  expect(
+    execSync('git status --porcelain', execOptions).toString().trim(),
+  ).toBe('?? .taylored/');
+  expect(fs.existsSync(path.join(TAYLORED_DIR_FULL_PATH, '.state.json'))).toBe(
+    false,
+  );
+};
+
+describe('Core CLI Tests - --preview', () => {
+  beforeAll(async () => {
+    await initializeTestEnvironment();
+  });
+
+  afterAll(async () => {
+    await cleanupTestEnvironment();
+  });
+
+  beforeEach(async () => {
+    await resetToInitialState();
+  });
+
+  test('--add --preview prints the resulting diff without touching files', () => {
+    const output = runTaylored(`--add ${PLUGIN_DELETIONS_NAME} --preview`);
+
+    expect(output).toContain(
+      `Preview of --add ${PLUGIN_DELETIONS_NAME} (1 patch(es)). No files will be modified.`,
+    );
+    expect(output).toMatch(/ file1\.txt\s+\| \+0 -2\n/);
+    expect(output).toMatch(/ file_to_delete\.txt \| \+0 -1 \(deleted\)\n/);
+    expect(output).toContain(
+      '2 file(s) changed, 0 insertion(s)(+), 3 deletion(s)(-)',
+    );
+    expect(output).toContain(
+      [
+        '--- a/file1.txt',
+        '+++ b/file1.txt',
+        '@@ -1,5 +1,3 @@',
+        ' L1: Initial content for file1.',
+        '-L2: Line two.',
+        ' L3: Line three.',
+        '-L4: Line four.',
+        ' L5: Line five.',
+      ].join('\n'),
+    );
+    expect(output).toContain(
+      [
+        '--- a/file_to_delete.txt',
+        '+++ /dev/null',
+        '@@ -1 +0,0 @@',
+        '-Content of file to be deleted.',
+        '\\ No newline at end of file',
+      ].join('\n'),
+    );
+    // Output is not a terminal here, so it is not colored.
+    expect(output).not.toContain('\x1b[');
+    expectWorkingTreeUnchanged();
+  });
+
+  test('--remove --preview shows the reverse diff of an applied patch', () => {
+    runTaylored(`--add ${PLUGIN_DELETIONS_NAME}`);
+
+    const output = runTaylored(`--remove ${PLUGIN_DELETIONS_NAME} --preview`);
+
+    expect(output).toMatch(/ file1\.txt\s+\| \+2 -0\n/);
+    expect(output).toMatch(/ file_to_delete\.txt \| \+1 -0 \(added\)\n/);
+    expect(output).toContain('+L2: Line two.');
+    expect(output).toContain('--- /dev/null\n+++ b/file_to_delete.txt');
+    expect(
+      fs.existsSync(path.join(TEST_DIR_FULL_PATH, 'file_to_delete.txt')),
+    ).toBe(false);
+  });
+
+  test('--add --preview on a group shows the combined result of its patches', () => {
+    const groupDir = path.join(TAYLORED_DIR_FULL_PATH, 'preview-group');
+    fs.mkdirSync(groupDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(groupDir, '1-first.taylored'),
+      `diff --git a/file1.txt b/file1.txt
+--- a/file1.txt
++++ b/file1.txt
+@@ -1,2 +1,3 @@
+ L1: Initial content for file1.
++L1.5: From the first patch.
+ L2: Line two.
+`,
+    );
+    // Only applies on top of the first patch.
+    fs.writeFileSync(
+      path.join(groupDir, '2-second.taylored'),
+      `diff --git a/file1.txt b/file1.txt
+--- a/file1.txt
++++ b/file1.txt
+@@ -1,3 +1,3 @@
+ L1: Initial content for file1.
+-L1.5: From the first patch.
++L1.5: Rewritten by the second patch.
+ L2: Line two.
+`,
+    );
+
+    const output = runTaylored('--add preview-group --preview');
+
+    expect(output).toContain('Preview of --add preview-group (2 patch(es))');
+    expect(output).toMatch(/ file1\.txt \| \+1 -0\n/);
+    expect(output).toContain(
+      '@@ -1,4 +1,5 @@\n L1: Initial content for file1.\n+L1.5: Rewritten by the second patch.\n L2: Line two.',
+    );
+    expect(
+      fs.readFileSync(path.join(TEST_DIR_FULL_PATH, 'file1.txt'), 'utf8'),
+    ).toBe(INITIAL_FILE1_CONTENT);
+  });
+
+  test('--preview reports patches that would not apply', () => {
+    fs.writeFileSync(
+      path.join(TEST_DIR_FULL_PATH, 'file1.txt'),
+      'Completely rewritten content.\n',
+    );
+    const output = runExpectingFailure(
+      `--add ${PLUGIN_DELETIONS_NAME} --preview`,
+    );
+    expect(output).toContain(
+      `Cannot preview --add: '${PLUGIN_DELETIONS_NAME}' would not apply cleanly.`,
+    );
+    expect(output).toContain('error: patch failed: file1.txt');
+    expect(
+      runExpectingFailure(`--verify-add ${PLUGIN_DELETIONS_NAME} --preview`),
+    ).toContain('--preview can only be used with --add or --remove');
+  });
+});
@@ -0,0 +1,143 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { execSync } from 'child_process';
+import {
+  initializeTestEnvironment,
+  cleanupTestEnvironment,
+  resetToInitialState,
+  TAYLORED_CMD_BASE,
+  TEST_DIR_FULL_PATH,
+  TAYLORED_DIR_FULL_PATH,
+  BRANCH_DELETIONS,
+  PLUGIN_DELETIONS_NAME,
+  MODIFIED_FILE1_DELETIONS_CONTENT,
+  execOptions,
+} from './setup';
+
+const runJson = (command: string, cwd: string) =>
+  JSON.parse(
+    execSync(`${TAYLORED_CMD_BASE} ${command} --json`, {
+      ...execOptions,
+      cwd,
+    }).toString(),
+  );
+
+describe('Core CLI Tests - Repository root discovery', () => {
+  const SUBDIR = path.join(TEST_DIR_FULL_PATH, 'packages', 'api');
+
+  beforeAll(async () => {
+    await initializeTestEnvironment();
+  });
+
+  afterAll(async () => {
+    await cleanupTestEnvironment();
+  });
+
+  beforeEach(async () => {
+    await resetToInitialState();
+    fs.mkdirSync(SUBDIR, { recursive: true });
+  });
+
+  test('commands run from a subdirectory use the .taylored directory of the root', () => {
+    expect(runJson('--list', SUBDIR).result.patches).toEqual([
+      PLUGIN_DELETIONS_NAME,
+    ]);
+
+    runJson(`--add ${PLUGIN_DELETIONS_NAME}`, SUBDIR);
+    expect(
+      fs.readFileSync(path.join(TEST_DIR_FULL_PATH, 'file1.txt'), 'utf8'),
+    ).toBe(MODIFIED_FILE1_DELETIONS_CONTENT);
+    expect(runJson('--status', SUBDIR).result.patches[0].state).toBe('applied');
+    runJson(`--remove ${PLUGIN_DELETIONS_NAME}`, SUBDIR);
+
+    fs.unlinkSync(path.join(TAYLORED_DIR_FULL_PATH, PLUGIN_DELETIONS_NAME));
+    expect(runJson(`--save ${BRANCH_DELETIONS}`, SUBDIR).result.patch).toBe(
+      PLUGIN_DELETIONS_NAME,
+    );
+    expect(
+      fs.existsSync(path.join(TAYLORED_DIR_FULL_PATH, PLUGIN_DELETIONS_NAME)),
+    ).toBe(true);
+    expect(fs.existsSync(path.join(SUBDIR, '.taylored'))).toBe(false);
+  });
+
+  test('paths given on the command line stay relative to the invocation directory', () => {
+    const { result } = runJson(
+      '--verify-all --junit reports/junit.xml',
+      SUBDIR,
+    );
+    expect(result.reports).toEqual(['packages/api/reports/junit.xml']);
+    expect(fs.existsSync(path.join(SUBDIR, 'reports', 'junit.xml'))).toBe(true);
+
+    // The target file of --upgrade is relative to the subdirectory; the file
+    // named in the patch is relative to the root.
+    fs.copyFileSync(
+      path.join(TEST_DIR_FULL_PATH, 'file1.txt'),
+      path.join(SUBDIR, 'copy.txt'),
+    );
+    const upgraded = runJson(
+      `--upgrade ${PLUGIN_DELETIONS_NAME} copy.txt`,
+      SUBDIR,
+    );
+    expect(upgraded.result.files[0].file).toBe(path.join(SUBDIR, 'copy.txt'));
+    expect(upgraded.result.files[0].status).not.toBe('error');
+    const inferred = runJson(`--upgrade ${PLUGIN_DELETIONS_NAME}`, SUBDIR);
+    expect(inferred.result.files[0]).toMatchObject({ file: 'file1.txt' });
+    expect(inferred.result.files[0].status).not.toBe('error');
+  });
+
+  test('linked worktrees and submodules, whose .git is a file, are repository roots', () => {
+    const worktreeDir = `${TEST_DIR_FULL_PATH}_worktree`;
+    try {
+      execSync(`git worktree add --detach "${worktreeDir}"`, execOptions);
+      expect(fs.statSync(path.join(worktreeDir, '.git')).isFile()).toBe(true);
+      const worktreeSubdir = path.join(worktreeDir, 'nested');
+      fs.mkdirSync(worktreeSubdir);
+      runJson(`--save ${BRANCH_DELETIONS}`, worktreeSubdir);
+      expect(
+        fs.existsSync(
+          path.join(worktreeDir, '.taylored', PLUGIN_DELETIONS_NAME),
+        ),
+      ).toBe(true);
+      runJson(`--add ${PLUGIN_DELETIONS_NAME}`, worktreeSubdir);
+      expect(fs.readFileSync(path.join(worktreeDir, 'file1.txt'), 'utf8')).toBe(
+        MODIFIED_FILE1_DELETIONS_CONTENT,
+      );
+    } finally {
+      execSync(`git worktree remove --force "${worktreeDir}"`, execOptions);
+    }
+
+    const submoduleDir = path.join(TEST_DIR_FULL_PATH, 'vendor', 'lib');
+    try {
+      execSync(
+        `git -c protocol.file.allow=always submodule add "${TEST_DIR_FULL_PATH}" vendor/lib`,
+        execOptions,
+      );
+      expect(fs.statSync(path.join(submoduleDir, '.git')).isFile()).toBe(true);
+      runJson(`--save origin/${BRANCH_DELETIONS}`, submoduleDir);
+      expect(
+        fs.existsSync(
+          path.join(
+            submoduleDir,
+            '.taylored',
+            `origin-${BRANCH_DELETIONS}.taylored`,
+          ),
+        ),
+      ).toBe(true);
+      // The patches of the superproject are not those of the submodule.
+      expect(runJson('--list', submoduleDir).result.patches).toEqual([
+        `origin-${BRANCH_DELETIONS}.taylored`,
+      ]);
+    } finally {
+      execSync('git reset --hard', execOptions);
+      fs.rmSync(path.join(TEST_DIR_FULL_PATH, 'vendor'), {
+        recursive: true,
+        force: true,
+      });
+      fs.rmSync(path.join(TEST_DIR_FULL_PATH, '.git', 'modules'), {
+        recursive: true,
+        force: true,
+      });
+      execSync('git config --remove-section submodule.vendor/lib', execOptions);
+    }
+  });
+});
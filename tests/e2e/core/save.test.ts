@@ -91,6 +91,255 @@ describe('Core CLI Tests - Save', () => {
     }
   });
 
+  test('taylored --save stores binary files as binary patches that --add and --remove apply', () => {
+    const BRANCH_BINARY = 'save-test-branch-binary';
+    const PLUGIN_BINARY_FULL_PATH = path.join(
+      TAYLORED_DIR_FULL_PATH,
+      `${BRANCH_BINARY}.taylored`,
+    );
+    const ASSET = 'assets/logo.png';
+    const ASSET_CONTENT = Buffer.from(
+      Array.from({ length: 2048 }, (_, i) => (i * 37) % 256),
+    );
+    const assetPath = path.join(TEST_DIR_FULL_PATH, ASSET);
+
+    try {
+      execSync(
+        `git checkout -b ${BRANCH_BINARY} ${initialCommitHash}`,
+        execOptions,
+      );
+      fs.mkdirSync(path.dirname(assetPath), { recursive: true });
+      fs.writeFileSync(assetPath, ASSET_CONTENT);
+      execSync(`git add ${ASSET}`, execOptions);
+      execSync('git commit -m "Add a binary asset"', execOptions);
+      execSync('git checkout main', execOptions);
+      execSync(`git reset --hard ${initialCommitHash}`, execOptions);
+
+      execSync(`${TAYLORED_CMD_BASE} --save ${BRANCH_BINARY}`, execOptions);
+      const patchContent = fs.readFileSync(PLUGIN_BINARY_FULL_PATH, 'utf8');
+      expect(patchContent).toContain('GIT binary patch\nliteral 2048\n');
+      expect(patchContent).not.toContain('Binary files');
+
+      for (const engine of ['git', 'native']) {
+        execSync(
+          `${TAYLORED_CMD_BASE} --add ${BRANCH_BINARY} --engine ${engine}`,
+          execOptions,
+        );
+        expect(fs.readFileSync(assetPath).equals(ASSET_CONTENT)).toBe(true);
+        execSync(
+          `${TAYLORED_CMD_BASE} --remove ${BRANCH_BINARY} --engine ${engine}`,
+          execOptions,
+        );
+        expect(fs.existsSync(assetPath)).toBe(false);
+      }
+    } finally {
+      if (fs.existsSync(PLUGIN_BINARY_FULL_PATH)) {
+        fs.unlinkSync(PLUGIN_BINARY_FULL_PATH);
+      }
+      execSync('git checkout main', execOptions);
+      execSync(`git branch -D ${BRANCH_BINARY}`, execOptions);
+    }
+  });
+
+  test('taylored --save saves a commit, a range, a stash entry and the index', () => {
+    const FILE1_PATH = path.join(TEST_DIR_FULL_PATH, 'file1.txt');
+    const readPatch = (name: string) =>
+      fs.readFileSync(path.join(TAYLORED_DIR_FULL_PATH, name), 'utf8');
+
+    try {
+      fs.appendFileSync(FILE1_PATH, 'L6: Line six.\n');
+      execSync(
+        'git commit -q -am "Add line six" -m "The sixth line."',
+        execOptions,
+      );
+      fs.writeFileSync(path.join(TEST_DIR_FULL_PATH, 'notes.txt'), 'notes\n');
+      execSync('git add notes.txt', execOptions);
+      execSync('git commit -q -m "Add notes"', execOptions);
+
+      // A single commit is named after its subject and carries its message.
+      execSync(`${TAYLORED_CMD_BASE} --save "HEAD~1^!"`, execOptions);
+      const commitPatch = readPatch('add-line-six.taylored');
+      expect(commitPatch).toMatch(
+        /^Title: Add line six\nDescription: The sixth line\.\nAuthor: Test User <test@example\.com>\n\n/,
+      );
+      expect(commitPatch).toMatch(/^\+L6: Line six\.$/m);
+      expect(commitPatch).not.toContain('notes.txt');
+
+      // A range lists the subjects of its commits.
+      execSync(
+        `${TAYLORED_CMD_BASE} --save ${initialCommitHash}..HEAD --name both`,
+        execOptions,
+      );
+      const rangePatch = readPatch('both.taylored');
+      expect(rangePatch).toMatch(
+        /^Description: - Add line six\n - Add notes\nAuthor: /,
+      );
+      expect(rangePatch).toContain('+++ b/notes.txt');
+      expect(rangePatch).toMatch(/^\+L6: Line six\.$/m);
+
+      // A stash entry, from the commit it was made on.
+      fs.appendFileSync(FILE1_PATH, 'L7: Line seven.\n');
+      execSync('git stash push -q -m "line seven"', execOptions);
+      execSync(`${TAYLORED_CMD_BASE} --save "stash@{0}"`, execOptions);
+      const stashPatch = readPatch('stash-0.taylored');
+      expect(stashPatch).toMatch(/^Title: line seven$/m);
+      expect(stashPatch).toMatch(/^\+L7: Line seven\.$/m);
+      expect(fs.readFileSync(FILE1_PATH, 'utf8')).not.toContain('L7');
+
+      // The index, without the unstaged changes.
+      fs.writeFileSync(path.join(TEST_DIR_FULL_PATH, 'staged.txt'), 'staged\n');
+      execSync('git add staged.txt', execOptions);
+      fs.appendFileSync(FILE1_PATH, 'unstaged\n');
+      const countObjects = () =>
+        execSync('git count-objects', { ...execOptions, stdio: 'pipe' })
+          .toString()
+          .trim();
+      const objectsBefore = countObjects();
+      execSync(`${TAYLORED_CMD_BASE} --save --staged`, execOptions);
+      const stagedPatch = readPatch('staged.taylored');
+      expect(stagedPatch).toMatch(/^diff --git a\/staged\.txt/);
+      expect(stagedPatch).not.toContain('unstaged');
+      // The tree of the index was not written to the object store.
+      expect(countObjects()).toBe(objectsBefore);
+
+      // A source and --staged cannot be combined.
+      expect(() =>
+        execSync(`${TAYLORED_CMD_BASE} --save HEAD --staged`, {
+          ...execOptions,
+          stdio: 'pipe',
+        }),
+      ).toThrow();
+    } finally {
+      execSync('git stash clear', execOptions);
+    }
+  });
+
+  test('taylored --save limits the diff to pathspecs and splits it per file or directory', () => {
+    const BRANCH_PATHS = 'paths-branch';
+    const GROUP_DIR = path.join(TAYLORED_DIR_FULL_PATH, BRANCH_PATHS);
+    const saveJson = (options: string) =>
+      JSON.parse(
+        execSync(
+          `${TAYLORED_CMD_BASE} --save ${BRANCH_PATHS} ${options} --json`,
+          { ...execOptions, stdio: 'pipe' },
+        ).toString(),
+      ).result;
+
+    try {
+      execSync(
+        `git checkout -b ${BRANCH_PATHS} ${initialCommitHash}`,
+        execOptions,
+      );
+      fs.mkdirSync(path.join(TEST_DIR_FULL_PATH, 'src'));
+      fs.mkdirSync(path.join(TEST_DIR_FULL_PATH, 'docs'));
+      fs.writeFileSync(path.join(TEST_DIR_FULL_PATH, 'src', 'a.js'), 'a\n');
+      fs.writeFileSync(path.join(TEST_DIR_FULL_PATH, 'src', 'b.js'), 'b\n');
+      fs.writeFileSync(
+        path.join(TEST_DIR_FULL_PATH, 'docs', 'guide.md'),
+        'guide\n',
+      );
+      fs.writeFileSync(
+        path.join(TEST_DIR_FULL_PATH, 'file1.txt'),
+        INITIAL_FILE1_CONTENT.replace('L4: Line four.', 'L4: Rewritten.'),
+      );
+      execSync('git add -A', execOptions);
+      execSync('git commit -q -m "Changes in several places"', execOptions);
+      execSync('git checkout -q main', execOptions);
+
+      // Only the changes under src/ are saved, so the patch is pure.
+      expect(saveJson('--include src --name only-src').patch).toBe(
+        'only-src.taylored',
+      );
+      const srcPatch = fs.readFileSync(
+        path.join(TAYLORED_DIR_FULL_PATH, 'only-src.taylored'),
+        'utf8',
+      );
+      expect(srcPatch).toContain('+++ b/src/a.js');
+      expect(srcPatch).toContain('+++ b/src/b.js');
+      expect(srcPatch).not.toContain('guide.md');
+      expect(srcPatch).not.toContain('file1.txt');
+
+      // Pathspecs are relative to the directory taylored runs from, unless
+      // they start from the root with ':/'.
+      const srcDir = path.join(TEST_DIR_FULL_PATH, 'src');
+      fs.mkdirSync(srcDir, { recursive: true });
+      execSync(
+        `${TAYLORED_CMD_BASE} --save ${BRANCH_PATHS} --include a.js,:/docs --name from-src`,
+        { ...execOptions, cwd: srcDir, stdio: 'pipe' },
+      );
+      fs.rmSync(srcDir, { recursive: true, force: true });
+      const fromSrcPatch = fs.readFileSync(
+        path.join(TAYLORED_DIR_FULL_PATH, 'from-src.taylored'),
+        'utf8',
+      );
+      expect(fromSrcPatch).toContain('+++ b/src/a.js');
+      expect(fromSrcPatch).toContain('+++ b/docs/guide.md');
+      expect(fromSrcPatch).not.toContain('src/b.js');
+
+      expect(saveJson('--exclude file1.txt --split file').patches).toEqual([
+        `${BRANCH_PATHS}/docs-guide.md.taylored`,
+        `${BRANCH_PATHS}/src-a.js.taylored`,
+        `${BRANCH_PATHS}/src-b.js.taylored`,
+      ]);
+
+      // Each patch must be pure: file1.txt is not, so nothing is saved.
+      let output = '';
+      try {
+        execSync(
+          `${TAYLORED_CMD_BASE} --save ${BRANCH_PATHS} --split directory`,
+          { ...execOptions, stdio: 'pipe' },
+        );
+      } catch (error: any) {
+        output = error.stderr.toString();
+      }
+      expect(output).toContain('file1.txt: 1 line(s) added, 1 deleted');
+      expect(fs.readdirSync(GROUP_DIR).sort()).toEqual([
+        'docs-guide.md.taylored',
+        'src-a.js.taylored',
+        'src-b.js.taylored',
+      ]);
+
+      // With --split-mixed, file1.txt becomes a subgroup, and the patches of
+      // the previous split are replaced.
+      expect(saveJson('--split directory --split-mixed').patches).toEqual([
+        `${BRANCH_PATHS}/file1.txt/1-remove.taylored`,
+        `${BRANCH_PATHS}/file1.txt/2-add.taylored`,
+        `${BRANCH_PATHS}/docs.taylored`,
+        `${BRANCH_PATHS}/src.taylored`,
+      ]);
+      expect(fs.existsSync(path.join(GROUP_DIR, 'src-a.js.taylored'))).toBe(
+        false,
+      );
+
+      // Saved again without --split, the group only holds the two patches of
+      // the whole diff.
+      expect(saveJson('--split-mixed').patches).toEqual([
+        `${BRANCH_PATHS}/1-remove.taylored`,
+        `${BRANCH_PATHS}/2-add.taylored`,
+      ]);
+      for (const stalePatch of [
+        'docs.taylored',
+        'src.taylored',
+        path.join('file1.txt', '1-remove.taylored'),
+      ]) {
+        expect(fs.existsSync(path.join(GROUP_DIR, stalePatch))).toBe(false);
+      }
+
+      // The group reproduces the branch.
+      execSync(`${TAYLORED_CMD_BASE} --add ${BRANCH_PATHS}`, execOptions);
+      execSync('git add -A -- . ":!.taylored"', execOptions);
+      expect(
+        execSync(`git diff --cached --name-only ${BRANCH_PATHS}`, execOptions)
+          .toString()
+          .trim(),
+      ).toBe('');
+      execSync('git reset -q', execOptions);
+    } finally {
+      execSync('git checkout -q main', execOptions);
+      execSync(`git branch -D ${BRANCH_PATHS}`, execOptions);
+    }
+  });
+
   describe('Mixed Changes Save Test (Should Fail or Not Create Patch)', () => {
     // This test is moved from main.test.ts
     test('taylored --save with mixed add/delete in same file', () => {
@@ -179,5 +428,103 @@ describe('Core CLI Tests - Save', () => {
         fs.unlinkSync(PLUGIN_MIXED_FULL_PATH); // Clean up plugin if created
       }
     });
+
+    test('taylored --save --split-mixed saves a group that removes lines, then adds lines', () => {
+      const BRANCH_SPLIT = 'split-mixed-branch';
+      const GROUP_DIR = path.join(TAYLORED_DIR_FULL_PATH, BRANCH_SPLIT);
+      const ASSET_CONTENT = Buffer.from(
+        Array.from({ length: 1024 }, (_, i) => (i * 13) % 256),
+      );
+
+      try {
+        execSync(
+          `git checkout -b ${BRANCH_SPLIT} ${initialCommitHash}`,
+          execOptions,
+        );
+        // Deletes L2, rewrites L3 and L4, appends a line; deletes a file;
+        // adds a text file and a binary file.
+        fs.writeFileSync(
+          path.join(TEST_DIR_FULL_PATH, 'file1.txt'),
+          INITIAL_FILE1_CONTENT.replace('L2: Line two.\n', '')
+            .replace('L3: Line three.', 'L3: Line three, rewritten.')
+            .replace('L4: Line four.', 'L4: Line four, rewritten.') +
+            'L6: Line six.\n',
+        );
+        fs.unlinkSync(path.join(TEST_DIR_FULL_PATH, 'file_to_delete.txt'));
+        fs.writeFileSync(path.join(TEST_DIR_FULL_PATH, 'new.txt'), 'new\n');
+        fs.writeFileSync(
+          path.join(TEST_DIR_FULL_PATH, 'asset.bin'),
+          ASSET_CONTENT,
+        );
+        execSync('git add -A', execOptions);
+        execSync('git commit -q -m "Mixed changes"', execOptions);
+        execSync('git checkout main', execOptions);
+
+        expect(() =>
+          execSync(`${TAYLORED_CMD_BASE} --save ${BRANCH_SPLIT}`, {
+            ...execOptions,
+            stdio: 'pipe',
+          }),
+        ).toThrow();
+        const countObjects = () =>
+          execSync('git count-objects', { ...execOptions, stdio: 'pipe' })
+            .toString()
+            .trim();
+        const objectsBefore = countObjects();
+        const { result } = JSON.parse(
+          execSync(
+            `${TAYLORED_CMD_BASE} --save ${BRANCH_SPLIT} --split-mixed --json`,
+            { ...execOptions, stdio: 'pipe' },
+          ).toString(),
+        );
+        expect(result.patch).toBe(BRANCH_SPLIT);
+        expect(result.patches).toEqual([
+          `${BRANCH_SPLIT}/1-remove.taylored`,
+          `${BRANCH_SPLIT}/2-add.taylored`,
+        ]);
+        // The objects of the intermediate tree were not written to the
+        // object store of the repository.
+        expect(countObjects()).toBe(objectsBefore);
+
+        const removal = fs.readFileSync(
+          path.join(GROUP_DIR, '1-remove.taylored'),
+          'utf8',
+        );
+        const addition = fs.readFileSync(
+          path.join(GROUP_DIR, '2-add.taylored'),
+          'utf8',
+        );
+        expect(removal).toMatch(/^-L2: Line two\.$/m);
+        expect(removal).toMatch(/^-L4: Line four\.$/m);
+        expect(removal).toContain('deleted file mode');
+        expect(removal).not.toMatch(/^\+[^+]/m);
+        expect(addition).toMatch(/^\+L4: Line four, rewritten\.$/m);
+        expect(addition).toMatch(/^\+L6: Line six\.$/m);
+        expect(addition).toContain('GIT binary patch');
+        expect(addition).not.toMatch(/^-[^-]/m);
+
+        // Applied in order, the group reproduces the branch exactly.
+        execSync(`${TAYLORED_CMD_BASE} --add ${BRANCH_SPLIT}`, execOptions);
+        execSync('git add -A -- . ":!.taylored"', execOptions);
+        expect(
+          execSync(`git diff --cached --name-only ${BRANCH_SPLIT}`, execOptions)
+            .toString()
+            .trim(),
+        ).toBe('');
+        execSync('git reset -q', execOptions);
+
+        // Removed in reverse order, it restores HEAD.
+        execSync(`${TAYLORED_CMD_BASE} --remove ${BRANCH_SPLIT}`, execOptions);
+        expect(
+          execSync('git status --porcelain -- . ":!.taylored"', execOptions)
+            .toString()
+            .trim(),
+        ).toBe('');
+      } finally {
+        fs.rmSync(GROUP_DIR, { recursive: true, force: true });
+        execSync('git checkout -q main', execOptions);
+        execSync(`git branch -D ${BRANCH_SPLIT}`, execOptions);
+      }
+    });
   });
 });
@@ -0,0 +1,105 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { execSync } from 'child_process';
+import {
+  initializeTestEnvironment,
+  cleanupTestEnvironment,
+  resetToInitialState,
+  TAYLORED_CMD_BASE,
+  TEST_DIR_FULL_PATH,
+  PLUGIN_DELETIONS_FULL_PATH,
+  PLUGIN_DELETIONS_NAME,
+  INITIAL_FILE1_CONTENT,
+  execOptions,
+} from './setup';
+
+const runTaylored = (args: string) =>
+  execSync(`${TAYLORED_CMD_BASE} ${args}`, execOptions).toString();
+
+const runExpectingFailure = (args: string): string => {
+  try {
+    execSync(`${TAYLORED_CMD_BASE} ${args}`, execOptions);
+  } catch (error: any) {
+    return error.stderr.toString();
+  }
+  throw new Error(`taylored ${args} was expected to fail`);
+};
+
+describe('Core CLI Tests - --sign and --require-signature', () => {
+  const KEY_FILE = path.join(
+    TEST_DIR_FULL_PATH,
+    '..',
+    'taylored-test-signing.key',
+  );
+
+  beforeAll(async () => {
+    await initializeTestEnvironment();
+    const { privateKey } = crypto.generateKeyPairSync('ed25519');
+    fs.writeFileSync(
+      KEY_FILE,
+      privateKey.export({ type: 'pkcs8', format: 'pem' }) as string,
+    );
+  });
+
+  afterAll(async () => {
+    fs.rmSync(KEY_FILE, { force: true });
+    await cleanupTestEnvironment();
+  });
+
+  beforeEach(async () => {
+    await resetToInitialState();
+  });
+
+  const trustSigningKey = () => {
+    const publicKey = crypto.createPublicKey(fs.readFileSync(KEY_FILE, 'utf8'));
+    fs.mkdirSync(path.join(TEST_DIR_FULL_PATH, '.taylored-keys'));
+    fs.writeFileSync(
+      path.join(TEST_DIR_FULL_PATH, '.taylored-keys', 'release.pem'),
+      publicKey.export({ type: 'spki', format: 'pem' }) as string,
+    );
+  };
+
+  test('unsigned and untrusted patches are refused, trusted ones applied', () => {
+    expect(
+      runExpectingFailure(`--add ${PLUGIN_DELETIONS_NAME} --require-signature`),
+    ).toContain(`Patch '${PLUGIN_DELETIONS_NAME}' is not signed`);
+
+    const signed = JSON.parse(
+      runTaylored(`--sign ${PLUGIN_DELETIONS_NAME} --key ${KEY_FILE} --json`),
+    );
+    expect(signed.result).toMatchObject({
+      patch: PLUGIN_DELETIONS_NAME,
+      signatureFile: `${PLUGIN_DELETIONS_NAME}.sig`,
+      trustedKey: null,
+    });
+    expect(
+      runExpectingFailure(`--add ${PLUGIN_DELETIONS_NAME} --require-signature`),
+    ).toContain(
+      `is signed by key ${signed.result.keyId}, which is not in the trust store '.taylored-keys/'`,
+    );
+
+    trustSigningKey();
+    runTaylored(`--add ${PLUGIN_DELETIONS_NAME} --require-signature`);
+    expect(
+      fs.readFileSync(path.join(TEST_DIR_FULL_PATH, 'file1.txt'), 'utf8'),
+    ).not.toBe(INITIAL_FILE1_CONTENT);
+  });
+
+  test('signing.required refuses tampered patches, naming the key', () => {
+    trustSigningKey();
+    runTaylored(`--sign ${PLUGIN_DELETIONS_NAME} --key ${KEY_FILE}`);
+    fs.appendFileSync(PLUGIN_DELETIONS_FULL_PATH, '\n');
+    fs.writeFileSync(
+      path.join(TEST_DIR_FULL_PATH, '.tayloredrc'),
+      JSON.stringify({ signing: { required: true } }),
+    );
+
+    expect(runExpectingFailure(`--add ${PLUGIN_DELETIONS_NAME}`)).toContain(
+      `Patch '${PLUGIN_DELETIONS_NAME}' does not match its signature by key 'release'`,
+    );
+    expect(
+      fs.readFileSync(path.join(TEST_DIR_FULL_PATH, 'file1.txt'), 'utf8'),
+    ).toBe(INITIAL_FILE1_CONTENT);
+  });
+});
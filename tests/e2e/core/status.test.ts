@@ -0,0 +1,96 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { execSync } from 'child_process';
+import {
+  initializeTestEnvironment,
+  cleanupTestEnvironment,
+  resetToInitialState,
+  applyDeletionsPatch,
+  TAYLORED_CMD_BASE,
+  TAYLORED_DIR_FULL_PATH,
+  TEST_DIR_FULL_PATH,
+  execOptions,
+  PLUGIN_DELETIONS_NAME,
+} from './setup';
+
+const LEDGER_PATH = path.join(TAYLORED_DIR_FULL_PATH, '.state.json');
+
+const runStatus = (): string =>
+  execSync(`${TAYLORED_CMD_BASE} --status`, execOptions).toString();
+
+describe('Core CLI Tests - Status', () => {
+  beforeAll(async () => {
+    await initializeTestEnvironment();
+  });
+
+  afterAll(async () => {
+    await cleanupTestEnvironment();
+  });
+
+  beforeEach(async () => {
+    await resetToInitialState();
+  });
+
+  test('taylored --status: reports a saved but unapplied patch as NOT APPLIED', () => {
+    const output = runStatus();
+    expect(output).toMatch(
+      new RegExp(`NOT APPLIED\\s+${PLUGIN_DELETIONS_NAME}`),
+    );
+    expect(fs.existsSync(LEDGER_PATH)).toBe(false);
+  });
+
+  test('taylored --add records the patch in the ledger and --status reports it as APPLIED', () => {
+    applyDeletionsPatch();
+
+    const ledger = JSON.parse(fs.readFileSync(LEDGER_PATH, 'utf8'));
+    const entry = ledger.patches[PLUGIN_DELETIONS_NAME];
+    expect(entry.state).toBe('applied');
+    expect(entry.contentHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(entry.headCommit).toBe(
+      execSync('git rev-parse HEAD', execOptions).toString().trim(),
+    );
+    expect(new Date(entry.timestamp).toString()).not.toBe('Invalid Date');
+
+    const output = runStatus();
+    expect(output).toMatch(new RegExp(`APPLIED\\s+${PLUGIN_DELETIONS_NAME}`));
+    expect(output).not.toContain('NOT APPLIED');
+    expect(output).toContain('last added');
+  });
+
+  test('taylored --remove updates the ledger entry to removed', () => {
+    applyDeletionsPatch();
+    execSync(
+      `${TAYLORED_CMD_BASE} --remove ${PLUGIN_DELETIONS_NAME}`,
+      execOptions,
+    );
+
+    const ledger = JSON.parse(fs.readFileSync(LEDGER_PATH, 'utf8'));
+    expect(ledger.patches[PLUGIN_DELETIONS_NAME].state).toBe('removed');
+    expect(runStatus()).toMatch(
+      new RegExp(`NOT APPLIED\\s+${PLUGIN_DELETIONS_NAME}`),
+    );
+  });
+
+  test('taylored --status: reports DRIFTED when the tree no longer matches either state', () => {
+    applyDeletionsPatch();
+    fs.writeFileSync(
+      path.join(TEST_DIR_FULL_PATH, 'file1.txt'),
+      'Completely rewritten content.\n',
+    );
+
+    expect(runStatus()).toMatch(
+      new RegExp(`DRIFTED\\s+${PLUGIN_DELETIONS_NAME}`),
+    );
+  });
+
+  test('taylored --status: reports UNKNOWN when an unrecorded patch cannot be reconciled', () => {
+    fs.writeFileSync(
+      path.join(TEST_DIR_FULL_PATH, 'file1.txt'),
+      'Completely rewritten content.\n',
+    );
+
+    expect(runStatus()).toMatch(
+      new RegExp(`UNKNOWN\\s+${PLUGIN_DELETIONS_NAME}`),
+    );
+  });
+});
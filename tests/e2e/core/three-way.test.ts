@@ -0,0 +1,139 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { execSync } from 'child_process';
+import {
+  initializeTestEnvironment,
+  cleanupTestEnvironment,
+  resetToInitialState,
+  TAYLORED_CMD_BASE,
+  TEST_DIR_FULL_PATH,
+  TAYLORED_DIR_FULL_PATH,
+  execOptions,
+  PLUGIN_DELETIONS_NAME,
+  INITIAL_FILE1_CONTENT,
+  MODIFIED_FILE1_DELETIONS_CONTENT,
+} from './setup';
+
+const file1Path = () => path.join(TEST_DIR_FULL_PATH, 'file1.txt');
+const fileToDeletePath = () =>
+  path.join(TEST_DIR_FULL_PATH, 'file_to_delete.txt');
+
+const runExpectingFailure = (command: string) => {
+  try {
+    execSync(command, execOptions);
+  } catch (error: any) {
+    return (error.stdout || '').toString() + (error.stderr || '').toString();
+  }
+  throw new Error(`Expected '${command}' to fail.`);
+};
+
+describe('Core CLI Tests - Three-way merge (--3way)', () => {
+  beforeAll(async () => {
+    await initializeTestEnvironment();
+  });
+
+  afterAll(async () => {
+    await cleanupTestEnvironment();
+  });
+
+  beforeEach(async () => {
+    await resetToInitialState();
+  });
+
+  test('--add --3way merges a patch whose context has drifted', () => {
+    // The patch's only hunk starts at line 1, so a prepended line breaks it.
+    fs.writeFileSync(
+      file1Path(),
+      'L0: Added locally.\n' + INITIAL_FILE1_CONTENT,
+    );
+    expect(
+      runExpectingFailure(
+        `${TAYLORED_CMD_BASE} --add ${PLUGIN_DELETIONS_NAME}`,
+      ),
+    ).toContain("'git apply' failed");
+    execSync('git checkout -- file_to_delete.txt', execOptions);
+    expect(fs.existsSync(path.join(TEST_DIR_FULL_PATH, 'file1.txt.rej'))).toBe(
+      true,
+    );
+    fs.rmSync(path.join(TEST_DIR_FULL_PATH, 'file1.txt.rej'));
+
+    const output = execSync(
+      `${TAYLORED_CMD_BASE} --add ${PLUGIN_DELETIONS_NAME} --3way`,
+      execOptions,
+    ).toString();
+
+    expect(output).toMatch(/MERGED\s+file1\.txt \(base from recorded blob\)/);
+    expect(output).toMatch(/APPLIED\s+file_to_delete\.txt/);
+    expect(output).toContain('2 file(s): 1 applied, 1 merged, 0 conflicted.');
+    expect(fs.readFileSync(file1Path(), 'utf8')).toBe(
+      'L0: Added locally.\n' + MODIFIED_FILE1_DELETIONS_CONTENT,
+    );
+    expect(fs.existsSync(fileToDeletePath())).toBe(false);
+
+    // Recorded in the ledger, but reported as drifted: the patch itself still
+    // does not match the working tree.
+    const status = execSync(`${TAYLORED_CMD_BASE} --status`, execOptions);
+    expect(status.toString()).toMatch(
+      /DRIFTED\s+deletions-branch\.taylored\s+last added/,
+    );
+
+    execSync(
+      `${TAYLORED_CMD_BASE} --remove ${PLUGIN_DELETIONS_NAME} --3way`,
+      execOptions,
+    );
+    expect(fs.readFileSync(file1Path(), 'utf8')).toBe(
+      'L0: Added locally.\n' + INITIAL_FILE1_CONTENT,
+    );
+    expect(fs.existsSync(fileToDeletePath())).toBe(true);
+  });
+
+  test('--add --3way leaves conflict markers and fails on overlapping changes', () => {
+    fs.writeFileSync(
+      file1Path(),
+      INITIAL_FILE1_CONTENT.replace('L2: Line two.', 'L2: Edited locally.'),
+    );
+
+    const output = runExpectingFailure(
+      `${TAYLORED_CMD_BASE} --add ${PLUGIN_DELETIONS_NAME} --3way`,
+    );
+
+    expect(output).toMatch(/CONFLICT\s+file1\.txt/);
+    expect(output).toContain(
+      `Three-way merge of '${PLUGIN_DELETIONS_NAME}' left conflicts in 1 file(s): file1.txt`,
+    );
+    const merged = fs.readFileSync(file1Path(), 'utf8');
+    expect(merged).toContain('<<<<<<< working tree\n');
+    expect(merged).toContain('L2: Edited locally.\n');
+    expect(merged).toContain(`>>>>>>> ${PLUGIN_DELETIONS_NAME}\n`);
+    expect(fs.existsSync(path.join(TEST_DIR_FULL_PATH, 'file1.txt.rej'))).toBe(
+      false,
+    );
+    // Files without conflicts are still patched, but the patch is not
+    // recorded as applied.
+    expect(fs.existsSync(fileToDeletePath())).toBe(false);
+    expect(
+      fs.existsSync(path.join(TAYLORED_DIR_FULL_PATH, '.state.json')),
+    ).toBe(false);
+  });
+
+  test('--3way is rejected by verification commands', () => {
+    expect(
+      runExpectingFailure(
+        `${TAYLORED_CMD_BASE} --verify-add ${PLUGIN_DELETIONS_NAME} --3way`,
+      ),
+    ).toContain(
+      '--3way can only be used with --add or --remove, not with --verify-add',
+    );
+  });
+
+  test('--3way is rejected with --engine native', () => {
+    expect(
+      runExpectingFailure(
+        `${TAYLORED_CMD_BASE} --add ${PLUGIN_DELETIONS_NAME} --3way --engine native`,
+      ),
+    ).toContain(
+      '--3way merges with Git and cannot be combined with --engine native',
+    );
+    expect(fs.readFileSync(file1Path(), 'utf8')).toBe(INITIAL_FILE1_CONTENT);
+  });
+});
@@ -0,0 +1,199 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { execSync } from 'child_process';
+import {
+  initializeTestEnvironment,
+  cleanupTestEnvironment,
+  resetToInitialState,
+  applyDeletionsPatch,
+  TAYLORED_CMD_BASE,
+  TAYLORED_DIR_FULL_PATH,
+  TEST_DIR_FULL_PATH,
+  PLUGIN_DELETIONS_NAME,
+  INITIAL_FILE1_CONTENT,
+  INITIAL_FILE_TO_DELETE_CONTENT,
+  MODIFIED_FILE1_DELETIONS_CONTENT,
+  execOptions,
+} from './setup';
+
+const FILE1_PATH = path.join(TEST_DIR_FULL_PATH, 'file1.txt');
+const FILE_TO_DELETE_PATH = path.join(TEST_DIR_FULL_PATH, 'file_to_delete.txt');
+const LEDGER_PATH = path.join(TAYLORED_DIR_FULL_PATH, '.state.json');
+const JOURNAL_DIR = path.join(TEST_DIR_FULL_PATH, '.git', 'taylored-journal');
+
+const run = (command: string): string =>
+  execSync(`${TAYLORED_CMD_BASE} ${command}`, execOptions).toString();
+
+// Runs a command with --json, returning its result document even if it fails.
+const runJson = (command: string) => {
+  try {
+    return JSON.parse(
+      execSync(`${TAYLORED_CMD_BASE} ${command} --json`, {
+        ...execOptions,
+        stdio: 'pipe',
+      }).toString(),
+    );
+  } catch (error: any) {
+    return JSON.parse(error.stdout.toString());
+  }
+};
+
+describe('Core CLI Tests - Undo', () => {
+  beforeAll(async () => {
+    await initializeTestEnvironment();
+  });
+
+  afterAll(async () => {
+    await cleanupTestEnvironment();
+  });
+
+  beforeEach(async () => {
+    await resetToInitialState();
+    // The journal is in .git, which the reset does not touch.
+    fs.rmSync(JOURNAL_DIR, { recursive: true, force: true });
+  });
+
+  test('taylored --undo restores the files and the ledger as they were before --add', () => {
+    applyDeletionsPatch();
+    expect(fs.readFileSync(FILE1_PATH, 'utf8')).toBe(
+      MODIFIED_FILE1_DELETIONS_CONTENT,
+    );
+    expect(fs.existsSync(FILE_TO_DELETE_PATH)).toBe(false);
+
+    const output = run('--undo');
+    expect(output).toContain(`Undid #1: --add ${PLUGIN_DELETIONS_NAME}`);
+    expect(fs.readFileSync(FILE1_PATH, 'utf8')).toBe(INITIAL_FILE1_CONTENT);
+    expect(fs.readFileSync(FILE_TO_DELETE_PATH, 'utf8')).toBe(
+      INITIAL_FILE_TO_DELETE_CONTENT,
+    );
+    expect(fs.existsSync(LEDGER_PATH)).toBe(false);
+    expect(execSync('git status --porcelain', execOptions).toString()).toBe(
+      '?? .taylored/\n',
+    );
+
+    // The entry is gone: there is nothing left to undo.
+    expect(runJson('--undo')).toMatchObject({
+      success: false,
+      error: { code: 'USAGE_ERROR' },
+    });
+  });
+
+  test('a group is undone as one operation', () => {
+    fs.writeFileSync(path.join(TEST_DIR_FULL_PATH, 'target.txt'), 'a\nb\nc\n');
+    execSync(
+      'git add target.txt && git commit -q -m "add target"',
+      execOptions,
+    );
+    const groupDir = path.join(TAYLORED_DIR_FULL_PATH, 'group');
+    fs.mkdirSync(groupDir);
+    fs.writeFileSync(
+      path.join(groupDir, '1-first.taylored'),
+      'diff --git a/target.txt b/target.txt\n--- a/target.txt\n+++ b/target.txt\n@@ -1,3 +1,3 @@\n-a\n+A\n b\n c\n',
+    );
+    fs.writeFileSync(
+      path.join(groupDir, '2-second.taylored'),
+      'diff --git a/new.txt b/new.txt\nnew file mode 100644\n--- /dev/null\n+++ b/new.txt\n@@ -0,0 +1 @@\n+new\n',
+    );
+    run('--add group');
+    expect(
+      fs.readFileSync(path.join(TEST_DIR_FULL_PATH, 'target.txt'), 'utf8'),
+    ).toBe('A\nb\nc\n');
+
+    const { result } = runJson('--history');
+    expect(result.entries).toHaveLength(1);
+    expect(result.entries[0]).toMatchObject({
+      id: 1,
+      command: '--add',
+      target: 'group',
+      succeeded: true,
+    });
+    expect(Object.keys(result.entries[0].before).sort()).toEqual([
+      '.taylored/.state.json',
+      'new.txt',
+      'target.txt',
+    ]);
+
+    const undone = runJson('--undo');
+    expect(undone.success).toBe(true);
+    expect(undone.result.files).toEqual([
+      '.taylored/.state.json',
+      'new.txt',
+      'target.txt',
+    ]);
+    expect(
+      fs.readFileSync(path.join(TEST_DIR_FULL_PATH, 'target.txt'), 'utf8'),
+    ).toBe('a\nb\nc\n');
+    expect(fs.existsSync(path.join(TEST_DIR_FULL_PATH, 'new.txt'))).toBe(false);
+  });
+
+  test('taylored --history lists the operations, and --undo <ENTRY> undoes back to one', () => {
+    applyDeletionsPatch();
+    run(`--remove ${PLUGIN_DELETIONS_NAME}`);
+    applyDeletionsPatch();
+
+    const output = run('--history');
+    expect(output).toMatch(
+      /#3 {2}--add deletions-branch\.taylored[\s\S]*#2 {2}--remove[\s\S]*#1 {2}--add/,
+    );
+    expect(output).toContain('file1.txt');
+
+    // Undoes #3 and #2: the patch is applied again, as after #1.
+    const { result } = runJson('--undo 2');
+    expect(result.undone.map((entry: any) => entry.id)).toEqual([3, 2]);
+    expect(fs.readFileSync(FILE1_PATH, 'utf8')).toBe(
+      MODIFIED_FILE1_DELETIONS_CONTENT,
+    );
+    expect(
+      JSON.parse(fs.readFileSync(LEDGER_PATH, 'utf8')).patches[
+        PLUGIN_DELETIONS_NAME
+      ].state,
+    ).toBe('applied');
+    expect(
+      runJson('--history').result.entries.map((entry: any) => entry.id),
+    ).toEqual([1]);
+
+    // Entry numbers are not reused.
+    run(`--remove ${PLUGIN_DELETIONS_NAME}`);
+    expect(runJson('--history').result.entries[0].id).toBe(4);
+    expect(runJson('--undo 9')).toMatchObject({
+      success: false,
+      error: { code: 'USAGE_ERROR' },
+    });
+  });
+
+  test('files changed since the operation are not overwritten without --force', () => {
+    applyDeletionsPatch();
+    fs.appendFileSync(FILE1_PATH, 'edited\n');
+
+    expect(runJson('--undo')).toMatchObject({
+      success: false,
+      exitCode: 1,
+      error: { code: 'UNDO_CONFLICT', details: ['file1.txt'] },
+    });
+    expect(fs.readFileSync(FILE1_PATH, 'utf8')).toBe(
+      MODIFIED_FILE1_DELETIONS_CONTENT + 'edited\n',
+    );
+    expect(fs.existsSync(FILE_TO_DELETE_PATH)).toBe(false);
+
+    run('--undo --force');
+    expect(fs.readFileSync(FILE1_PATH, 'utf8')).toBe(INITIAL_FILE1_CONTENT);
+    expect(fs.existsSync(FILE_TO_DELETE_PATH)).toBe(true);
+  });
+
+  test('--automatic is undone by restoring the patch directory', () => {
+    fs.writeFileSync(
+      path.join(TEST_DIR_FULL_PATH, 'app.js'),
+      '// File content\n// <taylored number="1">\n// block\n// </taylored>\n',
+    );
+    execSync('git add app.js && git commit -q -m "add app.js"', execOptions);
+    const patchPath = path.join(TAYLORED_DIR_FULL_PATH, '1.taylored');
+
+    run('--automatic js main');
+    expect(fs.existsSync(patchPath)).toBe(true);
+    run('--undo');
+    expect(fs.existsSync(patchPath)).toBe(false);
+    expect(
+      fs.existsSync(path.join(TAYLORED_DIR_FULL_PATH, PLUGIN_DELETIONS_NAME)),
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,165 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { execSync } from 'child_process';
+import {
+  initializeTestEnvironment,
+  cleanupTestEnvironment,
+  resetToInitialState,
+  TAYLORED_CMD_BASE,
+  TEST_DIR_FULL_PATH,
+  TAYLORED_DIR_FULL_PATH,
+  PLUGIN_DELETIONS_NAME,
+  execOptions,
+} from './setup';
+
+const VERIFY_ALL = `${TAYLORED_CMD_BASE} --verify-all --junit reports/junit.xml --sarif reports/taylored.sarif`;
+
+const readReport = (name: string) =>
+  fs.readFileSync(path.join(TEST_DIR_FULL_PATH, 'reports', name), 'utf8');
+
+const runExpectingFailure = (command: string): string => {
+  try {
+    execSync(command, execOptions);
+  } catch (error: any) {
+    return error.stdout.toString();
+  }
+  throw new Error(`${command} was expected to fail`);
+};
+
+describe('Core CLI Tests - --verify-all', () => {
+  beforeAll(async () => {
+    await initializeTestEnvironment();
+  });
+
+  afterAll(async () => {
+    await cleanupTestEnvironment();
+  });
+
+  beforeEach(async () => {
+    await resetToInitialState();
+  });
+
+  test('passes healthy patches and writes JUnit and SARIF reports', () => {
+    const { result } = JSON.parse(
+      execSync(`${VERIFY_ALL} --json`, execOptions).toString(),
+    );
+    expect(result).toMatchObject({
+      passed: 1,
+      failed: 0,
+      skipped: 0,
+      reports: ['reports/junit.xml', 'reports/taylored.sarif'],
+      patches: [
+        {
+          patch: PLUGIN_DELETIONS_NAME,
+          state: 'not-applied',
+          verified: 'add',
+          applicable: true,
+          failures: [],
+        },
+      ],
+    });
+    expect(result.patches[0].frames[0]).toMatchObject({
+      file: 'file1.txt',
+      status: 'intact',
+    });
+
+    const junit = readReport('junit.xml');
+    expect(junit).toContain(
+      '<testsuite name="taylored --verify-all" tests="1" failures="0" errors="0" skipped="0">',
+    );
+    expect(junit).toContain(
+      `<testcase classname=".taylored" name="${PLUGIN_DELETIONS_NAME}">`,
+    );
+    expect(junit).not.toContain('<failure');
+    const sarif = JSON.parse(readReport('taylored.sarif'));
+    expect(sarif.version).toBe('2.1.0');
+    expect(sarif.runs[0].tool.driver.name).toBe('taylored');
+    expect(sarif.runs[0].results).toEqual([]);
+  });
+
+  test('fails a patch that only applies at an offset', () => {
+    const lines = Array.from({ length: 10 }, (_, i) => `line ${i + 1}`);
+    fs.writeFileSync(
+      path.join(TEST_DIR_FULL_PATH, 'long.txt'),
+      `line 0\n${lines.join('\n')}\n`,
+    );
+    fs.writeFileSync(
+      path.join(TAYLORED_DIR_FULL_PATH, 'offset.taylored'),
+      `diff --git a/long.txt b/long.txt
+--- a/long.txt
++++ b/long.txt
+@@ -2,7 +2,6 @@
+ line 2
+ line 3
+ line 4
+-line 5
+ line 6
+ line 7
+ line 8
+`,
+    );
+
+    const { error, result } = JSON.parse(
+      runExpectingFailure(`${VERIFY_ALL} --json`),
+    );
+    expect(error).toMatchObject({
+      code: 'PATCH_APPLY_FAILED',
+      message: '1 of 2 patch(es) failed verification.',
+    });
+    // It can still be applied (at an offset of one line), but its frames are
+    // not where the patch records them.
+    expect(result.patches[1]).toMatchObject({
+      patch: 'offset.taylored',
+      state: 'not-applied',
+      verified: 'add',
+      applicable: true,
+      failures: [
+        'long.txt: Frame top content mismatch at line 4. Expected "line 4", found "line 3".',
+        'long.txt: Frame bottom content mismatch at line 6. Expected "line 6", found "line 5".',
+      ],
+    });
+
+    const junit = readReport('junit.xml');
+    expect(junit).toContain('tests="2" failures="1"');
+    expect(junit).toContain(
+      '<failure message="long.txt: Frame top content mismatch at line 4. Expected &quot;line 4&quot;, found &quot;line 3&quot;." type="FrameMismatch">',
+    );
+    const [first] = JSON.parse(readReport('taylored.sarif')).runs[0].results;
+    expect(first).toMatchObject({
+      ruleId: 'taylored/frame-mismatch',
+      level: 'error',
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: 'long.txt' },
+            region: { startLine: 4 },
+          },
+        },
+      ],
+    });
+  });
+
+  test('fails a patch that can neither be applied nor removed', () => {
+    fs.writeFileSync(
+      path.join(TEST_DIR_FULL_PATH, 'file1.txt'),
+      'L1: Initial content for file1.\nL2: Changed.\nL3: Line three.\nL4: Line four.\nL5: Line five.\n',
+    );
+
+    const output = runExpectingFailure(VERIFY_ALL);
+    expect(output).toContain(`FAIL  ${PLUGIN_DELETIONS_NAME} (unknown;`);
+    expect(output).toContain(
+      'The patch can neither be applied nor removed cleanly',
+    );
+    const [first] = JSON.parse(readReport('taylored.sarif')).runs[0].results;
+    expect(first).toMatchObject({
+      ruleId: 'taylored/patch-inapplicable',
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: `.taylored/${PLUGIN_DELETIONS_NAME}` },
+          },
+        },
+      ],
+    });
+  });
+});
@@ -1,5 +1,10 @@
 import { PatchAnalyzer } from '../../lib/PatchAnalyzer';
 import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// Patches written by `git diff`, covering the extended headers.
+const FIXTURES_DIR = path.join(__dirname, 'fixtures', 'patches');
 
 describe('PatchAnalyzer', () => {
   let analyzer: PatchAnalyzer;
@@ -21,4 +26,258 @@ describe('PatchAnalyzer', () => {
       });
     });
   });
+
+  describe('parsePatch', () => {
+    it('should read hunk bodies by their line counts and record missing newlines', () => {
+      const patch = `diff --git a/notes.sql b/notes.sql
+index 1111111..2222222 100644
+--- a/notes.sql
++++ b/notes.sql
+@@ -1,3 +1,2 @@
+ select 1;
+--- a comment
+-select 2;
+\\ No newline at end of file
++select 3;
+\\ No newline at end of file
+`;
+      const [parsed] = analyzer.parsePatch(patch);
+      expect(parsed.oldFile).toBe('a/notes.sql');
+      expect(parsed.newFile).toBe('b/notes.sql');
+      expect(parsed.hunks[0].changes.map((c) => c.type + c.content)).toEqual([
+        ' select 1;',
+        '--- a comment',
+        '-select 2;',
+        '+select 3;',
+      ]);
+      expect(parsed.hunks[0].changes.map((c) => !!c.noNewline)).toEqual([
+        false,
+        false,
+        true,
+        true,
+      ]);
+    });
+
+    it('should record new files and renames from extended headers', () => {
+      const patch = `diff --git a/empty.txt b/empty.txt
+new file mode 100755
+index 0000000..e69de29
+diff --git a/old.txt b/new.txt
+similarity index 100%
+rename from old.txt
+rename to new.txt
+`;
+      const parsed = analyzer.parsePatch(patch);
+      expect(parsed).toHaveLength(2);
+      expect(parsed[0]).toMatchObject({
+        oldFile: '/dev/null',
+        newFile: 'b/empty.txt',
+        isNewFile: true,
+        newMode: '100755',
+      });
+      expect(parsed[1]).toMatchObject({
+        renameFrom: 'old.txt',
+        renameTo: 'new.txt',
+      });
+    });
+
+    it('should collect the hunks of binary patches', () => {
+      const patch = `diff --git a/logo.png b/logo.png
+new file mode 100644
+index 0000000000000000000000000000000000000000..8e3a1b4dc9a0a6f7a3f1d9f6f24e0a8e2a9b7c1d
+GIT binary patch
+literal 6
+NcmZQzWMXDv1ONa40RR91
+
+literal 0
+HcmV?d00001
+
+diff --git a/notes.txt b/notes.txt
+index 1111111..2222222 100644
+Binary files a/notes.txt and b/notes.txt differ
+`;
+      const parsed = analyzer.parsePatch(patch);
+      expect(parsed).toHaveLength(2);
+      expect(parsed[0]).toMatchObject({
+        isNewFile: true,
+        isBinary: true,
+        binaryHunks: [
+          { type: 'literal', size: 6, lines: ['NcmZQzWMXDv1ONa40RR91'] },
+          { type: 'literal', size: 0, lines: ['HcmV?d00001'] },
+        ],
+      });
+      expect(parsed[0].hunks).toEqual([]);
+      expect(parsed[1].isBinary).toBe(true);
+      expect(parsed[1].binaryHunks).toBeUndefined();
+    });
+  });
+
+  describe('reconstructPatch', () => {
+    it.each(fs.readdirSync(FIXTURES_DIR))(
+      'should round-trip %s byte for byte',
+      (fixture) => {
+        const content = fs.readFileSync(
+          path.join(FIXTURES_DIR, fixture),
+          'latin1',
+        );
+        expect(analyzer.reconstructPatch(analyzer.parsePatch(content))).toBe(
+          content,
+        );
+      },
+    );
+
+    it('should model renames, copies, modes and similarity', () => {
+      const read = (fixture: string) =>
+        analyzer.parsePatch(
+          fs.readFileSync(path.join(FIXTURES_DIR, fixture), 'utf8'),
+        );
+      const [modeChange, pureRename, renameWithHunk] = read(
+        'renames-modes.patch',
+      );
+      expect(modeChange).toMatchObject({
+        oldMode: '100644',
+        newMode: '100755',
+      });
+      expect(pureRename).toMatchObject({
+        renameFrom: 'old-name.txt',
+        renameTo: 'new-name.txt',
+        similarityIndex: 100,
+        hunks: [],
+      });
+      expect(pureRename.header!.oldFileLine).toBeUndefined();
+      expect(renameWithHunk.header!.extended).toEqual([
+        { name: 'similarity index', value: '97%' },
+        { name: 'rename from', value: 'module.py' },
+        { name: 'rename to', value: 'pkg_module.py' },
+        { name: 'index', value: 'c5be101..6227fe2 100644' },
+      ]);
+      expect(renameWithHunk.hunks[0].header).toBe(
+        '@@ -17,7 +17,7 @@ shared line 16',
+      );
+
+      const sections = read('quoted-copies-rewrites.patch');
+      expect(sections.find((s) => s.copyTo !== undefined)).toMatchObject({
+        copyFrom: 'list.txt',
+        copyTo: 'list-copy.txt',
+      });
+      expect(sections.find((s) => s.dissimilarityIndex === 100)).toBeDefined();
+    });
+
+    it('should regenerate only the hunk headers whose line ranges changed', () => {
+      const [section] = analyzer
+        .parsePatch(
+          fs.readFileSync(
+            path.join(FIXTURES_DIR, 'renames-modes.patch'),
+            'utf8',
+          ),
+        )
+        .slice(2);
+      section.hunks[0].newStart = 18;
+      section.hunks[0].oldCount = 1;
+      expect(analyzer.reconstructPatch([section])).toContain(
+        '\n@@ -17 +18,7 @@ shared line 16\n',
+      );
+    });
+  });
+
+  describe('verifyIntegrityAndUpgrade', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'taylored-analyzer-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should keep the preamble and headers byte for byte when it upgrades a patch', async () => {
+      const patch = `Title: Renamed module
+Version: 1.0.0
+
+diff --git a/module.py b/pkg_module.py
+old mode 100644
+new mode 100755
+similarity index 97%
+rename from module.py
+rename to pkg_module.py
+index c5be101..6227fe2
+--- a/module.py
++++ b/pkg_module.py
+@@ -19,3 +19,4 @@ shared line 18
+ shared line 19
+ shared line 20
++added line
+ shared line 21
+`;
+      const patchPath = path.join(tempDir, 'module.taylored');
+      const targetPath = path.join(tempDir, 'pkg_module.py');
+      fs.writeFileSync(patchPath, patch);
+      const lines = Array.from(
+        { length: 25 },
+        (_, i) => `shared line ${i + 1}`,
+      );
+      lines.splice(20, 0, 'added line, edited');
+      fs.writeFileSync(targetPath, `${lines.join('\n')}\n`);
+
+      const [result] = await analyzer.verifyIntegrityAndUpgrade(
+        patchPath,
+        targetPath,
+      );
+      expect(result).toMatchObject({ status: 'intact', updated: true });
+      expect(fs.readFileSync(patchPath, 'utf8')).toBe(
+        patch.replace('+added line\n', '+added line, edited\n'),
+      );
+    });
+  });
+
+  describe('verifyFrames', () => {
+    const patch = `diff --git a/a.txt b/a.txt
+--- a/a.txt
++++ b/a.txt
+@@ -1,5 +1,5 @@
+ one
+-two
+ three
+ four
++four and a half
+ five
+`;
+    const original = ['one', 'two', 'three', 'four', 'five', ''];
+    const patched = ['one', 'three', 'four', 'four and a half', 'five', ''];
+
+    it('should check additions against the patched file and deletions against the original', () => {
+      const versions: string[] = [];
+      const results = analyzer.verifyFrames(patch, (file, version) => {
+        versions.push(`${file}:${version}`);
+        return version === 'patched' ? patched : original;
+      });
+      expect(versions).toEqual(['a.txt:original', 'a.txt:patched']);
+      expect(results).toEqual([
+        expect.objectContaining({
+          file: 'a.txt',
+          status: 'intact',
+          updated: false,
+        }),
+      ]);
+    });
+
+    it('should report frames that moved, and missing files, without updating anything', () => {
+      const shifted = ['zero', ...original];
+      const [result] = analyzer.verifyFrames(patch, () => shifted);
+      expect(result.status).toBe('corrupted');
+      expect(result.blocks![0].topFrame).toMatchObject({
+        intact: false,
+        expected: 'one',
+        actual: 'zero',
+        lineNumber: 1,
+      });
+
+      const [missing] = analyzer.verifyFrames(patch, () => null);
+      expect(missing).toMatchObject({
+        status: 'error',
+        message: 'Target file not found (original version): a.txt',
+      });
+    });
+  });
 });
@@ -0,0 +1,247 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execSync } from 'child_process';
+import * as taylored from '../../index';
+import { TayloredError, getErrorInfo } from '../../lib/api';
+
+const tempDirs: string[] = [];
+
+// A repository with one commit and a patch that appends a line to a.txt.
+const makeRepo = (): string => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'taylored-api-test-'));
+  tempDirs.push(dir);
+  const git = (args: string) =>
+    execSync(`git ${args}`, { cwd: dir, stdio: 'pipe' });
+  git('init -q');
+  git('config user.email "test@example.com"');
+  git('config user.name "Test"');
+  fs.writeFileSync(path.join(dir, 'a.txt'), 'one\ntwo\n');
+  git('add a.txt');
+  git('commit -q -m initial');
+  fs.mkdirSync(path.join(dir, '.taylored'));
+  fs.writeFileSync(
+    path.join(dir, '.taylored', 'append.taylored'),
+    `diff --git a/a.txt b/a.txt
+--- a/a.txt
++++ b/a.txt
+@@ -1,2 +1,3 @@
+ one
+ two
++three
+`,
+  );
+  return dir;
+};
+
+describe('programmatic API', () => {
+  let logSpy: jest.SpyInstance;
+  let errorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    errorSpy.mockRestore();
+  });
+
+  afterAll(() => {
+    for (const dir of tempDirs) {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should be importable from the package entry point without running the CLI', () => {
+    for (const name of [
+      'save',
+      'add',
+      'remove',
+      'verify',
+      'preview',
+      'list',
+      'metadata',
+      'sign',
+      'status',
+      'overlaps',
+      'offset',
+      'automatic',
+      'upgrade',
+      'undo',
+      'history',
+      'verifyAll',
+      'installGitHooks',
+      'uninstallGitHooks',
+      'runGitHook',
+    ]) {
+      expect(typeof (taylored as any)[name]).toBe('function');
+    }
+  });
+
+  it('should add, list, verify and remove patches and return their outcomes', async () => {
+    const cwd = makeRepo();
+
+    expect(await taylored.list({ cwd })).toEqual(['append.taylored']);
+    const verified = await taylored.verify('append', { cwd });
+    expect(verified.patches[0].outcome).toBe('verified');
+
+    const added = await taylored.add('append', { cwd });
+    expect(added).toEqual({
+      target: 'append',
+      group: false,
+      patches: [
+        {
+          patch: 'append.taylored',
+          outcome: 'applied',
+          files: [
+            {
+              path: 'a.txt',
+              status: 'modified',
+              hunks: 1,
+              additions: 1,
+              deletions: 0,
+              binary: false,
+            },
+          ],
+        },
+      ],
+    });
+    expect(fs.readFileSync(path.join(cwd, 'a.txt'), 'utf8')).toBe(
+      'one\ntwo\nthree\n',
+    );
+    expect((await taylored.status({ cwd }))[0].state).toBe('applied');
+
+    await taylored.remove('append', { cwd });
+    expect(fs.readFileSync(path.join(cwd, 'a.txt'), 'utf8')).toBe('one\ntwo\n');
+  });
+
+  it('should journal operations so that they can be undone', async () => {
+    const cwd = makeRepo();
+    expect(await taylored.history({ cwd })).toEqual([]);
+
+    await taylored.add('append', { cwd });
+    // A failed operation is recorded too: it left a.txt.rej.
+    await expect(taylored.add('append', { cwd })).rejects.toThrow();
+    const entries = await taylored.history({ cwd });
+    expect(entries).toMatchObject([
+      {
+        id: 2,
+        command: '--add',
+        succeeded: false,
+        before: { 'a.txt.rej': null },
+      },
+      { id: 1, command: '--add', target: 'append', succeeded: true },
+    ]);
+
+    const undone = await taylored.undo({ cwd, entry: 1 });
+    expect(undone.undone.map((entry) => entry.id)).toEqual([2, 1]);
+    expect(undone.files).toEqual([
+      '.taylored/.state.json',
+      'a.txt',
+      'a.txt.rej',
+    ]);
+    expect(fs.readFileSync(path.join(cwd, 'a.txt'), 'utf8')).toBe('one\ntwo\n');
+    expect(fs.existsSync(path.join(cwd, 'a.txt.rej'))).toBe(false);
+    expect(await taylored.history({ cwd })).toEqual([]);
+    await expect(taylored.undo({ cwd })).rejects.toMatchObject({
+      code: 'USAGE_ERROR',
+    });
+  });
+
+  it('should throw errors with codes instead of exiting the process', async () => {
+    const cwd = makeRepo();
+    const exitSpy = jest.spyOn(process, 'exit');
+
+    const notARepo = fs.mkdtempSync(path.join(os.tmpdir(), 'taylored-api-'));
+    tempDirs.push(notARepo);
+    await expect(taylored.list({ cwd: notARepo })).rejects.toMatchObject({
+      code: 'NOT_A_GIT_REPOSITORY',
+    });
+    await expect(taylored.add('--oops', { cwd })).rejects.toBeInstanceOf(
+      TayloredError,
+    );
+    await expect(
+      taylored.add('append', { cwd, engine: 'native', threeWay: true }),
+    ).rejects.toMatchObject({ code: 'USAGE_ERROR' });
+
+    // Already applied: the second add fails, and the result passed in
+    // describes the failure.
+    await taylored.add('append', { cwd });
+    const result = { target: '', group: false, patches: [] };
+    const failure = await taylored
+      .add('append', { cwd, result })
+      .catch((error) => error);
+    expect(getErrorInfo(failure).code).toBe('PATCH_APPLY_FAILED');
+    expect(result.patches).toMatchObject([
+      { patch: 'append.taylored', outcome: 'failed' },
+    ]);
+
+    expect(exitSpy).not.toHaveBeenCalled();
+    exitSpy.mockRestore();
+  });
+
+  it('should report an invalid group manifest as a CONFIG_ERROR', async () => {
+    const cwd = makeRepo();
+    const groupDir = path.join(cwd, '.taylored', 'group');
+    fs.mkdirSync(groupDir);
+    fs.copyFileSync(
+      path.join(cwd, '.taylored', 'append.taylored'),
+      path.join(groupDir, '1-append.taylored'),
+    );
+    fs.writeFileSync(path.join(groupDir, 'taylored.json'), '{ "patches": [] }');
+
+    await expect(taylored.add('group', { cwd })).rejects.toMatchObject({
+      code: 'CONFIG_ERROR',
+    });
+    expect(fs.readFileSync(path.join(cwd, 'a.txt'), 'utf8')).toBe('one\ntwo\n');
+  });
+
+  it('should use the patch directory of each repository in concurrent calls', async () => {
+    const defaultRepo = makeRepo();
+    const configuredRepo = makeRepo();
+    fs.renameSync(
+      path.join(configuredRepo, '.taylored'),
+      path.join(configuredRepo, 'patches'),
+    );
+    fs.writeFileSync(
+      path.join(configuredRepo, '.tayloredrc'),
+      '{ "patchDirectory": "patches" }',
+    );
+
+    const [added, configuredAdded] = await Promise.all([
+      taylored.add('append', { cwd: defaultRepo }),
+      taylored.add('append', { cwd: configuredRepo }),
+    ]);
+    expect(added.patches[0].outcome).toBe('applied');
+    expect(configuredAdded.patches[0].outcome).toBe('applied');
+    for (const cwd of [defaultRepo, configuredRepo]) {
+      expect(fs.readFileSync(path.join(cwd, 'a.txt'), 'utf8')).toBe(
+        'one\ntwo\nthree\n',
+      );
+    }
+    expect(fs.existsSync(path.join(configuredRepo, '.taylored'))).toBe(false);
+    expect(
+      fs.existsSync(path.join(configuredRepo, 'patches', '.state.json')),
+    ).toBe(true);
+  });
+
+  it('should report the post hooks that failed in the result', async () => {
+    const cwd = makeRepo();
+    fs.writeFileSync(
+      path.join(cwd, '.tayloredrc'),
+      '{ "hooks": { "postAdd": ["exit 1", "exit 0"] } }',
+    );
+
+    const result = await taylored.add('append', { cwd });
+    expect(result.hookFailures).toEqual(['exit 1']);
+    expect(result.patches[0].outcome).toBe('applied');
+    expect(fs.readFileSync(path.join(cwd, 'a.txt'), 'utf8')).toBe(
+      'one\ntwo\nthree\n',
+    );
+
+    const removed = await taylored.remove('append', { cwd });
+    expect(removed).not.toHaveProperty('hookFailures');
+  });
+});
@@ -11,6 +11,7 @@ import * as https from 'https';
 import * as taysellUtils from '../../lib/taysell-utils';
 import * as applyLogic from '../../lib/apply-logic';
 import * as utils from '../../lib/utils';
+import * as config from '../../lib/config';
 import {
   TAYLORED_DIR_NAME,
   TAYLORED_FILE_EXTENSION,
@@ -232,6 +233,47 @@ describe('handleBuyCommand', () => {
     );
   });
 
+  it('should save the patch in the patch directory of .tayloredrc', async () => {
+    jest
+      .spyOn(config, 'loadProjectConfig')
+      .mockResolvedValue({ patchDirectory: 'patches' });
+    mockHttpsGetResponse.statusCode = 200;
+    mockHttpsGetResponse.on.mockImplementation(function (
+      this: any,
+      event: string,
+      cb: (...args: any[]) => void,
+    ) {
+      if (event === 'data') {
+        process.nextTick(() =>
+          cb(
+            Buffer.from(
+              JSON.stringify({
+                purchaseToken: 'valid-token',
+                patchId: 'test-patch-id-123',
+              }),
+            ),
+          ),
+        );
+      }
+      if (event === 'end') {
+        process.nextTick(() => cb());
+      }
+      return this;
+    });
+
+    await handleBuyCommand(mockTaysellFileName, false, mockCwd);
+
+    expect(config.loadProjectConfig).toHaveBeenCalledWith(mockCwd);
+    expect(fs.writeFile).toHaveBeenCalledWith(
+      path.join(
+        mockCwd,
+        'patches',
+        `test_patch_id_123${TAYLORED_FILE_EXTENSION}`,
+      ),
+      'mocked patch content',
+    );
+  });
+
   it('should perform a dry run correctly', async () => {
     mockHttpsGetResponse.statusCode = 200;
     mockHttpsGetResponse.on.mockImplementation(function (
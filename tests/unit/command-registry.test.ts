@@ -0,0 +1,150 @@
+import { CommandRegistry, CommandSpec } from '../../lib/command-registry';
+import { TayloredError } from '../../lib/errors';
+
+const run = async () => null;
+const addCommand: CommandSpec = {
+  name: '--add',
+  summary: 'Applies a patch.',
+  arguments: [{ name: 'patch', description: 'The patch.' }],
+  options: [
+    {
+      flag: '--engine',
+      type: 'string',
+      choices: ['git', 'native'],
+      description: 'The engine.',
+    },
+    { flag: '--3way', type: 'boolean', description: 'Merge.' },
+  ],
+  run,
+};
+const automaticCommand: CommandSpec = {
+  name: '--automatic',
+  summary: 'Creates patches.',
+  arguments: [
+    { name: 'EXTENSIONS', description: 'Extensions.', optional: true },
+    { name: 'branch_name', description: 'A branch.', optional: true },
+  ],
+  options: [
+    {
+      flag: '--exclude',
+      type: 'list',
+      valueName: 'DIR_LIST',
+      description: 'Directories.',
+    },
+  ],
+  run,
+};
+const listCommand: CommandSpec = {
+  name: '--list',
+  summary: 'Lists patches.',
+  run,
+};
+
+const registry = new CommandRegistry()
+  .register(addCommand)
+  .register(automaticCommand)
+  .register(listCommand);
+
+const parseError = (argv: string[]): string => {
+  try {
+    registry.parse(argv);
+  } catch (error) {
+    expect(error).toBeInstanceOf(TayloredError);
+    expect((error as TayloredError).code).toBe('USAGE_ERROR');
+    return (error as TayloredError).message;
+  }
+  throw new Error(`Expected '${argv.join(' ')}' to be rejected.`);
+};
+
+describe('lib/command-registry CommandRegistry', () => {
+  it('should parse options anywhere, in both --flag value and --flag=value form', () => {
+    expect(
+      registry.parse(['--add', '--engine=native', 'my-patch', '--3way']),
+    ).toMatchObject({
+      command: addCommand,
+      args: { patch: 'my-patch' },
+      options: { '--engine': 'native', '--3way': true },
+      help: false,
+    });
+    expect(
+      registry.parse(['--automatic', '--exclude', 'a, b', 'ts', 'main'])
+        .options,
+    ).toEqual({ '--exclude': ['a', 'b'] });
+    expect(registry.parse(['--automatic', '--exclude=']).options).toEqual({
+      '--exclude': [],
+    });
+    // Everything after -- is positional.
+    expect(registry.parse(['--add', '--', '--3way']).args).toEqual({
+      patch: '--3way',
+    });
+  });
+
+  it('should leave omitted optional arguments undefined and skip validation for --help', () => {
+    expect(registry.parse(['--automatic', 'ts']).args).toEqual({
+      EXTENSIONS: 'ts',
+      branch_name: undefined,
+    });
+    expect(registry.parse(['--add', '-h'])).toMatchObject({
+      help: true,
+      args: {},
+    });
+  });
+
+  it('should suggest the closest command or option for typos', () => {
+    expect(parseError(['--ad', 'x'])).toBe(
+      "CRITICAL ERROR: Unknown option or command '--ad'. Did you mean '--add'?",
+    );
+    expect(parseError(['list'])).toBe(
+      "CRITICAL ERROR: Unknown option or command 'list'. Did you mean '--list'?",
+    );
+    expect(parseError(['--add', 'x', '--engin=git'])).toBe(
+      "CRITICAL ERROR: Unknown option '--engin' for --add. Did you mean '--engine'?",
+    );
+    expect(parseError(['--list', '--exclude', 'a'])).toBe(
+      'CRITICAL ERROR: --exclude can only be used with --automatic, not with --list.',
+    );
+  });
+
+  it('should reject missing, extra and invalid values', () => {
+    expect(parseError(['--add'])).toBe(
+      'CRITICAL ERROR: --add requires a <patch> argument.',
+    );
+    expect(parseError(['--add', 'x', 'y'])).toBe(
+      "CRITICAL ERROR: Unexpected argument 'y' for --add.",
+    );
+    expect(parseError(['--list', 'x'])).toBe(
+      'CRITICAL ERROR: --list does not take any arguments.',
+    );
+    expect(parseError(['--add', 'x', '--engine', 'patch'])).toBe(
+      'CRITICAL ERROR: --engine requires one of: git, native.',
+    );
+    expect(parseError(['--add', 'x', '--3way=yes'])).toBe(
+      'CRITICAL ERROR: --3way does not take a value.',
+    );
+    expect(parseError(['--automatic', '--exclude'])).toBe(
+      'CRITICAL ERROR: --exclude requires a <DIR_LIST> argument.',
+    );
+    expect(parseError(['--automatic', '--exclude', ' , '])).toBe(
+      "CRITICAL ERROR: --exclude value ' , ' resulted in an empty list.",
+    );
+  });
+
+  it('should generate help from the declarations', () => {
+    expect(registry.formatHelp(automaticCommand)).toBe(
+      [
+        'Usage: taylored --automatic [EXTENSIONS] [branch_name] [options]',
+        '',
+        'Creates patches.',
+        '',
+        'Arguments:',
+        '  [EXTENSIONS]   Extensions. (optional)',
+        '  [branch_name]  A branch. (optional)',
+        '',
+        'Options:',
+        '  --exclude <DIR_LIST>  Directories.',
+        '  --json                Print one JSON result document to stdout (messages go to stderr).',
+        '  --help                Show this help.',
+      ].join('\n'),
+    );
+  });
+});
@@ -0,0 +1,99 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadProjectConfig, getTayloredDirName } from '../../lib/config';
+import { TayloredError } from '../../lib/errors';
+
+const tempDirs: string[] = [];
+const withConfig = (content: string | null): string => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'taylored-config-test-'));
+  tempDirs.push(dir);
+  if (content !== null) {
+    fs.writeFileSync(path.join(dir, '.tayloredrc'), content);
+  }
+  return dir;
+};
+
+const loadErrors = async (content: string): Promise<string[]> => {
+  try {
+    await loadProjectConfig(withConfig(content));
+  } catch (error) {
+    expect(error).toBeInstanceOf(TayloredError);
+    expect((error as TayloredError).code).toBe('CONFIG_ERROR');
+    return (error as TayloredError).details;
+  }
+  throw new Error('Expected the configuration to be rejected.');
+};
+
+describe('lib/config loadProjectConfig', () => {
+  let errorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    errorSpy.mockRestore();
+  });
+
+  afterAll(() => {
+    for (const dir of tempDirs) {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should return an empty configuration when there is no .tayloredrc', async () => {
+    const config = await loadProjectConfig(withConfig(null));
+    expect(config).toEqual({});
+    expect(getTayloredDirName(config)).toBe('.taylored');
+  });
+
+  it('should read a valid configuration and apply its patch directory', async () => {
+    const config = {
+      baseBranch: 'develop',
+      patchDirectory: 'config/patches',
+      automatic: { extensions: ['ts', 'js'], exclude: ['node_modules'] },
+      output: { json: false, color: true },
+    };
+    // The patch directory is normalized.
+    const written = { ...config, patchDirectory: './config/patches/' };
+    const loaded = await loadProjectConfig(withConfig(JSON.stringify(written)));
+    expect(loaded).toEqual(config);
+    expect(getTayloredDirName(loaded)).toBe(path.join('config', 'patches'));
+
+    // Loading another repository does not change the first one's directory.
+    expect(getTayloredDirName(await loadProjectConfig(withConfig('{}')))).toBe(
+      '.taylored',
+    );
+    expect(getTayloredDirName(loaded)).toBe(path.join('config', 'patches'));
+  });
+
+  it('should report unknown keys with a suggestion', async () => {
+    expect(
+      await loadErrors(
+        '{ "baseBrach": "main", "automatic": { "exlude": [] } }',
+      ),
+    ).toEqual([
+      "Unknown key 'baseBrach'. Did you mean 'baseBranch'? Valid keys: baseBranch, patchDirectory, automatic, output, signing, hooks.",
+      "Unknown key 'automatic.exlude'. Did you mean 'exclude'? Valid keys: extensions, exclude.",
+    ]);
+  });
+
+  it('should report values of the wrong type and invalid JSON', async () => {
+    expect(
+      await loadErrors(
+        '{ "baseBranch": 1, "automatic": { "extensions": "ts" }, "output": { "json": "yes" } }',
+      ),
+    ).toEqual([
+      "'baseBranch' must be a non-empty string.",
+      "'automatic.extensions' must be an array of non-empty strings.",
+      "'output.json' must be a boolean.",
+    ]);
+    expect(await loadErrors('[]')).toEqual(["'(root)' must be an object."]);
+    expect(await loadErrors('{ "patchDirectory": "../outside" }')).toEqual([
+      "'patchDirectory' must be a directory inside the repository, relative to its root.",
+    ]);
+    const [syntaxError] = await loadErrors('{ baseBranch: "main" }');
+    expect(syntaxError).toMatch(/^Not valid JSON: /);
+  });
+});
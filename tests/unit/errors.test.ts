@@ -0,0 +1,48 @@
+import { TayloredError, getErrorInfo } from '../../lib/errors';
+import { PatchApplyError } from '../../lib/patch-engine';
+import { ThreeWayConflictError } from '../../lib/three-way-merge';
+
+describe('lib/errors getErrorInfo', () => {
+  it('should keep the code and details of a TayloredError', () => {
+    const error = new TayloredError(
+      'DEPENDENCY_ERROR',
+      'CRITICAL ERROR: Cannot add a.taylored.',
+      ["requires 'b.taylored', which is not applied"],
+    );
+    expect(getErrorInfo(error)).toEqual({
+      code: 'DEPENDENCY_ERROR',
+      message: 'Cannot add a.taylored.',
+      details: ["requires 'b.taylored', which is not applied"],
+    });
+  });
+
+  it('should derive codes for the errors of the patch engines', () => {
+    expect(
+      getErrorInfo(new PatchApplyError(['patch failed: a.txt:1'])),
+    ).toEqual({
+      code: 'PATCH_APPLY_FAILED',
+      message: 'Patch does not apply: patch failed: a.txt:1',
+      details: ['patch failed: a.txt:1'],
+    });
+    expect(
+      getErrorInfo(new ThreeWayConflictError('Conflicts.', ['a.txt'])),
+    ).toEqual({
+      code: 'MERGE_CONFLICT',
+      message: 'Conflicts.',
+      details: ['a.txt'],
+    });
+  });
+
+  it('should fall back to FILE_NOT_FOUND and COMMAND_FAILED', () => {
+    const missing = Object.assign(new Error('ENOENT: no such file'), {
+      code: 'ENOENT',
+    });
+    expect(getErrorInfo(missing).code).toBe('FILE_NOT_FOUND');
+    expect(getErrorInfo(new Error('Something else.'))).toEqual({
+      code: 'COMMAND_FAILED',
+      message: 'Something else.',
+      details: [],
+    });
+    expect(getErrorInfo('plain string').message).toBe('plain string');
+  });
+});
@@ -0,0 +1,128 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { runHooks, HookContext } from '../../lib/hooks';
+import { loadProjectConfig } from '../../lib/config';
+import { TayloredError } from '../../lib/errors';
+
+const CONTEXT: HookContext = {
+  operation: 'add',
+  mode: '--add',
+  patch: 'group/1-feature.taylored',
+  patches: ['group/1-feature.taylored'],
+  files: ['src/a.js', 'src/b.js'],
+};
+
+// Hooks run through the shell of the platform (sh, or cmd.exe on Windows), so
+// they are written as node scripts: double quotes around the script, none of
+// `$`, `%`, `!` or backquotes inside it.
+const nodeHook = (script: string) => `node -e "${script}"`;
+const appendToLog = (expression: string) =>
+  nodeHook(`require('fs').appendFileSync('hooks.log', ${expression} + '\\n')`);
+
+describe('lib/hooks runHooks', () => {
+  let repo: string;
+  let errorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    repo = fs.mkdtempSync(path.join(os.tmpdir(), 'taylored-hooks-test-'));
+    fs.mkdirSync(path.join(repo, '.taylored', 'group'), { recursive: true });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(repo, { recursive: true, force: true });
+  });
+
+  const readLog = () => fs.readFileSync(path.join(repo, 'hooks.log'), 'utf8');
+
+  it('runs project then group hooks with the context in the environment and on stdin', async () => {
+    fs.writeFileSync(
+      path.join(repo, '.taylored', 'group', 'taylored.json'),
+      JSON.stringify({
+        hooks: {
+          preAdd: nodeHook(
+            "const fs = require('fs'); fs.writeFileSync('stdin.json', fs.readFileSync(0)); fs.appendFileSync('hooks.log', 'group\\n')",
+          ),
+        },
+      }),
+    );
+    const config = {
+      hooks: {
+        preAdd: [
+          appendToLog(
+            "[process.env.TAYLORED_HOOK, process.env.TAYLORED_MODE, process.env.TAYLORED_PATCH].join(' ')",
+          ),
+          appendToLog(
+            "process.env.TAYLORED_FILES.split('\\n').map((file) => file + '|').join('')",
+          ),
+        ],
+        postAdd: appendToLog("'post'"),
+      },
+    };
+
+    expect(await runHooks('pre', CONTEXT, config, repo)).toEqual([]);
+    expect(readLog()).toBe(
+      'preAdd --add group/1-feature.taylored\nsrc/a.js|src/b.js|\ngroup\n',
+    );
+    expect(
+      JSON.parse(fs.readFileSync(path.join(repo, 'stdin.json'), 'utf8')),
+    ).toEqual({ hook: 'preAdd', ...CONTEXT });
+  });
+
+  it('aborts on a failing pre hook and reports failing post hooks', async () => {
+    const config = {
+      hooks: {
+        preRemove: ['exit 3', appendToLog("'not-run'")],
+        postRemove: ['exit 1', appendToLog("'still-run'")],
+      },
+    };
+    const context: HookContext = {
+      ...CONTEXT,
+      operation: 'remove',
+      mode: '--remove',
+    };
+
+    const error = await runHooks('pre', context, config, repo).catch((e) => e);
+    expect(error).toBeInstanceOf(TayloredError);
+    expect(error.code).toBe('HOOK_FAILED');
+    expect(error.message).toBe(
+      "CRITICAL ERROR: The preRemove hook 'exit 3' (.tayloredrc) failed with exit code 3. --remove was not run.",
+    );
+    expect(fs.existsSync(path.join(repo, 'hooks.log'))).toBe(false);
+
+    expect(await runHooks('post', context, config, repo)).toEqual(['exit 1']);
+    expect(readLog()).toBe('still-run\n');
+    expect(errorSpy).toHaveBeenCalledWith(
+      "ERROR: The postRemove hook 'exit 1' (.tayloredrc) failed with exit code 1. --remove itself completed successfully.",
+    );
+  });
+
+  it('rejects hooks that are not commands', async () => {
+    fs.writeFileSync(
+      path.join(repo, '.tayloredrc'),
+      JSON.stringify({ hooks: { preAdd: 1, postAdd: ['ok', ''], preAd: 'x' } }),
+    );
+    const error = await loadProjectConfig(repo).catch((e) => e);
+    expect(error.code).toBe('CONFIG_ERROR');
+    expect(error.details).toEqual([
+      "'hooks.preAdd' must be a command or an array of commands (non-empty strings).",
+      "'hooks.postAdd' must be a command or an array of commands (non-empty strings).",
+      "Unknown key 'hooks.preAd'. Did you mean 'preAdd'? Valid keys: preAdd, postAdd, preRemove, postRemove, preSave, postSave, preOffset, postOffset, preAutomatic, postAutomatic.",
+    ]);
+
+    fs.writeFileSync(
+      path.join(repo, '.taylored', 'group', 'taylored.json'),
+      JSON.stringify({ hooks: { postAdd: 5 } }),
+    );
+    const manifestError = await runHooks('pre', CONTEXT, {}, repo).catch(
+      (e) => e,
+    );
+    expect(manifestError.code).toBe('CONFIG_ERROR');
+    expect(manifestError.details).toEqual([
+      "'hooks.postAdd' must be a command or an array of commands (non-empty strings).",
+    ]);
+  });
+});
@@ -0,0 +1,118 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execSync } from 'child_process';
+import { diffLines, formatUnifiedDiff } from '../../lib/line-diff';
+
+const lines = (count: number) =>
+  Array.from({ length: count }, (_, i) => `line ${i + 1}\n`).join('');
+
+describe('lib/line-diff', () => {
+  it('should produce a minimal edit script that rebuilds both texts', () => {
+    const oldText = 'a\nb\nc\na\nb\nb\na\n';
+    const newText = 'c\nb\na\nb\na\nc\n';
+    const script = diffLines(oldText, newText);
+
+    expect(
+      script
+        .filter((l) => l.type !== '+')
+        .map((l) => l.text)
+        .join(''),
+    ).toBe(oldText);
+    expect(
+      script
+        .filter((l) => l.type !== '-')
+        .map((l) => l.text)
+        .join(''),
+    ).toBe(newText);
+    // The classic example from Myers' paper has an edit distance of 5.
+    expect(script.filter((l) => l.type !== ' ')).toHaveLength(5);
+  });
+
+  it('should format hunks with context and line statistics', () => {
+    const oldText = lines(20);
+    const newText = lines(20)
+      .replace('line 2\n', 'line two\n')
+      .replace('line 15\n', '');
+
+    const diff = formatUnifiedDiff('a.txt', 'a.txt', oldText, newText);
+
+    expect(diff.added).toBe(1);
+    expect(diff.removed).toBe(2);
+    expect(diff.text).toBe(
+      [
+        '--- a/a.txt',
+        '+++ b/a.txt',
+        '@@ -1,5 +1,5 @@',
+        ' line 1',
+        '-line 2',
+        '+line two',
+        ' line 3',
+        ' line 4',
+        ' line 5',
+        '@@ -12,7 +12,6 @@',
+        ' line 12',
+        ' line 13',
+        ' line 14',
+        '-line 15',
+        ' line 16',
+        ' line 17',
+        ' line 18',
+        '',
+      ].join('\n'),
+    );
+    expect(formatUnifiedDiff('a.txt', 'a.txt', oldText, oldText).text).toBe('');
+  });
+
+  it('should format new files, deleted files and missing final newlines', () => {
+    expect(formatUnifiedDiff(null, 'new.txt', '', 'one\ntwo').text).toBe(
+      [
+        '--- /dev/null',
+        '+++ b/new.txt',
+        '@@ -0,0 +1,2 @@',
+        '+one',
+        '+two',
+        '\\ No newline at end of file',
+        '',
+      ].join('\n'),
+    );
+    expect(formatUnifiedDiff('old.txt', null, 'bye\n', '').text).toBe(
+      ['--- a/old.txt', '+++ /dev/null', '@@ -1 +0,0 @@', '-bye', ''].join(
+        '\n',
+      ),
+    );
+  });
+
+  it('should color headers and changed lines when asked to', () => {
+    const diff = formatUnifiedDiff('a.txt', 'a.txt', 'a\nb\n', 'a\nc\n', {
+      color: true,
+    });
+    expect(diff.text).toContain('\x1b[1m--- a/a.txt\x1b[0m');
+    expect(diff.text).toContain('\x1b[36m@@ -1,2 +1,2 @@\x1b[0m');
+    expect(diff.text).toContain('\x1b[31m-b\x1b[0m');
+    expect(diff.text).toContain('\x1b[32m+c\x1b[0m');
+    expect(diff.text).toContain('\n a\n');
+  });
+
+  it('should produce diffs that git apply accepts', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'taylored-line-diff-'));
+    try {
+      const oldText = lines(50);
+      const newText = lines(50)
+        .replace('line 1\n', '')
+        .replace('line 10\n', 'line 10\nline 10.5\n')
+        .replace('line 11\n', 'line eleven\n')
+        .replace('line 40\n', 'line forty\n')
+        .replace('line 50\n', 'line 50');
+      fs.writeFileSync(path.join(dir, 'a.txt'), oldText);
+      fs.writeFileSync(
+        path.join(dir, 'change.patch'),
+        formatUnifiedDiff('a.txt', 'a.txt', oldText, newText).text,
+      );
+      execSync('git apply change.patch', { cwd: dir, stdio: 'pipe' });
+      expect(fs.readFileSync(path.join(dir, 'a.txt'), 'utf8')).toBe(newText);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,82 @@
+import {
+  parseDependencyHeaders,
+  orderPatchesByDependencies,
+  PatchDependencies,
+} from '../../lib/patch-dependencies';
+
+const graph = (edges: { [patch: string]: string[] }) =>
+  new Map<string, PatchDependencies>(
+    Object.entries(edges).map(([patch, requires]) => [
+      patch,
+      { requires, conflicts: [] },
+    ]),
+  );
+
+describe('lib/patch-dependencies', () => {
+  describe('parseDependencyHeaders', () => {
+    it('should read Requires and Conflicts lines from the preamble', () => {
+      const content = `Requires: 1-base, shared/logging
+requires: extra
+Conflicts: legacy other
+diff --git a/file.txt b/file.txt
+--- a/file.txt
++++ b/file.txt
+@@ -1 +1,2 @@
+ line
++Requires: not-a-header
+`;
+      expect(parseDependencyHeaders(content)).toEqual({
+        requires: ['1-base', 'shared/logging', 'extra'],
+        conflicts: ['legacy', 'other'],
+      });
+    });
+
+    it('should return empty lists for a patch without headers', () => {
+      expect(
+        parseDependencyHeaders('--- a/f\n+++ b/f\n@@ -1 +1 @@\n-a\n+b\n'),
+      ).toEqual({ requires: [], conflicts: [] });
+    });
+  });
+
+  describe('orderPatchesByDependencies', () => {
+    it('should keep the original order when nothing is declared', () => {
+      const keys = ['1-a.taylored', '2-b.taylored', '10-c.taylored'];
+      expect(orderPatchesByDependencies(keys, new Map())).toEqual(keys);
+    });
+
+    it('should move requirements before the patches that need them', () => {
+      const keys = ['1-a.taylored', '2-b.taylored', '3-c.taylored'];
+      const ordered = orderPatchesByDependencies(
+        keys,
+        graph({ '1-a.taylored': ['3-c.taylored'] }),
+      );
+      expect(ordered).toEqual(['2-b.taylored', '3-c.taylored', '1-a.taylored']);
+    });
+
+    it('should ignore requirements on patches outside the list', () => {
+      const keys = ['1-a.taylored', '2-b.taylored'];
+      expect(
+        orderPatchesByDependencies(
+          keys,
+          graph({ '1-a.taylored': ['elsewhere.taylored'] }),
+        ),
+      ).toEqual(keys);
+    });
+
+    it('should report a cycle with its path', () => {
+      const keys = ['1-a.taylored', '2-b.taylored', '3-c.taylored'];
+      expect(() =>
+        orderPatchesByDependencies(
+          keys,
+          graph({
+            '1-a.taylored': ['2-b.taylored'],
+            '2-b.taylored': ['3-c.taylored'],
+            '3-c.taylored': ['1-a.taylored'],
+          }),
+        ),
+      ).toThrow(
+        'Dependency cycle detected: 1-a.taylored -> 2-b.taylored -> 3-c.taylored -> 1-a.taylored',
+      );
+    });
+  });
+});
@@ -0,0 +1,302 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execSync } from 'child_process';
+import {
+  computePatchedFiles,
+  writePatchedFiles,
+  PatchApplyError,
+} from '../../lib/patch-engine';
+
+type Tree = { [relativePath: string]: string };
+
+const tempDirs: string[] = [];
+const makeTempDir = (): string => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'taylored-engine-'));
+  tempDirs.push(dir);
+  return dir;
+};
+
+const writeTree = (dir: string, tree: Tree) => {
+  for (const [relativePath, content] of Object.entries(tree)) {
+    fs.mkdirSync(path.dirname(path.join(dir, relativePath)), {
+      recursive: true,
+    });
+    fs.writeFileSync(path.join(dir, relativePath), content);
+  }
+};
+
+const readTree = (dir: string, prefix = ''): Tree => {
+  const tree: Tree = {};
+  for (const entry of fs.readdirSync(path.join(dir, prefix), {
+    withFileTypes: true,
+  })) {
+    const relativePath = path.posix.join(prefix, entry.name);
+    if (entry.isDirectory()) {
+      Object.assign(tree, readTree(dir, relativePath));
+    } else {
+      tree[relativePath] = fs.readFileSync(
+        path.join(dir, relativePath),
+        'utf8',
+      );
+    }
+  }
+  return tree;
+};
+
+// Produces a patch exactly as `taylored --save` would: a `git diff` between two commits.
+const diffTrees = (before: Tree, after: Tree): string => {
+  const repo = makeTempDir();
+  const git = (command: string) =>
+    execSync(`git ${command}`, { cwd: repo, encoding: 'utf8' });
+  git('init -q');
+  git('config user.email test@example.com');
+  git('config user.name Test');
+  writeTree(repo, before);
+  git('add -A');
+  git('commit -q -m before');
+  for (const relativePath of Object.keys(before)) {
+    fs.rmSync(path.join(repo, relativePath));
+  }
+  writeTree(repo, after);
+  git('add -A');
+  return git('diff --cached --binary HEAD');
+};
+
+const applyWithGit = (before: Tree, patch: string, args: string) => {
+  const dir = makeTempDir();
+  writeTree(dir, before);
+  const patchPath = path.join(makeTempDir(), 'change.patch');
+  fs.writeFileSync(patchPath, patch);
+  try {
+    execSync(`git apply ${args} "${patchPath}"`, { cwd: dir, stdio: 'pipe' });
+    return { ok: true, tree: readTree(dir) };
+  } catch (error: any) {
+    return { ok: false, tree: readTree(dir) };
+  }
+};
+
+const applyNatively = async (
+  before: Tree,
+  patch: string,
+  options: { isReverse?: boolean; fixWhitespace?: boolean },
+) => {
+  const dir = makeTempDir();
+  writeTree(dir, before);
+  try {
+    await writePatchedFiles(computePatchedFiles(patch, dir, options), dir);
+    return { ok: true, tree: readTree(dir) };
+  } catch (error: any) {
+    if (!(error instanceof PatchApplyError)) {
+      throw error;
+    }
+    return { ok: false, tree: readTree(dir) };
+  }
+};
+
+const expectSameResultAsGit = async (before: Tree, patch: string) => {
+  for (const isReverse of [false, true]) {
+    const gitArgs = `--whitespace=fix${isReverse ? ' --reverse' : ''}`;
+    expect(
+      await applyNatively(before, patch, { isReverse, fixWhitespace: true }),
+    ).toEqual(applyWithGit(before, patch, gitArgs));
+  }
+};
+
+const lines = (count: number, label = 'line') =>
+  Array.from({ length: count }, (_, i) => `${label} ${i + 1}\n`).join('');
+
+describe('lib/patch-engine', () => {
+  afterAll(() => {
+    tempDirs.forEach((dir) => fs.rmSync(dir, { recursive: true, force: true }));
+  });
+
+  it('should apply and revert a multi-hunk modification like git apply', async () => {
+    const before = { 'src/app.txt': lines(40) };
+    const after = {
+      'src/app.txt': lines(40)
+        .replace('line 5\n', 'line 5\ninserted\n')
+        .replace('line 30\n', ''),
+    };
+    const patch = diffTrees(before, after);
+
+    expect(await applyNatively(before, patch, {})).toEqual({
+      ok: true,
+      tree: after,
+    });
+    await expectSameResultAsGit(before, patch);
+    await expectSameResultAsGit(after, patch);
+  });
+
+  it('should find hunks at an offset', async () => {
+    const before = { 'a.txt': lines(20) };
+    const patch = diffTrees(before, {
+      'a.txt': lines(20).replace('line 12\n', 'changed 12\n'),
+    });
+    await expectSameResultAsGit(
+      { 'a.txt': lines(5, 'prefix') + lines(20) },
+      patch,
+    );
+  });
+
+  it('should create, delete and rename files', async () => {
+    const before = {
+      'keep.txt': 'keep\n',
+      'old/name.txt': lines(10),
+      'gone/file.txt': 'bye\n',
+    };
+    const after = {
+      'keep.txt': 'keep\n',
+      'new/name.txt': lines(10).replace('line 10\n', 'line ten\n'),
+      'created.txt': 'hello\n',
+    };
+    const patch = diffTrees(before, after);
+    expect(patch).toContain('rename from old/name.txt');
+
+    await expectSameResultAsGit(before, patch);
+    await expectSameResultAsGit(after, patch);
+  });
+
+  it('should handle missing newlines at the end of files', async () => {
+    const before = { 'a.txt': 'one\ntwo' };
+    await expectSameResultAsGit(
+      before,
+      diffTrees(before, { 'a.txt': 'one\ntwo\nthree\n' }),
+    );
+    await expectSameResultAsGit(
+      { 'b.txt': 'one\n' },
+      diffTrees({ 'b.txt': 'one\n' }, { 'b.txt': 'one\ntwo' }),
+    );
+  });
+
+  it('should not mistake removed lines starting with "--" for file headers', async () => {
+    const before = { 'a.sql': 'select 1;\n-- comment\n--- more\nselect 2;\n' };
+    const after = { 'a.sql': 'select 1;\nselect 2;\n' };
+    await expectSameResultAsGit(before, diffTrees(before, after));
+  });
+
+  it('should fix whitespace in added lines like --whitespace=fix', async () => {
+    const patch = `--- a/a.txt
++++ b/a.txt
+@@ -1,2 +1,6 @@
+ first
++trailing spaces
++  \tspace before tab
++
++
+ last
+`;
+    await expectSameResultAsGit({ 'a.txt': 'first\nlast\n' }, patch);
+
+    const atEnd = `--- a/a.txt
++++ b/a.txt
+@@ -1 +1,3 @@
+ only
++
++
+`;
+    await expectSameResultAsGit({ 'a.txt': 'only\n' }, atEnd);
+  });
+
+  it('should fail without modifying anything when a hunk does not match', async () => {
+    const before = { 'a.txt': lines(10), 'b.txt': lines(10) };
+    const patch = diffTrees(before, {
+      'a.txt': lines(10).replace('line 2\n', 'two\n'),
+      'b.txt': lines(10).replace('line 2\n', 'two\n'),
+    });
+    const drifted = {
+      'a.txt': lines(10),
+      'b.txt': lines(10).replace('line 3\n', 'three\n'),
+    };
+
+    const result = await applyNatively(drifted, patch, {});
+    expect(result).toEqual({ ok: false, tree: drifted });
+    expect(result).toEqual(applyWithGit(drifted, patch, ''));
+    expect(() => computePatchedFiles(patch, makeTempDir())).toThrow(
+      'a.txt: No such file or directory',
+    );
+  });
+
+  it('should apply and revert binary literals and deltas like git apply', async () => {
+    const binary = (text: string) => `\0${text}`;
+    const before = {
+      'image.bin': binary(lines(300)),
+      'gone.bin': binary('old asset'),
+    };
+    const after = {
+      'image.bin': binary(lines(300).replace('line 150\n', 'changed\n')),
+      'new.bin': binary('new asset'),
+    };
+    const patch = diffTrees(before, after);
+    expect(patch).toContain('GIT binary patch\ndelta ');
+    expect(patch).toContain('GIT binary patch\nliteral ');
+
+    expect(await applyNatively(before, patch, {})).toEqual({
+      ok: true,
+      tree: after,
+    });
+    await expectSameResultAsGit(before, patch);
+    await expectSameResultAsGit(after, patch);
+  });
+
+  it('should refuse binary patches whose original does not match or that carry no data', async () => {
+    const before = { 'image.bin': `\0${lines(300)}` };
+    const patch = diffTrees(before, { 'image.bin': `\0${lines(301)}` });
+    const other = { 'image.bin': `\0${lines(299)}` };
+    expect(await applyNatively(other, patch, {})).toEqual({
+      ok: false,
+      tree: other,
+    });
+    expect(applyWithGit(other, patch, '')).toEqual({ ok: false, tree: other });
+
+    const stub = `diff --git a/image.bin b/image.bin
+index 1234567..89abcde 100644
+Binary files a/image.bin and b/image.bin differ
+`;
+    const dir = makeTempDir();
+    writeTree(dir, before);
+    expect(() => computePatchedFiles(stub, dir)).toThrow(
+      "cannot apply binary patch to 'image.bin' without full index line",
+    );
+  });
+
+  it('should refuse paths outside the patched directory like git apply', async () => {
+    const parent = makeTempDir();
+    const dir = path.join(parent, 'repo');
+    fs.mkdirSync(dir);
+    const escaping = (target: string) => `diff --git a/${target} b/${target}
+new file mode 100644
+--- /dev/null
++++ b/${target}
+@@ -0,0 +1 @@
++escaped
+`;
+
+    for (const target of ['../escaped.txt', 'sub/../../escaped.txt']) {
+      expect(() => computePatchedFiles(escaping(target), dir)).toThrow(
+        PatchApplyError,
+      );
+      expect(() => computePatchedFiles(escaping(target), dir)).toThrow(
+        `invalid path '${target}'`,
+      );
+    }
+    // Rename headers name paths without an a/ or b/ prefix to strip.
+    writeTree(dir, { 'a.txt': 'a\n' });
+    const absolute = `diff --git a/a.txt b/a.txt
+similarity index 100%
+rename from a.txt
+rename to ${path.join(parent, 'escaped.txt')}
+`;
+    expect(() => computePatchedFiles(absolute, dir)).toThrow(
+      `invalid path '${path.join(parent, 'escaped.txt')}'`,
+    );
+    await expect(
+      writePatchedFiles(
+        [{ path: '../escaped.txt', content: Buffer.from('escaped\n') }],
+        dir,
+      ),
+    ).rejects.toThrow(PatchApplyError);
+    expect(fs.readdirSync(parent)).toEqual(['repo']);
+    expect(readTree(dir)).toEqual({ 'a.txt': 'a\n' });
+  });
+});
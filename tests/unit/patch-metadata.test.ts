@@ -0,0 +1,80 @@
+import {
+  formatPatchMetadata,
+  parsePatchMetadata,
+  splitPatchPreamble,
+  withPatchMetadata,
+} from '../../lib/patch-metadata';
+
+const DIFF = `diff --git a/file.txt b/file.txt
+--- a/file.txt
++++ b/file.txt
+@@ -1 +1,2 @@
+ line
++Title: not-a-header
+`;
+
+describe('lib/patch-metadata', () => {
+  it('should read every field from the preamble only', () => {
+    const content = `Title: Dark mode
+Description: Adds a dark theme.
+ .
+ It follows the system setting.
+Author: Jane Doe <jane@example.com>
+version: 1.2.0
+Tags: ui, dark theme
+Tags: css
+Target-Version: >=2.0.0
+Requires: 1-base, shared/logging
+Conflicts: legacy
+${DIFF}`;
+    expect(parsePatchMetadata(content)).toEqual({
+      title: 'Dark mode',
+      description: 'Adds a dark theme.\n\nIt follows the system setting.',
+      author: 'Jane Doe <jane@example.com>',
+      version: '1.2.0',
+      tags: ['ui', 'dark theme', 'css'],
+      targetVersion: '>=2.0.0',
+      requires: ['1-base', 'shared/logging'],
+      conflicts: ['legacy'],
+    });
+    expect(parsePatchMetadata(DIFF)).toEqual({});
+  });
+
+  it('should read git format-patch headers as title and author', () => {
+    const content = `From: Jane Doe <jane@example.com>
+Date: Mon, 1 Jan 2025 00:00:00 +0000
+Subject: [PATCH 1/2] Fix the parser
+
+Free-form message.
+---
+${DIFF}`;
+    expect(parsePatchMetadata(content)).toEqual({
+      title: 'Fix the parser',
+      author: 'Jane Doe <jane@example.com>',
+    });
+  });
+
+  it('should write metadata that reads back identically', () => {
+    const metadata = {
+      title: 'Dark mode',
+      description: 'First paragraph.\n\nSecond paragraph.',
+      tags: ['ui', 'theme'],
+      requires: ['1-base'],
+    };
+    const content = withPatchMetadata(DIFF, metadata);
+    expect(content).toBe(
+      `Title: Dark mode
+Description: First paragraph.
+ .
+ Second paragraph.
+Tags: ui, theme
+Requires: 1-base
+
+${DIFF}`,
+    );
+    expect(parsePatchMetadata(content)).toEqual(metadata);
+    expect(splitPatchPreamble(content).body).toBe(DIFF);
+    expect(withPatchMetadata(content, {})).toBe(DIFF);
+    expect(formatPatchMetadata({ tags: [] })).toBe('');
+  });
+});
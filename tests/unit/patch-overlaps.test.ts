@@ -0,0 +1,124 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { analyzePatchOverlaps, NamedPatch } from '../../lib/patch-overlaps';
+
+const ORIGINAL = 'a\nb\nc\nd\ne\n';
+
+const patch = (name: string, hunk: string): NamedPatch => ({
+  name,
+  content: Buffer.from(`--- a/f.txt\n+++ b/f.txt\n${hunk}`),
+});
+
+// b -> B
+const upperB = patch('upper-b', '@@ -1,3 +1,3 @@\n a\n-b\n+B\n c\n');
+// b -> X: changes the same line.
+const otherB = patch('other-b', '@@ -1,3 +1,3 @@\n a\n-b\n+X\n c\n');
+// e -> E: shares line 3 with upperB, as context only.
+const upperE = patch('upper-e', '@@ -3,3 +3,3 @@\n c\n d\n-e\n+E\n');
+// c -> C, without leading context: applies after upperB, but removes the
+// context upperB needs.
+const upperC = patch('upper-c', '@@ -3,3 +3,3 @@\n-c\n+C\n d\n e\n');
+const otherFile = {
+  name: 'other-file',
+  content: Buffer.from('--- a/g.txt\n+++ b/g.txt\n@@ -1 +1 @@\n-x\n+y\n'),
+};
+
+const tempDirs: string[] = [];
+const makeTree = (content: string): string => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'taylored-overlaps-test-'));
+  tempDirs.push(dir);
+  fs.writeFileSync(path.join(dir, 'f.txt'), content);
+  fs.writeFileSync(path.join(dir, 'g.txt'), 'x\n');
+  return dir;
+};
+
+describe('lib/patch-overlaps analyzePatchOverlaps', () => {
+  afterAll(() => {
+    for (const dir of tempDirs) {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should classify every pair and leave the tree untouched', () => {
+    const dir = makeTree(ORIGINAL);
+    const matrix = analyzePatchOverlaps(
+      [upperB, otherB, upperE, upperC, otherFile],
+      dir,
+    );
+    expect(matrix.patches).toEqual([
+      'upper-b',
+      'other-b',
+      'upper-e',
+      'upper-c',
+      'other-file',
+    ]);
+    const verdict = (first: string, second: string) =>
+      matrix.pairs.find((p) => p.first === first && p.second === second)!
+        .verdict;
+    expect(matrix.pairs).toHaveLength(10);
+    expect(verdict('upper-b', 'other-b')).toBe('conflict');
+    expect(verdict('upper-b', 'upper-e')).toBe('safe');
+    expect(verdict('upper-b', 'upper-c')).toBe('order-dependent');
+    expect(verdict('upper-b', 'other-file')).toBe('independent');
+    expect(fs.readFileSync(path.join(dir, 'f.txt'), 'utf8')).toBe(ORIGINAL);
+  });
+
+  it('should report overlapping line ranges and the failing order', () => {
+    const { pairs } = analyzePatchOverlaps(
+      [upperB, upperE, upperC],
+      makeTree(ORIGINAL),
+    );
+    expect(pairs[0]).toMatchObject({
+      sharedFiles: ['f.txt'],
+      overlaps: [
+        {
+          file: 'f.txt',
+          first: { start: 1, end: 3 },
+          second: { start: 3, end: 5 },
+          contextOnly: true,
+        },
+      ],
+      firstThenSecond: true,
+      secondThenFirst: true,
+    });
+    expect(pairs[1]).toMatchObject({
+      first: 'upper-b',
+      second: 'upper-c',
+      firstThenSecond: true,
+      secondThenFirst: false,
+    });
+    expect(pairs[1].overlaps[0].contextOnly).toBe(false);
+    expect(pairs[1].reasons).toContainEqual(
+      expect.stringMatching(
+        /^'upper-b' does not apply after 'upper-c': patch failed: f\.txt/,
+      ),
+    );
+  });
+
+  it('should test applied patches from a tree where they are removed', () => {
+    const { pairs } = analyzePatchOverlaps(
+      [upperB, otherB, upperE],
+      makeTree('a\nB\nc\nd\ne\n'),
+    );
+    expect(pairs.map((p) => p.verdict)).toEqual(['conflict', 'safe', 'safe']);
+    expect(pairs[1].reasons).toContain(
+      "'upper-b' is applied; it was removed in memory for the test",
+    );
+  });
+
+  it('should report pairs it cannot test as unknown', () => {
+    const { pairs } = analyzePatchOverlaps(
+      [upperB, upperE],
+      makeTree('unrelated\n'),
+    );
+    expect(pairs[0]).toMatchObject({
+      verdict: 'unknown',
+      firstThenSecond: null,
+      secondThenFirst: null,
+    });
+    expect(pairs[0].reasons).toContain(
+      "'upper-b' can be neither applied nor removed on the working tree",
+    );
+  });
+});
@@ -0,0 +1,113 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  assertPatchesSigned,
+  loadTrustedKeys,
+  signPatchFile,
+} from '../../lib/patch-signing';
+
+const PATCH = '--- a/f.txt\n+++ b/f.txt\n@@ -1 +1,2 @@\n a\n+b\n';
+
+const newKeyPair = () => {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519');
+  return {
+    privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }) as string,
+    publicKey: publicKey.export({ type: 'spki', format: 'pem' }) as string,
+  };
+};
+
+describe('lib/patch-signing', () => {
+  const alice = newKeyPair();
+  let repo: string;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    repo = fs.mkdtempSync(path.join(os.tmpdir(), 'taylored-signing-test-'));
+    fs.mkdirSync(path.join(repo, '.taylored'));
+    fs.mkdirSync(path.join(repo, '.taylored-keys'));
+    fs.writeFileSync(
+      path.join(repo, '.taylored-keys', 'alice.pem'),
+      alice.publicKey,
+    );
+    fs.writeFileSync(path.join(repo, '.taylored', 'p.taylored'), PATCH);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(repo, { recursive: true, force: true });
+  });
+
+  it('should accept a patch signed by a trusted key', async () => {
+    const signature = await signPatchFile(
+      path.join(repo, '.taylored', 'p.taylored'),
+      alice.privateKey,
+    );
+    const [trusted] = await loadTrustedKeys(repo, '.taylored-keys');
+    expect(trusted).toMatchObject({ name: 'alice', keyId: signature.keyId });
+    expect(signature.keyId).toMatch(/^SHA256:[A-Za-z0-9+/]{43}$/);
+    await expect(
+      assertPatchesSigned(
+        ['p.taylored'],
+        path.join(repo, '.taylored'),
+        repo,
+        '.taylored-keys',
+      ),
+    ).resolves.toBeUndefined();
+  });
+
+  it('should name the key of tampered and untrusted patches', async () => {
+    const patchPath = path.join(repo, '.taylored', 'p.taylored');
+    await signPatchFile(patchPath, alice.privateKey);
+    fs.appendFileSync(patchPath, '+c\n');
+    const bob = newKeyPair();
+    fs.writeFileSync(path.join(repo, '.taylored', 'q.taylored'), PATCH);
+    const bobSignature = await signPatchFile(
+      path.join(repo, '.taylored', 'q.taylored'),
+      bob.privateKey,
+    );
+    fs.writeFileSync(path.join(repo, '.taylored', 'unsigned.taylored'), PATCH);
+
+    await expect(
+      assertPatchesSigned(
+        ['p.taylored', 'q.taylored', 'unsigned.taylored'],
+        path.join(repo, '.taylored'),
+        repo,
+        '.taylored-keys',
+      ),
+    ).rejects.toMatchObject({
+      code: 'SIGNATURE_ERROR',
+      details: [
+        expect.stringMatching(
+          /^Patch 'p\.taylored' does not match its signature by key 'alice' \(SHA256:/,
+        ),
+        `Patch 'q.taylored' is signed by key ${bobSignature.keyId}, which is not in the trust store '.taylored-keys/'.`,
+        expect.stringMatching(/^Patch 'unsigned\.taylored' is not signed/),
+      ],
+    });
+  });
+
+  it('should check the patches of the given directory', async () => {
+    // The unsigned .taylored/p.taylored must not be the one checked.
+    const otherDir = path.join(repo, 'worktree-patches');
+    fs.mkdirSync(otherDir);
+    fs.writeFileSync(path.join(otherDir, 'p.taylored'), PATCH);
+    await signPatchFile(path.join(otherDir, 'p.taylored'), alice.privateKey);
+    await expect(
+      assertPatchesSigned(['p.taylored'], otherDir, repo, '.taylored-keys'),
+    ).resolves.toBeUndefined();
+  });
+
+  it('should refuse keys that are not Ed25519', async () => {
+    const { privateKey } = crypto.generateKeyPairSync('ec', {
+      namedCurve: 'prime256v1',
+    });
+    await expect(
+      signPatchFile(
+        path.join(repo, '.taylored', 'p.taylored'),
+        privateKey.export({ type: 'pkcs8', format: 'pem' }) as string,
+      ),
+    ).rejects.toThrow('The signing key is not an Ed25519 key (found: ec).');
+  });
+});
@@ -0,0 +1,199 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execSync } from 'child_process';
+import {
+  applyPatchWithThreeWayMerge,
+  reportThreeWayResults,
+  ThreeWayConflictError,
+} from '../../lib/three-way-merge';
+
+const tempDirs: string[] = [];
+const makeTempDir = (): string => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'taylored-3way-test-'));
+  tempDirs.push(dir);
+  return dir;
+};
+
+const lines = (count: number) =>
+  Array.from({ length: count }, (_, i) => `line ${i + 1}\n`).join('');
+
+// Changes line 5 of a 10-line file; the index line is omitted, so the merge
+// base has to be reconstructed from the hunk.
+const contextOnlyPatch = `diff --git a/a.txt b/a.txt
+--- a/a.txt
++++ b/a.txt
+@@ -2,7 +2,7 @@
+ line 2
+ line 3
+ line 4
+-line 5
++line five
+ line 6
+ line 7
+ line 8
+`;
+
+const setUp = (files: { [name: string]: string }, patch: string) => {
+  const dir = makeTempDir();
+  for (const [name, content] of Object.entries(files)) {
+    fs.writeFileSync(path.join(dir, name), content);
+  }
+  const patchPath = path.join(makeTempDir(), 'change.taylored');
+  fs.writeFileSync(patchPath, patch);
+  return { dir, patchPath };
+};
+
+describe('lib/three-way-merge', () => {
+  let logSpy: jest.SpyInstance;
+  let errorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    errorSpy.mockRestore();
+  });
+
+  afterAll(() => {
+    tempDirs.forEach((dir) => fs.rmSync(dir, { recursive: true, force: true }));
+  });
+
+  it('should apply files whose hunks still match without merging', async () => {
+    const { dir, patchPath } = setUp({ 'a.txt': lines(10) }, contextOnlyPatch);
+
+    const results = await applyPatchWithThreeWayMerge(patchPath, dir, false);
+
+    expect(results).toEqual([{ path: 'a.txt', outcome: 'applied' }]);
+    expect(fs.readFileSync(path.join(dir, 'a.txt'), 'utf8')).toBe(
+      lines(10).replace('line 5\n', 'line five\n'),
+    );
+    expect(() => reportThreeWayResults('change', results)).not.toThrow();
+  });
+
+  it('should merge drifted context using a base reconstructed from the hunks', async () => {
+    const drifted = lines(10).replace('line 2\n', 'line two\n');
+    const { dir, patchPath } = setUp({ 'a.txt': drifted }, contextOnlyPatch);
+
+    const results = await applyPatchWithThreeWayMerge(patchPath, dir, false);
+
+    expect(results).toEqual([
+      { path: 'a.txt', outcome: 'merged', baseSource: 'context' },
+    ]);
+    expect(fs.readFileSync(path.join(dir, 'a.txt'), 'utf8')).toBe(
+      drifted.replace('line 5\n', 'line five\n'),
+    );
+
+    // Removing the patch again merges in reverse.
+    await applyPatchWithThreeWayMerge(patchPath, dir, true);
+    expect(fs.readFileSync(path.join(dir, 'a.txt'), 'utf8')).toBe(drifted);
+  });
+
+  it('should leave conflict markers and report overlapping changes', async () => {
+    const { dir, patchPath } = setUp(
+      { 'a.txt': lines(10).replace('line 5\n', 'line 5 (local)\n') },
+      contextOnlyPatch,
+    );
+
+    const results = await applyPatchWithThreeWayMerge(patchPath, dir, false);
+
+    expect(results).toEqual([
+      { path: 'a.txt', outcome: 'conflicted', baseSource: 'context' },
+    ]);
+    const merged = fs.readFileSync(path.join(dir, 'a.txt'), 'utf8');
+    expect(merged).toContain(
+      '<<<<<<< working tree\nline 5 (local)\n=======\nline five\n>>>>>>> change.taylored\n',
+    );
+    expect(merged.startsWith('line 1\nline 2\n')).toBe(true);
+    expect(fs.existsSync(path.join(dir, 'a.txt.rej'))).toBe(false);
+
+    let thrown: any;
+    try {
+      reportThreeWayResults('change', results);
+    } catch (error) {
+      thrown = error;
+    }
+    expect(thrown).toBeInstanceOf(ThreeWayConflictError);
+    expect(thrown.conflictedFiles).toEqual(['a.txt']);
+    expect(thrown.message).toContain('left conflicts in 1 file(s): a.txt');
+  });
+
+  it('should use the pre-image blob recorded in the patch when it is available', async () => {
+    const repo = makeTempDir();
+    const git = (command: string) =>
+      execSync(`git ${command}`, { cwd: repo, encoding: 'utf8' });
+    git('init -q');
+    git('config user.email test@example.com');
+    git('config user.name Test');
+    fs.writeFileSync(path.join(repo, 'a.txt'), lines(30));
+    git('add -A');
+    git('commit -q -m base');
+    fs.writeFileSync(
+      path.join(repo, 'a.txt'),
+      lines(30).replace('line 3\n', 'line three\n'),
+    );
+    const patchPath = path.join(makeTempDir(), 'change.taylored');
+    fs.writeFileSync(patchPath, git('diff'));
+    git('checkout -q -- a.txt');
+
+    // The hunk starts at line 1, so it no longer applies once a line is
+    // prepended; the edit far below is outside the hunk's context.
+    const drifted = 'header\n' + lines(30).replace('line 20\n', 'line 20!\n');
+    fs.writeFileSync(path.join(repo, 'a.txt'), drifted);
+
+    const results = await applyPatchWithThreeWayMerge(patchPath, repo, false);
+
+    expect(results).toEqual([
+      { path: 'a.txt', outcome: 'merged', baseSource: 'blob' },
+    ]);
+    expect(fs.readFileSync(path.join(repo, 'a.txt'), 'utf8')).toBe(
+      drifted.replace('line 3\n', 'line three\n'),
+    );
+  });
+
+  it('should keep a file the patch deletes if it was modified', async () => {
+    const patch = `diff --git a/gone.txt b/gone.txt
+deleted file mode 100644
+--- a/gone.txt
++++ /dev/null
+@@ -1,2 +0,0 @@
+-one
+-two
+`;
+    const { dir, patchPath } = setUp(
+      { 'gone.txt': 'one\ntwo\nthree\n' },
+      patch,
+    );
+
+    const results = await applyPatchWithThreeWayMerge(patchPath, dir, false);
+
+    expect(results).toEqual([
+      {
+        path: 'gone.txt',
+        outcome: 'conflicted',
+        baseSource: 'context',
+        note: 'deleted by the patch but modified in the working tree; left in place',
+      },
+    ]);
+    expect(fs.readFileSync(path.join(dir, 'gone.txt'), 'utf8')).toBe(
+      'one\ntwo\nthree\n',
+    );
+  });
+
+  it('should refuse paths outside the patched directory', async () => {
+    const { dir: parent, patchPath } = setUp(
+      { 'a.txt': lines(10) },
+      contextOnlyPatch.replace(/a\.txt/g, '../a.txt'),
+    );
+    const dir = path.join(parent, 'repo');
+    fs.mkdirSync(dir);
+
+    await expect(
+      applyPatchWithThreeWayMerge(patchPath, dir, false),
+    ).rejects.toThrow("invalid path '../a.txt'");
+    expect(fs.readFileSync(path.join(parent, 'a.txt'), 'utf8')).toBe(lines(10));
+  });
+});
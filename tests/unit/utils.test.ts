@@ -3,6 +3,8 @@ import * as path from 'path';
 import {
   sortPatchesNumerically,
   findPatchesInDirectory,
+  suggestClosest,
+  analyzeDiffContent,
 } from '../../lib/utils'; // Adjust path as needed
 import { TAYLORED_FILE_EXTENSION } from '../../lib/constants'; // Corrected import path
 // Mock fs module for findPatchesInDirectory tests
@@ -228,6 +230,56 @@ describe('lib/utils', () => {
       );
     });
   });
+
+  describe('analyzeDiffContent', () => {
+    const binarySection = (name: string, header: string) =>
+      `diff --git a/${name} b/${name}\n${header}\nBinary files a/${name} and b/${name} differ\n`;
+
+    it('should count new and deleted binary files as additions and deletions', () => {
+      const added = analyzeDiffContent(
+        binarySection('logo.png', 'new file mode 100644'),
+      );
+      expect(added).toMatchObject({
+        additions: 0,
+        deletions: 0,
+        binaryFiles: { added: 1, deleted: 0, modified: 0 },
+        isPure: true,
+        success: true,
+      });
+      const mixed = analyzeDiffContent(
+        binarySection('logo.png', 'deleted file mode 100644') +
+          'diff --git a/a.txt b/a.txt\n--- a/a.txt\n+++ b/a.txt\n@@ -1 +1,2 @@\n one\n+two\n',
+      );
+      expect(mixed).toMatchObject({
+        additions: 1,
+        binaryFiles: { added: 0, deleted: 1, modified: 0 },
+        isPure: false,
+      });
+    });
+
+    it('should treat a modified binary file as a mix of additions and deletions', () => {
+      expect(
+        analyzeDiffContent(binarySection('logo.png', 'index 1111111..2222222')),
+      ).toMatchObject({
+        binaryFiles: { added: 0, deleted: 0, modified: 1 },
+        isPure: false,
+      });
+    });
+  });
+
+  describe('suggestClosest', () => {
+    const keys = ['baseBranch', 'patchDirectory', 'automatic', 'output'];
+
+    it('should suggest the closest candidate for a typo', () => {
+      expect(suggestClosest('baseBrach', keys)).toBe('baseBranch');
+      expect(suggestClosest('Output', keys)).toBe('output');
+      expect(suggestClosest('patchDir', keys)).toBeUndefined();
+    });
+
+    it('should not suggest unrelated candidates', () => {
+      expect(suggestClosest('engine', keys)).toBeUndefined();
+    });
+  });
 });
 
 // Add tests for list-handler's tree printing logic